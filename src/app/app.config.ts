@@ -1,13 +1,25 @@
-import { ApplicationConfig } from '@angular/core';
+import { ApplicationConfig, inject, provideAppInitializer } from '@angular/core';
 import { provideRouter } from '@angular/router';
 import { provideAnimations } from '@angular/platform-browser/animations';
-import { provideHttpClient } from '@angular/common/http';
+import { provideHttpClient, withInterceptors } from '@angular/common/http';
 import { routes } from './app.routes';
+import { BackendConfigService } from './core/services/backend-config.service';
+import { MOCK_BACKEND, mockBackendInterceptor } from './core/services/backend-transport';
+import { InMemoryBackend } from './core/services/mock-backend';
+import { SessionService } from './core/services/session.service';
+import { loadTimeZoneRules } from './core/shared/time-zones';
 
 export const appConfig: ApplicationConfig = {
   providers: [
     provideRouter(routes),
     provideAnimations(),
-    provideHttpClient()
+    provideHttpClient(withInterceptors([mockBackendInterceptor])),
+    provideAppInitializer(() => {
+      const sessions = inject(SessionService);
+      return inject(BackendConfigService).load().then(() => sessions.startSync());
+    }),
+    provideAppInitializer(() => loadTimeZoneRules()),
+    // Nur aktiv bei transport: 'mock' in config.json
+    { provide: MOCK_BACKEND, useFactory: () => new InMemoryBackend() }
   ]
-};
\ No newline at end of file
+};
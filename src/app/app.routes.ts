@@ -1,4 +1,5 @@
 import { Routes } from '@angular/router';
+import { SessionBrowserComponent } from './core/session-browser/session-browser.component';
 import { Stage1SetupComponent } from './core/stages/stage1-setup/stage1-setup.component';
 import { Stage3CalibrationComponent } from './core/stages/stage3-calibration/stage3-calibration.component';
 import { Stage5ShadowsComponent } from './core/stages/stage5-shadows/stage5-shadows.component';
@@ -7,6 +8,7 @@ import { Stage7GeolocationComponent } from './core/stages/stage7-geolocation/sta
 
 export const routes: Routes = [
   { path: '', redirectTo: '/stage1-setup', pathMatch: 'full' },
+  { path: 'sessions', component: SessionBrowserComponent },
   { path: 'stage1-setup', component: Stage1SetupComponent },
   { path: 'stage3-calibration', component: Stage3CalibrationComponent },
   { path: 'stage5-shadows', component: Stage5ShadowsComponent },
@@ -1,9 +1,10 @@
 import { Component, signal } from '@angular/core';
 import { RouterOutlet } from '@angular/router';
+import { SyncStatusComponent } from './core/shared/sync-status/sync-status.component';
 
 @Component({
   selector: 'app-root',
-  imports: [RouterOutlet],
+  imports: [RouterOutlet, SyncStatusComponent],
   templateUrl: './app.html',
   styleUrl: './app.scss'
 })
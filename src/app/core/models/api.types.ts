@@ -0,0 +1,178 @@
+/**
+ * API Types für Shadow Geolocation
+ *
+ * Antworten der Backend-Endpunkte (Validierung, Geolocation, Sonnenstand).
+ * Werden von den Decodern in shared/api-decoders.ts befüllt.
+ */
+
+// ============================================================================
+// SHADOWS
+// ============================================================================
+
+export interface ShadowData {
+  version: string;
+  globalFovY: number;
+  screenshots: ScreenshotShadowData[];
+}
+
+export interface ScreenshotShadowData {
+  screenshotId: string;
+  id?: string;
+  timestamp?: string;
+  objects: ShadowObject[];
+}
+
+export interface ShadowObject {
+  id: string;
+  name: string;
+  pairs: ShadowPair[];
+}
+
+export interface ShadowPair {
+  objectPoint: {
+    normalizedX: number;
+    normalizedY: number;
+  };
+  shadowPoint: {
+    normalizedX: number;
+    normalizedY: number;
+    wall: string;
+    world3D?: {
+      x: number;
+      y: number;
+      z: number;
+    };
+  };
+}
+
+// ============================================================================
+// GEOLOCATION
+// ============================================================================
+
+export interface GeolocationResponse {
+  success: boolean;
+  message: string;
+  data?: {
+    locations: Array<{ latitude: number; longitude: number }>;
+    corridor: {
+      lat_min: number;
+      lat_max: number;
+      lon_min: number;
+      lon_max: number;
+      lat_center: number;
+      lon_center: number;
+    };
+    confidence: number;
+    sun_position: {
+      measured_azimuth: number;
+      measured_elevation: number;
+      calculated_azimuth: number;
+      calculated_elevation: number;
+    };
+    shadow_analysis: {
+      light_azimuth: number;
+      light_elevation: number;
+      inter_object_score: number;
+    };
+    error_deg: number;
+    input: {
+      date: string;
+      time_utc: string;
+      hemisphere: string;
+    };
+  };
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+export type ValidationStatus = 'pending' | 'valid' | 'warning' | 'error';
+
+export interface PointValidationResult {
+  pointIndex: number;
+  status: ValidationStatus;
+  errorPercent?: number;
+  errorDistance?: number;
+  message?: string;
+}
+
+export interface ValidationResult {
+  success: boolean;
+  objectId: string;
+  screenshotId: string;
+  status: ValidationStatus;
+  consistencyScore: number;
+  points: PointValidationResult[];
+  estimatedLightDirection?: {
+    x: number;
+    y: number;
+    z: number;
+  };
+  averageError?: number;
+  maxError?: number;
+  lightAzimuthDeg?: number;
+  lightElevationDeg?: number;
+  message?: string;
+}
+
+export interface InterObjectValidationResult {
+  success: boolean;
+  screenshotId: string;
+  status: ValidationStatus;
+  interObjectScore: number;
+  intraObjectScore?: number;
+  averageDeviationDeg?: number;
+  maxDeviationDeg?: number;
+  objectComparisons: {
+    objectId: string;
+    objectName: string;
+    estimatedLightDirection: {
+      x: number;
+      y: number;
+      z: number;
+    };
+    deviationFromMean: number;
+    status: ValidationStatus;
+  }[];
+  meanLightDirection?: {
+    x: number;
+    y: number;
+    z: number;
+  };
+  meanLightAzimuthDeg?: number;
+  meanLightElevationDeg?: number;
+
+  /** Ergebnisse der einzelnen Objekte */
+  objectResults: ValidationResult[];
+
+  message?: string;
+}
+
+export interface ValidationSummary {
+  totalScreenshots: number;
+  validScreenshots: number;
+  warningScreenshots: number;
+  errorScreenshots: number;
+}
+
+export interface GlobalValidationResult {
+  success: boolean;
+  sessionId: string;
+  status: ValidationStatus;
+  overallScore: number;
+  summary: ValidationSummary;
+
+  screenshotResults: InterObjectValidationResult[];
+  crossScreenshotConsistency?: number;
+  message?: string;
+}
+
+// ============================================================================
+// SUN POSITION
+// ============================================================================
+
+export interface SunPositionResult {
+  azimuth: number;
+  elevation: number;
+}
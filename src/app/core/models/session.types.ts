@@ -36,6 +36,14 @@ export interface RoomDimensions {
   height: number;  // Meter (Y-Achse)
 }
 
+/**
+ * Ebene Raumfläche (Wand, Boden, Schräge, ...) - Polygon in Raum-Koordinaten
+ */
+export interface RoomSurface {
+  name: string;        // eindeutig, Ziel von ShadowPoint.wall
+  vertices: Point3D[]; // ≥ 3, in einer Ebene
+}
+
 // ============================================================================
 // META (Stage 1)
 // ============================================================================
@@ -54,18 +62,69 @@ export interface MetaData {
 export interface ScreenshotData {
   id: string;
   filename: string;
-  timestamp: string;        // "t0" | "t0+30" | "t0+60" etc.
+  timestamp: string;        // "t0" | "t0+30" | "t0+60" etc. (Label, aus offsetSeconds)
   isReferencePoint: boolean;
+  offsetSeconds?: number;   // Sekunden nach t0 (ältere Sessions: nur timestamp)
   dimensions?: Dimensions;
+  capturedAt?: string;      // Aufnahmezeit aus EXIF/Dateiname (ISO, Zone nur falls bekannt)
+}
+
+// ============================================================================
+// ZEIT (Stage 1 / Stage 7)
+// ============================================================================
+
+/**
+ * Zeitzone der Aufnahme
+ *
+ * iana:    IANA-Zone ("Europe/Berlin") - Abweichung und Sommerzeit aus den tz-Regeln
+ * offset:  feste UTC-Abweichung in Minuten, dst = Sommerzeit darin enthalten (null = keine Angabe)
+ * unknown: nur die Wanduhrzeit der Kamera ist bekannt
+ */
+export type TimeZoneInfo =
+  | { kind: 'iana'; zone: string }
+  | { kind: 'offset'; offsetMinutes: number; dst: boolean | null }
+  | { kind: 'unknown' };
+
+/**
+ * Absoluter Bezugspunkt der Zeitachse: t0 = Referenz-Screenshot
+ */
+export interface TimeReference {
+  localDateTime: string;    // Wanduhrzeit von t0 "YYYY-MM-DDTHH:MM:SS"
+  timeZone: TimeZoneInfo;
 }
 
 // ============================================================================
 // CALIBRATION (Stage 3)
 // ============================================================================
 
+export type LensModel = 'brown-conrady' | 'fisheye';
+
+/**
+ * Objektiv-Verzeichnung (OpenCV-Konvention, siehe lens-distortion.ts)
+ *
+ * Bildkoordinaten relativ zur Bildmitte, y nach unten, geteilt durch die
+ * Brennweite, die zu fovY gehört. Die Koeffizienten gelten damit
+ * unabhängig von der Screenshot-Auflösung.
+ */
+export interface LensDistortion {
+  model: LensModel;
+  fovY: number;  // Grad, vertikales Bild-Sichtfeld der Normierung
+
+  // Radial (fisheye: Kannala-Brandt θ-Polynom)
+  k1: number;
+  k2: number;
+  k3: number;
+  k4: number;  // nur fisheye
+
+  // Tangential (nur brown-conrady)
+  p1: number;
+  p2: number;
+}
+
 export interface CameraParams {
   position: Point3D;
   fovY: number;  // Grad
+  distortion?: LensDistortion;  // fehlt = ideale Lochkamera
 }
 
 export interface DisplayParams {
@@ -83,7 +142,8 @@ export interface ScreenshotCalibration {
 }
 
 export interface CalibrationData {
-  room: RoomDimensions;
+  room: RoomDimensions;       // bei eigenen Flächen: umschließender Quader
+  surfaces?: RoomSurface[];   // fehlt = Quader aus room (back/left/right/front/floor)
   camera: CameraParams;
   globalDisplayZoom: number;
   screenshots: ScreenshotCalibration[];
@@ -93,7 +153,8 @@ export interface CalibrationData {
 // SHADOWS (Stage 5)
 // ============================================================================
 
-export type WallName = 'back' | 'left' | 'right' | 'front' | 'floor';
+/** Name einer Raumfläche (Standard-Quader: back, left, right, front, floor) */
+export type WallName = string;
 
 export interface ShadowPoint extends NormalizedPoint2D {
   wall: WallName;
@@ -144,6 +205,35 @@ export interface ValidationData {
   screenshots: ScreenshotValidation[];
 }
 
+// ============================================================================
+// HISTORY (Undo/Redo in Stage 3 und 5)
+// ============================================================================
+
+export type HistoryScope = 'calibration' | 'shadows';
+
+/**
+ * Änderung als Vorher/Nachher-Stand
+ */
+export type HistoryChange =
+  | { scope: 'calibration'; before: CalibrationData | null; after: CalibrationData | null }
+  | { scope: 'shadows'; screenshotId: string; before: ShadowObject[]; after: ShadowObject[] };
+
+export type HistoryEntry = HistoryChange & {
+  label: string;      // z.B. "Kamera-Rotation"
+  at: string;         // ISO DateTime der letzten Änderung
+  mergeKey?: string;  // Zusammenfassen schneller Folgen (Drag)
+};
+
+export interface HistoryStack {
+  undo: HistoryEntry[];
+  redo: HistoryEntry[];
+}
+
+export interface SessionHistory {
+  calibration: HistoryStack;
+  shadows: HistoryStack;
+}
+
 // ============================================================================
 // CENTRAL SESSION MODEL
 // ============================================================================
@@ -155,6 +245,7 @@ export interface SessionData {
   // Stage 1
   meta: MetaData;
   screenshots: ScreenshotData[];
+  timeReference?: TimeReference;   // fehlt = absolute Zeit unbekannt
   
   // Stage 3 (null wenn noch nicht begonnen)
   calibration: CalibrationData | null;
@@ -164,6 +255,9 @@ export interface SessionData {
   
   // Stage 6 (optional)
   validation?: ValidationData;
+
+  // Undo/Redo (optional)
+  history?: SessionHistory;
 }
 
 // ============================================================================
@@ -174,6 +268,7 @@ export interface CreateSessionRequest {
   projectName: string;
   cameraType: 'static';
   screenshots: ScreenshotData[];
+  timeReference?: TimeReference;
 }
 
 export interface CreateSessionResponse {
@@ -181,12 +276,54 @@ export interface CreateSessionResponse {
   projectName: string;
 }
 
+/**
+ * Einzeln speicherbare Abschnitte einer Session (Autosave)
+ */
+export type SessionSection = 'calibration' | 'shadows';
+
+/**
+ * PUT /sessions/{id}/calibration - nur die Kalibrierung (+ Undo-History)
+ */
+export interface SaveCalibrationRequest {
+  calibration: CalibrationData | null;
+  history?: SessionHistory;
+}
+
+/**
+ * PUT /sessions/{id}/shadows - nur die Schatten (+ Undo-History)
+ */
+export interface SaveShadowsRequest {
+  shadows: ScreenshotShadows[] | null;
+  history?: SessionHistory;
+}
+
+/**
+ * Neue Revision nach dem Speichern (ganze Session oder Abschnitt, vom Server vergeben)
+ */
+export interface SessionRevisionResponse {
+  lastModified: string;
+}
+
 export interface UploadScreenshotResponse {
   filename: string;
   screenshotId: string;
   url: string;
 }
 
+/**
+ * Eintrag der Session-Liste (GET /sessions)
+ */
+export interface SessionSummary {
+  sessionId: string;
+  projectName: string;
+  createdAt: string;
+  lastModified: string;
+  screenshotCount: number;
+  hasCalibration: boolean;
+  hasShadows: boolean;
+  hasValidation: boolean;
+}
+
 // ============================================================================
 // BUNDLE ADJUSTMENT
 // ============================================================================
@@ -290,3 +427,23 @@ export function getScreenshotShadows(
 ): ScreenshotShadows | undefined {
   return session.shadows?.find(s => s.screenshotId === screenshotId);
 }
+
+/**
+ * Route, an der eine Session fortgesetzt wird (erster unvollständiger Schritt)
+ */
+export function getResumeRoute(session: SessionData): string {
+  const calibrated = session.calibration?.screenshots.filter(s => s.completed).length ?? 0;
+  if (session.screenshots.length === 0 || calibrated < session.screenshots.length) {
+    return '/stage3-calibration';
+  }
+
+  if (!session.shadows?.some(s => s.objects.length > 0)) {
+    return '/stage5-shadows';
+  }
+
+  if (!session.validation) {
+    return '/stage6-summary';
+  }
+
+  return '/stage7-geolocation';
+}
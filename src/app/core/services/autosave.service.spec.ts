@@ -0,0 +1,79 @@
+import { TestBed } from '@angular/core/testing';
+
+import { AUTOSAVE_DEBOUNCE_MS, AutosaveService } from './autosave.service';
+
+describe('AutosaveService', () => {
+  let autosave: AutosaveService;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    autosave = TestBed.inject(AutosaveService);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should save once after the last change of a burst', async () => {
+    const save = vi.fn(async () => {});
+
+    autosave.schedule('calibration:s1', save);
+    await vi.advanceTimersByTimeAsync(AUTOSAVE_DEBOUNCE_MS / 2);
+    autosave.schedule('calibration:s1', save);
+    autosave.schedule('calibration:s1', save);
+
+    expect(autosave.state.status).toBe('pending');
+    expect(autosave.hasUnsavedChanges).toBe(true);
+
+    await vi.advanceTimersByTimeAsync(AUTOSAVE_DEBOUNCE_MS);
+
+    expect(save).toHaveBeenCalledTimes(1);
+    expect(autosave.state.status).toBe('saved');
+    expect(autosave.state.lastSaved).toBeDefined();
+    expect(autosave.hasUnsavedChanges).toBe(false);
+  });
+
+  it('should keep failed saves as unsaved and retry them on flush', async () => {
+    const save = vi.fn()
+      .mockRejectedValueOnce(new Error('Server weg'))
+      .mockResolvedValueOnce(undefined);
+
+    autosave.schedule('shadows:s1', save);
+    await autosave.flush();
+
+    expect(autosave.state.status).toBe('error');
+    expect(autosave.hasUnsavedChanges).toBe(true);
+
+    await autosave.flush();
+
+    expect(save).toHaveBeenCalledTimes(2);
+    expect(autosave.state.status).toBe('saved');
+    expect(autosave.hasUnsavedChanges).toBe(false);
+  });
+
+  it('should report, flush and discard each key on its own', async () => {
+    const failing = vi.fn().mockRejectedValue(new Error('Konflikt'));
+    const shadows = vi.fn(async () => {});
+
+    autosave.schedule('calibration:s1', failing);
+    await autosave.flush('calibration:s1');
+    autosave.schedule('shadows:s1', shadows);
+
+    expect(autosave.statusOf('calibration:s1')).toBe('error');
+    expect(autosave.statusOf('shadows:s1')).toBe('pending');
+
+    await autosave.flush('shadows:s1');
+
+    expect(failing).toHaveBeenCalledTimes(1);
+    expect(autosave.statusOf('shadows:s1')).toBe('saved');
+    expect(autosave.state.status).toBe('error');
+
+    autosave.discard('calibration:s1');
+    await autosave.flush();
+
+    expect(failing).toHaveBeenCalledTimes(1);
+    expect(autosave.statusOf('calibration:s1')).toBe('saved');
+    expect(autosave.state.status).toBe('saved');
+    expect(autosave.hasUnsavedChanges).toBe(false);
+  });
+});
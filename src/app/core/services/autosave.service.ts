@@ -0,0 +1,164 @@
+import { Injectable, OnDestroy } from '@angular/core';
+import { BehaviorSubject, Observable, Subscription, fromEvent } from 'rxjs';
+
+/** Wartezeit nach der letzten Änderung, bevor gespeichert wird */
+export const AUTOSAVE_DEBOUNCE_MS = 1500;
+
+/**
+ * saved   = alles gespeichert (oder nichts geändert)
+ * pending = Änderungen warten auf das Debounce
+ * saving  = Speichern läuft
+ * error   = letztes Speichern fehlgeschlagen (nächster Edit oder flush() versucht es erneut)
+ */
+export type AutosaveStatus = 'saved' | 'pending' | 'saving' | 'error';
+
+export interface AutosaveState {
+  status: AutosaveStatus;
+  lastSaved?: string;
+}
+
+interface AutosaveTask {
+  save: () => Promise<void>;
+  timer: ReturnType<typeof setTimeout> | null;
+  running: Promise<void> | null;
+  dirty: boolean;
+  failed: boolean;
+}
+
+/** Reihenfolge = Vorrang in der Gesamtanzeige */
+const STATUS_PRIORITY: AutosaveStatus[] = ['saving', 'pending', 'error'];
+
+function taskStatus(task: AutosaveTask): AutosaveStatus {
+  return task.running ? 'saving' : task.dirty ? 'pending' : task.failed ? 'error' : 'saved';
+}
+
+/**
+ * Autosave Service
+ *
+ * Stages melden Änderungen mit schedule(key, save); gespeichert wird erst,
+ * wenn AUTOSAVE_DEBOUNCE_MS lang keine weitere Änderung unter demselben
+ * Schlüssel kam. Pro Schlüssel läuft höchstens ein Speichern gleichzeitig,
+ * Änderungen währenddessen werden danach gespeichert.
+ *
+ * Solange etwas ungespeichert ist, fragt der Browser beim Schließen des
+ * Tabs nach (beforeunload). Stages prüfen ihren eigenen Schlüssel
+ * (statusOf, flush(key)) und verwerfen beim Verlassen Aufgaben, die ohne
+ * sie nicht mehr gespeichert werden können (discard).
+ */
+@Injectable({ providedIn: 'root' })
+export class AutosaveService implements OnDestroy {
+  private readonly tasks = new Map<string, AutosaveTask>();
+  private readonly stateSubject = new BehaviorSubject<AutosaveState>({ status: 'saved' });
+  private readonly unloadSubscription: Subscription;
+
+  readonly state$: Observable<AutosaveState> = this.stateSubject.asObservable();
+
+  constructor() {
+    this.unloadSubscription = fromEvent<BeforeUnloadEvent>(window, 'beforeunload').subscribe(event => {
+      if (!this.hasUnsavedChanges) return;
+
+      void this.flush();
+      event.preventDefault();
+      event.returnValue = '';
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.unloadSubscription.unsubscribe();
+    this.tasks.forEach(task => task.timer && clearTimeout(task.timer));
+  }
+
+  get state(): AutosaveState {
+    return this.stateSubject.value;
+  }
+
+  /**
+   * Status eines Schlüssels (nichts vorgemerkt = saved)
+   */
+  statusOf(key: string): AutosaveStatus {
+    const task = this.tasks.get(key);
+    return task ? taskStatus(task) : 'saved';
+  }
+
+  get hasUnsavedChanges(): boolean {
+    return [...this.tasks.values()].some(task => task.dirty || task.running || task.failed);
+  }
+
+  /**
+   * Merkt eine Änderung vor (save wird nach dem Debounce aufgerufen)
+   */
+  schedule(key: string, save: () => Promise<void>): void {
+    const task = this.tasks.get(key) ?? { save, timer: null, running: null, dirty: false, failed: false };
+    task.save = save;
+    task.dirty = true;
+
+    if (task.timer) clearTimeout(task.timer);
+    task.timer = setTimeout(() => void this.run(key), AUTOSAVE_DEBOUNCE_MS);
+
+    this.tasks.set(key, task);
+    this.refreshState();
+  }
+
+  /**
+   * Speichert vorgemerkte Änderungen sofort (z.B. vor der Navigation) -
+   * nur die des Schlüssels oder alle
+   */
+  async flush(key?: string): Promise<void> {
+    const keys = key !== undefined ? [key] : [...this.tasks.keys()];
+    await Promise.all(keys.map(k => this.run(k)));
+  }
+
+  /**
+   * Verwirft die Aufgabe eines Schlüssels (auch eine fehlgeschlagene)
+   */
+  discard(key: string): void {
+    const task = this.tasks.get(key);
+    if (!task) return;
+
+    if (task.timer) clearTimeout(task.timer);
+    this.tasks.delete(key);
+    this.refreshState();
+  }
+
+  private async run(key: string): Promise<void> {
+    const task = this.tasks.get(key);
+    if (!task) return;
+
+    if (task.timer) {
+      clearTimeout(task.timer);
+      task.timer = null;
+    }
+
+    while (task.running) await task.running;
+    if (!task.dirty && !task.failed) return;
+
+    task.dirty = false;
+    task.running = this.execute(task);
+    this.refreshState();
+
+    try {
+      await task.running;
+    } finally {
+      task.running = null;
+      this.refreshState();
+    }
+  }
+
+  private async execute(task: AutosaveTask): Promise<void> {
+    try {
+      await task.save();
+      task.failed = false;
+      this.stateSubject.next({ ...this.state, lastSaved: new Date().toISOString() });
+    } catch (err) {
+      console.error('❌ Autosave fehlgeschlagen:', err);
+      task.failed = true;
+    }
+  }
+
+  private refreshState(): void {
+    const statuses = [...this.tasks.values()].map(taskStatus);
+    const status = STATUS_PRIORITY.find(candidate => statuses.includes(candidate)) ?? 'saved';
+
+    this.stateSubject.next({ ...this.state, status });
+  }
+}
@@ -0,0 +1,76 @@
+import { Injectable } from '@angular/core';
+import { HttpBackend, HttpClient } from '@angular/common/http';
+import { firstValueFrom } from 'rxjs';
+
+import { decodeResponse, literal, object, optional, str } from '../shared/api-decoders';
+
+/**
+ * Laufzeit-Konfiguration des Backends
+ */
+export interface BackendConfig {
+  /** REST-Basis, z.B. "http://localhost:8000/api" */
+  apiBaseUrl: string;
+
+  /** WebSocket-Basis, z.B. "ws://localhost:8000/ws" */
+  wsBaseUrl: string;
+
+  /** 'mock' = lokaler Stand-in (MOCK_BACKEND) statt echter Server */
+  transport: 'http' | 'mock';
+}
+
+export const DEFAULT_BACKEND_CONFIG: BackendConfig = {
+  apiBaseUrl: 'http://localhost:8000/api',
+  wsBaseUrl: 'ws://localhost:8000/ws',
+  transport: 'http'
+};
+
+const configFile = object<Partial<BackendConfig>>({
+  apiBaseUrl: optional(str),
+  wsBaseUrl: optional(str),
+  transport: optional(literal('http', 'mock'))
+});
+
+/**
+ * Backend Config Service
+ *
+ * Liest beim App-Start `config.json` (neben index.html, also pro Deployment
+ * austauschbar). Fehlt die Datei, gelten die Defaults (lokaler Python-Server).
+ */
+@Injectable({ providedIn: 'root' })
+export class BackendConfigService {
+  private config: BackendConfig = { ...DEFAULT_BACKEND_CONFIG };
+
+  // Eigener HttpClient ohne Interceptors (Konfiguration vor dem Mock-Backend)
+  private http: HttpClient;
+
+  constructor(httpBackend: HttpBackend) {
+    this.http = new HttpClient(httpBackend);
+  }
+
+  get current(): BackendConfig {
+    return this.config;
+  }
+
+  /**
+   * Lädt config.json und überschreibt die Defaults
+   */
+  async load(url = 'config.json'): Promise<void> {
+    try {
+      const raw = await firstValueFrom(this.http.get<unknown>(url));
+      this.set(decodeResponse(url, configFile, raw));
+      console.log('⚙️ Backend-Konfiguration geladen:', this.config);
+    } catch (err) {
+      console.warn(`⚠️ ${url} nicht geladen, verwende Defaults:`, err);
+    }
+  }
+
+  /**
+   * Überschreibt einzelne Werte (z.B. in Tests)
+   */
+  set(config: Partial<BackendConfig>): void {
+    this.config = {
+      ...this.config,
+      ...Object.fromEntries(Object.entries(config).filter(([, value]) => value !== undefined))
+    };
+  }
+}
@@ -0,0 +1,56 @@
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient, withInterceptors } from '@angular/common/http';
+import { firstValueFrom } from 'rxjs';
+
+import { BackendConfigService } from './backend-config.service';
+import { MOCK_BACKEND, MockBackend, MockBackendRequest, mockBackendInterceptor } from './backend-transport';
+import { SessionService } from './session.service';
+
+describe('backend-transport', () => {
+  const requests: MockBackendRequest[] = [];
+  const mock: MockBackend = {
+    handle: async request => {
+      requests.push(request);
+      if (request.path === '/sessions/missing') {
+        return { status: 404, body: { detail: 'not found' } };
+      }
+      if (request.path.endsWith('/screenshots')) {
+        return { status: 200, body: { filename: 'ss1.png', screenshot_id: 'ss1', url: '/ss1.png' } };
+      }
+      return { status: 200, body: { sessionId: 'mock1', projectName: 'Mock' } };
+    },
+    connect: () => { throw new Error('nicht benötigt'); },
+    resolveUrl: () => null
+  };
+
+  beforeEach(() => {
+    requests.length = 0;
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(withInterceptors([mockBackendInterceptor])),
+        { provide: MOCK_BACKEND, useValue: mock }
+      ]
+    });
+    TestBed.inject(BackendConfigService).set({ apiBaseUrl: 'http://test/api', transport: 'mock' });
+  });
+
+  it('should answer API requests from the mock backend using the route table', async () => {
+    const service = TestBed.inject(SessionService);
+
+    const created = await firstValueFrom(service.createSession({ projectName: 'Mock', cameraType: 'static', screenshots: [] }));
+    expect(created.sessionId).toBe('mock1');
+    expect(requests[0]).toMatchObject({ method: 'POST', path: '/sessions', params: {} });
+
+    await expect(firstValueFrom(service.loadSession('missing'))).rejects.toMatchObject({ status: 404 });
+    expect(service.getScreenshotUrl('s1', 'ss1')).toBe('http://test/api/sessions/s1/screenshots/ss1.png');
+  });
+
+  it('should pass query parameters to the mock backend', async () => {
+    const service = TestBed.inject(SessionService);
+    const file = new File(['x'], 'a.png');
+
+    const uploaded = await firstValueFrom(service.uploadScreenshot('s1', 'ss1', file));
+    expect(uploaded.screenshotId).toBe('ss1');
+    expect(requests[0]).toMatchObject({ method: 'POST', path: '/sessions/s1/screenshots', params: { screenshot_id: 'ss1' } });
+  });
+});
@@ -0,0 +1,95 @@
+import { InjectionToken, inject } from '@angular/core';
+import { HttpErrorResponse, HttpInterceptorFn, HttpResponse } from '@angular/common/http';
+import { from, map } from 'rxjs';
+
+import { BackendConfigService } from './backend-config.service';
+
+/**
+ * Minimale WebSocket-Schnittstelle (echter WebSocket oder Mock)
+ */
+export interface BackendSocket {
+  onopen: ((event: Event) => void) | null;
+  onmessage: ((event: MessageEvent) => void) | null;
+  onerror: ((event: Event) => void) | null;
+  onclose: ((event: CloseEvent) => void) | null;
+  send(data: string): void;
+  close(): void;
+}
+
+/**
+ * Request an das Mock-Backend (Pfad relativ zur API-Basis, z.B. "/sessions")
+ */
+export interface MockBackendRequest {
+  method: string;
+  path: string;
+  params: Record<string, string>;
+  body: unknown;
+  headers?: Record<string, string>;
+}
+
+export interface MockBackendResponse {
+  status: number;
+  body: unknown;
+}
+
+/**
+ * Lokaler Stand-in für den Python-Server (aktiv bei transport: 'mock')
+ */
+export interface MockBackend {
+  handle(request: MockBackendRequest): Promise<MockBackendResponse>;
+  connect(path: string): BackendSocket;
+
+  /** Direkt ladbare URL (z.B. data:-URL für <img>), null = normale API-URL */
+  resolveUrl(path: string): string | null;
+}
+
+export const MOCK_BACKEND = new InjectionToken<MockBackend>('MOCK_BACKEND');
+
+/**
+ * Leitet API-Requests im Mock-Modus an MOCK_BACKEND um.
+ * Alle anderen Requests (Karten-Tiles, config.json, ...) laufen normal.
+ */
+export const mockBackendInterceptor: HttpInterceptorFn = (req, next) => {
+  const config = inject(BackendConfigService).current;
+  const mock = inject(MOCK_BACKEND, { optional: true });
+
+  if (config.transport !== 'mock' || !mock || !req.url.startsWith(config.apiBaseUrl)) {
+    return next(req);
+  }
+
+  const params = Object.fromEntries(req.params.keys().map(key => [key, req.params.get(key)!]));
+  const headers = Object.fromEntries(req.headers.keys().map(key => [key.toLowerCase(), req.headers.get(key)!]));
+  const request: MockBackendRequest = {
+    method: req.method,
+    path: req.url.slice(config.apiBaseUrl.length),
+    params,
+    body: req.body,
+    headers
+  };
+
+  return from(mock.handle(request)).pipe(
+    map(({ status, body }) => {
+      if (status >= 400) {
+        throw new HttpErrorResponse({ status, error: body, url: req.url });
+      }
+      // Binärdaten wie vom echten Server als Blob liefern
+      if (req.responseType === 'blob' && body instanceof ArrayBuffer) {
+        return new HttpResponse({ status, body: new Blob([body]), url: req.url });
+      }
+      return new HttpResponse({ status, body, url: req.url });
+    })
+  );
+};
+
+/**
+ * Öffnet einen WebSocket zur konfigurierten Basis oder zum Mock-Backend
+ */
+export function openBackendSocket(config: BackendConfigService, mock: MockBackend | null, path: string): BackendSocket {
+  if (config.current.transport === 'mock') {
+    if (!mock) {
+      throw new Error('transport "mock" konfiguriert, aber kein MOCK_BACKEND registriert');
+    }
+    return mock.connect(path);
+  }
+  return new WebSocket(`${config.current.wsBaseUrl}${path}`);
+}
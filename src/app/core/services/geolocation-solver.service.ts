@@ -0,0 +1,91 @@
+import { Injectable } from '@angular/core';
+import { Observable } from 'rxjs';
+
+import { GeolocationResponse } from '../models/api.types';
+import { GeolocationSolverRequest } from '../shared/geolocation-solver';
+import { GeolocationFusionRequest, GeolocationFusionResult } from '../shared/geolocation-fusion';
+import { DateSweepRequest, DateSweepResult, TimeSweepRequest, TimeSweepResult } from '../shared/geolocation-sweep';
+import {
+  GeolocationWorkerJob,
+  GeolocationWorkerMessage,
+  GeolocationWorkerResult,
+  runGeolocationJob
+} from '../shared/geolocation-worker-protocol';
+
+/**
+ * Geolocation Solver Service
+ *
+ * Führt den Client-Solver (inverse Geolocation) in einem Web Worker aus.
+ * Ohne Worker-Support (z.B. Vitest/jsdom) wird synchron gerechnet.
+ */
+@Injectable({ providedIn: 'root' })
+export class GeolocationSolverService {
+
+  /**
+   * Löst die Geolocation für einen Screenshot lokal
+   */
+  solve(request: GeolocationSolverRequest): Observable<GeolocationResponse> {
+    return this.run<GeolocationResponse>({ kind: 'single', request });
+  }
+
+  /**
+   * Löst die Geolocation gemeinsam für mehrere Screenshots (Timeline)
+   */
+  solveFusion(request: GeolocationFusionRequest): Observable<GeolocationFusionResult> {
+    return this.run<GeolocationFusionResult>({ kind: 'fusion', request });
+  }
+
+  /**
+   * Uhrzeit bekannt, Datum unbekannt: Ort für jedes Datum im Bereich
+   */
+  sweepDates(request: DateSweepRequest): Observable<DateSweepResult> {
+    return this.run<DateSweepResult>({ kind: 'date-sweep', request });
+  }
+
+  /**
+   * Ort bekannt, Uhrzeit unbekannt: passende Uhrzeiten für jedes Datum
+   */
+  sweepTimes(request: TimeSweepRequest): Observable<TimeSweepResult> {
+    return this.run<TimeSweepResult>({ kind: 'time-sweep', request });
+  }
+
+  /**
+   * Startet einen Worker pro Job. Unsubscribe beendet den Worker.
+   */
+  private run<T extends GeolocationWorkerResult>(job: GeolocationWorkerJob): Observable<T> {
+    return new Observable<T>(subscriber => {
+      if (typeof Worker === 'undefined') {
+        try {
+          subscriber.next(runGeolocationJob(job) as T);
+          subscriber.complete();
+        } catch (err) {
+          subscriber.error(err);
+        }
+        return;
+      }
+
+      const worker = new Worker(
+        new URL('../shared/geolocation-solver.worker', import.meta.url),
+        { type: 'module' }
+      );
+
+      worker.onmessage = ({ data }: MessageEvent<GeolocationWorkerMessage>) => {
+        if (data.type === 'result') {
+          subscriber.next(data.response as T);
+          subscriber.complete();
+        } else {
+          subscriber.error(new Error(data.message));
+        }
+      };
+
+      worker.onerror = (error) => {
+        console.error('Geolocation-Worker Fehler:', error);
+        subscriber.error(error);
+      };
+
+      worker.postMessage(job);
+
+      return () => worker.terminate();
+    });
+  }
+}
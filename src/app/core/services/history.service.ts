@@ -0,0 +1,66 @@
+import { Injectable } from '@angular/core';
+
+import { HistoryChange, HistoryEntry, HistoryScope, SessionData } from '../models/session.types';
+import {
+  HistoryAction,
+  canRedo,
+  canUndo,
+  historyShortcut,
+  recordChange,
+  redoChange,
+  undoChange
+} from '../shared/session-history';
+
+/**
+ * History Service
+ *
+ * Undo/Redo für Stage 3 (Kalibrierung) und Stage 5 (Schatten-Markierung).
+ * Die Stapel liegen in SessionData.history und werden mit der Session
+ * gespeichert; Undo/Redo schreibt den jeweiligen Stand in die Session, die
+ * Stage übernimmt ihn danach in ihren UI-Zustand.
+ */
+@Injectable({ providedIn: 'root' })
+export class HistoryService {
+
+  /**
+   * Merkt eine Änderung vor (mergeKey fasst schnelle Folgen zusammen, z.B. Drag)
+   */
+  record(session: SessionData, label: string, change: HistoryChange, mergeKey?: string): HistoryEntry | null {
+    return recordChange(session, label, change, { mergeKey });
+  }
+
+  undo(session: SessionData, scope: HistoryScope): HistoryEntry | null {
+    const entry = undoChange(session, scope);
+    if (entry) console.log('↩️ Undo:', entry.label);
+    return entry;
+  }
+
+  redo(session: SessionData, scope: HistoryScope): HistoryEntry | null {
+    const entry = redoChange(session, scope);
+    if (entry) console.log('↪️ Redo:', entry.label);
+    return entry;
+  }
+
+  canUndo(session: SessionData | null, scope: HistoryScope): boolean {
+    return canUndo(session, scope);
+  }
+
+  canRedo(session: SessionData | null, scope: HistoryScope): boolean {
+    return canRedo(session, scope);
+  }
+
+  /**
+   * Beschriftung des nächsten Undo/Redo (für Tooltips)
+   */
+  nextLabel(session: SessionData | null, scope: HistoryScope, action: HistoryAction): string | null {
+    const stack = session?.history?.[scope][action];
+    return stack?.[stack.length - 1]?.label ?? null;
+  }
+
+  /**
+   * Ctrl+Z / Ctrl+Shift+Z aus einem keydown-Event
+   */
+  shortcut(event: KeyboardEvent): HistoryAction | null {
+    return historyShortcut(event);
+  }
+}
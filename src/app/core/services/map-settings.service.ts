@@ -0,0 +1,42 @@
+import { Injectable } from '@angular/core';
+
+/**
+ * Map Settings Service
+ *
+ * Einstellungen der Offline-Karte (Stage 7). Standard ist die gebündelte
+ * Weltkarte ohne jede Netzwerkanfrage; optional kann ein lokaler Tile-Server
+ * eingetragen werden (z.B. "http://localhost:8080/tiles/{z}/{x}/{y}.png").
+ */
+@Injectable({ providedIn: 'root' })
+export class MapSettingsService {
+  private readonly tileUrlKey = 'shadowgeo_map_tile_url';
+
+  /**
+   * URL-Vorlage des lokalen Tile-Servers oder null (nur Basiskarte)
+   */
+  getTileUrl(): string | null {
+    return localStorage.getItem(this.tileUrlKey);
+  }
+
+  /**
+   * Speichert die URL-Vorlage. Leerer Wert = Tile-Server deaktivieren.
+   *
+   * @throws Error wenn die Vorlage nicht {z}, {x} und {y} enthält
+   */
+  setTileUrl(url: string | null): void {
+    const trimmed = url?.trim();
+
+    if (!trimmed) {
+      localStorage.removeItem(this.tileUrlKey);
+      console.log('🗺️ Tile-Server deaktiviert');
+      return;
+    }
+
+    if (!['{z}', '{x}', '{y}'].every(p => trimmed.includes(p))) {
+      throw new Error('Tile-URL muss {z}, {x} und {y} enthalten');
+    }
+
+    localStorage.setItem(this.tileUrlKey, trimmed);
+    console.log('🗺️ Tile-Server gespeichert:', trimmed);
+  }
+}
@@ -0,0 +1,102 @@
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient, withInterceptors } from '@angular/common/http';
+import { firstValueFrom, toArray } from 'rxjs';
+
+import { SessionData, ShadowPair, createDefaultCalibration } from '../models/session.types';
+import { BackendConfigService } from './backend-config.service';
+import { MOCK_BACKEND, mockBackendInterceptor } from './backend-transport';
+import { InMemoryBackend } from './mock-backend';
+import { SessionService } from './session.service';
+
+// Schatten liegt oberhalb des Objekts → Licht von "Süden" (180°), Elevation 45°
+function pair(x: number): ShadowPair {
+  return {
+    objectPoint: { normalizedX: x, normalizedY: 0.6 },
+    shadowPoint: { normalizedX: x, normalizedY: 0.35, wall: 'floor' }
+  };
+}
+
+describe('InMemoryBackend', () => {
+  let service: SessionService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(withInterceptors([mockBackendInterceptor])),
+        { provide: MOCK_BACKEND, useFactory: () => new InMemoryBackend({ streamDelayMs: 0 }) }
+      ]
+    });
+    TestBed.inject(BackendConfigService).set({ transport: 'mock' });
+    service = TestBed.inject(SessionService);
+  });
+
+  async function createSession(): Promise<SessionData> {
+    const { sessionId } = await firstValueFrom(service.createSession({
+      projectName: 'Offline',
+      cameraType: 'static',
+      screenshots: [{ id: 'ss1', filename: 'a.png', timestamp: 't0', isReferencePoint: true }]
+    }));
+    await firstValueFrom(service.uploadScreenshot(sessionId, 'ss1', new File([new Uint8Array([1, 2, 3])], 'a.png')));
+
+    const session = await firstValueFrom(service.loadSession(sessionId));
+    session.calibration = createDefaultCalibration();
+    session.shadows = [{
+      screenshotId: 'ss1',
+      objects: [
+        { id: 'obj1', name: 'Stuhl', pairs: [pair(0.2), pair(0.3)] },
+        { id: 'obj2', name: 'Tisch', pairs: [pair(0.6), pair(0.7)] }
+      ]
+    }];
+    await firstValueFrom(service.saveSession(sessionId, session));
+    return session;
+  }
+
+  it('should store sessions and screenshots in memory', async () => {
+    const session = await createSession();
+
+    const [summary] = await firstValueFrom(service.listSessions());
+    expect(summary).toMatchObject({ sessionId: session.sessionId, screenshotCount: 1, hasCalibration: true, hasShadows: true });
+
+    const buffer = await firstValueFrom(service.downloadScreenshot(session.sessionId, 'ss1'));
+    expect([...new Uint8Array(buffer)]).toEqual([1, 2, 3]);
+    expect(service.getScreenshotUrl(session.sessionId, 'ss1')).toBe('data:image/png;base64,AQID');
+
+    await firstValueFrom(service.deleteSession(session.sessionId));
+    await expect(firstValueFrom(service.loadSession(session.sessionId))).rejects.toMatchObject({ status: 404 });
+  });
+
+  it('should validate deterministically and solve the geolocation from the same light', async () => {
+    const { sessionId } = await createSession();
+
+    const object = await firstValueFrom(service.validateObject(sessionId, 'ss1', 'obj1'));
+    expect(object).toMatchObject({ status: 'valid', consistencyScore: 100 });
+    expect(object.lightAzimuthDeg).toBeCloseTo(180);
+    expect(object.lightElevationDeg).toBeCloseTo(45);
+
+    const global = await firstValueFrom(service.validateAll(sessionId));
+    expect(global.status).toBe('valid');
+    expect(global.overallScore).toBe(100);
+    expect(global.summary.validScreenshots).toBe(1);
+    expect(await firstValueFrom(service.validateAll(sessionId))).toEqual(global);
+
+    const geolocation = await firstValueFrom(service.calculateGeolocation(sessionId, 'ss1', '2024-06-21', '12:00', 'north'));
+    expect(geolocation.success).toBe(true);
+    expect(geolocation.data!.shadow_analysis.light_azimuth).toBeCloseTo(180);
+  });
+
+  it('should stream a scripted bundle adjustment over the fake socket', async () => {
+    const session = await createSession();
+
+    const updates = await firstValueFrom(
+      service.runBundleAdjustment(session.sessionId, session.calibration!).pipe(toArray())
+    );
+
+    expect(updates.map(u => u.type)).toEqual(['progress', 'progress', 'progress', 'progress', 'progress', 'result']);
+    expect(updates[4].progress).toBe(100);
+    expect(updates[5].result).toMatchObject({
+      success: true,
+      optimized_room: session.calibration!.room,
+      optimized_camera: session.calibration!.camera.position
+    });
+  });
+});
@@ -0,0 +1,528 @@
+import {
+  BundleAdjustmentProgress,
+  BundleAdjustmentRequest,
+  CreateSessionRequest,
+  SaveCalibrationRequest,
+  SaveShadowsRequest,
+  SessionData,
+  SessionSummary,
+  ShadowObject,
+  ValidationStatus,
+  createEmptySession
+} from '../models/session.types';
+import { ShadowData } from '../models/api.types';
+import { BACKEND_ROUTES } from '../shared/backend-routes';
+import { solveGeolocation } from '../shared/geolocation-solver';
+import { calculateSolarPosition, parseUtcDateTime } from '../shared/solar-position';
+import { BackendSocket, MockBackend, MockBackendRequest, MockBackendResponse } from './backend-transport';
+
+/**
+ * Optionen des In-Memory-Backends
+ */
+export interface InMemoryBackendOptions {
+  /** Abstand der Bundle-Adjustment-Nachrichten in ms (Tests: 0) */
+  streamDelayMs?: number;
+}
+
+interface StoredSession {
+  session: SessionData;
+  files: Map<string, Uint8Array>;
+}
+
+/**
+ * Lichtrichtung eines Objekts, geschätzt im Bildraum
+ */
+interface ObjectLight {
+  object: ShadowObject;
+  azimuth: number;
+  elevation: number;
+  pairDeviations: number[];
+  score: number;
+  status: ValidationStatus;
+}
+
+const NOT_FOUND: MockBackendResponse = { status: 404, body: { detail: 'Session nicht gefunden' } };
+
+/** Toleranz der Mock-Geolocation in Grad */
+const MOCK_GEOLOCATION_ERROR_DEG = 5;
+
+// ============================================================================
+// DETERMINISTISCHE VALIDIERUNG
+// ============================================================================
+//
+// Keine echte 3D-Rekonstruktion: Jedes Paar liefert die Richtung
+// Schattenpunkt → Objektpunkt im Bild (oben = 0°, im Uhrzeigersinn) als
+// Licht-Azimut, die Schattenlänge eine Elevation (kurz = hohe Sonne).
+// Gleiche Eingabe → gleiches Ergebnis, damit Tests und UI stabil bleiben.
+
+function toDegrees(rad: number): number {
+  return rad * 180 / Math.PI;
+}
+
+function angleDifference(a: number, b: number): number {
+  const diff = Math.abs(a - b) % 360;
+  return diff > 180 ? 360 - diff : diff;
+}
+
+function circularMean(angles: number[]): number {
+  const x = angles.reduce((sum, a) => sum + Math.cos(a * Math.PI / 180), 0);
+  const y = angles.reduce((sum, a) => sum + Math.sin(a * Math.PI / 180), 0);
+  return (toDegrees(Math.atan2(y, x)) + 360) % 360;
+}
+
+function average(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+function scoreToStatus(score: number): ValidationStatus {
+  if (score >= 80) return 'valid';
+  if (score >= 50) return 'warning';
+  return 'error';
+}
+
+/**
+ * Ausbreitungsrichtung des Lichts (Backend-Konvention: y < 0 = nach unten)
+ */
+function lightVector(azimuth: number, elevation: number): { x: number; y: number; z: number } {
+  const az = azimuth * Math.PI / 180;
+  const el = elevation * Math.PI / 180;
+  return {
+    x: -Math.sin(az) * Math.cos(el),
+    y: -Math.sin(el),
+    z: Math.cos(az) * Math.cos(el)
+  };
+}
+
+function estimateObjectLight(object: ShadowObject): ObjectLight {
+  const azimuths = object.pairs.map(({ objectPoint, shadowPoint }) =>
+    (toDegrees(Math.atan2(
+      objectPoint.normalizedX - shadowPoint.normalizedX,
+      shadowPoint.normalizedY - objectPoint.normalizedY
+    )) + 360) % 360
+  );
+  const lengths = object.pairs.map(({ objectPoint, shadowPoint }) =>
+    Math.hypot(objectPoint.normalizedX - shadowPoint.normalizedX, objectPoint.normalizedY - shadowPoint.normalizedY)
+  );
+
+  const azimuth = circularMean(azimuths);
+  const elevation = toDegrees(Math.atan2(0.25, Math.max(average(lengths), 1e-6)));
+  const pairDeviations = azimuths.map(a => angleDifference(a, azimuth));
+
+  // Ein einzelnes Paar lässt sich nicht gegen sich selbst prüfen
+  const score = object.pairs.length < 2 ? 50 : Math.max(0, 100 - 2 * average(pairDeviations));
+
+  return { object, azimuth, elevation, pairDeviations, score, status: scoreToStatus(score) };
+}
+
+function objectValidationData(light: ObjectLight) {
+  return {
+    objectId: light.object.id,
+    status: light.status,
+    message: light.object.pairs.length < 2 ? 'Mindestens 2 Paare für eine Konsistenzprüfung nötig' : undefined,
+    consistencyScore: light.score,
+    averageErrorDeg: average(light.pairDeviations),
+    maxErrorDeg: Math.max(0, ...light.pairDeviations),
+    lightDirection: lightVector(light.azimuth, light.elevation),
+    points: light.pairDeviations.map((deviation, pointIndex) => ({
+      pointIndex,
+      status: scoreToStatus(100 - 2 * deviation),
+      errorDistance: deviation
+    })),
+    details: { lightAzimuthDeg: light.azimuth, lightElevationDeg: light.elevation }
+  };
+}
+
+function interObjectValidationData(screenshotId: string, objects: ShadowObject[]) {
+  const lights = objects.filter(o => o.pairs.length > 0).map(estimateObjectLight);
+  const meanAzimuth = circularMean(lights.map(l => l.azimuth));
+  const meanElevation = average(lights.map(l => l.elevation));
+  const deviations = lights.map(l => angleDifference(l.azimuth, meanAzimuth));
+
+  const interObjectScore = lights.length === 0 ? 0 : Math.max(0, 100 - 2 * average(deviations));
+  const intraObjectScore = average(lights.map(l => l.score));
+
+  return {
+    screenshotId,
+    status: lights.length === 0 ? 'error' as const : scoreToStatus(Math.min(interObjectScore, intraObjectScore)),
+    message: lights.length === 0 ? 'Keine Schattenpaare markiert' : undefined,
+    interObjectScore,
+    intraObjectScore,
+    averageDeviationDeg: average(deviations),
+    maxDeviationDeg: Math.max(0, ...deviations),
+    meanLightDirection: lightVector(meanAzimuth, meanElevation),
+    meanLightAzimuthDeg: meanAzimuth,
+    meanLightElevationDeg: meanElevation,
+    objectResults: lights.map(objectValidationData),
+    objectComparisons: lights.map((light, i) => ({
+      objectId: light.object.id,
+      objectName: light.object.name,
+      estimatedLightDirection: lightVector(light.azimuth, light.elevation),
+      deviationFromMean: deviations[i],
+      status: scoreToStatus(100 - 2 * deviations[i])
+    }))
+  };
+}
+
+// ============================================================================
+// FAKE WEBSOCKET
+// ============================================================================
+
+/**
+ * WebSocket-Ersatz: spielt ein festes Bundle-Adjustment-Skript ab
+ */
+class ScriptedSocket implements BackendSocket {
+  onopen: ((event: Event) => void) | null = null;
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onerror: ((event: Event) => void) | null = null;
+  onclose: ((event: CloseEvent) => void) | null = null;
+
+  private closed = false;
+  private timers: ReturnType<typeof setTimeout>[] = [];
+
+  constructor(
+    private script: (request: unknown) => BundleAdjustmentProgress[],
+    private delayMs: number,
+    supported: boolean
+  ) {
+    this.schedule(0, () => supported ? this.onopen?.(new Event('open')) : this.fail());
+  }
+
+  send(data: string): void {
+    const messages = this.script(JSON.parse(data));
+    messages.forEach((message, i) => {
+      this.schedule(this.delayMs * (i + 1), () => this.onmessage?.(new MessageEvent('message', { data: JSON.stringify(message) })));
+    });
+  }
+
+  close(): void {
+    if (this.closed) return;
+    this.closed = true;
+    this.timers.forEach(clearTimeout);
+    this.onclose?.(new CloseEvent('close'));
+  }
+
+  private fail(): void {
+    this.onerror?.(new Event('error'));
+    this.close();
+  }
+
+  private schedule(delay: number, action: () => void): void {
+    this.timers.push(setTimeout(() => {
+      if (!this.closed) action();
+    }, delay));
+  }
+}
+
+/**
+ * Festes Bundle-Adjustment-Skript: 5 Iterationen, dann Ergebnis mit den
+ * unveränderten Startwerten
+ */
+function bundleAdjustmentScript(request: unknown): BundleAdjustmentProgress[] {
+  const calibration = (request as Partial<BundleAdjustmentRequest>)?.calibration;
+  if (!calibration?.room || !calibration.camera) {
+    return [{ type: 'error', message: 'Kalibrierung fehlt im Request' }];
+  }
+
+  const iterations = 5;
+  const initialError = 0.08;
+  const finalError = 0.02;
+  const progress: BundleAdjustmentProgress[] = Array.from({ length: iterations }, (_, i) => ({
+    type: 'progress',
+    iteration: i + 1,
+    progress: Math.round((i + 1) / iterations * 100),
+    message: `Iteration ${i + 1}/${iterations}: Fehler ${(initialError - (initialError - finalError) * (i + 1) / iterations).toFixed(3)}`
+  }));
+
+  return [...progress, {
+    type: 'result',
+    progress: 100,
+    iteration: iterations,
+    message: 'Optimierung abgeschlossen (Mock)',
+    result: {
+      optimized_room: { ...calibration.room },
+      optimized_camera: { ...calibration.camera.position },
+      initial_error: initialError,
+      final_error: finalError,
+      improvement_percent: (1 - finalError / initialError) * 100,
+      iterations,
+      success: true,
+      message: 'Mock-Optimierung'
+    }
+  }];
+}
+
+// ============================================================================
+// IN-MEMORY BACKEND
+// ============================================================================
+
+/**
+ * In-Memory-Ersatz für den Python-Server (transport: 'mock')
+ *
+ * Implementiert alle Routen aus BACKEND_ROUTES inkl. Bundle-Adjustment-
+ * WebSocket. Daten leben nur bis zum Neuladen der Seite.
+ */
+export class InMemoryBackend implements MockBackend {
+  private sessions = new Map<string, StoredSession>();
+  private nextId = 1;
+  private streamDelayMs: number;
+
+  constructor(options: InMemoryBackendOptions = {}) {
+    this.streamDelayMs = options.streamDelayMs ?? 150;
+  }
+
+  async handle(request: MockBackendRequest): Promise<MockBackendResponse> {
+    const { method, path } = request;
+    console.log(`🧪 Mock ${method} ${path}`);
+
+    if (path === BACKEND_ROUTES.sessions()) {
+      if (method === 'GET') return this.ok(this.listSessions());
+      if (method === 'POST') return this.ok(this.createSession(request.body as CreateSessionRequest));
+    }
+
+    if (path === BACKEND_ROUTES.sunPosition() && method === 'GET') {
+      return this.ok(this.sunPosition(request.params));
+    }
+
+    const match = path.match(/^\/sessions\/([^/]+)(\/.*)?$/);
+    if (!match) {
+      return { status: 404, body: { detail: `Unbekannte Route: ${method} ${path}` } };
+    }
+
+    const stored = this.sessions.get(match[1]);
+    if (!stored) return NOT_FOUND;
+    const sessionId = stored.session.sessionId;
+
+    if (path === BACKEND_ROUTES.session(sessionId)) {
+      if (method === 'GET') return this.ok(this.clone(stored.session));
+      if (method === 'PUT') {
+        const conflict = this.revisionConflict(stored, request);
+        if (conflict) return conflict;
+        const previous = stored.session.meta.lastModified;
+        stored.session = this.clone(request.body as SessionData);
+        stored.session.meta.lastModified = this.nextRevision(previous);
+        return this.ok({ lastModified: stored.session.meta.lastModified });
+      }
+      if (method === 'DELETE') {
+        this.sessions.delete(sessionId);
+        return this.ok(null);
+      }
+    }
+
+    if (path === BACKEND_ROUTES.screenshots(sessionId) && method === 'POST') {
+      return this.ok(await this.uploadScreenshot(stored, request));
+    }
+
+    const screenshot = path.match(/^\/sessions\/[^/]+\/screenshots\/([^/]+)\.png$/);
+    if (screenshot && method === 'GET') {
+      const data = stored.files.get(screenshot[1]);
+      return data ? this.ok(data.slice().buffer) : { status: 404, body: { detail: 'Screenshot nicht gefunden' } };
+    }
+
+    if (method === 'GET' && path === BACKEND_ROUTES.shadows(sessionId)) {
+      return this.ok({ data: this.shadowData(stored.session) });
+    }
+
+    // Teil-Speichern: nur der Abschnitt (+ History), Revision vergibt der Server
+    if (method === 'PUT' && (path === BACKEND_ROUTES.calibration(sessionId) || path === BACKEND_ROUTES.shadows(sessionId))) {
+      const conflict = this.revisionConflict(stored, request);
+      if (conflict) return conflict;
+
+      const body = this.clone(request.body as Partial<SaveCalibrationRequest & SaveShadowsRequest>);
+      if (path === BACKEND_ROUTES.calibration(sessionId)) {
+        stored.session.calibration = body.calibration ?? null;
+      } else {
+        stored.session.shadows = body.shadows ?? null;
+      }
+      if (body.history) stored.session.history = body.history;
+
+      stored.session.meta.lastModified = this.nextRevision(stored.session.meta.lastModified);
+      return this.ok({ lastModified: stored.session.meta.lastModified });
+    }
+
+    if (method === 'POST') {
+      const body = request.body as Record<string, string>;
+      switch (path) {
+        case BACKEND_ROUTES.validateObject(sessionId):
+          return this.ok(this.validateObject(stored.session, body['screenshotId'], body['objectId']));
+        case BACKEND_ROUTES.validateInterObject(sessionId):
+          return this.ok(this.validateInterObject(stored.session, body['screenshotId']));
+        case BACKEND_ROUTES.validateAll(sessionId):
+          return this.ok(this.validateAll(stored.session));
+        case BACKEND_ROUTES.geolocation(sessionId):
+          return this.ok(this.geolocation(stored.session, body));
+      }
+    }
+
+    return { status: 405, body: { detail: `${method} ${path} nicht unterstützt` } };
+  }
+
+  connect(path: string): BackendSocket {
+    return new ScriptedSocket(bundleAdjustmentScript, this.streamDelayMs, path === BACKEND_ROUTES.bundleAdjustment());
+  }
+
+  /**
+   * Screenshots als data:-URL (für <img> / Texturen ohne HTTP)
+   */
+  resolveUrl(path: string): string | null {
+    const match = path.match(/^\/sessions\/([^/]+)\/screenshots\/([^/]+)\.png$/);
+    const data = match ? this.sessions.get(match[1])?.files.get(match[2]) : undefined;
+    if (!data) return null;
+
+    let binary = '';
+    for (let i = 0; i < data.length; i += 0x8000) {
+      binary += String.fromCharCode(...data.subarray(i, i + 0x8000));
+    }
+    return `data:image/png;base64,${btoa(binary)}`;
+  }
+
+  // ==========================================================================
+  // SESSIONS & SCREENSHOTS
+  // ==========================================================================
+
+  /**
+   * Optimistic Concurrency: Revision = meta.lastModified (If-Match)
+   */
+  private revisionConflict(stored: StoredSession, request: MockBackendRequest): MockBackendResponse | null {
+    const revision = request.headers?.['if-match'];
+    if (!revision || revision === stored.session.meta.lastModified) return null;
+    return { status: 412, body: { detail: 'Session wurde zwischenzeitlich geändert', lastModified: stored.session.meta.lastModified } };
+  }
+
+  /**
+   * Neue Revision: Serverzeit, aber immer nach der bisherigen (zwei PUTs in
+   * derselben Millisekunde bekommen trotzdem verschiedene Revisionen)
+   */
+  private nextRevision(previous: string): string {
+    const last = Date.parse(previous);
+    return new Date(isNaN(last) ? Date.now() : Math.max(Date.now(), last + 1)).toISOString();
+  }
+
+  private createSession(request: CreateSessionRequest) {
+    const sessionId = `mock-${this.nextId++}`;
+    const session = createEmptySession(sessionId, request.projectName);
+    session.screenshots = this.clone(request.screenshots);
+    if (request.timeReference) session.timeReference = this.clone(request.timeReference);
+
+    this.sessions.set(sessionId, { session, files: new Map() });
+    return { sessionId, projectName: request.projectName };
+  }
+
+  private listSessions(): SessionSummary[] {
+    return [...this.sessions.values()].map(({ session }) => ({
+      sessionId: session.sessionId,
+      projectName: session.meta.projectName,
+      createdAt: session.meta.createdAt,
+      lastModified: session.meta.lastModified,
+      screenshotCount: session.screenshots.length,
+      hasCalibration: session.calibration !== null,
+      hasShadows: session.shadows !== null,
+      hasValidation: session.validation !== undefined
+    }));
+  }
+
+  private async uploadScreenshot(stored: StoredSession, request: MockBackendRequest) {
+    const screenshotId = request.params['screenshot_id'];
+    const file = (request.body as FormData).get('file') as File;
+
+    stored.files.set(screenshotId, await this.readFile(file));
+    return {
+      filename: `${screenshotId}.png`,
+      screenshot_id: screenshotId,
+      url: BACKEND_ROUTES.screenshot(stored.session.sessionId, screenshotId)
+    };
+  }
+
+  private shadowData(session: SessionData): ShadowData | null {
+    if (!session.shadows) return null;
+    return {
+      version: session.version,
+      globalFovY: session.calibration?.camera.fovY ?? 60,
+      screenshots: this.clone(session.shadows)
+    };
+  }
+
+  // ==========================================================================
+  // VALIDIERUNG & GEOLOCATION
+  // ==========================================================================
+
+  private objectsOf(session: SessionData, screenshotId: string): ShadowObject[] {
+    return session.shadows?.find(s => s.screenshotId === screenshotId)?.objects ?? [];
+  }
+
+  private validateObject(session: SessionData, screenshotId: string, objectId: string) {
+    const object = this.objectsOf(session, screenshotId).find(o => o.id === objectId);
+    if (!object || object.pairs.length === 0) {
+      return { success: false, status: 'error', message: `Objekt ${objectId} hat keine Schattenpaare` };
+    }
+
+    const data = objectValidationData(estimateObjectLight(object));
+    return { success: true, status: data.status, message: data.message, data };
+  }
+
+  private validateInterObject(session: SessionData, screenshotId: string) {
+    const data = interObjectValidationData(screenshotId, this.objectsOf(session, screenshotId));
+    return { success: true, status: data.status, message: data.message, data };
+  }
+
+  private validateAll(session: SessionData) {
+    const screenshotResults = (session.shadows ?? []).map(s => interObjectValidationData(s.screenshotId, s.objects));
+    const globalScore = average(screenshotResults.map(r => r.interObjectScore));
+    const status = screenshotResults.length === 0 ? 'error' : scoreToStatus(globalScore);
+
+    return {
+      success: true,
+      status,
+      message: `${screenshotResults.length} Screenshots geprüft (Mock)`,
+      data: { globalScore, screenshotResults }
+    };
+  }
+
+  private geolocation(session: SessionData, body: Record<string, string>) {
+    const screenshotId = String(body['screenshot_id']);
+    const analysis = interObjectValidationData(screenshotId, this.objectsOf(session, screenshotId));
+    if (analysis.objectResults.length === 0) {
+      return { success: false, message: 'Keine Schattenpaare für diesen Screenshot' };
+    }
+
+    return solveGeolocation({
+      lightAzimuth: analysis.meanLightAzimuthDeg,
+      lightElevation: analysis.meanLightElevationDeg,
+      interObjectScore: analysis.interObjectScore,
+      roomOrientation: Number(body['room_orientation'] ?? 0),
+      date: String(body['date']),
+      timeUtc: String(body['time_utc']),
+      hemisphere: body['hemisphere'] as 'north' | 'south' | 'both',
+      errorDeg: MOCK_GEOLOCATION_ERROR_DEG,
+      resolutionDeg: 1
+    });
+  }
+
+  private sunPosition(params: Record<string, string>) {
+    const { azimuth, elevation } = calculateSolarPosition(
+      Number(params['latitude']),
+      Number(params['longitude']),
+      parseUtcDateTime(params['date'], params['time_utc'])
+    );
+    return { azimuth, elevation };
+  }
+
+  /**
+   * FileReader statt Blob.arrayBuffer() - läuft auch unter jsdom (Vitest)
+   */
+  private readFile(file: Blob): Promise<Uint8Array> {
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+      reader.onerror = () => reject(reader.error);
+      reader.readAsArrayBuffer(file);
+    });
+  }
+
+  private ok(body: unknown): MockBackendResponse {
+    return { status: 200, body };
+  }
+
+  private clone<T>(value: T): T {
+    return JSON.parse(JSON.stringify(value));
+  }
+}
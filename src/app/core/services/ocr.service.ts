@@ -0,0 +1,106 @@
+import { Injectable } from '@angular/core';
+import { Observable, from } from 'rxjs';
+import type { Worker as TesseractWorker } from 'tesseract.js';
+
+import { OCR_CHAR_WHITELIST, OcrRegion, regionToPixels } from '../shared/ocr-timestamp';
+
+/** Gebündelte Tesseract-Dateien (angular.json → assets unter "ocr/") */
+const OCR_ASSET_DIR = 'ocr';
+
+/** Overlays sind klein - hochskaliert liest Tesseract deutlich sicherer */
+const OCR_UPSCALE = 3;
+
+export interface OcrRead {
+  text: string;
+  confidence: number;
+}
+
+/**
+ * OCR Service
+ *
+ * Liest eingeblendete Zeitstempel mit Tesseract (WASM). Worker, Core und
+ * Sprachdaten liegen als Assets neben der App - es wird nichts aus dem Netz
+ * geladen. Der Worker wird beim ersten Aufruf gestartet und bleibt bis
+ * terminate() bestehen (Laden der Sprachdaten dauert ein paar Sekunden).
+ */
+@Injectable({ providedIn: 'root' })
+export class OcrService {
+  private worker: Promise<TesseractWorker> | null = null;
+
+  /**
+   * Liest den Text in einer Region des Bildes
+   */
+  readRegion(file: File, region: OcrRegion): Observable<OcrRead> {
+    return from(this.recognize(file, region));
+  }
+
+  /**
+   * Beendet den Worker (gibt WASM-Speicher frei)
+   */
+  async terminate(): Promise<void> {
+    const worker = this.worker;
+    this.worker = null;
+    if (worker) await (await worker).terminate();
+  }
+
+  private async recognize(file: File, region: OcrRegion): Promise<OcrRead> {
+    const canvas = await this.cropRegion(file, region);
+    const worker = await this.getWorker();
+    const { data } = await worker.recognize(canvas);
+    return { text: data.text.trim(), confidence: data.confidence };
+  }
+
+  private getWorker(): Promise<TesseractWorker> {
+    if (!this.worker) {
+      this.worker = this.createWorker();
+      // Fehlgeschlagener Start: beim nächsten Aufruf neu versuchen
+      this.worker.catch(() => {
+        this.worker = null;
+      });
+    }
+    return this.worker;
+  }
+
+  private async createWorker(): Promise<TesseractWorker> {
+    const { createWorker, OEM, PSM } = await import('tesseract.js');
+    // Core wird im Worker per importScripts geladen - braucht absolute URLs
+    const asset = (path: string) => new URL(`${OCR_ASSET_DIR}/${path}`, document.baseURI).href;
+
+    console.log('🔠 Starte OCR-Worker...');
+    const worker = await createWorker('eng', OEM.LSTM_ONLY, {
+      workerPath: asset('worker.min.js'),
+      corePath: asset('core'),
+      langPath: asset('lang'),
+      workerBlobURL: false,
+      cacheMethod: 'none',
+      gzip: true
+    });
+
+    await worker.setParameters({
+      tessedit_pageseg_mode: PSM.SINGLE_LINE,
+      tessedit_char_whitelist: OCR_CHAR_WHITELIST
+    });
+    console.log('✅ OCR-Worker bereit');
+    return worker;
+  }
+
+  /**
+   * Schneidet die Region aus, skaliert sie hoch und wandelt in Graustufen
+   */
+  private async cropRegion(file: File, region: OcrRegion): Promise<HTMLCanvasElement> {
+    const image = await createImageBitmap(file);
+    const rect = regionToPixels(region, { width: image.width, height: image.height });
+
+    const canvas = document.createElement('canvas');
+    canvas.width = rect.width * OCR_UPSCALE;
+    canvas.height = rect.height * OCR_UPSCALE;
+
+    const ctx = canvas.getContext('2d')!;
+    ctx.filter = 'grayscale(1) contrast(1.5)';
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(image, rect.left, rect.top, rect.width, rect.height, 0, 0, canvas.width, canvas.height);
+    image.close();
+
+    return canvas;
+  }
+}
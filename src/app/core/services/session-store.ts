@@ -0,0 +1,195 @@
+import { InjectionToken } from '@angular/core';
+
+import { SessionData } from '../models/session.types';
+
+/**
+ * Lokale Kopie einer Session
+ */
+export interface CachedSession {
+  sessionId: string;
+  session: SessionData;
+
+  /** meta.lastModified des zuletzt vom Server gelesenen/geschriebenen Stands */
+  serverLastModified: string | null;
+
+  /**
+   * Lokale Revision, die der Sync durch die Server-Revision ersetzt hat -
+   * wer noch diesen Stand hält, speichert auf serverLastModified weiter
+   */
+  syncedFrom?: string;
+}
+
+/**
+ * Vorgemerktes saveSession (offline gespeichert, noch nicht beim Server)
+ */
+export interface PendingSave {
+  sessionId: string;
+
+  /** Server-Stand, auf dem die lokalen Änderungen basieren */
+  baseLastModified: string | null;
+  queuedAt: string;
+
+  /** Server wurde zwischenzeitlich anderweitig geändert */
+  conflict: boolean;
+}
+
+/**
+ * Lokaler Session-Speicher (Cache + Offline-Warteschlange)
+ */
+export interface SessionStore {
+  getSession(sessionId: string): Promise<CachedSession | undefined>;
+  putSession(entry: CachedSession): Promise<void>;
+
+  /** Entfernt Session, Screenshots und vorgemerkte Speicherungen */
+  deleteSession(sessionId: string): Promise<void>;
+
+  getScreenshot(sessionId: string, screenshotId: string): Promise<Blob | undefined>;
+  putScreenshot(sessionId: string, screenshotId: string, data: Blob): Promise<void>;
+
+  listPendingSaves(): Promise<PendingSave[]>;
+  putPendingSave(entry: PendingSave): Promise<void>;
+  deletePendingSave(sessionId: string): Promise<void>;
+}
+
+// ============================================================================
+// IN-MEMORY (Fallback ohne IndexedDB, Tests)
+// ============================================================================
+
+export class MemorySessionStore implements SessionStore {
+  private sessions = new Map<string, CachedSession>();
+  private screenshots = new Map<string, Blob>();
+  private pending = new Map<string, PendingSave>();
+
+  async getSession(sessionId: string): Promise<CachedSession | undefined> {
+    const entry = this.sessions.get(sessionId);
+    return entry && JSON.parse(JSON.stringify(entry));
+  }
+
+  async putSession(entry: CachedSession): Promise<void> {
+    this.sessions.set(entry.sessionId, JSON.parse(JSON.stringify(entry)));
+  }
+
+  async deleteSession(sessionId: string): Promise<void> {
+    this.sessions.delete(sessionId);
+    this.pending.delete(sessionId);
+    for (const key of [...this.screenshots.keys()]) {
+      if (key.startsWith(`${sessionId}/`)) this.screenshots.delete(key);
+    }
+  }
+
+  async getScreenshot(sessionId: string, screenshotId: string): Promise<Blob | undefined> {
+    return this.screenshots.get(`${sessionId}/${screenshotId}`);
+  }
+
+  async putScreenshot(sessionId: string, screenshotId: string, data: Blob): Promise<void> {
+    this.screenshots.set(`${sessionId}/${screenshotId}`, data);
+  }
+
+  async listPendingSaves(): Promise<PendingSave[]> {
+    return [...this.pending.values()].map(entry => ({ ...entry }));
+  }
+
+  async putPendingSave(entry: PendingSave): Promise<void> {
+    this.pending.set(entry.sessionId, { ...entry });
+  }
+
+  async deletePendingSave(sessionId: string): Promise<void> {
+    this.pending.delete(sessionId);
+  }
+}
+
+// ============================================================================
+// INDEXEDDB
+// ============================================================================
+
+const DB_NAME = 'shadowgeo';
+const DB_VERSION = 1;
+
+type StoreName = 'sessions' | 'screenshots' | 'pendingSaves';
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export class IndexedDbSessionStore implements SessionStore {
+  private db: Promise<IDBDatabase> | null = null;
+
+  async getSession(sessionId: string): Promise<CachedSession | undefined> {
+    return this.request('sessions', 'readonly', store => store.get(sessionId));
+  }
+
+  async putSession(entry: CachedSession): Promise<void> {
+    await this.request('sessions', 'readwrite', store => store.put(entry));
+  }
+
+  async deleteSession(sessionId: string): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction(['sessions', 'screenshots', 'pendingSaves'], 'readwrite');
+
+    tx.objectStore('sessions').delete(sessionId);
+    tx.objectStore('pendingSaves').delete(sessionId);
+    tx.objectStore('screenshots').delete(IDBKeyRange.bound([sessionId, ''], [sessionId, '\uffff']));
+
+    await new Promise<void>((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+
+  async getScreenshot(sessionId: string, screenshotId: string): Promise<Blob | undefined> {
+    const entry = await this.request<{ data: Blob } | undefined>(
+      'screenshots', 'readonly', store => store.get([sessionId, screenshotId])
+    );
+    return entry?.data;
+  }
+
+  async putScreenshot(sessionId: string, screenshotId: string, data: Blob): Promise<void> {
+    await this.request('screenshots', 'readwrite', store => store.put({ sessionId, screenshotId, data }));
+  }
+
+  async listPendingSaves(): Promise<PendingSave[]> {
+    return this.request('pendingSaves', 'readonly', store => store.getAll());
+  }
+
+  async putPendingSave(entry: PendingSave): Promise<void> {
+    await this.request('pendingSaves', 'readwrite', store => store.put(entry));
+  }
+
+  async deletePendingSave(sessionId: string): Promise<void> {
+    await this.request('pendingSaves', 'readwrite', store => store.delete(sessionId));
+  }
+
+  private async request<T>(
+    name: StoreName,
+    mode: IDBTransactionMode,
+    action: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    const db = await this.open();
+    return promisify<T>(action(db.transaction(name, mode).objectStore(name)));
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore('sessions', { keyPath: 'sessionId' });
+        db.createObjectStore('screenshots', { keyPath: ['sessionId', 'screenshotId'] });
+        db.createObjectStore('pendingSaves', { keyPath: 'sessionId' });
+      };
+      this.db = promisify(request);
+    }
+    return this.db;
+  }
+}
+
+/**
+ * Lokaler Speicher: IndexedDB, ohne IndexedDB (z.B. Vitest/jsdom) im Speicher
+ */
+export const SESSION_STORE = new InjectionToken<SessionStore>('SESSION_STORE', {
+  providedIn: 'root',
+  factory: () => typeof indexedDB !== 'undefined' ? new IndexedDbSessionStore() : new MemorySessionStore()
+});
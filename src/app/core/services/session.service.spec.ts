@@ -0,0 +1,197 @@
+import { TestBed } from '@angular/core/testing';
+import { HttpErrorResponse, provideHttpClient, withInterceptors } from '@angular/common/http';
+import { firstValueFrom } from 'rxjs';
+
+import { SessionData, createDefaultCalibration } from '../models/session.types';
+import { SessionConflictError, mergeSessions } from '../shared/session-merge';
+import { BackendConfigService } from './backend-config.service';
+import { MOCK_BACKEND, MockBackend, MockBackendRequest, mockBackendInterceptor } from './backend-transport';
+import { InMemoryBackend } from './mock-backend';
+import { SESSION_STORE, MemorySessionStore } from './session-store';
+import { SessionService } from './session.service';
+import { SyncStatusService } from './sync-status.service';
+
+describe('SessionService (local-first)', () => {
+  let backend: InMemoryBackend;
+  let offline: boolean;
+  let requests: MockBackendRequest[];
+  let service: SessionService;
+  let syncStatus: SyncStatusService;
+
+  beforeEach(() => {
+    backend = new InMemoryBackend({ streamDelayMs: 0 });
+    offline = false;
+    requests = [];
+
+    // Offline = Request erreicht den Server nicht (HTTP-Status 0)
+    const network: MockBackend = {
+      handle: request => {
+        requests.push(request);
+        return offline
+          ? Promise.reject(new HttpErrorResponse({ status: 0, statusText: 'Unknown Error' }))
+          : backend.handle(request);
+      },
+      connect: path => backend.connect(path),
+      resolveUrl: path => backend.resolveUrl(path)
+    };
+
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(withInterceptors([mockBackendInterceptor])),
+        { provide: MOCK_BACKEND, useValue: network },
+        { provide: SESSION_STORE, useValue: new MemorySessionStore() }
+      ]
+    });
+    TestBed.inject(BackendConfigService).set({ transport: 'mock' });
+    service = TestBed.inject(SessionService);
+    syncStatus = TestBed.inject(SyncStatusService);
+  });
+
+  async function createSession(): Promise<SessionData> {
+    const { sessionId } = await firstValueFrom(service.createSession({
+      projectName: 'Offline',
+      cameraType: 'static',
+      screenshots: [{ id: 'ss1', filename: 'a.png', timestamp: 't0', isReferencePoint: true }]
+    }));
+    return firstValueFrom(service.loadSession(sessionId));
+  }
+
+  async function serverCopy(sessionId: string): Promise<SessionData> {
+    return (await backend.handle({ method: 'GET', path: `/sessions/${sessionId}`, params: {}, body: null })).body as SessionData;
+  }
+
+  it('should keep edits locally while offline and sync them afterwards', async () => {
+    const session = await createSession();
+
+    offline = true;
+    await firstValueFrom(service.saveSession(session.sessionId, { ...session, meta: { ...session.meta, projectName: 'Offline-Edit' } }));
+    expect(syncStatus.state).toMatchObject({ status: 'offline', pendingCount: 1 });
+
+    const local = await firstValueFrom(service.loadSession(session.sessionId));
+    expect(local.meta.projectName).toBe('Offline-Edit');
+    expect((await serverCopy(session.sessionId)).meta.projectName).toBe('Offline');
+
+    offline = false;
+    await service.sync();
+    expect(syncStatus.state).toMatchObject({ status: 'synced', pendingCount: 0 });
+    expect((await serverCopy(session.sessionId)).meta.projectName).toBe('Offline-Edit');
+  });
+
+  it('should flag a conflict when the server changed in the meantime', async () => {
+    const session = await createSession();
+
+    offline = true;
+    await firstValueFrom(service.saveSession(session.sessionId, { ...session, meta: { ...session.meta, projectName: 'Lokal' } }));
+
+    // Parallel auf dem Server geändert
+    await backend.handle({
+      method: 'PUT',
+      path: `/sessions/${session.sessionId}`,
+      params: {},
+      body: { ...session, meta: { ...session.meta, projectName: 'Server', lastModified: '2099-01-01T00:00:00.000Z' } }
+    });
+
+    offline = false;
+    await service.sync();
+
+    expect(syncStatus.state).toMatchObject({ status: 'conflict', conflicts: [session.sessionId] });
+    expect((await serverCopy(session.sessionId)).meta.projectName).toBe('Server');
+    expect((await firstValueFrom(service.loadSession(session.sessionId))).meta.projectName).toBe('Lokal');
+  });
+
+  it('should reject saves based on an outdated revision and accept the merged result', async () => {
+    const tabA = await createSession();
+    const tabB = await firstValueFrom(service.loadSession(tabA.sessionId));
+
+    tabA.meta.projectName = 'Tab A';
+    await firstValueFrom(service.saveSession(tabA.sessionId, tabA));
+
+    tabB.meta.projectName = 'Tab B';
+    const conflict = await firstValueFrom(service.saveSession(tabB.sessionId, tabB)).catch(err => err);
+    expect(conflict).toBeInstanceOf(SessionConflictError);
+    expect((conflict as SessionConflictError).theirs.meta.projectName).toBe('Tab A');
+    expect((await serverCopy(tabA.sessionId)).meta.projectName).toBe('Tab A');
+    expect(syncStatus.state.status).toBe('conflict');
+
+    const merged = mergeSessions(conflict.mine, conflict.theirs, { global: 'mine', screenshots: {} });
+    await firstValueFrom(service.resolveConflict(conflict, merged));
+
+    const server = await serverCopy(tabA.sessionId);
+    expect(server.meta.projectName).toBe('Tab B');
+    expect((await firstValueFrom(service.loadSession(tabA.sessionId))).meta.lastModified).toBe(server.meta.lastModified);
+    expect(syncStatus.state).toMatchObject({ status: 'synced', conflicts: [] });
+  });
+
+  it('should continue full saves on the revision issued by the server, also after a sync', async () => {
+    const session = await createSession();
+
+    session.meta.projectName = 'Online';
+    await firstValueFrom(service.saveSession(session.sessionId, session));
+    expect(session.meta.lastModified).toBe((await serverCopy(session.sessionId)).meta.lastModified);
+
+    offline = true;
+    session.meta.projectName = 'Offline-Edit';
+    await firstValueFrom(service.saveSession(session.sessionId, session));
+
+    offline = false;
+    await service.sync();
+    const synced = await serverCopy(session.sessionId);
+    expect((await firstValueFrom(service.loadSession(session.sessionId))).meta.lastModified).toBe(synced.meta.lastModified);
+
+    // Dieselbe Stage speichert weiter - ohne Konflikt auf ihrem eigenen Stand
+    session.meta.projectName = 'Danach';
+    await firstValueFrom(service.saveSession(session.sessionId, session));
+    expect((await serverCopy(session.sessionId)).meta.projectName).toBe('Danach');
+    expect(syncStatus.state).toMatchObject({ status: 'synced', conflicts: [] });
+  });
+
+  it('should keep saves queued while offline with an open conflict', async () => {
+    const session = await createSession();
+
+    offline = true;
+    await firstValueFrom(service.saveSession(session.sessionId, { ...session, meta: { ...session.meta, projectName: 'Lokal' } }));
+    await backend.handle({ method: 'PUT', path: `/sessions/${session.sessionId}`, params: {}, body: { ...session } });
+
+    offline = false;
+    await service.sync();
+    expect(syncStatus.state.status).toBe('conflict');
+
+    offline = true;
+    await firstValueFrom(service.saveSession(session.sessionId, { ...session, meta: { ...session.meta, projectName: 'Lokal 2' } }));
+
+    expect(syncStatus.state).toMatchObject({ status: 'conflict', conflicts: [session.sessionId] });
+    expect((await firstValueFrom(service.loadSession(session.sessionId))).meta.projectName).toBe('Lokal 2');
+  });
+
+  it('should save single sections and continue on the revision issued by the server', async () => {
+    const session = await createSession();
+    session.calibration = createDefaultCalibration();
+    session.meta.projectName = 'Nur lokal';
+
+    await firstValueFrom(service.saveCalibration(session.sessionId, session));
+
+    const put = requests.filter(r => r.method === 'PUT').pop()!;
+    expect(put.path).toBe(`/sessions/${session.sessionId}/calibration`);
+    expect(Object.keys(put.body as object)).toEqual(['calibration', 'history']);
+
+    const server = await serverCopy(session.sessionId);
+    expect(server.calibration).toEqual(session.calibration);
+    expect(server.meta.projectName).toBe('Offline');
+    expect(session.meta.lastModified).toBe(server.meta.lastModified);
+
+    session.shadows = [{ screenshotId: 'ss1', objects: [{ id: 'obj1', name: 'Stuhl', pairs: [] }] }];
+    await firstValueFrom(service.saveShadows(session.sessionId, session));
+    expect((await serverCopy(session.sessionId)).shadows).toEqual(session.shadows);
+  });
+
+  it('should serve uploaded screenshots from the local cache while offline', async () => {
+    const session = await createSession();
+    await firstValueFrom(service.uploadScreenshot(session.sessionId, 'ss1', new File([new Uint8Array([7, 8])], 'a.png')));
+
+    offline = true;
+    const blob = await firstValueFrom(service.loadScreenshot(session.sessionId, 'ss1'));
+    expect(blob.size).toBe(2);
+
+    await expect(firstValueFrom(service.loadScreenshot(session.sessionId, 'unbekannt'))).rejects.toMatchObject({ status: 0 });
+  });
+});
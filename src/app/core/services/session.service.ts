@@ -1,27 +1,125 @@
-import { Injectable } from '@angular/core';
-import { HttpClient } from '@angular/common/http';
-import { Observable, Subject } from 'rxjs';
+import { Inject, Injectable, Optional } from '@angular/core';
+import { HttpClient, HttpErrorResponse } from '@angular/common/http';
+import {
+  Observable,
+  Subject,
+  Subscription,
+  catchError,
+  firstValueFrom,
+  from,
+  fromEvent,
+  interval,
+  map,
+  merge,
+  of,
+  switchMap,
+  tap
+} from 'rxjs';
 import { 
   SessionData, 
   CreateSessionRequest, 
   CreateSessionResponse,
   UploadScreenshotResponse,
   BundleAdjustmentProgress,
-  CalibrationData
+  CalibrationData,
+  SaveCalibrationRequest,
+  SaveShadowsRequest,
+  SessionSection,
+  SessionSummary
 } from '../models/session.types';
+import {
+  SESSION_ARCHIVE_EXTENSION,
+  SessionArchiveIssue,
+  buildSessionArchive,
+  readSessionArchive
+} from '../shared/session-archive';
+import { SessionMigrationReport, SessionMigrationResult, migrateSession } from '../shared/session-schema';
+import { SessionConflictError } from '../shared/session-merge';
+import {
+  createSessionResponse,
+  decodeGlobalValidation,
+  decodeInterObjectValidation,
+  decodeObjectValidation,
+  decodeResponse,
+  geolocationResponse,
+  sessionRevisionResponse,
+  sessionSummaries,
+  shadowsResponse,
+  sunPositionResponse,
+  uploadScreenshotResponse
+} from '../shared/api-decoders';
+import { BACKEND_ROUTES } from '../shared/backend-routes';
+import {
+  GeolocationResponse,
+  GlobalValidationResult,
+  InterObjectValidationResult,
+  ShadowData,
+  SunPositionResult,
+  ValidationResult
+} from '../models/api.types';
+import { BackendConfigService } from './backend-config.service';
+import { MOCK_BACKEND, MockBackend, openBackendSocket } from './backend-transport';
+import { SESSION_STORE, SessionStore } from './session-store';
+import { SyncStatusService } from './sync-status.service';
+
+/** Intervall für den Hintergrund-Sync vorgemerkter Speicherungen */
+const SYNC_INTERVAL_MS = 30000;
+
+/**
+ * Backend nicht erreichbar (kein HTTP-Status)
+ */
+function isOffline(err: unknown): boolean {
+  return err instanceof HttpErrorResponse && err.status === 0;
+}
+
+/**
+ * Server lehnt die Revision ab (If-Match passt nicht mehr)
+ */
+function isRevisionConflict(err: unknown): boolean {
+  return err instanceof HttpErrorResponse && (err.status === 409 || err.status === 412);
+}
+
+/**
+ * Ergebnis eines Archiv-Imports
+ */
+export interface SessionArchiveImportResult {
+  sessionId: string;
+  projectName: string;
+  uploadedCount: number;
+  issues: SessionArchiveIssue[];
+  migration: SessionMigrationReport;
+}
 
 /**
  * Session Service (v3.0)
  * 
- * Ersetzt StateService - kein lokaler State, nur API-Calls.
- * Backend ist die einzige Source of Truth.
+ * Einziger Backend-Client. Local-first: Sessions und Screenshots werden
+ * im SESSION_STORE (IndexedDB) gespiegelt. Ist das Backend nicht
+ * erreichbar, liefert loadSession die lokale Kopie und saveSession merkt
+ * die Speicherung vor; sync() überträgt sie, sobald das Backend wieder
+ * antwortet. Wurde die Session auf dem Server inzwischen geändert
+ * (meta.lastModified), bleibt die lokale Kopie als Konflikt liegen.
+ *
+ * Basis-URLs kommen aus der Laufzeit-Konfiguration (config.json),
+ * alle Pfade aus BACKEND_ROUTES. Bei transport: 'mock' beantwortet
+ * MOCK_BACKEND die Requests (siehe mockBackendInterceptor).
  */
 @Injectable({ providedIn: 'root' })
 export class SessionService {
-  private baseUrl = 'http://localhost:8000/api';
-  private wsUrl = 'ws://localhost:8000/ws';
+  private syncing = false;
+  private syncSubscription: Subscription | null = null;
 
-  constructor(private http: HttpClient) {}
+  constructor(
+    private http: HttpClient,
+    private config: BackendConfigService,
+    private syncStatus: SyncStatusService,
+    @Inject(SESSION_STORE) private store: SessionStore,
+    @Optional() @Inject(MOCK_BACKEND) private mockBackend: MockBackend | null
+  ) {}
+
+  private url(path: string): string {
+    return `${this.config.current.apiBaseUrl}${path}`;
+  }
 
   // ==========================================================================
   // SESSION CRUD
@@ -31,28 +129,107 @@ export class SessionService {
    * Erstellt eine neue Session
    */
   createSession(request: CreateSessionRequest): Observable<CreateSessionResponse> {
-    return this.http.post<CreateSessionResponse>(`${this.baseUrl}/sessions`, request);
+    return this.http.post<unknown>(this.url(BACKEND_ROUTES.sessions()), request).pipe(
+      map(raw => decodeResponse('POST /sessions', createSessionResponse, raw))
+    );
   }
 
   /**
-   * Lädt eine komplette Session
+   * Listet alle Sessions des Backends
+   */
+  listSessions(): Observable<SessionSummary[]> {
+    return this.http.get<unknown>(this.url(BACKEND_ROUTES.sessions())).pipe(
+      map(raw => decodeResponse('GET /sessions', sessionSummaries, raw))
+    );
+  }
+
+  /**
+   * Lädt eine komplette Session (ältere Schema-Versionen werden migriert)
    */
   loadSession(sessionId: string): Observable<SessionData> {
-    return this.http.get<SessionData>(`${this.baseUrl}/sessions/${sessionId}`);
+    return this.loadSessionWithReport(sessionId).pipe(map(({ session }) => session));
+  }
+
+  /**
+   * Lädt eine Session inkl. Bericht, was bei der Migration geändert wurde
+   *
+   * Offline oder mit noch nicht übertragenen Änderungen: lokale Kopie.
+   *
+   * @throws SessionSchemaError (im Observable) bei unbekannter oder ungültiger Session
+   */
+  loadSessionWithReport(sessionId: string): Observable<SessionMigrationResult> {
+    return from(this.loadLocalFirst(sessionId));
   }
 
   /**
    * Speichert eine komplette Session
+   *
+   * Der Request trägt die Revision, auf der die Änderungen basieren
+   * (If-Match: data.meta.lastModified). Nach dem Speichern steht die vom
+   * Server vergebene Revision in data.meta.lastModified, weitere Saves bauen
+   * darauf auf. Offline wird lokal gespeichert und der Sync vorgemerkt - das
+   * Observable schlägt dann nicht fehl.
+   *
+   * @throws SessionConflictError (im Observable) wenn die Session zwischenzeitlich
+   *         anderweitig gespeichert wurde - siehe resolveConflict()
    */
   saveSession(sessionId: string, data: SessionData): Observable<void> {
-    return this.http.put<void>(`${this.baseUrl}/sessions/${sessionId}`, data);
+    return from(this.saveLocalFirst(sessionId, data));
   }
 
   /**
-   * Löscht eine Session
+   * Speichert nur die Kalibrierung (+ Undo-History) - sonst wie saveSession
+   *
+   * Der Server vergibt die neue Revision. Offline wird die komplette lokale
+   * Kopie vorgemerkt und später per saveSession-PUT übertragen.
+   */
+  saveCalibration(sessionId: string, data: SessionData): Observable<void> {
+    return from(this.saveLocalFirst(sessionId, data, 'calibration'));
+  }
+
+  /**
+   * Speichert nur die Schatten (+ Undo-History) - sonst wie saveCalibration
+   */
+  saveShadows(sessionId: string, data: SessionData): Observable<void> {
+    return from(this.saveLocalFirst(sessionId, data, 'shadows'));
+  }
+
+  /**
+   * Lokaler und Server-Stand einer Session mit Sync-Konflikt
+   */
+  loadConflict(sessionId: string): Observable<SessionConflictError> {
+    return from(this.store.getSession(sessionId)).pipe(
+      switchMap(cached => {
+        if (!cached) throw new Error(`Keine lokale Kopie von Session ${sessionId}`);
+        return from(this.conflictFor(sessionId, cached.session));
+      })
+    );
+  }
+
+  /**
+   * Speichert das Ergebnis einer Konfliktauflösung (Basis: Server-Stand des Konflikts)
+   *
+   * @throws SessionConflictError (im Observable) wenn der Server erneut geändert wurde
+   */
+  resolveConflict(conflict: SessionConflictError, merged: SessionData): Observable<void> {
+    return from(this.resolve(conflict, merged));
+  }
+
+  /**
+   * Löscht eine Session (auch die lokale Kopie)
    */
   deleteSession(sessionId: string): Observable<void> {
-    return this.http.delete<void>(`${this.baseUrl}/sessions/${sessionId}`);
+    return this.http.delete<void>(this.url(BACKEND_ROUTES.session(sessionId))).pipe(
+      switchMap(() => from(this.store.deleteSession(sessionId))),
+      switchMap(() => from(this.refreshSyncState(false)))
+    );
+  }
+
+  /**
+   * Dupliziert eine Session inkl. Screenshots, Kalibrierung und Schatten
+   */
+  duplicateSession(sessionId: string): Observable<CreateSessionResponse> {
+    return from(this.duplicate(sessionId));
   }
 
   // ==========================================================================
@@ -66,17 +243,520 @@ export class SessionService {
     const formData = new FormData();
     formData.append('file', file);
     
-    return this.http.post<UploadScreenshotResponse>(
-      `${this.baseUrl}/sessions/${sessionId}/screenshots?screenshot_id=${screenshotId}`,
-      formData
+    return from(this.store.putScreenshot(sessionId, screenshotId, file)).pipe(
+      switchMap(() => this.http.post<unknown>(
+        this.url(BACKEND_ROUTES.screenshots(sessionId)),
+        formData,
+        { params: { screenshot_id: screenshotId } }
+      )),
+      map(raw => decodeResponse('POST /sessions/screenshots', uploadScreenshotResponse, raw))
     );
   }
 
+  /**
+   * Lädt einen Screenshot - zuerst aus dem lokalen Cache (Screenshots ändern sich nicht)
+   */
+  loadScreenshot(sessionId: string, screenshotId: string): Observable<Blob> {
+    return from(this.loadScreenshotCached(sessionId, screenshotId));
+  }
+
   /**
    * Gibt die URL für einen Screenshot zurück
    */
-  getScreenshotUrl(sessionId: string, filename: string): string {
-    return `${this.baseUrl}/sessions/${sessionId}/screenshots/${filename}`;
+  getScreenshotUrl(sessionId: string, screenshotId: string): string {
+    const path = BACKEND_ROUTES.screenshot(sessionId, screenshotId);
+
+    // Bilder lädt der Browser direkt (<img>, Texturen) - am Interceptor vorbei
+    if (this.config.current.transport === 'mock') {
+      return this.mockBackend?.resolveUrl(path) ?? this.url(path);
+    }
+    return this.url(path);
+  }
+
+  /**
+   * Lädt die Binärdaten eines Screenshots
+   */
+  downloadScreenshot(sessionId: string, screenshotId: string): Observable<ArrayBuffer> {
+    return this.http.get(this.url(BACKEND_ROUTES.screenshot(sessionId, screenshotId)), { responseType: 'arraybuffer' });
+  }
+
+  // ==========================================================================
+  // SCHATTEN & VALIDIERUNG
+  // ==========================================================================
+
+  /**
+   * Lädt die Schatten-Daten einer Session
+   */
+  loadShadows(sessionId: string): Observable<{ data: ShadowData | null }> {
+    return this.http.get<unknown>(this.url(BACKEND_ROUTES.shadows(sessionId))).pipe(
+      map(raw => decodeResponse('GET /sessions/shadows', shadowsResponse, raw))
+    );
+  }
+
+  /**
+   * Validiert ein einzelnes Objekt (Konsistenz seiner Schattenpaare)
+   */
+  validateObject(sessionId: string, screenshotId: string, objectId: string): Observable<ValidationResult> {
+    return this.http.post<unknown>(
+      this.url(BACKEND_ROUTES.validateObject(sessionId)),
+      { screenshotId, objectId }
+    ).pipe(
+      map(raw => decodeObjectValidation(raw, screenshotId, objectId))
+    );
+  }
+
+  /**
+   * Validiert alle Objekte eines Screenshots gegeneinander
+   */
+  validateInterObject(sessionId: string, screenshotId: string): Observable<InterObjectValidationResult> {
+    return this.http.post<unknown>(
+      this.url(BACKEND_ROUTES.validateInterObject(sessionId)),
+      { screenshotId }
+    ).pipe(
+      map(raw => decodeInterObjectValidation(raw, screenshotId))
+    );
+  }
+
+  /**
+   * Validiert die komplette Session
+   */
+  validateAll(sessionId: string): Observable<GlobalValidationResult> {
+    return this.http.post<unknown>(this.url(BACKEND_ROUTES.validateAll(sessionId)), {}).pipe(
+      map(raw => decodeGlobalValidation(raw, sessionId))
+    );
+  }
+
+  // ==========================================================================
+  // GEOLOCATION
+  // ==========================================================================
+
+  /**
+   * Berechnet die Geolocation für einen Screenshot
+   *
+   * HTTP-Fehler liefern { success: false }, Schema-Fehler erreichen den
+   * Aufrufer als ApiDecodeError.
+   */
+  calculateGeolocation(
+    sessionId: string,
+    screenshotId: string,
+    date: string,
+    timeUtc: string,
+    hemisphere: string,
+    roomOrientation: number = 0
+  ): Observable<GeolocationResponse> {
+    return this.http.post<unknown>(
+      this.url(BACKEND_ROUTES.geolocation(sessionId)),
+      {
+        screenshot_id: screenshotId,
+        date: date,
+        time_utc: timeUtc,
+        hemisphere: hemisphere,
+        room_orientation: roomOrientation
+      }
+    ).pipe(
+      tap(response => console.log('✅ Geolocation:', response)),
+      catchError(error => {
+        console.error('calculateGeolocation failed:', error);
+        return of<unknown>({ success: false, message: 'Geolocation-Berechnung fehlgeschlagen' });
+      }),
+      map(raw => decodeResponse('POST /sessions/geolocation', geolocationResponse, raw))
+    );
+  }
+
+  /**
+   * Berechnet den Sonnenstand für Ort und Zeitpunkt
+   */
+  getSunPosition(latitude: number, longitude: number, date: string, timeUtc: string): Observable<SunPositionResult> {
+    return this.http.get<unknown>(this.url(BACKEND_ROUTES.sunPosition()), {
+      params: {
+        latitude: latitude.toString(),
+        longitude: longitude.toString(),
+        date: date,
+        time_utc: timeUtc
+      }
+    }).pipe(
+      map(raw => decodeResponse('GET /sun-position', sunPositionResponse, raw))
+    );
+  }
+
+  // ==========================================================================
+  // ARCHIV (.sgeo)
+  // ==========================================================================
+
+  /**
+   * Exportiert Session + alle Screenshots als .sgeo-Archiv
+   *
+   * Screenshots, die das Backend nicht liefert, fehlen im Archiv und
+   * werden beim Import als 'missing' gemeldet.
+   */
+  exportSessionArchive(sessionId: string): Observable<{ blob: Blob; filename: string }> {
+    return from(this.buildArchive(sessionId));
+  }
+
+  /**
+   * Importiert ein .sgeo-Archiv als neue Session (Screenshots werden neu hochgeladen)
+   *
+   * @throws SessionArchiveError bei ungültigem Archiv/Schema
+   */
+  importSessionArchive(file: File): Observable<SessionArchiveImportResult> {
+    return from(this.importArchive(file));
+  }
+
+  private async duplicate(sessionId: string): Promise<CreateSessionResponse> {
+    const session = await firstValueFrom(this.loadSession(sessionId));
+    const files = await this.downloadScreenshots(session);
+
+    const { created } = await this.createSessionCopy(
+      { ...session, meta: { ...session.meta, projectName: `${session.meta.projectName} (Kopie)` } },
+      files
+    );
+
+    console.log(`📑 Session ${sessionId} dupliziert als ${created.sessionId}`);
+    return created;
+  }
+
+  /**
+   * Lädt alle Screenshot-Binärdaten einer Session (fehlende werden übersprungen)
+   */
+  private async downloadScreenshots(session: SessionData): Promise<Map<string, Uint8Array>> {
+    const files = new Map<string, Uint8Array>();
+
+    for (const screenshot of session.screenshots) {
+      try {
+        const buffer = await firstValueFrom(this.downloadScreenshot(session.sessionId, screenshot.id));
+        files.set(screenshot.id, new Uint8Array(buffer));
+      } catch (err) {
+        console.warn(`⚠️ Screenshot ${screenshot.filename} nicht geladen:`, err);
+      }
+    }
+
+    return files;
+  }
+
+  /**
+   * Legt eine neue Session mit den Daten einer bestehenden an und lädt
+   * die Screenshots erneut hoch
+   */
+  private async createSessionCopy(
+    session: SessionData,
+    files: Map<string, Uint8Array>
+  ): Promise<{ created: CreateSessionResponse; uploadedCount: number }> {
+    const created = await firstValueFrom(this.createSession({
+      projectName: session.meta.projectName,
+      cameraType: 'static',
+      screenshots: session.screenshots,
+      ...(session.timeReference ? { timeReference: session.timeReference } : {})
+    }));
+
+    let uploadedCount = 0;
+    for (const screenshot of session.screenshots) {
+      const data = files.get(screenshot.id);
+      if (!data) continue;
+
+      const upload = new File([data as Uint8Array<ArrayBuffer>], screenshot.filename);
+      await firstValueFrom(this.uploadScreenshot(created.sessionId, screenshot.id, upload));
+      uploadedCount++;
+    }
+
+    // Kalibrierung, Schatten und Validierung übernehmen (Basis: frisch angelegte Session)
+    const fresh = await firstValueFrom(this.loadSession(created.sessionId));
+    await firstValueFrom(this.saveSession(created.sessionId, {
+      ...session,
+      sessionId: created.sessionId,
+      meta: { ...session.meta, createdAt: fresh.meta.createdAt, lastModified: fresh.meta.lastModified }
+    }));
+
+    return { created, uploadedCount };
+  }
+
+  private async buildArchive(sessionId: string): Promise<{ blob: Blob; filename: string }> {
+    const session = await firstValueFrom(this.loadSession(sessionId));
+    const files = await this.downloadScreenshots(session);
+
+    const archive = await buildSessionArchive(session, files);
+    const name = session.meta.projectName.replace(/[^\w-]+/g, '_') || 'session';
+
+    console.log(`📦 Archiv erstellt: ${files.size}/${session.screenshots.length} Screenshots`);
+    return {
+      blob: new Blob([archive as Uint8Array<ArrayBuffer>], { type: 'application/zip' }),
+      filename: `${name}_${sessionId}${SESSION_ARCHIVE_EXTENSION}`
+    };
+  }
+
+  private async importArchive(file: File): Promise<SessionArchiveImportResult> {
+    const { session, migration, screenshots, issues } = await readSessionArchive(new Uint8Array(await file.arrayBuffer()));
+    const { created, uploadedCount } = await this.createSessionCopy(session, screenshots);
+
+    console.log(`📦 Archiv importiert als ${created.sessionId}:`, { uploadedCount, issues, migration });
+    return { sessionId: created.sessionId, projectName: created.projectName, uploadedCount, issues, migration };
+  }
+
+  // ==========================================================================
+  // LOCAL-FIRST & SYNC
+  // ==========================================================================
+
+  /**
+   * Startet den Hintergrund-Sync (beim Online-Event, periodisch und auf Anfrage)
+   */
+  startSync(): void {
+    if (this.syncSubscription) return;
+
+    this.syncSubscription = merge(
+      fromEvent(window, 'online'),
+      interval(SYNC_INTERVAL_MS),
+      this.syncStatus.syncRequests$
+    ).subscribe(() => void this.sync());
+
+    void this.sync();
+  }
+
+  /**
+   * Überträgt alle vorgemerkten Speicherungen
+   *
+   * Eine Speicherung wird nur übertragen, wenn der Server noch auf dem
+   * Stand ist, auf dem die lokalen Änderungen basieren. Sonst wird sie
+   * als Konflikt markiert und bleibt lokal erhalten.
+   */
+  async sync(): Promise<void> {
+    if (this.syncing) return;
+    this.syncing = true;
+
+    let offline = false;
+    try {
+      const pending = (await this.store.listPendingSaves()).filter(entry => !entry.conflict);
+      if (pending.length > 0) {
+        this.syncStatus.update({ status: 'syncing' });
+      }
+
+      for (const entry of pending) {
+        const local = await this.store.getSession(entry.sessionId);
+        if (!local) {
+          await this.store.deletePendingSave(entry.sessionId);
+          continue;
+        }
+
+        try {
+          const raw = await firstValueFrom(this.http.get<unknown>(this.url(BACKEND_ROUTES.session(entry.sessionId))));
+          const server = migrateSession(raw).session;
+
+          if (entry.baseLastModified !== null && server.meta.lastModified !== entry.baseLastModified) {
+            console.warn(`⚠️ Sync-Konflikt: Session ${entry.sessionId} wurde auf dem Server geändert`);
+            await this.store.putPendingSave({ ...entry, conflict: true });
+            continue;
+          }
+
+          const revision = await this.putRemote(entry.sessionId, local.session, entry.baseLastModified);
+          await this.store.putSession({
+            sessionId: entry.sessionId,
+            session: { ...local.session, meta: { ...local.session.meta, lastModified: revision } },
+            serverLastModified: revision,
+            syncedFrom: local.session.meta.lastModified
+          });
+          await this.store.deletePendingSave(entry.sessionId);
+          console.log(`🔄 Session ${entry.sessionId} synchronisiert`);
+        } catch (err) {
+          if (err instanceof SessionConflictError) {
+            console.warn(`⚠️ Sync-Konflikt: Session ${entry.sessionId} wurde auf dem Server geändert`);
+            await this.store.putPendingSave({ ...entry, conflict: true });
+            continue;
+          }
+          if (isOffline(err)) {
+            offline = true;
+            break;
+          }
+          console.error(`Sync von Session ${entry.sessionId} fehlgeschlagen:`, err);
+        }
+      }
+    } finally {
+      this.syncing = false;
+      await this.refreshSyncState(offline);
+    }
+  }
+
+  private async loadLocalFirst(sessionId: string): Promise<SessionMigrationResult> {
+    const pending = (await this.store.listPendingSaves()).find(entry => entry.sessionId === sessionId);
+    const cached = await this.store.getSession(sessionId);
+    const unchanged = (session: SessionData): SessionMigrationResult => ({
+      session,
+      report: { fromVersion: session.version, toVersion: session.version, steps: [], changes: [] }
+    });
+
+    let raw: unknown;
+    try {
+      raw = await firstValueFrom(this.http.get<unknown>(this.url(BACKEND_ROUTES.session(sessionId))));
+    } catch (err) {
+      if (!isOffline(err) || !cached) throw err;
+
+      console.warn(`📴 Backend nicht erreichbar - lokale Kopie von ${sessionId}`);
+      await this.refreshSyncState(true);
+      return unchanged(cached.session);
+    }
+
+    const result = migrateSession(raw);
+    if (result.report.steps.length > 0) {
+      console.warn(`🔄 Session ${sessionId} migriert (${result.report.steps.join(', ')}):`, result.report.changes);
+    }
+
+    // Nicht übertragene lokale Änderungen haben Vorrang
+    if (pending && cached) {
+      void this.sync();
+      return unchanged(cached.session);
+    }
+
+    // Zuordnung lokaler → Server-Revision gilt, solange der Server auf diesem Stand ist
+    const serverLastModified = result.session.meta.lastModified;
+    await this.store.putSession({
+      sessionId,
+      session: result.session,
+      serverLastModified,
+      ...(cached?.syncedFrom && cached.serverLastModified === serverLastModified ? { syncedFrom: cached.syncedFrom } : {})
+    });
+    return result;
+  }
+
+  private async saveLocalFirst(sessionId: string, data: SessionData, section?: SessionSection): Promise<void> {
+    const cached = await this.store.getSession(sessionId);
+    const pending = (await this.store.listPendingSaves()).find(entry => entry.sessionId === sessionId);
+
+    // Revision, auf der die Änderungen basieren = Stand beim Laden
+    // (inzwischen synchronisiert: die Revision, die der Server dafür vergeben hat)
+    const base = cached?.syncedFrom === data.meta.lastModified ? cached.serverLastModified : data.meta.lastModified;
+    const session: SessionData = { ...data, meta: { ...data.meta, lastModified: new Date().toISOString() } };
+
+    await this.store.putSession({ sessionId, session, serverLastModified: cached?.serverLastModified ?? null });
+
+    // Offener Konflikt: erst auflösen, nicht weiter blind vormerken
+    if (pending?.conflict) {
+      let conflict: SessionConflictError;
+      try {
+        conflict = await this.conflictFor(sessionId, session);
+      } catch (err) {
+        if (!isOffline(err)) throw err;
+
+        // Server-Stand erst online vergleichbar - lokal bleibt alles vorgemerkt
+        console.warn(`📴 Backend nicht erreichbar - Speichern von ${sessionId} vorgemerkt (Konflikt offen)`);
+        await this.refreshSyncState(true);
+        data.meta.lastModified = session.meta.lastModified;
+        return;
+      }
+      throw conflict;
+    }
+
+    // Bereits vorgemerkt: Basis bleibt der alte Server-Stand
+    if (pending) {
+      data.meta.lastModified = session.meta.lastModified;
+      void this.sync();
+      return;
+    }
+
+    try {
+      session.meta.lastModified = section
+        ? await this.putSection(sessionId, section, session, base)
+        : await this.putRemote(sessionId, session, base);
+      await this.store.putSession({ sessionId, session, serverLastModified: session.meta.lastModified });
+      data.meta.lastModified = session.meta.lastModified;
+    } catch (err) {
+      if (err instanceof SessionConflictError) {
+        // Lokale Änderungen bleiben erhalten, bis der Konflikt aufgelöst ist
+        await this.store.putPendingSave({ sessionId, baseLastModified: base, queuedAt: new Date().toISOString(), conflict: true });
+        await this.refreshSyncState(false);
+        throw err;
+      }
+      if (!isOffline(err)) throw err;
+
+      console.warn(`📴 Backend nicht erreichbar - Speichern von ${sessionId} vorgemerkt`);
+      await this.store.putPendingSave({ sessionId, baseLastModified: base, queuedAt: new Date().toISOString(), conflict: false });
+      await this.refreshSyncState(true);
+      data.meta.lastModified = session.meta.lastModified;
+    }
+  }
+
+  private async resolve(conflict: SessionConflictError, merged: SessionData): Promise<void> {
+    const { sessionId } = conflict;
+    const session: SessionData = { ...merged, sessionId, meta: { ...merged.meta } };
+
+    session.meta.lastModified = await this.putRemote(sessionId, session, conflict.theirs.meta.lastModified);
+    await this.store.putSession({ sessionId, session, serverLastModified: session.meta.lastModified });
+    await this.store.deletePendingSave(sessionId);
+    await this.refreshSyncState(false);
+    console.log(`🔀 Konflikt in Session ${sessionId} aufgelöst`);
+  }
+
+  /**
+   * PUT mit Revision (If-Match). Abgelehnte Revision → SessionConflictError
+   *
+   * @returns Neue Revision (meta.lastModified) laut Server
+   */
+  private async putRemote(sessionId: string, session: SessionData, baseLastModified: string | null): Promise<string> {
+    const raw = await this.putWithRevision(sessionId, BACKEND_ROUTES.session(sessionId), session, session, baseLastModified);
+    return decodeResponse('PUT /sessions', sessionRevisionResponse, raw).lastModified;
+  }
+
+  /**
+   * PUT eines Abschnitts mit Revision
+   *
+   * @returns Neue Revision (meta.lastModified) laut Server
+   */
+  private async putSection(
+    sessionId: string,
+    section: SessionSection,
+    session: SessionData,
+    baseLastModified: string | null
+  ): Promise<string> {
+    const [path, body]: [string, SaveCalibrationRequest | SaveShadowsRequest] = section === 'calibration'
+      ? [BACKEND_ROUTES.calibration(sessionId), { calibration: session.calibration, history: session.history }]
+      : [BACKEND_ROUTES.shadows(sessionId), { shadows: session.shadows, history: session.history }];
+
+    const raw = await this.putWithRevision(sessionId, path, body, session, baseLastModified);
+    return decodeResponse(`PUT /sessions/${section}`, sessionRevisionResponse, raw).lastModified;
+  }
+
+  private async putWithRevision(
+    sessionId: string,
+    path: string,
+    body: unknown,
+    mine: SessionData,
+    baseLastModified: string | null
+  ): Promise<unknown> {
+    const headers: Record<string, string> = baseLastModified ? { 'If-Match': baseLastModified } : {};
+
+    try {
+      return await firstValueFrom(this.http.put<unknown>(this.url(path), body, { headers }));
+    } catch (err) {
+      if (isRevisionConflict(err)) {
+        throw await this.conflictFor(sessionId, mine);
+      }
+      throw err;
+    }
+  }
+
+  private async conflictFor(sessionId: string, mine: SessionData): Promise<SessionConflictError> {
+    const raw = await firstValueFrom(this.http.get<unknown>(this.url(BACKEND_ROUTES.session(sessionId))));
+    return new SessionConflictError(sessionId, mine, migrateSession(raw).session);
+  }
+
+  private async loadScreenshotCached(sessionId: string, screenshotId: string): Promise<Blob> {
+    const cached = await this.store.getScreenshot(sessionId, screenshotId);
+    if (cached) return cached;
+
+    const blob = await firstValueFrom(this.http.get(
+      this.url(BACKEND_ROUTES.screenshot(sessionId, screenshotId)),
+      { responseType: 'blob' }
+    ));
+    await this.store.putScreenshot(sessionId, screenshotId, blob);
+    return blob;
+  }
+
+  private async refreshSyncState(offline: boolean): Promise<void> {
+    const pending = await this.store.listPendingSaves();
+    const conflicts = pending.filter(entry => entry.conflict).map(entry => entry.sessionId);
+
+    this.syncStatus.update({
+      status: conflicts.length > 0 ? 'conflict' : offline ? 'offline' : pending.length > 0 ? 'pending' : 'synced',
+      pendingCount: pending.length,
+      conflicts,
+      ...(offline ? {} : { lastSync: new Date().toISOString() })
+    });
   }
 
   // ==========================================================================
@@ -93,7 +773,7 @@ export class SessionService {
   ): Observable<BundleAdjustmentProgress> {
     const subject = new Subject<BundleAdjustmentProgress>();
 
-    const ws = new WebSocket(`${this.wsUrl}/bundle-adjustment`);
+    const ws = openBackendSocket(this.config, this.mockBackend, BACKEND_ROUTES.bundleAdjustment());
 
     ws.onopen = () => {
       console.log('🔌 WebSocket connected, sending request...');
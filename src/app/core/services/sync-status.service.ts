@@ -0,0 +1,51 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, Observable, Subject } from 'rxjs';
+
+/**
+ * synced   = alles beim Server
+ * pending  = lokale Änderungen warten auf Sync
+ * syncing  = Sync läuft
+ * offline  = Backend nicht erreichbar
+ * conflict = Server wurde parallel geändert, lokale Kopie nicht übertragen
+ */
+export type SyncStatus = 'synced' | 'pending' | 'syncing' | 'offline' | 'conflict';
+
+export interface SyncState {
+  status: SyncStatus;
+  pendingCount: number;
+
+  /** Sessions mit Konflikt */
+  conflicts: string[];
+  lastSync?: string;
+}
+
+/**
+ * Sync Status Service
+ *
+ * Zustand der Offline-Synchronisation für die Anzeige im App-Shell.
+ * Wird vom SessionService gepflegt; die Anzeige kann einen Sync anstoßen,
+ * ohne selbst vom Backend-Client abzuhängen.
+ */
+@Injectable({ providedIn: 'root' })
+export class SyncStatusService {
+  private readonly stateSubject = new BehaviorSubject<SyncState>({ status: 'synced', pendingCount: 0, conflicts: [] });
+  private readonly syncRequests = new Subject<void>();
+
+  readonly state$: Observable<SyncState> = this.stateSubject.asObservable();
+  readonly syncRequests$: Observable<void> = this.syncRequests.asObservable();
+
+  get state(): SyncState {
+    return this.stateSubject.value;
+  }
+
+  update(state: Partial<SyncState>): void {
+    this.stateSubject.next({ ...this.stateSubject.value, ...state });
+  }
+
+  /**
+   * Manueller Sync (z.B. Klick auf die Statusanzeige)
+   */
+  requestSync(): void {
+    this.syncRequests.next();
+  }
+}
@@ -0,0 +1,166 @@
+import { Component, OnInit, ChangeDetectorRef } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Router } from '@angular/router';
+import { MatCardModule } from '@angular/material/card';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatChipsModule } from '@angular/material/chips';
+import { MatProgressBarModule } from '@angular/material/progress-bar';
+import { MatTooltipModule } from '@angular/material/tooltip';
+import { MatSnackBar, MatSnackBarModule } from '@angular/material/snack-bar';
+
+import { SessionService } from '../services/session.service';
+import { SessionSummary, getResumeRoute } from '../models/session.types';
+import { SessionSchemaError } from '../shared/session-schema';
+
+/**
+ * Session-Browser
+ *
+ * Listet alle Sessions des Backends mit Fortschritt und erlaubt
+ * Fortsetzen (an der richtigen Stage), Duplizieren und Löschen.
+ */
+@Component({
+  selector: 'app-session-browser',
+  standalone: true,
+  imports: [
+    CommonModule,
+    MatCardModule,
+    MatButtonModule,
+    MatIconModule,
+    MatChipsModule,
+    MatProgressBarModule,
+    MatTooltipModule,
+    MatSnackBarModule,
+  ],
+  templateUrl: './session-browser.component.html',
+  styleUrls: ['./session-browser.component.scss'],
+})
+export class SessionBrowserComponent implements OnInit {
+  sessions: SessionSummary[] = [];
+  currentSessionId: string | null = null;
+
+  isLoading = false;
+  busySessionId: string | null = null;  // Session mit laufender Aktion
+  error = '';
+
+  constructor(
+    private sessionService: SessionService,
+    private router: Router,
+    private snackBar: MatSnackBar,
+    private cdr: ChangeDetectorRef
+  ) { }
+
+  ngOnInit() {
+    this.currentSessionId = this.sessionService.getCurrentSessionId();
+    this.loadSessions();
+  }
+
+  async loadSessions() {
+    this.isLoading = true;
+    this.error = '';
+
+    try {
+      const sessions = await this.sessionService.listSessions().toPromise() ?? [];
+      this.sessions = [...sessions].sort((a, b) => b.lastModified.localeCompare(a.lastModified));
+      console.log(`📚 ${this.sessions.length} Sessions geladen`);
+    } catch (err) {
+      console.error('❌ Fehler beim Laden der Sessions:', err);
+      this.error = 'Sessions konnten nicht geladen werden';
+    } finally {
+      this.isLoading = false;
+      this.cdr.detectChanges();
+    }
+  }
+
+  // ==========================================================================
+  // HELPERS
+  // ==========================================================================
+
+  /**
+   * Fortschritt in Prozent (Screenshots → Kalibrierung → Schatten → Validierung)
+   */
+  getProgress(session: SessionSummary): number {
+    const steps = [
+      session.screenshotCount > 0,
+      session.hasCalibration,
+      session.hasShadows,
+      session.hasValidation
+    ];
+    return steps.filter(Boolean).length / steps.length * 100;
+  }
+
+  // ==========================================================================
+  // ACTIONS
+  // ==========================================================================
+
+  async onResume(session: SessionSummary) {
+    this.busySessionId = session.sessionId;
+
+    try {
+      const { session: data, report } = (await this.sessionService.loadSessionWithReport(session.sessionId).toPromise())!;
+      if (report.steps.length > 0) {
+        this.snackBar.open(
+          `Session von v${report.fromVersion} auf v${report.toVersion} aktualisiert (${report.changes.length} Änderungen)`,
+          'OK',
+          { duration: 5000 }
+        );
+      }
+
+      this.sessionService.setCurrentSessionId(session.sessionId);
+      this.router.navigate([getResumeRoute(data)]);
+    } catch (err: any) {
+      console.error('❌ Fehler beim Öffnen:', err);
+      const message = err instanceof SessionSchemaError ? err.message : 'Session konnte nicht geöffnet werden';
+      this.snackBar.open(message, 'OK', { duration: 6000 });
+    } finally {
+      this.busySessionId = null;
+      this.cdr.detectChanges();
+    }
+  }
+
+  async onDuplicate(session: SessionSummary) {
+    this.busySessionId = session.sessionId;
+
+    try {
+      const created = await this.sessionService.duplicateSession(session.sessionId).toPromise();
+      this.snackBar.open(`Kopie "${created!.projectName}" erstellt`, '', { duration: 3000 });
+      await this.loadSessions();
+    } catch (err) {
+      console.error('❌ Fehler beim Duplizieren:', err);
+      this.snackBar.open('Session konnte nicht dupliziert werden', '', { duration: 3000 });
+    } finally {
+      this.busySessionId = null;
+      this.cdr.detectChanges();
+    }
+  }
+
+  async onDelete(session: SessionSummary) {
+    if (!confirm(`Session "${session.projectName}" wirklich löschen? Screenshots und Ergebnisse gehen verloren.`)) {
+      return;
+    }
+
+    this.busySessionId = session.sessionId;
+
+    try {
+      await this.sessionService.deleteSession(session.sessionId).toPromise();
+
+      if (session.sessionId === this.currentSessionId) {
+        this.sessionService.clearCurrentSessionId();
+        this.currentSessionId = null;
+      }
+
+      this.sessions = this.sessions.filter(s => s.sessionId !== session.sessionId);
+      this.snackBar.open('Session gelöscht', '', { duration: 2000 });
+    } catch (err) {
+      console.error('❌ Fehler beim Löschen:', err);
+      this.snackBar.open('Session konnte nicht gelöscht werden', '', { duration: 3000 });
+    } finally {
+      this.busySessionId = null;
+      this.cdr.detectChanges();
+    }
+  }
+
+  onNewProject() {
+    this.router.navigate(['/stage1-setup']);
+  }
+}
@@ -0,0 +1,93 @@
+import {
+  ApiDecodeError,
+  decodeGlobalValidation,
+  decodeInterObjectValidation,
+  decodeResponse,
+  geolocationResponse
+} from './api-decoders';
+
+describe('api-decoders', () => {
+  it('should map snake_case validate/all results to the camelCase interfaces', () => {
+    const result = decodeGlobalValidation({
+      success: true,
+      status: 'warning',
+      message: 'Teilweise konsistent',
+      data: {
+        globalScore: 72,
+        screenshotResults: [{
+          screenshot_id: 'ss1',
+          status: 'valid',
+          inter_object_score: 91,
+          mean_light_azimuth_deg: 140,
+          object_results: [
+            { object_id: 'obj1', status: 'valid', consistency_score: 88, light_direction: { x: 0, y: -1, z: 0 } }
+          ]
+        }, {
+          screenshot_id: 'ss2',
+          status: 'warning',
+          inter_object_score: 54
+        }]
+      }
+    }, 'sess1');
+
+    expect(result.overallScore).toBe(72);
+    expect(result.sessionId).toBe('sess1');
+    expect(result.summary).toEqual({ totalScreenshots: 2, validScreenshots: 1, warningScreenshots: 1, errorScreenshots: 0 });
+    expect(result.screenshotResults[0].meanLightAzimuthDeg).toBe(140);
+    expect(result.screenshotResults[0].objectResults[0]).toMatchObject({
+      objectId: 'obj1',
+      screenshotId: 'ss1',
+      consistencyScore: 88,
+      estimatedLightDirection: { x: 0, y: -1, z: 0 }
+    });
+  });
+
+  it('should report every schema mismatch with its path', () => {
+    const decode = () => decodeInterObjectValidation({
+      success: true,
+      status: 'bestens',
+      data: { interObjectScore: '90', objectResults: [{ object_id: 'obj1' }] }
+    }, 'ss1');
+
+    expect(decode).toThrow(ApiDecodeError);
+    try {
+      decode();
+    } catch (err) {
+      expect((err as ApiDecodeError).endpoint).toBe('validate/inter-object');
+      expect((err as ApiDecodeError).issues).toEqual([
+        'response.status: "pending" | "valid" | "warning" | "error" erwartet, "bestens" erhalten'
+      ]);
+    }
+
+    // Hülle gültig → Fehler im data-Teil
+    expect(() => decodeInterObjectValidation({
+      success: true,
+      data: { interObjectScore: '90', objectResults: [{ object_id: 'obj1' }] }
+    }, 'ss1')).toThrow(
+      'response.data.interObjectScore: Zahl erwartet, string erhalten; ' +
+      'response.data.objectResults[0].consistency_score: Zahl erwartet, undefined erhalten'
+    );
+  });
+
+  it('should decode snake_case geolocation responses unchanged', () => {
+    const raw = {
+      success: true,
+      message: 'ok',
+      data: {
+        locations: [{ latitude: 48.1, longitude: 11.6 }],
+        corridor: { lat_min: 47, lat_max: 49, lon_min: 10, lon_max: 13, lat_center: 48, lon_center: 11.5 },
+        confidence: 80,
+        sun_position: { measured_azimuth: 180, measured_elevation: 40, calculated_azimuth: 181, calculated_elevation: 39 },
+        shadow_analysis: { light_azimuth: 0, light_elevation: -40, inter_object_score: 95 },
+        error_deg: 2,
+        input: { date: '2024-06-21', time_utc: '12:00', hemisphere: 'north' }
+      }
+    };
+
+    expect(decodeResponse('geolocation', geolocationResponse, raw)).toEqual(raw);
+    expect(decodeResponse('geolocation', geolocationResponse, { success: false, message: 'kein Licht' }))
+      .toEqual({ success: false, message: 'kein Licht' });
+    expect(() => decodeResponse('geolocation', geolocationResponse, { ...raw, data: { ...raw.data, corridor: null } }))
+      .toThrow('response.data.corridor: Objekt erwartet, null erhalten');
+  });
+});
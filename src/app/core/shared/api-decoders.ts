@@ -0,0 +1,537 @@
+/**
+ * ============================================================================
+ * API-DECODER (Laufzeit-Validierung der Backend-Antworten)
+ * ============================================================================
+ *
+ * Jede Backend-Antwort wird gegen das erwartete Interface geprüft, bevor
+ * sie eine Komponente erreicht. Statt stiller `undefined`s gibt es einen
+ * ApiDecodeError mit Endpunkt und allen Abweichungen (Pfad + Erwartung).
+ *
+ * SNAKE_CASE:
+ *   Das Backend liefert Felder teils in snake_case (object_results,
+ *   inter_object_score, ...). object() sucht jedes Feld zuerst unter dem
+ *   camelCase-Namen des Interfaces und dann unter der snake_case-Variante;
+ *   abweichende Namen werden mit field() angegeben.
+ *
+ * Interfaces, die bewusst snake_case sind (GeolocationResponse), werden
+ * unverändert dekodiert.
+ *
+ * ============================================================================
+ */
+
+import type {
+    GeolocationResponse,
+    GlobalValidationResult,
+    InterObjectValidationResult,
+    PointValidationResult,
+    ShadowData,
+    SunPositionResult,
+    ValidationResult,
+    ValidationStatus,
+    ValidationSummary
+} from '../models/api.types';
+import type {
+    CreateSessionResponse,
+    SessionRevisionResponse,
+    SessionSummary,
+    UploadScreenshotResponse
+} from '../models/session.types';
+
+// ============================================================================
+// TYPEN
+// ============================================================================
+
+/**
+ * Dekodiert einen Wert. Abweichungen werden in issues gesammelt (nicht
+ * geworfen), damit ein Fehler alle Probleme einer Antwort auflistet.
+ */
+export type Decoder<T> = (value: unknown, path: string, issues: string[]) => T;
+
+/**
+ * Backend-Antwort entspricht nicht dem erwarteten Schema
+ */
+export class ApiDecodeError extends Error {
+    constructor(public readonly endpoint: string, public readonly issues: string[]) {
+        super(`Unerwartete Antwort von ${endpoint}: ${issues.join('; ')}`);
+        this.name = 'ApiDecodeError';
+    }
+}
+
+/** Decoder mit abweichendem Feldnamen im Backend */
+interface RenamedDecoder<T> extends Decoder<T> {
+    sourceKey: string;
+}
+
+// ============================================================================
+// BAUSTEINE
+// ============================================================================
+
+function describe(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'Array';
+    return typeof value;
+}
+
+function snakeCase(key: string): string {
+    return key.replace(/[A-Z]/g, c => `_${c.toLowerCase()}`);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export const num: Decoder<number> = (value, path, issues) => {
+    if (typeof value === 'number' && Number.isFinite(value)) return value;
+    issues.push(`${path}: Zahl erwartet, ${describe(value)} erhalten`);
+    return NaN;
+};
+
+export const str: Decoder<string> = (value, path, issues) => {
+    if (typeof value === 'string') return value;
+    issues.push(`${path}: Text erwartet, ${describe(value)} erhalten`);
+    return '';
+};
+
+export const bool: Decoder<boolean> = (value, path, issues) => {
+    if (typeof value === 'boolean') return value;
+    issues.push(`${path}: Boolean erwartet, ${describe(value)} erhalten`);
+    return false;
+};
+
+/** Beliebiger Wert (wird nicht geprüft) */
+export const unknownValue: Decoder<unknown> = (value) => value;
+
+export function literal<T extends string>(...values: T[]): Decoder<T> {
+    return (value, path, issues) => {
+        if (values.includes(value as T)) return value as T;
+        issues.push(`${path}: ${values.map(v => `"${v}"`).join(' | ')} erwartet, ${JSON.stringify(value)} erhalten`);
+        return values[0];
+    };
+}
+
+/** Fehlendes Feld oder null → undefined */
+export function optional<T>(decoder: Decoder<T>): Decoder<T | undefined> {
+    return (value, path, issues) => value === undefined || value === null ? undefined : decoder(value, path, issues);
+}
+
+export function nullable<T>(decoder: Decoder<T>): Decoder<T | null> {
+    return (value, path, issues) => value === null ? null : decoder(value, path, issues);
+}
+
+export function array<T>(decoder: Decoder<T>): Decoder<T[]> {
+    return (value, path, issues) => {
+        if (!Array.isArray(value)) {
+            issues.push(`${path}: Array erwartet, ${describe(value)} erhalten`);
+            return [];
+        }
+        return value.map((item, i) => decoder(item, `${path}[${i}]`, issues));
+    };
+}
+
+/**
+ * Feld heißt im Backend anders (z.B. globalScore → overallScore)
+ */
+export function field<T>(sourceKey: string, decoder: Decoder<T>): Decoder<T> {
+    const renamed = ((value, path, issues) => decoder(value, path, issues)) as RenamedDecoder<T>;
+    renamed.sourceKey = sourceKey;
+    return renamed;
+}
+
+/**
+ * Objekt mit einem Decoder pro Feld des Ziel-Interfaces
+ */
+export function object<T>(fields: { [K in keyof T]-?: Decoder<T[K]> }): Decoder<T> {
+    return (value, path, issues) => {
+        const result = {} as T;
+
+        if (!isRecord(value)) {
+            issues.push(`${path}: Objekt erwartet, ${describe(value)} erhalten`);
+            return result;
+        }
+
+        for (const key of Object.keys(fields) as Array<keyof T & string>) {
+            const decoder = fields[key];
+            const name = (decoder as Partial<RenamedDecoder<unknown>>).sourceKey ?? key;
+            const sourceKey = name in value ? name : snakeCase(name);
+
+            const decoded = decoder(value[sourceKey], `${path}.${sourceKey}`, issues);
+            if (decoded !== undefined) result[key] = decoded;
+        }
+
+        return result;
+    };
+}
+
+/**
+ * Wendet einen Decoder auf eine Antwort an
+ *
+ * @throws ApiDecodeError mit allen Abweichungen
+ */
+export function decodeResponse<T>(endpoint: string, decoder: Decoder<T>, value: unknown): T {
+    const issues: string[] = [];
+    const result = decoder(value, 'response', issues);
+
+    if (issues.length > 0) {
+        throw new ApiDecodeError(endpoint, issues);
+    }
+    return result;
+}
+
+// ============================================================================
+// GEMEINSAME TYPEN
+// ============================================================================
+
+const vector3 = object<{ x: number; y: number; z: number }>({ x: num, y: num, z: num });
+
+const validationStatus = literal<ValidationStatus>('pending', 'valid', 'warning', 'error');
+
+const normalizedPoint = object<{ normalizedX: number; normalizedY: number }>({
+    normalizedX: num,
+    normalizedY: num
+});
+
+// ============================================================================
+// SESSION
+// ============================================================================
+
+export const createSessionResponse = object<CreateSessionResponse>({
+    sessionId: str,
+    projectName: str
+});
+
+export const uploadScreenshotResponse = object<UploadScreenshotResponse>({
+    filename: str,
+    screenshotId: str,
+    url: str
+});
+
+export const sessionRevisionResponse = object<SessionRevisionResponse>({
+    lastModified: str
+});
+
+export const sessionSummaries = array(object<SessionSummary>({
+    sessionId: str,
+    projectName: str,
+    createdAt: str,
+    lastModified: str,
+    screenshotCount: num,
+    hasCalibration: bool,
+    hasShadows: bool,
+    hasValidation: bool
+}));
+
+// ============================================================================
+// SCHATTEN
+// ============================================================================
+
+const shadowData = object<ShadowData>({
+    version: str,
+    globalFovY: num,
+    screenshots: array(object({
+        screenshotId: str,
+        id: optional(str),
+        timestamp: optional(str),
+        objects: array(object({
+            id: str,
+            name: str,
+            pairs: array(object({
+                objectPoint: normalizedPoint,
+                shadowPoint: object({
+                    normalizedX: num,
+                    normalizedY: num,
+                    wall: str,
+                    world3D: optional(vector3)
+                })
+            }))
+        }))
+    }))
+});
+
+export const shadowsResponse = object<{ data: ShadowData | null }>({
+    data: nullable(shadowData)
+});
+
+// ============================================================================
+// VALIDIERUNG
+// ============================================================================
+
+/**
+ * Hülle aller validate/*-Antworten
+ */
+interface ValidationEnvelope {
+    success: boolean;
+    status?: ValidationStatus;
+    message?: string;
+    data?: unknown;
+}
+
+const validationEnvelope = object<ValidationEnvelope>({
+    success: bool,
+    status: optional(validationStatus),
+    message: optional(str),
+    data: optional(unknownValue)
+});
+
+/** Objekt-Ergebnis (validate/object bzw. object_results) */
+interface ObjectValidationData {
+    objectId?: string;
+    status?: ValidationStatus;
+    message?: string;
+    consistencyScore: number;
+    averageErrorDeg?: number;
+    maxErrorDeg?: number;
+    lightDirection?: { x: number; y: number; z: number };
+    points?: PointValidationResult[];
+    details?: { lightAzimuthDeg?: number; lightElevationDeg?: number };
+}
+
+const objectValidationData = object<ObjectValidationData>({
+    objectId: optional(str),
+    status: optional(validationStatus),
+    message: optional(str),
+    consistencyScore: num,
+    averageErrorDeg: optional(num),
+    maxErrorDeg: optional(num),
+    lightDirection: optional(vector3),
+    points: optional(array(object<PointValidationResult>({
+        pointIndex: num,
+        status: validationStatus,
+        errorPercent: optional(num),
+        errorDistance: optional(num),
+        message: optional(str)
+    }))),
+    details: optional(object({
+        lightAzimuthDeg: optional(num),
+        lightElevationDeg: optional(num)
+    }))
+});
+
+/** Screenshot-Ergebnis (validate/inter-object bzw. screenshot_results) */
+interface InterObjectValidationData {
+    screenshotId?: string;
+    status?: ValidationStatus;
+    message?: string;
+    interObjectScore: number;
+    intraObjectScore?: number;
+    averageDeviationDeg?: number;
+    maxDeviationDeg?: number;
+    meanLightDirection?: { x: number; y: number; z: number };
+    meanLightAzimuthDeg?: number;
+    meanLightElevationDeg?: number;
+    objectResults?: ObjectValidationData[];
+    objectComparisons?: InterObjectValidationResult['objectComparisons'];
+}
+
+const interObjectValidationData = object<InterObjectValidationData>({
+    screenshotId: optional(str),
+    status: optional(validationStatus),
+    message: optional(str),
+    interObjectScore: num,
+    intraObjectScore: optional(num),
+    averageDeviationDeg: optional(num),
+    maxDeviationDeg: optional(num),
+    meanLightDirection: optional(vector3),
+    meanLightAzimuthDeg: optional(num),
+    meanLightElevationDeg: optional(num),
+    objectResults: optional(array(objectValidationData)),
+    objectComparisons: optional(array(object({
+        objectId: str,
+        objectName: str,
+        estimatedLightDirection: vector3,
+        deviationFromMean: num,
+        status: validationStatus
+    })))
+});
+
+interface GlobalValidationData {
+    overallScore: number;
+    summary?: ValidationSummary;
+    screenshotResults: InterObjectValidationData[];
+    crossScreenshotConsistency?: number;
+}
+
+const globalValidationData = object<GlobalValidationData>({
+    overallScore: field('globalScore', num),
+    summary: optional(object<ValidationSummary>({
+        totalScreenshots: num,
+        validScreenshots: num,
+        warningScreenshots: num,
+        errorScreenshots: num
+    })),
+    screenshotResults: array(interObjectValidationData),
+    crossScreenshotConsistency: optional(num)
+});
+
+/**
+ * Hülle prüfen und - bei Erfolg - data dekodieren
+ */
+function decodeValidation<T>(
+    endpoint: string,
+    decoder: Decoder<T>,
+    value: unknown
+): { envelope: ValidationEnvelope; data: T | null } {
+    const envelope = decodeResponse(endpoint, validationEnvelope, value);
+
+    if (!envelope.success) {
+        return { envelope, data: null };
+    }
+    if (envelope.data === undefined) {
+        throw new ApiDecodeError(endpoint, ['response.data fehlt trotz success=true']);
+    }
+
+    const issues: string[] = [];
+    const data = decoder(envelope.data, 'response.data', issues);
+    if (issues.length > 0) {
+        throw new ApiDecodeError(endpoint, issues);
+    }
+
+    return { envelope, data };
+}
+
+function toValidationResult(
+    data: ObjectValidationData,
+    screenshotId: string,
+    fallback: { objectId?: string; status?: ValidationStatus; message?: string; success?: boolean }
+): ValidationResult {
+    return {
+        success: fallback.success ?? true,
+        objectId: data.objectId ?? fallback.objectId ?? '',
+        screenshotId,
+        status: data.status ?? fallback.status ?? 'pending',
+        consistencyScore: data.consistencyScore,
+        points: data.points ?? [],
+        estimatedLightDirection: data.lightDirection,
+        averageError: data.averageErrorDeg,
+        maxError: data.maxErrorDeg,
+        lightAzimuthDeg: data.details?.lightAzimuthDeg,
+        lightElevationDeg: data.details?.lightElevationDeg,
+        message: data.message ?? fallback.message
+    };
+}
+
+function toInterObjectResult(
+    data: InterObjectValidationData,
+    screenshotId: string,
+    fallback: { status?: ValidationStatus; message?: string; success?: boolean }
+): InterObjectValidationResult {
+    const id = data.screenshotId ?? screenshotId;
+
+    return {
+        success: fallback.success ?? true,
+        screenshotId: id,
+        status: data.status ?? fallback.status ?? 'pending',
+        interObjectScore: data.interObjectScore,
+        intraObjectScore: data.intraObjectScore,
+        averageDeviationDeg: data.averageDeviationDeg,
+        maxDeviationDeg: data.maxDeviationDeg,
+        meanLightDirection: data.meanLightDirection,
+        meanLightAzimuthDeg: data.meanLightAzimuthDeg,
+        meanLightElevationDeg: data.meanLightElevationDeg,
+        objectComparisons: data.objectComparisons ?? [],
+        objectResults: (data.objectResults ?? []).map(result => toValidationResult(result, id, {})),
+        message: data.message ?? fallback.message
+    };
+}
+
+/**
+ * POST /sessions/{id}/validate/object
+ */
+export function decodeObjectValidation(value: unknown, screenshotId: string, objectId: string): ValidationResult {
+    const { envelope, data } = decodeValidation('validate/object', objectValidationData, value);
+    const fallback = { objectId, status: envelope.status, message: envelope.message, success: envelope.success };
+
+    return data
+        ? toValidationResult(data, screenshotId, fallback)
+        : toValidationResult({ consistencyScore: 0 }, screenshotId, { ...fallback, status: envelope.status ?? 'error' });
+}
+
+/**
+ * POST /sessions/{id}/validate/inter-object
+ */
+export function decodeInterObjectValidation(value: unknown, screenshotId: string): InterObjectValidationResult {
+    const { envelope, data } = decodeValidation('validate/inter-object', interObjectValidationData, value);
+    const fallback = { status: envelope.status, message: envelope.message, success: envelope.success };
+
+    return data
+        ? toInterObjectResult(data, screenshotId, fallback)
+        : toInterObjectResult({ interObjectScore: 0 }, screenshotId, { ...fallback, status: envelope.status ?? 'error' });
+}
+
+/**
+ * POST /sessions/{id}/validate/all
+ *
+ * Fehlt die Zusammenfassung, wird sie aus den Screenshot-Ergebnissen gezählt.
+ */
+export function decodeGlobalValidation(value: unknown, sessionId: string): GlobalValidationResult {
+    const { envelope, data } = decodeValidation('validate/all', globalValidationData, value);
+    const missing: string[] = [];
+
+    const screenshotResults = (data?.screenshotResults ?? []).map((result, i) => {
+        if (!result.screenshotId) missing.push(`response.data.screenshotResults[${i}].screenshot_id fehlt`);
+        return toInterObjectResult(result, result.screenshotId ?? '', {});
+    });
+    if (missing.length > 0) {
+        throw new ApiDecodeError('validate/all', missing);
+    }
+
+    const count = (status: ValidationStatus) => screenshotResults.filter(r => r.status === status).length;
+
+    return {
+        success: envelope.success,
+        sessionId,
+        status: envelope.status ?? (envelope.success ? 'pending' : 'error'),
+        overallScore: data?.overallScore ?? 0,
+        summary: data?.summary ?? {
+            totalScreenshots: screenshotResults.length,
+            validScreenshots: count('valid'),
+            warningScreenshots: count('warning'),
+            errorScreenshots: count('error')
+        },
+        screenshotResults,
+        crossScreenshotConsistency: data?.crossScreenshotConsistency,
+        message: envelope.message
+    };
+}
+
+// ============================================================================
+// GEOLOCATION & SONNENSTAND
+// ============================================================================
+
+export const geolocationResponse = object<GeolocationResponse>({
+    success: bool,
+    message: str,
+    data: optional(object<NonNullable<GeolocationResponse['data']>>({
+        locations: array(object({ latitude: num, longitude: num })),
+        corridor: object({
+            lat_min: num,
+            lat_max: num,
+            lon_min: num,
+            lon_max: num,
+            lat_center: num,
+            lon_center: num
+        }),
+        confidence: num,
+        sun_position: object({
+            measured_azimuth: num,
+            measured_elevation: num,
+            calculated_azimuth: num,
+            calculated_elevation: num
+        }),
+        shadow_analysis: object({
+            light_azimuth: num,
+            light_elevation: num,
+            inter_object_score: num
+        }),
+        error_deg: num,
+        input: object({
+            date: str,
+            time_utc: str,
+            hemisphere: str
+        })
+    }))
+});
+
+export const sunPositionResponse = object<SunPositionResult>({
+    azimuth: num,
+    elevation: num
+});
@@ -0,0 +1,48 @@
+import { Component } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { MatIconModule } from '@angular/material/icon';
+import { MatTooltipModule } from '@angular/material/tooltip';
+
+import { AutosaveState, AutosaveStatus, AutosaveService } from '../../services/autosave.service';
+
+const STATUS_DISPLAY: Record<AutosaveStatus, { icon: string; label: string }> = {
+    saved: { icon: 'check', label: 'Gespeichert' },
+    pending: { icon: 'edit', label: 'Ungespeicherte Änderungen' },
+    saving: { icon: 'save', label: 'Speichere…' },
+    error: { icon: 'error_outline', label: 'Speichern fehlgeschlagen' }
+};
+
+/**
+ * ============================================================================
+ * AUTOSAVE STATUS COMPONENT
+ * ============================================================================
+ *
+ * "Zuletzt gespeichert"-Anzeige für die Aktionsleiste von Stage 3 und 5.
+ */
+@Component({
+    selector: 'app-autosave-status',
+    standalone: true,
+    imports: [CommonModule, MatIconModule, MatTooltipModule],
+    templateUrl: './autosave-status.component.html',
+    styleUrl: './autosave-status.component.scss'
+})
+export class AutosaveStatusComponent {
+    constructor(public autosave: AutosaveService) { }
+
+    display(state: AutosaveState): { icon: string; label: string } {
+        return STATUS_DISPLAY[state.status];
+    }
+
+    label(state: AutosaveState): string {
+        if (state.status === 'saved' && state.lastSaved) {
+            return `Gespeichert ${new Date(state.lastSaved).toLocaleTimeString()}`;
+        }
+        return this.display(state).label;
+    }
+
+    tooltip(state: AutosaveState): string {
+        return state.status === 'error'
+            ? 'Wird bei der nächsten Änderung erneut versucht'
+            : 'Änderungen werden automatisch gespeichert';
+    }
+}
@@ -0,0 +1,41 @@
+/**
+ * ============================================================================
+ * BACKEND-ROUTEN
+ * ============================================================================
+ *
+ * Einzige Routen-Tabelle des Frontends. Pfade sind relativ zur REST- bzw.
+ * WebSocket-Basis aus der Laufzeit-Konfiguration (BackendConfigService).
+ *
+ * Screenshots liegen im Backend unter "<screenshotId>.png" (unabhängig vom
+ * ursprünglichen Dateinamen).
+ *
+ * ============================================================================
+ */
+
+export const BACKEND_ROUTES = {
+    // Sessions
+    sessions: () => '/sessions',
+    session: (sessionId: string) => `/sessions/${sessionId}`,
+
+    // Screenshots
+    screenshots: (sessionId: string) => `/sessions/${sessionId}/screenshots`,
+    screenshot: (sessionId: string, screenshotId: string) => `/sessions/${sessionId}/screenshots/${screenshotId}.png`,
+
+    // Kalibrierung (PUT = nur dieser Abschnitt)
+    calibration: (sessionId: string) => `/sessions/${sessionId}/calibration`,
+
+    // Schatten (GET = ShadowData, PUT = nur dieser Abschnitt)
+    shadows: (sessionId: string) => `/sessions/${sessionId}/shadows`,
+
+    // Validierung
+    validateObject: (sessionId: string) => `/sessions/${sessionId}/validate/object`,
+    validateInterObject: (sessionId: string) => `/sessions/${sessionId}/validate/inter-object`,
+    validateAll: (sessionId: string) => `/sessions/${sessionId}/validate/all`,
+
+    // Geolocation
+    geolocation: (sessionId: string) => `/sessions/${sessionId}/geolocation`,
+    sunPosition: () => '/sun-position',
+
+    // WebSocket
+    bundleAdjustment: () => '/bundle-adjustment'
+} as const;
@@ -35,7 +35,7 @@
  * Z-ACHSE:      Nach HINTEN      (0 → room.depth)
  * EINHEIT:      Meter
  * 
- * WÄNDE:
+ * WÄNDE (Standard-Quader):
  *   - front:   Z = 0             (wo die Kamera typischerweise steht)
  *   - back:    Z = room.depth    (gegenüber der Kamera)
  *   - left:    X = 0
@@ -43,6 +43,10 @@
  *   - floor:   Y = 0
  *   - ceiling: Y = room.height
  * 
+ * Andere Raumformen (L-Form, Nische, Dachschräge, ...) bestehen aus
+ * benannten ebenen Polygonen - siehe room-geometry.ts. room beschreibt
+ * dann den umschließenden Quader.
+ * 
  * ============================================================================
  * BILD-KOORDINATENSYSTEM (2D Screenshot)
  * ============================================================================
@@ -98,6 +102,9 @@
  * ============================================================================
  */
 
+import type { RoomSurface } from '../models/session.types';
+import { resolveRoomSurfaces, surfacePlane } from './room-geometry';
+
 // ============================================================================
 // GRUNDLEGENDE TYPEN
 // ============================================================================
@@ -151,29 +158,28 @@ export interface RoomDimensions {
 }
 
 /**
- * Wand-Bezeichnungen
+ * Wand-Bezeichnungen: Name einer Raumfläche (Standard-Quader siehe oben)
  */
-export type WallName = 'front' | 'back' | 'left' | 'right' | 'floor' | 'ceiling';
+export type WallName = string;
 
 /**
  * Berechnet die Ebenen-Gleichung für eine Wand
- * Ebene: ax + by + cz + d = 0
+ * Ebene: ax + by + cz + d = 0 (Normale zeigt in den Raum)
+ *
+ * @param surfaces - eigene Raumflächen (fehlt = Quader aus room)
+ * @returns null, wenn es keine Fläche mit diesem Namen gibt
  */
-export function getWallPlane(wall: WallName, room: RoomDimensions): { normal: WorldPoint3D; d: number } {
-    switch (wall) {
-        case 'front':
-            return { normal: { x: 0, y: 0, z: 1 }, d: 0 };
-        case 'back':
-            return { normal: { x: 0, y: 0, z: -1 }, d: room.depth };
-        case 'left':
-            return { normal: { x: 1, y: 0, z: 0 }, d: 0 };
-        case 'right':
-            return { normal: { x: -1, y: 0, z: 0 }, d: room.width };
-        case 'floor':
-            return { normal: { x: 0, y: 1, z: 0 }, d: 0 };
-        case 'ceiling':
-            return { normal: { x: 0, y: -1, z: 0 }, d: room.height };
+export function getWallPlane(
+    wall: WallName,
+    room: RoomDimensions,
+    surfaces?: RoomSurface[] | null
+): { normal: WorldPoint3D; d: number } | null {
+    if (wall === 'ceiling' && !surfaces?.length) {
+        return { normal: { x: 0, y: -1, z: 0 }, d: room.height };
     }
+
+    const surface = resolveRoomSurfaces(room, surfaces).find(s => s.name === wall);
+    return surface ? surfacePlane(surface) : null;
 }
 
 // ============================================================================
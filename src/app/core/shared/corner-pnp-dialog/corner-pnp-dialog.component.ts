@@ -0,0 +1,481 @@
+import { Component, ElementRef, Inject, OnDestroy, ViewChild } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { MAT_DIALOG_DATA, MatDialog, MatDialogModule, MatDialogRef } from '@angular/material/dialog';
+import { MatButtonModule } from '@angular/material/button';
+import { MatCheckboxModule } from '@angular/material/checkbox';
+import { MatIconModule } from '@angular/material/icon';
+import { firstValueFrom } from 'rxjs';
+
+import type { NormalizedPoint2D } from '../../models/session.types';
+import {
+  CornerCorrespondence,
+  CornerPnpRequest,
+  CornerPnpResult,
+  MAX_CORNER_ERROR_PX,
+  PnpLocks,
+  ROOM_CORNERS,
+  ROOM_CORNER_EDGES,
+  solveCornerPnp
+} from '../corner-pnp';
+
+export interface CornerPnpDialogData extends Omit<CornerPnpRequest, 'correspondences' | 'locks'> {
+  file: File;
+
+  /** Bereits zugeordnete Ecken und Fixierungen (erneutes Öffnen) */
+  correspondences: CornerCorrespondence[];
+  locks: PnpLocks;
+}
+
+export interface CornerPnpDialogResult {
+  correspondences: CornerCorrespondence[];
+  locks: PnpLocks;
+  solution: NonNullable<CornerPnpResult['data']>;
+}
+
+type LengthLock = 'roomWidth' | 'roomDepth' | 'roomHeight' | 'cameraHeight';
+
+const LENGTH_LOCKS: Array<{ key: LengthLock; label: string }> = [
+  { key: 'roomWidth', label: 'Raumbreite' },
+  { key: 'roomDepth', label: 'Raumtiefe' },
+  { key: 'roomHeight', label: 'Raumhöhe' },
+  { key: 'cameraHeight', label: 'Kamerahöhe' }
+];
+
+/**
+ * Öffnet den Dialog zum Zuordnen der Raumecken. Ergebnis: Lösung oder null (abgebrochen)
+ */
+export function openCornerPnpDialog(
+  dialog: MatDialog,
+  data: CornerPnpDialogData
+): Promise<CornerPnpDialogResult | null> {
+  const dialogRef = dialog.open<CornerPnpDialogComponent, CornerPnpDialogData, CornerPnpDialogResult | null>(
+    CornerPnpDialogComponent,
+    { width: '1040px', data }
+  );
+  return firstValueFrom(dialogRef.afterClosed()).then(result => result ?? null);
+}
+
+@Component({
+  selector: 'app-corner-pnp-dialog',
+  standalone: true,
+  imports: [
+    CommonModule,
+    FormsModule,
+    MatDialogModule,
+    MatButtonModule,
+    MatCheckboxModule,
+    MatIconModule
+  ],
+  template: `
+    <h2 mat-dialog-title>
+      <mat-icon>control_camera</mat-icon>
+      Kamera aus Raumecken kalibrieren
+    </h2>
+
+    <mat-dialog-content>
+      <p class="intro">
+        Ecke in der Liste wählen und im Screenshot anklicken. Mit vier Ecken einer Wand und einem
+        bekannten Maß reicht es für die Pose - ab sechs Ecken auf zwei Wänden werden auch Raummaße geschätzt.
+      </p>
+
+      <div class="layout">
+        <div class="image-frame" (click)="onImageClick($event)">
+          <img #image [src]="imageUrl" [alt]="data.file.name" draggable="false" />
+          <svg viewBox="0 0 1 1" preserveAspectRatio="none">
+            @if (showWireframe && result?.data) {
+            @for (edge of edges; track $index) {
+            @if (projected(edge[0]) && projected(edge[1])) {
+            <line
+              class="wireframe"
+              [attr.x1]="projected(edge[0])!.normalizedX"
+              [attr.y1]="projected(edge[0])!.normalizedY"
+              [attr.x2]="projected(edge[1])!.normalizedX"
+              [attr.y2]="projected(edge[1])!.normalizedY"
+            />
+            }
+            }
+            @for (c of correspondences; track c.corner) {
+            @if (projected(c.corner)) {
+            <line
+              class="error"
+              [attr.x1]="c.point.normalizedX"
+              [attr.y1]="c.point.normalizedY"
+              [attr.x2]="projected(c.corner)!.normalizedX"
+              [attr.y2]="projected(c.corner)!.normalizedY"
+            />
+            }
+            }
+            }
+          </svg>
+          @for (c of correspondences; track c.corner) {
+          <span
+            class="marker"
+            [class.active]="c.corner === selectedCorner"
+            [class.misfit]="errorOf(c.corner) > maxError"
+            [style.left.%]="c.point.normalizedX * 100"
+            [style.top.%]="c.point.normalizedY * 100"
+          >
+            {{ c.corner + 1 }}
+          </span>
+          }
+        </div>
+
+        <div class="side">
+          <div class="corner-list">
+            @for (corner of corners; track corner.index) {
+            <button
+              mat-stroked-button
+              [color]="corner.index === selectedCorner ? 'primary' : ''"
+              [class.assigned]="isAssigned(corner.index)"
+              (click)="selectedCorner = corner.index"
+            >
+              <span class="corner-number">{{ corner.index + 1 }}</span>
+              {{ corner.label }}
+              @if (isAssigned(corner.index)) {
+              <span class="error-px" [class.warn]="errorOf(corner.index) > maxError">
+                {{ errorOf(corner.index) | number : '1.1-1' }} px
+              </span>
+              }
+            </button>
+            }
+          </div>
+
+          <button mat-button (click)="onRemoveSelected()" [disabled]="!isAssigned(selectedCorner)">
+            <mat-icon>close</mat-icon>
+            Zuordnung entfernen
+          </button>
+
+          <h4>Bekannte Werte fixieren</h4>
+          @for (lock of lengthLocks; track lock.key) {
+          <div class="lock-row">
+            <mat-checkbox [(ngModel)]="lockEnabled[lock.key]" (ngModelChange)="recalculate()">
+              {{ lock.label }}
+            </mat-checkbox>
+            <input
+              type="number"
+              min="0.1"
+              step="0.05"
+              [disabled]="!lockEnabled[lock.key]"
+              [(ngModel)]="lockValues[lock.key]"
+              (ngModelChange)="recalculate()"
+            />
+            <span>m</span>
+          </div>
+          }
+          <mat-checkbox [(ngModel)]="lockFocal" (ngModelChange)="recalculate()">
+            Sichtfeld beibehalten
+          </mat-checkbox>
+        </div>
+      </div>
+
+      @if (result) {
+      <div class="summary" [class.error]="!result.success">
+        @if (result.data; as d) {
+        <span><strong>Pitch / Yaw / Roll</strong> {{ d.rotation.x | number : '1.1-1' }}° / {{ d.rotation.y | number : '1.1-1' }}° / {{ d.rotation.z | number : '1.1-1' }}°</span>
+        <span><strong>Kamera</strong> {{ d.cameraPosition.x | number : '1.2-2' }} / {{ d.cameraPosition.y | number : '1.2-2' }} / {{ d.cameraPosition.z | number : '1.2-2' }} m</span>
+        <span><strong>Raum</strong> {{ d.room.width | number : '1.2-2' }} × {{ d.room.depth | number : '1.2-2' }} × {{ d.room.height | number : '1.2-2' }} m</span>
+        <span><strong>Sichtfeld (Bild)</strong> {{ d.imageFovY | number : '1.1-1' }}°</span>
+        <span [class.warn]="d.rmsErrorPx > maxError"><strong>RMS</strong> {{ d.rmsErrorPx | number : '1.1-1' }} px</span>
+        <label class="toggle">
+          <input type="checkbox" [(ngModel)]="showWireframe" />
+          Raum einblenden
+        </label>
+        }
+        <p>{{ result.message }}</p>
+      </div>
+      }
+    </mat-dialog-content>
+
+    <mat-dialog-actions align="end">
+      <button mat-button [mat-dialog-close]="null">Abbrechen</button>
+      <button mat-raised-button color="primary" [disabled]="!result?.success" (click)="onConfirm()">
+        Übernehmen
+      </button>
+    </mat-dialog-actions>
+  `,
+  styles: [`
+    h2[mat-dialog-title] {
+      display: flex;
+      align-items: center;
+      gap: 10px;
+    }
+
+    .intro {
+      color: #666;
+      font-size: 14px;
+    }
+
+    .layout {
+      display: flex;
+      gap: 16px;
+      align-items: flex-start;
+    }
+
+    .image-frame {
+      position: relative;
+      flex: 1;
+      cursor: crosshair;
+      user-select: none;
+
+      img {
+        display: block;
+        width: 100%;
+      }
+
+      svg {
+        position: absolute;
+        inset: 0;
+        width: 100%;
+        height: 100%;
+        pointer-events: none;
+      }
+    }
+
+    line {
+      vector-effect: non-scaling-stroke;
+
+      &.wireframe {
+        stroke: #00e676;
+        stroke-width: 1.5;
+        stroke-dasharray: 6 4;
+      }
+
+      &.error {
+        stroke: #f44336;
+        stroke-width: 2;
+      }
+    }
+
+    .marker {
+      position: absolute;
+      transform: translate(-50%, -50%);
+      width: 20px;
+      height: 20px;
+      border-radius: 50%;
+      border: 2px solid #fff;
+      background: #1976d2;
+      color: #fff;
+      font-size: 11px;
+      line-height: 16px;
+      text-align: center;
+      pointer-events: none;
+
+      &.active {
+        background: #ff9800;
+      }
+
+      &.misfit {
+        background: #f44336;
+      }
+    }
+
+    .side {
+      width: 280px;
+      display: flex;
+      flex-direction: column;
+      gap: 6px;
+
+      h4 {
+        margin: 12px 0 0;
+      }
+    }
+
+    .corner-list {
+      display: flex;
+      flex-direction: column;
+      gap: 4px;
+
+      button {
+        justify-content: flex-start;
+      }
+
+      button.assigned {
+        border-color: #4caf50;
+      }
+    }
+
+    .corner-number {
+      display: inline-block;
+      width: 18px;
+      font-weight: 600;
+    }
+
+    .error-px {
+      margin-left: 8px;
+      color: #4caf50;
+      font-size: 12px;
+    }
+
+    .lock-row {
+      display: flex;
+      align-items: center;
+      gap: 6px;
+
+      input {
+        width: 70px;
+      }
+    }
+
+    .summary {
+      display: flex;
+      flex-wrap: wrap;
+      align-items: center;
+      gap: 8px 20px;
+      margin-top: 12px;
+      font-size: 14px;
+
+      p {
+        flex-basis: 100%;
+        margin: 0;
+        color: #666;
+      }
+
+      &.error p {
+        color: #f44336;
+      }
+    }
+
+    .warn,
+    .error-px.warn {
+      color: #f44336;
+    }
+
+    .toggle {
+      display: flex;
+      align-items: center;
+      gap: 6px;
+      cursor: pointer;
+    }
+  `]
+})
+export class CornerPnpDialogComponent implements OnDestroy {
+  @ViewChild('image') imageRef!: ElementRef<HTMLImageElement>;
+
+  readonly imageUrl: string;
+  readonly corners = ROOM_CORNERS;
+  readonly edges = ROOM_CORNER_EDGES;
+  readonly lengthLocks = LENGTH_LOCKS;
+  readonly maxError = MAX_CORNER_ERROR_PX;
+
+  selectedCorner = 0;
+  correspondences: CornerCorrespondence[];
+  lockEnabled: Record<LengthLock, boolean>;
+  lockValues: Record<LengthLock, number>;
+  lockFocal: boolean;
+  result: CornerPnpResult | null = null;
+  showWireframe = true;
+
+  constructor(
+    public dialogRef: MatDialogRef<CornerPnpDialogComponent, CornerPnpDialogResult | null>,
+    @Inject(MAT_DIALOG_DATA) public data: CornerPnpDialogData
+  ) {
+    this.imageUrl = URL.createObjectURL(data.file);
+    this.correspondences = [...data.correspondences];
+
+    const current: Record<LengthLock, number> = {
+      roomWidth: data.room.width,
+      roomDepth: data.room.depth,
+      roomHeight: data.room.height,
+      cameraHeight: data.cameraPosition.y
+    };
+    this.lockEnabled = {
+      roomWidth: data.locks.roomWidth !== undefined,
+      roomDepth: data.locks.roomDepth !== undefined,
+      roomHeight: data.locks.roomHeight !== undefined,
+      cameraHeight: data.locks.cameraHeight !== undefined
+    };
+    this.lockValues = {
+      roomWidth: data.locks.roomWidth ?? current.roomWidth,
+      roomDepth: data.locks.roomDepth ?? current.roomDepth,
+      roomHeight: data.locks.roomHeight ?? current.roomHeight,
+      cameraHeight: data.locks.cameraHeight ?? current.cameraHeight
+    };
+    this.lockFocal = data.locks.focalPx !== undefined;
+
+    this.selectNextUnassigned();
+    this.recalculate();
+  }
+
+  ngOnDestroy() {
+    URL.revokeObjectURL(this.imageUrl);
+  }
+
+  isAssigned(corner: number): boolean {
+    return this.correspondences.some(c => c.corner === corner);
+  }
+
+  errorOf(corner: number): number {
+    return this.result?.data?.residuals.find(r => r.corner === corner)?.errorPx ?? 0;
+  }
+
+  projected(corner: number): NormalizedPoint2D | null {
+    return this.result?.data?.projectedCorners[corner] ?? null;
+  }
+
+  onImageClick(event: MouseEvent) {
+    const point = this.relativePoint(event);
+    this.correspondences = [
+      ...this.correspondences.filter(c => c.corner !== this.selectedCorner),
+      { corner: this.selectedCorner, point }
+    ];
+    this.selectNextUnassigned();
+    this.recalculate();
+  }
+
+  onRemoveSelected() {
+    this.correspondences = this.correspondences.filter(c => c.corner !== this.selectedCorner);
+    this.recalculate();
+  }
+
+  onConfirm() {
+    if (!this.result?.data) return;
+    this.dialogRef.close({
+      correspondences: this.correspondences,
+      locks: this.locks,
+      solution: this.result.data
+    });
+  }
+
+  recalculate() {
+    this.result = this.correspondences.length
+      ? solveCornerPnp({
+        correspondences: this.correspondences,
+        imageWidth: this.data.imageWidth,
+        imageHeight: this.data.imageHeight,
+        room: this.data.room,
+        rotation: this.data.rotation,
+        cameraPosition: this.data.cameraPosition,
+        focalPx: this.data.focalPx,
+        locks: this.locks,
+        distortion: this.data.distortion
+      })
+      : null;
+  }
+
+  private get locks(): PnpLocks {
+    const locks: PnpLocks = {};
+    for (const { key } of LENGTH_LOCKS) {
+      if (this.lockEnabled[key] && this.lockValues[key] > 0) locks[key] = this.lockValues[key];
+    }
+    if (this.lockFocal) locks.focalPx = this.data.focalPx;
+    return locks;
+  }
+
+  private selectNextUnassigned() {
+    const next = ROOM_CORNERS.find(corner => !this.isAssigned(corner.index));
+    if (next) this.selectedCorner = next.index;
+  }
+
+  /**
+   * Mausposition relativ zum Bild (0..1)
+   */
+  private relativePoint(event: MouseEvent): NormalizedPoint2D {
+    const rect = this.imageRef.nativeElement.getBoundingClientRect();
+    const clamp = (value: number) => Math.min(1, Math.max(0, value));
+    return {
+      normalizedX: clamp((event.clientX - rect.left) / rect.width),
+      normalizedY: clamp((event.clientY - rect.top) / rect.height)
+    };
+  }
+}
@@ -0,0 +1,124 @@
+import type { EulerRotation, NormalizedPoint2D } from '../models/session.types';
+import { CornerCorrespondence, CornerPnpRequest, ROOM_CORNERS, ROOM_CORNER_EDGES, solveCornerPnp } from './corner-pnp';
+import { createLensDistortion, distortPoint } from './lens-distortion';
+import { eulerToMatrix } from './vanishing-points';
+
+const WIDTH = 1920;
+const HEIGHT = 1080;
+const ROOM = { width: 5, depth: 6, height: 3 };
+const CAMERA = { x: 4.6, y: 2.7, z: 0.3 };
+const ROTATION: EulerRotation = { x: -18, y: 150, z: 2 };
+const FOCAL = 900;
+
+/** Projiziert eine Raumecke wie die Three.js-Kamera */
+function project(corner: number): NormalizedPoint2D {
+  const factors = ROOM_CORNERS[corner].factors;
+  const m = eulerToMatrix(ROTATION);
+  const p = [
+    factors[0] * ROOM.width - CAMERA.x,
+    factors[1] * ROOM.height - CAMERA.y,
+    factors[2] * ROOM.depth - CAMERA.z
+  ];
+  const camera = [0, 1, 2].map(j => m[0][j] * p[0] + m[1][j] * p[1] + m[2][j] * p[2]);
+  if (camera[2] >= 0) throw new Error(`Ecke ${corner} hinter der Kamera`);
+
+  return {
+    normalizedX: (WIDTH / 2 + FOCAL * camera[0] / -camera[2]) / WIDTH,
+    normalizedY: (HEIGHT / 2 - FOCAL * camera[1] / -camera[2]) / HEIGHT
+  };
+}
+
+function correspondences(corners: number[]): CornerCorrespondence[] {
+  return corners.map(corner => ({ corner, point: project(corner) }));
+}
+
+/** Grob geschätzter Ausgangszustand (wie nach Augenmaß im Viewer) */
+const request: Omit<CornerPnpRequest, 'correspondences' | 'locks'> = {
+  imageWidth: WIDTH,
+  imageHeight: HEIGHT,
+  room: { width: 4.5, depth: 5.5, height: 2.8 },
+  rotation: { x: -10, y: 140, z: 0 },
+  cameraPosition: { x: 4, y: 2.4, z: 0.6 },
+  focalPx: 1000
+};
+
+describe('corner-pnp', () => {
+  it('should list the eight corners in viewer order with their edges', () => {
+    expect(ROOM_CORNERS[0].factors).toEqual([0, 0, 0]);
+    expect(ROOM_CORNERS[6].factors).toEqual([0, 1, 1]);
+    expect(ROOM_CORNERS[3].label).toBe('Decke (B | H | 0)');
+    expect(ROOM_CORNER_EDGES).toHaveLength(12);
+  });
+
+  it('should recover pose, focal length and room size from six corners', () => {
+    const result = solveCornerPnp({
+      ...request,
+      correspondences: correspondences([0, 2, 4, 5, 6, 7]),
+      locks: { roomHeight: 3 }
+    });
+
+    expect(result.success).toBe(true);
+    const data = result.data!;
+    expect(data.initialisation).toBe('dlt');
+    expect(data.rotation.x).toBeCloseTo(-18, 1);
+    expect(data.rotation.y).toBeCloseTo(150, 1);
+    expect(data.rotation.z).toBeCloseTo(2, 1);
+    expect(data.cameraPosition).toEqual({ x: 4.6, y: 2.7, z: 0.3 });
+    expect(data.focalPx).toBeCloseTo(FOCAL, 1);
+    expect(data.room).toEqual(ROOM);
+    expect(data.rmsErrorPx).toBeLessThan(0.01);
+    expect(data.projectedCorners[5]!.normalizedX).toBeCloseTo(project(5).normalizedX, 5);
+  });
+
+  it('should undistort clicked corners before solving', () => {
+    const distortion = { ...createLensDistortion('brown-conrady', 62), k1: -0.2, k2: 0.03 };
+    const corners = [0, 2, 4, 5, 6, 7];
+    const clicked = correspondences(corners).map(c => ({
+      ...c,
+      point: distortPoint(c.point, distortion, { width: WIDTH, height: HEIGHT })
+    }));
+
+    const plain = solveCornerPnp({ ...request, correspondences: clicked, locks: { roomHeight: 3 } });
+    const result = solveCornerPnp({ ...request, correspondences: clicked, locks: { roomHeight: 3 }, distortion });
+
+    expect(plain.data!.rmsErrorPx).toBeGreaterThan(1);
+    expect(result.data!.rmsErrorPx).toBeLessThan(0.01);
+    expect(result.data!.focalPx).toBeCloseTo(FOCAL, 1);
+    // Overlay liegt wieder auf den (verzeichneten) Klicks
+    expect(result.data!.projectedCorners[5]!.normalizedX).toBeCloseTo(clicked[3].point.normalizedX, 5);
+  });
+
+  it('should solve four corners of one wall with a locked camera height', () => {
+    const result = solveCornerPnp({
+      ...request,
+      room: ROOM,
+      correspondences: correspondences([4, 5, 6, 7]),
+      locks: { cameraHeight: 2.7, roomWidth: 5, roomHeight: 3 }
+    });
+
+    expect(result.data?.initialisation).toBe('current');
+    expect(result.data?.rotation.y).toBeCloseTo(150, 1);
+    expect(result.data?.cameraPosition.x).toBeCloseTo(4.6, 2);
+    expect(result.data?.focalPx).toBeCloseTo(FOCAL, 0);
+  });
+
+  it('should report per-corner reprojection errors', () => {
+    const points = correspondences([0, 2, 4, 5, 6, 7]);
+    points[3] = { ...points[3], point: { ...points[3].point, normalizedX: points[3].point.normalizedX + 0.02 } };
+
+    const result = solveCornerPnp({ ...request, correspondences: points, locks: { roomHeight: 3 } });
+    const worst = result.data!.residuals.reduce((a, b) => (b.errorPx > a.errorPx ? b : a));
+    expect(worst.corner).toBe(5);
+    expect(worst.errorPx).toBeGreaterThan(8);
+    expect(result.message).toContain('Zuordnung prüfen');
+  });
+
+  it('should reject missing scale, too few corners and duplicates', () => {
+    expect(solveCornerPnp({ ...request, correspondences: correspondences([0, 2, 4, 5, 6, 7]), locks: {} }).message)
+      .toContain('Maßstab');
+    expect(solveCornerPnp({ ...request, correspondences: correspondences([4, 5, 6]), locks: { roomHeight: 3 } }).success)
+      .toBe(false);
+    expect(solveCornerPnp({ ...request, correspondences: correspondences([4, 5, 6, 6]), locks: { roomHeight: 3 } }).message)
+      .toContain('nur einmal');
+  });
+});
@@ -0,0 +1,502 @@
+/**
+ * ============================================================================
+ * CORNER-PNP (Kamera-Kalibrierung aus angeklickten Raumecken)
+ * ============================================================================
+ *
+ * Der Nutzer klickt sichtbare Raumecken im Screenshot an und ordnet jede
+ * einer der acht Ecken des Raum-Quaders zu (gleiche Reihenfolge wie die
+ * Ecken-Markierungen im ThreeViewer). Aus den 2D-3D-Paaren folgen
+ * Kamera-Pose und Brennweite:
+ *
+ *   1. DLT        Lineare 3×4-Projektionsmatrix (ab 6 Ecken, nicht alle
+ *                 in einer Ebene) → Startwert für Rotation, Position, f
+ *   2. Verfeinern Levenberg-Marquardt auf dem Reprojektionsfehler (Pixel),
+ *                 zusätzlich vom aktuellen Stand aus - die bessere Lösung
+ *                 gewinnt. Mit 4 Ecken einer Wand reicht Schritt 2 allein.
+ *
+ * Unbekannte: Rotation (Euler YXZ), Kameraposition, Brennweite und die
+ * Raummaße. Bekannte Werte (Raumhöhe, Kamerahöhe, ...) können fixiert
+ * werden - mindestens eine Länge muss feststehen, sonst ist der Maßstab
+ * unbestimmt. Raummaße, die in keiner angeklickten Ecke vorkommen,
+ * bleiben automatisch unverändert.
+ *
+ * Projektion wie vanishing-points.ts: Hauptpunkt = Bildmitte,
+ * Three.js-Kamera (x rechts, y oben, Blick entlang -z). Mit distortion
+ * wird in entzerrten Koordinaten gerechnet; Residuen und projizierte
+ * Ecken beziehen sich wieder auf den (verzeichneten) Screenshot.
+ *
+ * ============================================================================
+ */
+
+import type { EulerRotation, LensDistortion, NormalizedPoint2D, Point3D, RoomDimensions } from '../models/session.types';
+import { LeastSquaresResult, levenbergMarquardt, solveLinear } from './least-squares';
+import { distortPoint, undistortPoint } from './lens-distortion';
+import { eulerToMatrix, matrixToEuler } from './vanishing-points';
+
+// ============================================================================
+// KONSTANTEN & TYPEN
+// ============================================================================
+
+export interface RoomCorner {
+    /** Index wie ThreeViewerComponent.addCornerMarkers */
+    index: number;
+    label: string;
+
+    /** 0 oder 1 je Achse: Ecke liegt bei 0 bzw. Breite/Höhe/Tiefe */
+    factors: [number, number, number];
+}
+
+/**
+ * Die acht Raumecken. Bits des Index: 1 = x (Breite), 2 = y (Höhe), 4 = z (Tiefe).
+ */
+export const ROOM_CORNERS: RoomCorner[] = [0, 1, 2, 3, 4, 5, 6, 7].map(index => {
+    const factors: [number, number, number] = [index & 1, (index >> 1) & 1, (index >> 2) & 1];
+    const coordinates = [factors[0] ? 'B' : '0', factors[1] ? 'H' : '0', factors[2] ? 'T' : '0'];
+    return {
+        index,
+        label: `${factors[1] ? 'Decke' : 'Boden'} (${coordinates.join(' | ')})`,
+        factors
+    };
+});
+
+/** Kanten des Quaders als Paare von Ecken-Indizes (unterscheiden sich in einem Bit) */
+export const ROOM_CORNER_EDGES: Array<[number, number]> = ROOM_CORNERS.flatMap(corner =>
+    [1, 2, 4].filter(bit => !(corner.index & bit)).map(bit => [corner.index, corner.index | bit] as [number, number])
+);
+
+/** Mindestanzahl angeklickter Ecken */
+export const MIN_CORRESPONDENCES = 4;
+
+/** Reprojektionsfehler, ab dem eine Ecke als Ausreißer markiert wird (Pixel) */
+export const MAX_CORNER_ERROR_PX = 8;
+
+export interface CornerCorrespondence {
+    corner: number;
+    point: NormalizedPoint2D;
+}
+
+/** Fixierte Werte - alles andere wird geschätzt */
+export interface PnpLocks {
+    roomWidth?: number;
+    roomDepth?: number;
+    roomHeight?: number;
+    cameraHeight?: number;
+
+    /** Brennweite in Screenshot-Pixeln */
+    focalPx?: number;
+}
+
+export interface CornerPnpRequest {
+    correspondences: CornerCorrespondence[];
+
+    /** Screenshot-Größe in Pixeln */
+    imageWidth: number;
+    imageHeight: number;
+
+    /** Aktueller Stand - Startwert und Werte für nicht beobachtete Raummaße */
+    room: RoomDimensions;
+    rotation: EulerRotation;
+    cameraPosition: Point3D;
+    focalPx: number;
+
+    locks: PnpLocks;
+
+    /** Verzeichnung des Screenshots (fehlt = ideale Lochkamera) */
+    distortion?: LensDistortion | null;
+}
+
+export interface CornerResidual {
+    corner: number;
+    errorPx: number;
+}
+
+export interface CornerPnpResult {
+    success: boolean;
+    message: string;
+    data?: {
+        rotation: EulerRotation;
+        cameraPosition: Point3D;
+        focalPx: number;
+
+        /** Vertikales Sichtfeld des Screenshots (Grad) */
+        imageFovY: number;
+
+        room: RoomDimensions;
+
+        /** Reprojektionsfehler je angeklickter Ecke (Reihenfolge der Anfrage) */
+        residuals: CornerResidual[];
+        rmsErrorPx: number;
+
+        /** Projektion aller acht Ecken (null = hinter der Kamera) */
+        projectedCorners: Array<NormalizedPoint2D | null>;
+
+        /** Startwert der besten Lösung */
+        initialisation: 'dlt' | 'current';
+    };
+}
+
+type Vec3 = [number, number, number];
+type Matrix3 = [Vec3, Vec3, Vec3];
+
+/**
+ * Parametervektor: Rotation (Grad), Position, Brennweite, Raummaße
+ */
+const PARAM = {
+    rotX: 0, rotY: 1, rotZ: 2,
+    camX: 3, camY: 4, camZ: 5,
+    focal: 6,
+    width: 7, height: 8, depth: 9
+} as const;
+
+const PARAM_COUNT = 10;
+
+/** Raummaß-Parameter je Achse (x, y, z) */
+const DIMENSION_PARAMS = [PARAM.width, PARAM.height, PARAM.depth];
+
+const DEG = 180 / Math.PI;
+
+// ============================================================================
+// GEOMETRIE
+// ============================================================================
+
+export function roomCornerPosition(corner: RoomCorner, room: RoomDimensions): Point3D {
+    return {
+        x: corner.factors[0] * room.width,
+        y: corner.factors[1] * room.height,
+        z: corner.factors[2] * room.depth
+    };
+}
+
+/**
+ * Raumecke → zentrierte Bildpixel (y nach oben), null hinter der Kamera
+ */
+function projectCorner(params: number[], corner: RoomCorner): [number, number] | null {
+    const m = eulerToMatrix({ x: params[PARAM.rotX], y: params[PARAM.rotY], z: params[PARAM.rotZ] });
+    const p = DIMENSION_PARAMS.map((param, axis) => corner.factors[axis] * params[param] - params[PARAM.camX + axis]);
+    const camera = [0, 1, 2].map(j => m[0][j] * p[0] + m[1][j] * p[1] + m[2][j] * p[2]);
+
+    const depth = -camera[2];
+    if (depth <= 1e-6) return null;
+    return [params[PARAM.focal] * camera[0] / depth, params[PARAM.focal] * camera[1] / depth];
+}
+
+/** Bildpunkt → zentrierte Pixel mit y nach oben */
+function centeredUp(point: NormalizedPoint2D, width: number, height: number): [number, number] {
+    return [(point.normalizedX - 0.5) * width, (0.5 - point.normalizedY) * height];
+}
+
+// ============================================================================
+// LINEARE ALGEBRA
+// ============================================================================
+
+/**
+ * Eigenvektor zum kleinsten Eigenwert einer symmetrischen n×n-Matrix (Jacobi)
+ */
+function smallestEigenvector(matrix: number[][]): number[] {
+    const n = matrix.length;
+    const a = matrix.map(row => [...row]);
+    const v = a.map((_, i) => a.map((__, j): number => (i === j ? 1 : 0)));
+
+    for (let sweep = 0; sweep < 100; sweep++) {
+        let offDiagonal = 0;
+        for (let p = 0; p < n; p++) for (let q = p + 1; q < n; q++) offDiagonal += Math.abs(a[p][q]);
+        if (offDiagonal < 1e-14) break;
+
+        for (let p = 0; p < n; p++) {
+            for (let q = p + 1; q < n; q++) {
+                if (Math.abs(a[p][q]) < 1e-18) continue;
+
+                const theta = (a[q][q] - a[p][p]) / (2 * a[p][q]);
+                const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+                const c = 1 / Math.sqrt(t * t + 1);
+                const s = t * c;
+
+                for (let k = 0; k < n; k++) {
+                    const akp = a[k][p];
+                    const akq = a[k][q];
+                    a[k][p] = c * akp - s * akq;
+                    a[k][q] = s * akp + c * akq;
+                }
+                for (let k = 0; k < n; k++) {
+                    const apk = a[p][k];
+                    const aqk = a[q][k];
+                    a[p][k] = c * apk - s * aqk;
+                    a[q][k] = s * apk + c * aqk;
+                }
+                for (let k = 0; k < n; k++) {
+                    const vkp = v[k][p];
+                    const vkq = v[k][q];
+                    v[k][p] = c * vkp - s * vkq;
+                    v[k][q] = s * vkp + c * vkq;
+                }
+            }
+        }
+    }
+
+    let smallest = 0;
+    for (let i = 1; i < n; i++) if (a[i][i] < a[smallest][smallest]) smallest = i;
+    return v.map(row => row[smallest]);
+}
+
+function determinant3(m: number[][]): number {
+    return m[0][0] * (m[1][1] * m[2][2] - m[1][2] * m[2][1])
+        - m[0][1] * (m[1][0] * m[2][2] - m[1][2] * m[2][0])
+        + m[0][2] * (m[1][0] * m[2][1] - m[1][1] * m[2][0]);
+}
+
+// ============================================================================
+// DLT (STARTWERT)
+// ============================================================================
+
+/**
+ * Startwert aus der linearen Projektionsmatrix. null bei weniger als
+ * 6 Ecken, Ecken in einer Ebene oder unplausibler Zerlegung.
+ */
+function dltInitialisation(
+    correspondences: CornerCorrespondence[],
+    base: number[],
+    width: number,
+    height: number
+): number[] | null {
+    if (correspondences.length < 6) return null;
+
+    const world = correspondences.map(c =>
+        DIMENSION_PARAMS.map((param, axis) => ROOM_CORNERS[c.corner].factors[axis] * base[param])
+    );
+
+    // Ecken in einer Ebene: eine Koordinate überall gleich (Quader-Ecken)
+    if ([0, 1, 2].some(axis => world.every(point => point[axis] === world[0][axis]))) return null;
+
+    // Normalisierung für die Kondition
+    const center = [0, 1, 2].map(axis => world.reduce((sum, point) => sum + point[axis], 0) / world.length);
+    const spread = Math.max(...world.map(point => Math.hypot(...point.map((value, axis) => value - center[axis])))) || 1;
+    const norm = Math.max(width, height);
+
+    const ata = Array.from({ length: 12 }, () => new Array<number>(12).fill(0));
+    correspondences.forEach((c, i) => {
+        const X = [...world[i].map((value, axis) => (value - center[axis]) / spread), 1];
+        const [u, v] = centeredUp(c.point, width, height).map(value => value / norm);
+
+        const rows = [
+            [...X, 0, 0, 0, 0, ...X.map(value => -u * value)],
+            [0, 0, 0, 0, ...X, ...X.map(value => -v * value)]
+        ];
+        for (const row of rows) {
+            for (let j = 0; j < 12; j++) for (let k = 0; k < 12; k++) ata[j][k] += row[j] * row[k];
+        }
+    });
+
+    const p = smallestEigenvector(ata);
+
+    // Entnormalisieren: P = diag(norm, norm, 1) · Pn · T_welt
+    const P = [0, 1, 2].map(row => {
+        const scaleRow = row < 2 ? norm : 1;
+        const r = p.slice(row * 4, row * 4 + 4);
+        const linear = [0, 1, 2].map(axis => r[axis] / spread * scaleRow);
+        const offset = (r[3] - [0, 1, 2].reduce((sum, axis) => sum + r[axis] * center[axis] / spread, 0)) * scaleRow;
+        return [...linear, offset];
+    });
+
+    const M = P.map(row => row.slice(0, 3));
+    const det = determinant3(M);
+    if (Math.abs(det) < 1e-18) return null;
+
+    // M = λ · diag(f, f, 1) · R'  mit det(R') = -1 (Blick entlang -z)
+    const lambda = -Math.sign(det) * Math.hypot(...M[2]);
+    const focal = (Math.hypot(...M[0]) + Math.hypot(...M[1])) / 2 / Math.abs(lambda);
+
+    const cameraRows = [
+        M[0].map(value => value / (lambda * focal)),
+        M[1].map(value => value / (lambda * focal)),
+        M[2].map(value => -value / lambda)
+    ] as Matrix3;
+    const rotation = orthonormalize(cameraRows);
+
+    // Kamerazentrum: M · C = -p4
+    const position = solveLinear(M, P.map(row => -row[3]));
+    if (!position || !isFinite(focal) || focal <= 0) return null;
+
+    // m[i][j]: Welt-Achse i in Kamera-Koordinaten j
+    const m = [0, 1, 2].map(i => [0, 1, 2].map(j => rotation[j][i])) as Matrix3;
+    const euler = matrixToEuler(m);
+
+    const params = [...base];
+    params[PARAM.rotX] = euler.x;
+    params[PARAM.rotY] = euler.y;
+    params[PARAM.rotZ] = euler.z;
+    params[PARAM.camX] = position[0];
+    params[PARAM.camY] = position[1];
+    params[PARAM.camZ] = position[2];
+    params[PARAM.focal] = focal;
+
+    // Alle Ecken müssen vor der Kamera liegen
+    return correspondences.every(c => projectCorner(params, ROOM_CORNERS[c.corner])) ? params : null;
+}
+
+/**
+ * Zeilen (Kamera-Achsen in Welt-Koordinaten) orthonormalisieren, Blickachse zuerst
+ */
+function orthonormalize(rows: Matrix3): Matrix3 {
+    const normalize = (a: number[]): Vec3 => {
+        const length = Math.hypot(a[0], a[1], a[2]) || 1;
+        return [a[0] / length, a[1] / length, a[2] / length];
+    };
+    const dot = (a: number[], b: number[]) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+
+    const z = normalize(rows[2]);
+    const y = normalize(rows[1].map((value, k) => value - dot(rows[1], z) * z[k]));
+    const x: Vec3 = [y[1] * z[2] - y[2] * z[1], y[2] * z[0] - y[0] * z[2], y[0] * z[1] - y[1] * z[0]];
+    return [x, y, z];
+}
+
+// ============================================================================
+// VERFEINERUNG (LEVENBERG-MARQUARDT)
+// ============================================================================
+
+/** Reprojektionsfehler (Pixel) aller Ecken, null wenn eine hinter der Kamera liegt */
+function residualVector(params: number[], targets: Array<{ corner: RoomCorner; uv: [number, number] }>): number[] | null {
+    const residuals: number[] = [];
+    for (const target of targets) {
+        const projected = projectCorner(params, target.corner);
+        if (!projected) return null;
+        residuals.push(projected[0] - target.uv[0], projected[1] - target.uv[1]);
+    }
+    return residuals;
+}
+
+function refine(
+    start: number[],
+    free: number[],
+    targets: Array<{ corner: RoomCorner; uv: [number, number] }>
+): LeastSquaresResult {
+    const withFree = (values: number[]) => {
+        const params = [...start];
+        free.forEach((param, k) => (params[param] = values[k]));
+        return params;
+    };
+
+    const result = levenbergMarquardt(values => residualVector(withFree(values), targets), free.map(param => start[param]));
+    return { params: withFree(result.params), cost: result.cost };
+}
+
+// ============================================================================
+// LÖSER
+// ============================================================================
+
+/**
+ * Kamera-Pose, Brennweite und freie Raummaße aus Ecken-Zuordnungen
+ */
+export function solveCornerPnp(request: CornerPnpRequest): CornerPnpResult {
+    const { correspondences: clicked, imageWidth, imageHeight, locks, distortion } = request;
+    const image = { width: imageWidth, height: imageHeight };
+
+    // Klicks liegen im Screenshot - gerechnet wird mit der Lochkamera
+    const correspondences = clicked.map(c => ({ ...c, point: undistortPoint(c.point, distortion, image) }));
+
+    const cornerIndices = correspondences.map(c => c.corner);
+    if (new Set(cornerIndices).size !== cornerIndices.length) {
+        return { success: false, message: 'Jede Raumecke darf nur einmal zugeordnet werden' };
+    }
+    if (correspondences.length < MIN_CORRESPONDENCES) {
+        return { success: false, message: `Mindestens ${MIN_CORRESPONDENCES} Raumecken zuordnen` };
+    }
+
+    const base = new Array<number>(PARAM_COUNT).fill(0);
+    base[PARAM.rotX] = request.rotation.x;
+    base[PARAM.rotY] = request.rotation.y;
+    base[PARAM.rotZ] = request.rotation.z;
+    base[PARAM.camX] = request.cameraPosition.x;
+    base[PARAM.camY] = locks.cameraHeight ?? request.cameraPosition.y;
+    base[PARAM.camZ] = request.cameraPosition.z;
+    base[PARAM.focal] = locks.focalPx ?? request.focalPx;
+    base[PARAM.width] = locks.roomWidth ?? request.room.width;
+    base[PARAM.height] = locks.roomHeight ?? request.room.height;
+    base[PARAM.depth] = locks.roomDepth ?? request.room.depth;
+
+    // Raummaße ohne beobachtete Ecke bleiben unverändert
+    const observed = [0, 1, 2].map(axis => correspondences.some(c => ROOM_CORNERS[c.corner].factors[axis] === 1));
+    const lockedDimensions = [locks.roomWidth, locks.roomHeight, locks.roomDepth].map(value => value !== undefined);
+
+    if (locks.cameraHeight === undefined && !observed.some((seen, axis) => seen && lockedDimensions[axis])) {
+        return { success: false, message: 'Maßstab fehlt: ein sichtbares Raummaß oder die Kamerahöhe festlegen' };
+    }
+
+    const free: number[] = [PARAM.rotX, PARAM.rotY, PARAM.rotZ, PARAM.camX, PARAM.camZ];
+    if (locks.cameraHeight === undefined) free.push(PARAM.camY);
+    if (locks.focalPx === undefined) free.push(PARAM.focal);
+    DIMENSION_PARAMS.forEach((param, axis) => {
+        if (observed[axis] && !lockedDimensions[axis]) free.push(param);
+    });
+
+    if (free.length > correspondences.length * 2) {
+        return {
+            success: false,
+            message: `Zu wenige Ecken: ${free.length} Unbekannte, aber nur ${correspondences.length * 2} Gleichungen`
+        };
+    }
+
+    const targets = correspondences.map(c => ({
+        corner: ROOM_CORNERS[c.corner],
+        uv: centeredUp(c.point, imageWidth, imageHeight)
+    }));
+
+    // Startwerte: DLT (falls möglich) und aktueller Stand
+    const starts: Array<{ params: number[]; initialisation: 'dlt' | 'current' }> = [];
+    const dlt = dltInitialisation(correspondences, base, imageWidth, imageHeight);
+    if (dlt) {
+        if (locks.cameraHeight !== undefined) dlt[PARAM.camY] = locks.cameraHeight;
+        if (locks.focalPx !== undefined) dlt[PARAM.focal] = locks.focalPx;
+        starts.push({ params: dlt, initialisation: 'dlt' });
+    }
+    starts.push({ params: base, initialisation: 'current' });
+
+    const best = starts
+        .map(start => ({ ...refine(start.params, free, targets), initialisation: start.initialisation }))
+        .reduce((a, b) => (b.cost < a.cost ? b : a));
+
+    const params = best.params;
+    if (!isFinite(best.cost) || params[PARAM.focal] <= 0 || DIMENSION_PARAMS.some(param => params[param] <= 0)) {
+        return { success: false, message: 'Keine plausible Lösung - Zuordnung der Ecken prüfen' };
+    }
+
+    const projectedCorners = ROOM_CORNERS.map(corner => {
+        const projected = projectCorner(params, corner);
+        return projected
+            ? distortPoint({ normalizedX: projected[0] / imageWidth + 0.5, normalizedY: 0.5 - projected[1] / imageHeight }, distortion, image)
+            : null;
+    });
+
+    const residuals = clicked.map(c => {
+        const projected = projectedCorners[c.corner]!;
+        return {
+            corner: c.corner,
+            errorPx: Math.hypot(
+                (projected.normalizedX - c.point.normalizedX) * imageWidth,
+                (projected.normalizedY - c.point.normalizedY) * imageHeight
+            )
+        };
+    });
+    const rmsErrorPx = Math.sqrt(residuals.reduce((sum, r) => sum + r.errorPx * r.errorPx, 0) / residuals.length);
+
+    const round = (value: number) => Math.round(value * 1000) / 1000;
+    const rotation = matrixToEuler(eulerToMatrix({ x: params[PARAM.rotX], y: params[PARAM.rotY], z: params[PARAM.rotZ] }));
+    const outliers = residuals.filter(r => r.errorPx > MAX_CORNER_ERROR_PX).length;
+
+    return {
+        success: true,
+        message: outliers
+            ? `${outliers} Ecke(n) mit mehr als ${MAX_CORNER_ERROR_PX} px Abweichung - Zuordnung prüfen`
+            : `Lösung aus ${correspondences.length} Ecken (RMS ${rmsErrorPx.toFixed(1)} px)`,
+        data: {
+            rotation,
+            cameraPosition: { x: round(params[PARAM.camX]), y: round(params[PARAM.camY]), z: round(params[PARAM.camZ]) },
+            focalPx: params[PARAM.focal],
+            imageFovY: 2 * Math.atan(imageHeight / 2 / params[PARAM.focal]) * DEG,
+            room: { width: round(params[PARAM.width]), depth: round(params[PARAM.depth]), height: round(params[PARAM.height]) },
+            residuals,
+            rmsErrorPx,
+            projectedCorners,
+            initialisation: best.initialisation
+        }
+    };
+}
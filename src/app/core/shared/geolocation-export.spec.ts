@@ -0,0 +1,53 @@
+import { GeolocationExportData, GeolocationExportMeta, exportGeolocation } from './geolocation-export';
+
+const data: GeolocationExportData = {
+  locations: [
+    { latitude: 10, longitude: 179.5 },
+    { latitude: 11, longitude: -179.5 }
+  ],
+  corridor: { lat_min: 9, lat_max: 12, lon_min: 179, lon_max: -179, lat_center: 10.5, lon_center: 180 },
+  confidence: 80,
+  sun_position: { measured_azimuth: 120, measured_elevation: 40, calculated_azimuth: 120.5, calculated_elevation: 39.8 },
+  shadow_analysis: { light_azimuth: 120, light_elevation: 40, inter_object_score: 95 },
+  error_deg: 0.4
+};
+
+const meta: GeolocationExportMeta = {
+  projectName: 'Fall "A", Küche',
+  sessionId: 'abc123',
+  screenshotIds: ['ss1', 'ss2'],
+  date: '2024-06-21',
+  timeUtc: '10:00',
+  hemisphere: 'north',
+  exportedAt: '2024-07-01T00:00:00.000Z'
+};
+
+describe('geolocation-export', () => {
+  it('should split corridors across the date line in GeoJSON', () => {
+    const file = exportGeolocation('geojson', data, meta);
+    const collection = JSON.parse(file.content);
+
+    expect(collection.metadata.sessionId).toBe('abc123');
+    expect(collection.features[0].geometry.type).toBe('MultiPolygon');
+    expect(collection.features[1].properties.kind).toBe('best');
+    expect(collection.features[1].geometry.coordinates).toEqual([179.5, 10]);
+    expect(file.filename).toBe('Fall_A_K_che_abc123_geolocation.geojson');
+  });
+
+  it('should escape metadata in KML', () => {
+    const { content } = exportGeolocation('kml', data, meta);
+
+    expect(content).toContain('<name>Fall &quot;A&quot;, Küche - Geolocation</name>');
+    expect(content).toContain('<Data name="screenshot_ids"><value>ss1;ss2</value></Data>');
+    expect(content.match(/<Polygon>/g)!.length).toBe(2);
+  });
+
+  it('should write one CSV row per location plus the corridor', () => {
+    const lines = exportGeolocation('csv', data, meta).content.trim().split('\n');
+
+    expect(lines.length).toBe(4);
+    expect(lines[0].startsWith('kind,rank,latitude,longitude')).toBe(true);
+    expect(lines[1]).toContain('"Fall ""A"", Küche"');
+    expect(lines[2].startsWith('best,1,10,179.5')).toBe(true);
+  });
+});
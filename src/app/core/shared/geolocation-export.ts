@@ -0,0 +1,250 @@
+/**
+ * ============================================================================
+ * GEOLOCATION EXPORT (GeoJSON / KML / CSV)
+ * ============================================================================
+ *
+ * Exportiert das vollständige Ergebnis (GeolocationResponse.data):
+ * Kandidaten, Korridor-Polygon, Confidence, Sonnenwinkel und Eingabe-Zeitpunkt.
+ *
+ * Jede Datei enthält die Session-Metadaten (Projektname, Session-ID,
+ * Screenshot-IDs), damit sie der Session zugeordnet werden kann.
+ *
+ * Korridore über die Datumsgrenze (lon_min > lon_max) werden - wie von
+ * RFC 7946 gefordert - in zwei Polygone geteilt.
+ *
+ * ============================================================================
+ */
+
+import { GeolocationData } from './geolocation-solver';
+
+// ============================================================================
+// TYPEN
+// ============================================================================
+
+/**
+ * Session-Metadaten und Eingabe des Exports
+ */
+export interface GeolocationExportMeta {
+    projectName: string;
+    sessionId: string;
+    screenshotIds: string[];
+
+    /** Eingabe der Berechnung ("YYYY-MM-DD", "HH:MM" UTC) */
+    date: string;
+    timeUtc: string;
+    hemisphere: string;
+
+    /** ISO-Zeitpunkt des Exports */
+    exportedAt: string;
+}
+
+/**
+ * Exportierbares Ergebnis (input stammt aus den Metadaten)
+ */
+export type GeolocationExportData = Omit<GeolocationData, 'input'>;
+
+export type GeolocationExportFormat = 'geojson' | 'kml' | 'csv';
+
+// ============================================================================
+// HILFSFUNKTIONEN
+// ============================================================================
+
+/**
+ * Korridor als Ringe [lon, lat] (ein oder zwei bei Datumsgrenze)
+ */
+function corridorRings(corridor: GeolocationExportData['corridor']): number[][][] {
+    const { lat_min, lat_max, lon_min, lon_max } = corridor;
+    const ranges = lon_min <= lon_max
+        ? [[lon_min, lon_max]]
+        : [[lon_min, 180], [-180, lon_max]];
+
+    // Gegen den Uhrzeigersinn (RFC 7946 Außenring)
+    return ranges.map(([west, east]) => [
+        [west, lat_min],
+        [east, lat_min],
+        [east, lat_max],
+        [west, lat_max],
+        [west, lat_min]
+    ]);
+}
+
+function escapeXml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;');
+}
+
+function escapeCsv(value: string | number): string {
+    const text = String(value);
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Gemeinsame Eigenschaften des Ergebnisses (für alle Formate)
+ */
+function resultProperties(data: GeolocationExportData, meta: GeolocationExportMeta) {
+    return {
+        project_name: meta.projectName,
+        session_id: meta.sessionId,
+        screenshot_ids: meta.screenshotIds.join(';'),
+        date: meta.date,
+        time_utc: meta.timeUtc,
+        hemisphere: meta.hemisphere,
+        confidence: data.confidence,
+        error_deg: data.error_deg,
+        measured_azimuth: data.sun_position.measured_azimuth,
+        measured_elevation: data.sun_position.measured_elevation,
+        calculated_azimuth: data.sun_position.calculated_azimuth,
+        calculated_elevation: data.sun_position.calculated_elevation,
+        light_azimuth: data.shadow_analysis.light_azimuth,
+        light_elevation: data.shadow_analysis.light_elevation,
+        inter_object_score: data.shadow_analysis.inter_object_score
+    };
+}
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+/**
+ * GeoJSON FeatureCollection: Korridor (Polygon) + Orte (Points, rank 1 = bester)
+ */
+export function exportGeolocationGeoJson(data: GeolocationExportData, meta: GeolocationExportMeta): string {
+    const rings = corridorRings(data.corridor);
+
+    const collection = {
+        type: 'FeatureCollection',
+        metadata: {
+            projectName: meta.projectName,
+            sessionId: meta.sessionId,
+            screenshotIds: meta.screenshotIds,
+            exportedAt: meta.exportedAt
+        },
+        features: [
+            {
+                type: 'Feature',
+                geometry: rings.length === 1
+                    ? { type: 'Polygon', coordinates: rings }
+                    : { type: 'MultiPolygon', coordinates: rings.map(ring => [ring]) },
+                properties: { kind: 'corridor', ...resultProperties(data, meta), ...data.corridor }
+            },
+            ...data.locations.map((location, i) => ({
+                type: 'Feature',
+                geometry: { type: 'Point', coordinates: [location.longitude, location.latitude] },
+                properties: {
+                    kind: i === 0 ? 'best' : 'candidate',
+                    rank: i + 1,
+                    session_id: meta.sessionId
+                }
+            }))
+        ]
+    };
+
+    return JSON.stringify(collection, null, 2);
+}
+
+/**
+ * KML-Dokument: Korridor-Polygon + Placemarks, Metadaten als ExtendedData
+ */
+export function exportGeolocationKml(data: GeolocationExportData, meta: GeolocationExportMeta): string {
+    const properties = resultProperties(data, meta);
+
+    const extendedData = Object.entries({ ...properties, exported_at: meta.exportedAt })
+        .map(([key, value]) => `      <Data name="${key}"><value>${escapeXml(String(value))}</value></Data>`)
+        .join('\n');
+
+    const polygons = corridorRings(data.corridor)
+        .map(ring => [
+            '          <Polygon>',
+            '            <outerBoundaryIs><LinearRing><coordinates>',
+            `              ${ring.map(([lon, lat]) => `${lon},${lat},0`).join(' ')}`,
+            '            </coordinates></LinearRing></outerBoundaryIs>',
+            '          </Polygon>'
+        ].join('\n'))
+        .join('\n');
+
+    const placemarks = data.locations
+        .map((location, i) => [
+            '    <Placemark>',
+            `      <name>${i === 0 ? 'Bester Standort' : `Kandidat ${i + 1}`}</name>`,
+            `      <styleUrl>#${i === 0 ? 'best' : 'candidate'}</styleUrl>`,
+            `      <Point><coordinates>${location.longitude},${location.latitude},0</coordinates></Point>`,
+            '    </Placemark>'
+        ].join('\n'))
+        .join('\n');
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<kml xmlns="http://www.opengis.net/kml/2.2">',
+        '  <Document>',
+        `    <name>${escapeXml(meta.projectName)} - Geolocation</name>`,
+        `    <description>Session ${escapeXml(meta.sessionId)}, Screenshots: ${escapeXml(meta.screenshotIds.join(', '))}</description>`,
+        '    <ExtendedData>',
+        extendedData,
+        '    </ExtendedData>',
+        '    <Style id="corridor"><LineStyle><color>ff00b3ff</color><width>2</width></LineStyle>' +
+        '<PolyStyle><color>3300b3ff</color></PolyStyle></Style>',
+        '    <Style id="best"><IconStyle><color>ff5252ff</color></IconStyle></Style>',
+        '    <Style id="candidate"><IconStyle><color>fff7c34f</color><scale>0.6</scale></IconStyle></Style>',
+        '    <Placemark>',
+        '      <name>Korridor</name>',
+        '      <styleUrl>#corridor</styleUrl>',
+        '      <MultiGeometry>',
+        polygons,
+        '      </MultiGeometry>',
+        '    </Placemark>',
+        placemarks,
+        '  </Document>',
+        '</kml>',
+        ''
+    ].join('\n');
+}
+
+/**
+ * CSV: eine Zeile pro Ort plus eine Korridor-Zeile.
+ * Metadaten und Ergebnis-Werte stehen in jeder Zeile (robust beim Filtern).
+ */
+export function exportGeolocationCsv(data: GeolocationExportData, meta: GeolocationExportMeta): string {
+    const properties = resultProperties(data, meta);
+    const { lat_min, lat_max, lon_min, lon_max, lat_center, lon_center } = data.corridor;
+
+    const header = ['kind', 'rank', 'latitude', 'longitude', 'lat_min', 'lat_max', 'lon_min', 'lon_max', ...Object.keys(properties)];
+    const common = Object.values(properties);
+
+    const rows: Array<Array<string | number>> = [
+        ['corridor', '', lat_center, lon_center, lat_min, lat_max, lon_min, lon_max, ...common],
+        ...data.locations.map((location, i) => [
+            i === 0 ? 'best' : 'candidate',
+            i + 1,
+            location.latitude,
+            location.longitude,
+            '', '', '', '',
+            ...common
+        ])
+    ];
+
+    return [header, ...rows].map(row => row.map(escapeCsv).join(',')).join('\n') + '\n';
+}
+
+/**
+ * Dateiname, MIME-Typ und Inhalt für ein Format
+ */
+export function exportGeolocation(
+    format: GeolocationExportFormat,
+    data: GeolocationExportData,
+    meta: GeolocationExportMeta
+): { filename: string; mimeType: string; content: string } {
+    const base = `${meta.projectName.replace(/[^\w-]+/g, '_')}_${meta.sessionId}_geolocation`;
+
+    switch (format) {
+        case 'geojson':
+            return { filename: `${base}.geojson`, mimeType: 'application/geo+json', content: exportGeolocationGeoJson(data, meta) };
+        case 'kml':
+            return { filename: `${base}.kml`, mimeType: 'application/vnd.google-earth.kml+xml', content: exportGeolocationKml(data, meta) };
+        case 'csv':
+            return { filename: `${base}.csv`, mimeType: 'text/csv', content: exportGeolocationCsv(data, meta) };
+    }
+}
@@ -0,0 +1,52 @@
+import { parseTimestampOffset, shiftUtcDateTime, solveGeolocationFusion } from './geolocation-fusion';
+import { calculateSolarPosition, parseUtcDateTime } from './solar-position';
+
+describe('geolocation-fusion', () => {
+  it('should parse Stage 1 timestamps', () => {
+    expect(parseTimestampOffset('t0')).toBe(0);
+    expect(parseTimestampOffset('t0+0')).toBe(0);
+    expect(parseTimestampOffset('t0+30')).toBe(30);
+    expect(parseTimestampOffset('t0-15')).toBe(-15);
+  });
+
+  it('should shift reference times across midnight', () => {
+    expect(shiftUtcDateTime('2024-06-21', '23:59', 90)).toEqual({
+      date: '2024-06-22',
+      timeUtc: '00:00:30'
+    });
+  });
+
+  it('should narrow the corridor compared to the single frames', () => {
+    const frames = [0, 3600, 7200].map((offset, i) => {
+      const utc = shiftUtcDateTime('2024-06-21', '08:00', offset);
+      const sun = calculateSolarPosition(45, 7, parseUtcDateTime(utc.date, utc.timeUtc));
+      return {
+        screenshotId: `ss${i}`,
+        timestamp: `t0+${offset}`,
+        date: utc.date,
+        timeUtc: utc.timeUtc,
+        lightAzimuth: sun.azimuth,
+        lightElevation: sun.elevation
+      };
+    });
+
+    const result = solveGeolocationFusion({
+      frames,
+      roomOrientation: 0,
+      hemisphere: 'north',
+      errorDeg: 1.5,
+      resolutionDeg: 0.5
+    });
+
+    expect(result.success).toBe(true);
+    const { corridor, frames: contributions } = result.data!;
+    expect(corridor.lat_min).toBeLessThanOrEqual(45);
+    expect(corridor.lat_max).toBeGreaterThanOrEqual(45);
+
+    const fusedSpan = corridor.lon_max - corridor.lon_min;
+    for (const frame of contributions) {
+      expect(frame.corridor).not.toBeNull();
+      expect(fusedSpan).toBeLessThanOrEqual(frame.corridor!.lon_max - frame.corridor!.lon_min);
+    }
+  });
+});
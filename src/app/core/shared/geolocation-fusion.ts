@@ -0,0 +1,217 @@
+/**
+ * ============================================================================
+ * MULTI-SCREENSHOT GEOLOCATION (Fusion)
+ * ============================================================================
+ *
+ * Kombiniert mehrere Screenshots derselben statischen Kamera (Timeline
+ * t0, t0+30, t0+60, ...). Jeder Frame liefert eine eigene Lichtrichtung zu
+ * einem eigenen UTC-Zeitpunkt (Referenzzeit + Offset).
+ *
+ * Ein Gitterpunkt ist nur dann zulässig, wenn er für ALLE Frames innerhalb
+ * von errorDeg liegt (= Schnittmenge der Einzel-Korridore). Die Bewegung der
+ * Sonne zwischen den Frames legt vor allem die Länge deutlich genauer fest
+ * als ein einzelnes Bild.
+ *
+ * ============================================================================
+ */
+
+import { GeolocationCorridor, corridorFromLocations, measuredSunFromLight } from './geolocation-solver';
+import {
+    compareSolarPositions,
+    parseUtcDateTime,
+    solarDeclinationAndEquationOfTime,
+    solarPositionFromEphemeris
+} from './solar-position';
+
+// ============================================================================
+// TYPEN
+// ============================================================================
+
+/**
+ * Ein Frame der Timeline mit gemessener Lichtrichtung
+ */
+export interface FusionFrame {
+    screenshotId: string;
+
+    /** Relativer Zeitstempel aus Stage 1 ("t0", "t0+30", ...) */
+    timestamp: string;
+
+    /** Absoluter Zeitpunkt des Frames ("YYYY-MM-DD" + "HH:MM:SS" UTC) */
+    date: string;
+    timeUtc: string;
+
+    lightAzimuth: number;
+    lightElevation: number;
+}
+
+export interface GeolocationFusionRequest {
+    frames: FusionFrame[];
+    roomOrientation: number;
+    hemisphere: 'north' | 'south' | 'both';
+    errorDeg: number;
+    resolutionDeg?: number;
+    maxLocations?: number;
+}
+
+/**
+ * Beitrag eines einzelnen Frames zur Fusion
+ */
+export interface FusionFrameContribution {
+    screenshotId: string;
+    timestamp: string;
+    timeUtc: string;
+
+    /** Sonnenstand aus der Lichtrichtung */
+    measuredAzimuth: number;
+    measuredElevation: number;
+
+    /** Korridor dieses Frames allein (null = keine Lösung) */
+    corridor: GeolocationCorridor | null;
+
+    /** Anzahl zulässiger Gitterpunkte dieses Frames allein */
+    candidateCount: number;
+
+    /** Abweichung dieses Frames am fusionierten besten Ort */
+    errorAtBestDeg: number;
+}
+
+export interface GeolocationFusionResult {
+    success: boolean;
+    message: string;
+    data?: {
+        locations: Array<{ latitude: number; longitude: number }>;
+        corridor: GeolocationCorridor;
+
+        /** Kombinierte Confidence (0-100) */
+        confidence: number;
+
+        /** RMS-Abweichung über alle Frames am besten Ort */
+        error_deg: number;
+
+        frames: FusionFrameContribution[];
+    };
+}
+
+// ============================================================================
+// HILFSFUNKTIONEN
+// ============================================================================
+
+/**
+ * Liest den Offset in Sekunden aus einem Stage-1-Zeitstempel ("t0+30" → 30)
+ */
+export function parseTimestampOffset(timestamp: string): number {
+    const match = /^t0(?:\s*([+-])\s*(\d+(?:\.\d+)?))?$/.exec(timestamp.trim());
+    if (!match) return 0;
+
+    const value = match[2] ? parseFloat(match[2]) : 0;
+    return match[1] === '-' ? -value : value;
+}
+
+/**
+ * Verschiebt einen UTC-Zeitpunkt um offsetSeconds
+ *
+ * @returns date "YYYY-MM-DD" und timeUtc "HH:MM:SS"
+ */
+export function shiftUtcDateTime(
+    date: string,
+    timeUtc: string,
+    offsetSeconds: number
+): { date: string; timeUtc: string } {
+    const instant = new Date(parseUtcDateTime(date, timeUtc).getTime() + offsetSeconds * 1000);
+    const iso = instant.toISOString();
+
+    return { date: iso.slice(0, 10), timeUtc: iso.slice(11, 19) };
+}
+
+// ============================================================================
+// FUSION
+// ============================================================================
+
+/**
+ * Gemeinsame Grid-Suche über alle Frames
+ */
+export function solveGeolocationFusion(request: GeolocationFusionRequest): GeolocationFusionResult {
+    const { frames, roomOrientation, hemisphere, errorDeg, resolutionDeg = 0.5, maxLocations = 50 } = request;
+
+    const usable = frames.filter(f => f.lightElevation > 0);
+    if (usable.length < 2) {
+        return {
+            success: false,
+            message: 'Mindestens 2 Screenshots mit Sonne über dem Horizont erforderlich'
+        };
+    }
+
+    const prepared = usable.map(frame => {
+        const instant = parseUtcDateTime(frame.date, frame.timeUtc);
+        return {
+            frame,
+            instant,
+            ephemeris: solarDeclinationAndEquationOfTime(instant),
+            sun: measuredSunFromLight(frame.lightAzimuth, frame.lightElevation, roomOrientation),
+            candidates: [] as Array<{ latitude: number; longitude: number }>
+        };
+    });
+
+    const latFrom = hemisphere === 'north' ? 0 : -90;
+    const latTo = hemisphere === 'south' ? 0 : 90;
+    const fused: Array<{ latitude: number; longitude: number; rms: number }> = [];
+
+    for (let lat = latFrom; lat <= latTo + 1e-9; lat += resolutionDeg) {
+        for (let lon = -180; lon < 180; lon += resolutionDeg) {
+            let sumSquares = 0;
+            let feasible = true;
+
+            for (const p of prepared) {
+                const position = solarPositionFromEphemeris(lat, lon, p.instant, p.ephemeris);
+                const { angularDistance } = compareSolarPositions(position, p.sun);
+
+                if (angularDistance <= errorDeg) {
+                    p.candidates.push({ latitude: lat, longitude: lon });
+                } else {
+                    feasible = false;
+                }
+                sumSquares += angularDistance ** 2;
+            }
+
+            if (feasible) {
+                fused.push({ latitude: lat, longitude: lon, rms: Math.sqrt(sumSquares / prepared.length) });
+            }
+        }
+    }
+
+    fused.sort((a, b) => a.rms - b.rms);
+    const best = fused[0];
+
+    if (!best) {
+        return {
+            success: false,
+            message: 'Die Korridore der einzelnen Screenshots überschneiden sich nicht'
+        };
+    }
+
+    const contributions: FusionFrameContribution[] = prepared.map(p => ({
+        screenshotId: p.frame.screenshotId,
+        timestamp: p.frame.timestamp,
+        timeUtc: p.frame.timeUtc,
+        measuredAzimuth: p.sun.azimuth,
+        measuredElevation: p.sun.elevation,
+        corridor: p.candidates.length > 0 ? corridorFromLocations(p.candidates) : null,
+        candidateCount: p.candidates.length,
+        errorAtBestDeg: compareSolarPositions(
+            solarPositionFromEphemeris(best.latitude, best.longitude, p.instant, p.ephemeris),
+            p.sun
+        ).angularDistance
+    }));
+
+    return {
+        success: true,
+        message: `${fused.length} Gitterpunkte erfüllen alle ${prepared.length} Screenshots`,
+        data: {
+            locations: fused.slice(0, maxLocations).map(f => ({ latitude: f.latitude, longitude: f.longitude })),
+            corridor: corridorFromLocations(fused),
+            confidence: Math.max(0, Math.min(100, (1 - best.rms / errorDeg) * 100)),
+            error_deg: best.rms,
+            frames: contributions
+        }
+    };
+}
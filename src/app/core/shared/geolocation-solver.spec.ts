@@ -0,0 +1,70 @@
+import { corridorFromLocations, solveGeolocation } from './geolocation-solver';
+import { calculateSolarPosition, parseUtcDateTime } from './solar-position';
+
+describe('geolocation-solver', () => {
+  it('should find the location the sun position was computed for', () => {
+    const sun = calculateSolarPosition(48.0, 11.5, parseUtcDateTime('2024-06-21', '10:00'));
+
+    const response = solveGeolocation({
+      lightAzimuth: sun.azimuth,
+      lightElevation: sun.elevation,
+      roomOrientation: 0,
+      date: '2024-06-21',
+      timeUtc: '10:00',
+      hemisphere: 'north',
+      errorDeg: 1,
+      resolutionDeg: 0.5
+    });
+
+    expect(response.success).toBe(true);
+    const { corridor, locations } = response.data!;
+    expect(corridor.lat_min).toBeLessThanOrEqual(48.0);
+    expect(corridor.lat_max).toBeGreaterThanOrEqual(48.0);
+    expect(corridor.lon_min).toBeLessThanOrEqual(11.5);
+    expect(corridor.lon_max).toBeGreaterThanOrEqual(11.5);
+    expect(Math.abs(locations[0].latitude - 48.0)).toBeLessThan(1);
+    expect(Math.abs(locations[0].longitude - 11.5)).toBeLessThan(1);
+  });
+
+  it('should apply the room orientation to the light azimuth', () => {
+    const sun = calculateSolarPosition(-30, 20, parseUtcDateTime('2024-03-01', '09:00'));
+
+    const response = solveGeolocation({
+      lightAzimuth: sun.azimuth - 90,
+      lightElevation: sun.elevation,
+      roomOrientation: 90,
+      date: '2024-03-01',
+      timeUtc: '09:00',
+      hemisphere: 'south',
+      errorDeg: 1
+    });
+
+    expect(response.success).toBe(true);
+    expect(response.data!.sun_position.measured_azimuth).toBeCloseTo(sun.azimuth, 6);
+  });
+
+  it('should fail when the sun would be below the horizon', () => {
+    const response = solveGeolocation({
+      lightAzimuth: 180,
+      lightElevation: -5,
+      roomOrientation: 0,
+      date: '2024-06-21',
+      timeUtc: '12:00',
+      hemisphere: 'both',
+      errorDeg: 2
+    });
+
+    expect(response.success).toBe(false);
+  });
+
+  it('should build corridors across the date line', () => {
+    const corridor = corridorFromLocations([
+      { latitude: 10, longitude: 179 },
+      { latitude: 12, longitude: -179 }
+    ]);
+
+    expect(corridor.lon_min).toBe(179);
+    expect(corridor.lon_max).toBe(-179);
+    expect(Math.abs(corridor.lon_center)).toBeCloseTo(180, 6);
+  });
+});
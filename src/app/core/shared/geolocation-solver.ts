@@ -0,0 +1,278 @@
+/**
+ * ============================================================================
+ * INVERSE GEOLOCATION (Client-Solver)
+ * ============================================================================
+ *
+ * Umkehrung des Sonnenstands: Aus gemessener Lichtrichtung + Zeitpunkt (UTC)
+ * werden alle Orte gesucht, an denen die Sonne innerhalb von errorDeg an der
+ * gemessenen Position steht.
+ *
+ * Liefert exakt die Form von GeolocationResponse (Backend), damit beide
+ * Ergebnisse direkt gegeneinander geprüft werden können.
+ *
+ * LICHTRICHTUNG → SONNENSTAND:
+ *   - Sonnen-Azimut   = light_azimuth + roomOrientation (mod 360)
+ *   - Sonnen-Elevation = light_elevation
+ *   (roomOrientation = Echter Sonnenazimut − Modell-Sonnenazimut, siehe Stage 7)
+ *
+ * LAUFZEIT:
+ *   Grid-Suche über den Globus (Default 0.5° → ~260.000 Punkte). Läuft in
+ *   Stage 7 in einem Web Worker (geolocation-solver.worker.ts).
+ *
+ * ============================================================================
+ */
+
+import type { GeolocationResponse } from '../models/api.types';
+import {
+    compareSolarPositions,
+    parseUtcDateTime,
+    solarDeclinationAndEquationOfTime,
+    solarPositionFromEphemeris
+} from './solar-position';
+
+// ============================================================================
+// TYPEN
+// ============================================================================
+
+export type GeolocationData = NonNullable<GeolocationResponse['data']>;
+export type GeolocationCorridor = GeolocationData['corridor'];
+
+/**
+ * Eingabe für den Client-Solver
+ */
+export interface GeolocationSolverRequest {
+    /** Gemessene Lichtrichtung im Raum-Modell (aus shadow_analysis) */
+    lightAzimuth: number;
+    lightElevation: number;
+
+    /** Inter-Objekt-Score (wird nur durchgereicht) */
+    interObjectScore?: number;
+
+    /** Raumausrichtung in Grad (0=Nord, 90=Ost, ...) */
+    roomOrientation: number;
+
+    /** "YYYY-MM-DD" */
+    date: string;
+
+    /** "HH:MM" (UTC) */
+    timeUtc: string;
+
+    /** Einschränkung der Suche; 'both' = ganzer Globus */
+    hemisphere: 'north' | 'south' | 'both';
+
+    /** Maximal zulässige Winkelabweichung in Grad */
+    errorDeg: number;
+
+    /** Gitterweite in Grad (Default: 0.5) */
+    resolutionDeg?: number;
+
+    /** Maximale Anzahl zurückgegebener Orte (Default: 50) */
+    maxLocations?: number;
+}
+
+/**
+ * Ein Gitterpunkt mit seiner Abweichung zum gemessenen Sonnenstand
+ */
+export interface GeolocationCandidate {
+    latitude: number;
+    longitude: number;
+    errorDeg: number;
+    azimuth: number;
+    elevation: number;
+}
+
+// ============================================================================
+// HILFSFUNKTIONEN
+// ============================================================================
+
+function normalizeDegrees(angle: number): number {
+    const result = angle % 360;
+    return result < 0 ? result + 360 : result;
+}
+
+function normalizeLongitude(lon: number): number {
+    return normalizeDegrees(lon + 180) - 180;
+}
+
+/**
+ * Rechnet die Lichtrichtung des Raum-Modells in einen Sonnenstand um
+ */
+export function measuredSunFromLight(
+    lightAzimuth: number,
+    lightElevation: number,
+    roomOrientation: number
+): { azimuth: number; elevation: number } {
+    return {
+        azimuth: normalizeDegrees(lightAzimuth + roomOrientation),
+        elevation: lightElevation
+    };
+}
+
+/**
+ * Kleinstes Längengrad-Intervall, das alle Werte enthält.
+ *
+ * Überquert der Korridor die Datumsgrenze, ist lon_min > lon_max.
+ */
+function longitudeArc(longitudes: number[]): { min: number; max: number; center: number } {
+    const sorted = [...new Set(longitudes.map(normalizeLongitude))].sort((a, b) => a - b);
+
+    // Größte Lücke finden - der Korridor ist das Komplement
+    let gapStart = sorted[sorted.length - 1];
+    let gapEnd = sorted[0];
+    let largestGap = sorted[0] + 360 - sorted[sorted.length - 1];
+
+    for (let i = 1; i < sorted.length; i++) {
+        const gap = sorted[i] - sorted[i - 1];
+        if (gap > largestGap) {
+            largestGap = gap;
+            gapStart = sorted[i - 1];
+            gapEnd = sorted[i];
+        }
+    }
+
+    const min = gapEnd;
+    const max = gapStart;
+    const span = normalizeDegrees(max - min);
+
+    return { min, max, center: normalizeLongitude(min + span / 2) };
+}
+
+/**
+ * Bounding-Box (Korridor) um eine Menge von Orten
+ */
+export function corridorFromLocations(
+    locations: Array<{ latitude: number; longitude: number }>
+): GeolocationCorridor {
+    const lats = locations.map(l => l.latitude);
+    const lon = longitudeArc(locations.map(l => l.longitude));
+    const latMin = Math.min(...lats);
+    const latMax = Math.max(...lats);
+
+    return {
+        lat_min: latMin,
+        lat_max: latMax,
+        lon_min: lon.min,
+        lon_max: lon.max,
+        lat_center: (latMin + latMax) / 2,
+        lon_center: lon.center
+    };
+}
+
+// ============================================================================
+// GRID-SUCHE
+// ============================================================================
+
+/**
+ * Sucht alle Gitterpunkte, deren Sonnenstand innerhalb von errorDeg liegt
+ */
+export function searchGeolocationCandidates(
+    sun: { azimuth: number; elevation: number },
+    instant: Date,
+    hemisphere: 'north' | 'south' | 'both',
+    errorDeg: number,
+    resolutionDeg: number
+): { candidates: GeolocationCandidate[]; bestError: number } {
+    const ephemeris = solarDeclinationAndEquationOfTime(instant);
+    const latFrom = hemisphere === 'north' ? 0 : -90;
+    const latTo = hemisphere === 'south' ? 0 : 90;
+
+    const candidates: GeolocationCandidate[] = [];
+    let bestError = Infinity;
+
+    for (let lat = latFrom; lat <= latTo + 1e-9; lat += resolutionDeg) {
+        for (let lon = -180; lon < 180; lon += resolutionDeg) {
+            const position = solarPositionFromEphemeris(lat, lon, instant, ephemeris);
+            const { angularDistance } = compareSolarPositions(position, sun);
+
+            bestError = Math.min(bestError, angularDistance);
+
+            if (angularDistance <= errorDeg) {
+                candidates.push({
+                    latitude: lat,
+                    longitude: lon,
+                    errorDeg: angularDistance,
+                    azimuth: position.azimuth,
+                    elevation: position.elevation
+                });
+            }
+        }
+    }
+
+    candidates.sort((a, b) => a.errorDeg - b.errorDeg);
+    return { candidates, bestError };
+}
+
+/**
+ * Löst die inverse Geolocation für einen Screenshot.
+ *
+ * Rückgabe in derselben Form wie POST /sessions/{id}/geolocation.
+ */
+export function solveGeolocation(request: GeolocationSolverRequest): GeolocationResponse {
+    const {
+        lightAzimuth,
+        lightElevation,
+        interObjectScore = 0,
+        roomOrientation,
+        date,
+        timeUtc,
+        hemisphere,
+        errorDeg,
+        resolutionDeg = 0.5,
+        maxLocations = 50
+    } = request;
+
+    if (lightElevation <= 0) {
+        return {
+            success: false,
+            message: 'Sonne unter dem Horizont - keine Lösung möglich'
+        };
+    }
+
+    const instant = parseUtcDateTime(date, timeUtc);
+    const sun = measuredSunFromLight(lightAzimuth, lightElevation, roomOrientation);
+    const { candidates, bestError } = searchGeolocationCandidates(
+        sun,
+        instant,
+        hemisphere,
+        errorDeg,
+        resolutionDeg
+    );
+
+    if (candidates.length === 0) {
+        return {
+            success: false,
+            message: `Kein Ort innerhalb ±${errorDeg.toFixed(1)}° gefunden (beste Abweichung: ${bestError.toFixed(1)}°)`
+        };
+    }
+
+    const best = candidates[0];
+
+    return {
+        success: true,
+        message: `${candidates.length} Gitterpunkte innerhalb ±${errorDeg.toFixed(1)}° (lokal berechnet)`,
+        data: {
+            locations: candidates
+                .slice(0, maxLocations)
+                .map(c => ({ latitude: c.latitude, longitude: c.longitude })),
+            corridor: corridorFromLocations(candidates),
+            confidence: Math.max(0, Math.min(100, (1 - best.errorDeg / errorDeg) * 100)),
+            sun_position: {
+                measured_azimuth: sun.azimuth,
+                measured_elevation: sun.elevation,
+                calculated_azimuth: best.azimuth,
+                calculated_elevation: best.elevation
+            },
+            shadow_analysis: {
+                light_azimuth: lightAzimuth,
+                light_elevation: lightElevation,
+                inter_object_score: interObjectScore
+            },
+            error_deg: best.errorDeg,
+            input: {
+                date,
+                time_utc: timeUtc,
+                hemisphere
+            }
+        }
+    };
+}
@@ -0,0 +1,14 @@
+/// <reference lib="webworker" />
+
+import { GeolocationWorkerJob, runGeolocationJob } from './geolocation-worker-protocol';
+
+/**
+ * Web Worker für die Grid-Suche (blockiert sonst die Stage-7-UI)
+ */
+addEventListener('message', ({ data }: MessageEvent<GeolocationWorkerJob>) => {
+  try {
+    postMessage({ type: 'result', response: runGeolocationJob(data) });
+  } catch (err) {
+    postMessage({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+  }
+});
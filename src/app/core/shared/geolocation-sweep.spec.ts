@@ -0,0 +1,78 @@
+import { enumerateDates, sweepDates, sweepTimes } from './geolocation-sweep';
+import { calculateSolarPosition, parseUtcDateTime } from './solar-position';
+
+describe('geolocation-sweep', () => {
+  it('should enumerate dates inclusively across month boundaries', () => {
+    expect(enumerateDates('2024-02-27', '2024-03-02')).toEqual([
+      '2024-02-27', '2024-02-28', '2024-02-29', '2024-03-01', '2024-03-02'
+    ]);
+    expect(enumerateDates('2024-01-01', '2024-01-10', 4)).toEqual([
+      '2024-01-01', '2024-01-05', '2024-01-09'
+    ]);
+  });
+
+  it('should contain the true location on the true date', () => {
+    const sun = calculateSolarPosition(48, 11.5, parseUtcDateTime('2024-06-21', '10:00'));
+
+    const result = sweepDates({
+      lightAzimuth: sun.azimuth,
+      lightElevation: sun.elevation,
+      roomOrientation: 0,
+      errorDeg: 1.5,
+      dateFrom: '2024-06-19',
+      dateTo: '2024-06-23',
+      timeUtc: '10:00',
+      hemisphere: 'north'
+    });
+
+    expect(result.success).toBe(true);
+    const entry = result.entries.find(e => e.date === '2024-06-21')!;
+    expect(entry.corridor!.lat_min).toBeLessThanOrEqual(48);
+    expect(entry.corridor!.lat_max).toBeGreaterThanOrEqual(48);
+    expect(result.bands.length).toBe(1);
+    expect(result.bands[0].dateFrom).toBe('2024-06-19');
+    expect(result.bands[0].dateTo).toBe('2024-06-23');
+  });
+
+  it('should keep wide corridors across the dateline when merging days into bands', () => {
+    const sun = calculateSolarPosition(0, 0, parseUtcDateTime('2024-06-21', '12:00'));
+
+    const result = sweepDates({
+      lightAzimuth: sun.azimuth,
+      lightElevation: sun.elevation,
+      roomOrientation: 0,
+      errorDeg: 60,
+      dateFrom: '2024-06-21',
+      dateTo: '2024-06-22',
+      timeUtc: '12:00',
+      hemisphere: 'both',
+      resolutionDeg: 5
+    });
+
+    // Tages-Korridor umfasst mehr als 180° Länge und überquert die Datumsgrenze
+    const day = result.entries[0].corridor!;
+    expect(day.lon_min).toBeGreaterThan(day.lon_max);
+    expect(result.bands.length).toBe(1);
+    expect(result.bands[0].corridor).toEqual(day);
+  });
+
+  it('should find the capture time for a known location', () => {
+    const sun = calculateSolarPosition(-33.9, 18.4, parseUtcDateTime('2024-01-15', '13:30'));
+
+    const result = sweepTimes({
+      lightAzimuth: sun.azimuth,
+      lightElevation: sun.elevation,
+      roomOrientation: 0,
+      errorDeg: 1,
+      dateFrom: '2024-01-15',
+      dateTo: '2024-01-15',
+      latitude: -33.9,
+      longitude: 18.4,
+      stepMinutes: 5
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.entries[0].bestTimeUtc).toBe('13:30:00');
+    expect(result.entries[0].times).toContain('13:30:00');
+  });
+});
@@ -0,0 +1,282 @@
+/**
+ * ============================================================================
+ * DATUMS-/ZEIT-SWEEP (unbekanntes Datum oder unbekannte Uhrzeit)
+ * ============================================================================
+ *
+ * Häufig ist nur die Uhrzeit bekannt (Uhr-Overlay ohne Datum). Dann wird der
+ * Client-Solver für jedes Datum eines Bereichs ausgeführt; Ergebnis sind
+ * (Datum, Ort)-Lösungsbänder über das Jahr.
+ *
+ * Umgekehrt: Ort bekannt, Zeit unbekannt → für jedes Datum alle Uhrzeiten,
+ * zu denen die Sonne passt.
+ *
+ * ============================================================================
+ */
+
+import { GeolocationCorridor, corridorFromLocations, measuredSunFromLight, searchGeolocationCandidates } from './geolocation-solver';
+import { shiftUtcDateTime } from './geolocation-fusion';
+import {
+    compareSolarPositions,
+    parseUtcDateTime,
+    solarDeclinationAndEquationOfTime,
+    solarPositionFromEphemeris
+} from './solar-position';
+
+// ============================================================================
+// TYPEN
+// ============================================================================
+
+interface SweepBase {
+    lightAzimuth: number;
+    lightElevation: number;
+    roomOrientation: number;
+    errorDeg: number;
+
+    /** Datumsbereich "YYYY-MM-DD" (inklusive) */
+    dateFrom: string;
+    dateTo: string;
+
+    /** Schrittweite in Tagen (Default: 1) */
+    stepDays?: number;
+}
+
+/**
+ * Uhrzeit bekannt, Datum unbekannt → Ort pro Datum
+ */
+export interface DateSweepRequest extends SweepBase {
+    timeUtc: string;
+    hemisphere: 'north' | 'south' | 'both';
+
+    /** Gitterweite in Grad (Default: 1 - gröber als Einzel-Lösung) */
+    resolutionDeg?: number;
+}
+
+/**
+ * Ort bekannt, Uhrzeit unbekannt → passende Uhrzeiten pro Datum
+ */
+export interface TimeSweepRequest extends SweepBase {
+    latitude: number;
+    longitude: number;
+
+    /** Schrittweite in Minuten (Default: 5) */
+    stepMinutes?: number;
+}
+
+/**
+ * Ergebnis für ein einzelnes Datum (Datums-Sweep)
+ */
+export interface DateSweepEntry {
+    date: string;
+    corridor: GeolocationCorridor | null;
+    bestLocation: { latitude: number; longitude: number } | null;
+    bestErrorDeg: number;
+    candidateCount: number;
+}
+
+/**
+ * Zusammenhängender Datumsbereich mit Lösungen
+ */
+export interface DateSolutionBand {
+    dateFrom: string;
+    dateTo: string;
+    corridor: GeolocationCorridor;
+}
+
+export interface DateSweepResult {
+    success: boolean;
+    message: string;
+    entries: DateSweepEntry[];
+    bands: DateSolutionBand[];
+}
+
+/**
+ * Passende Uhrzeiten für ein Datum (Zeit-Sweep)
+ */
+export interface TimeSweepEntry {
+    date: string;
+
+    /** Alle passenden Zeitpunkte ("HH:MM:SS" UTC) */
+    times: string[];
+
+    /** Beste Uhrzeit und deren Abweichung */
+    bestTimeUtc: string | null;
+    bestErrorDeg: number;
+}
+
+export interface TimeSweepResult {
+    success: boolean;
+    message: string;
+    entries: TimeSweepEntry[];
+}
+
+// ============================================================================
+// HILFSFUNKTIONEN
+// ============================================================================
+
+/**
+ * Alle Daten zwischen dateFrom und dateTo (inklusive) in stepDays-Schritten
+ */
+export function enumerateDates(dateFrom: string, dateTo: string, stepDays = 1): string[] {
+    const dates: string[] = [];
+    const end = parseUtcDateTime(dateTo, '00:00').getTime();
+    let current = { date: dateFrom, timeUtc: '00:00' };
+
+    while (parseUtcDateTime(current.date, current.timeUtc).getTime() <= end) {
+        dates.push(current.date);
+        current = shiftUtcDateTime(current.date, current.timeUtc, stepDays * 86400);
+    }
+
+    return dates;
+}
+
+/**
+ * Datumsbereich für "Datum völlig unbekannt" (ein ganzes Jahr)
+ */
+export function fullYearRange(year: number): { dateFrom: string; dateTo: string } {
+    return { dateFrom: `${year}-01-01`, dateTo: `${year}-12-31` };
+}
+
+// ============================================================================
+// DATUMS-SWEEP
+// ============================================================================
+
+/**
+ * Punkte, deren Korridor dem aller Kandidaten entspricht: jeder belegte
+ * Längengrad (nur Ecken verlieren bei Korridoren über die Datumsgrenze bzw.
+ * über 180° die Lage des Bogens) plus die Breiten-Extreme
+ */
+function corridorSupport(
+    candidates: Array<{ longitude: number }>,
+    corridor: GeolocationCorridor
+): Array<{ latitude: number; longitude: number }> {
+    const longitudes = [...new Set(candidates.map(c => c.longitude))];
+    return [
+        ...longitudes.map(longitude => ({ latitude: corridor.lat_min, longitude })),
+        { latitude: corridor.lat_max, longitude: longitudes[0] }
+    ];
+}
+
+export function sweepDates(request: DateSweepRequest): DateSweepResult {
+    const {
+        lightAzimuth, lightElevation, roomOrientation, errorDeg,
+        dateFrom, dateTo, stepDays = 1, timeUtc, hemisphere, resolutionDeg = 1
+    } = request;
+
+    const sun = measuredSunFromLight(lightAzimuth, lightElevation, roomOrientation);
+
+    // Verdichtete Kandidaten je Tag für die Band-Korridore
+    const support = new Map<DateSweepEntry, Array<{ latitude: number; longitude: number }>>();
+
+    const entries: DateSweepEntry[] = enumerateDates(dateFrom, dateTo, stepDays).map(date => {
+        const { candidates, bestError } = searchGeolocationCandidates(
+            sun,
+            parseUtcDateTime(date, timeUtc),
+            hemisphere,
+            errorDeg,
+            resolutionDeg
+        );
+
+        const entry: DateSweepEntry = {
+            date,
+            corridor: candidates.length > 0 ? corridorFromLocations(candidates) : null,
+            bestLocation: candidates.length > 0
+                ? { latitude: candidates[0].latitude, longitude: candidates[0].longitude }
+                : null,
+            bestErrorDeg: bestError,
+            candidateCount: candidates.length
+        };
+        if (entry.corridor) support.set(entry, corridorSupport(candidates, entry.corridor));
+        return entry;
+    });
+
+    // Aufeinanderfolgende Daten mit Lösung zu Bändern zusammenfassen
+    const bands: DateSolutionBand[] = [];
+    let current: DateSweepEntry[] = [];
+
+    const flush = () => {
+        if (current.length === 0) return;
+        bands.push({
+            dateFrom: current[0].date,
+            dateTo: current[current.length - 1].date,
+            corridor: corridorFromLocations(current.flatMap(e => support.get(e)!))
+        });
+        current = [];
+    };
+
+    for (const entry of entries) {
+        if (entry.corridor) {
+            current.push(entry);
+        } else {
+            flush();
+        }
+    }
+    flush();
+
+    const feasibleDays = entries.filter(e => e.corridor).length;
+
+    return {
+        success: feasibleDays > 0,
+        message: feasibleDays > 0
+            ? `${feasibleDays} von ${entries.length} Daten möglich (${bands.length} Bänder)`
+            : 'Für kein Datum im Bereich passt der Sonnenstand',
+        entries,
+        bands
+    };
+}
+
+// ============================================================================
+// ZEIT-SWEEP
+// ============================================================================
+
+export function sweepTimes(request: TimeSweepRequest): TimeSweepResult {
+    const {
+        lightAzimuth, lightElevation, roomOrientation, errorDeg,
+        dateFrom, dateTo, stepDays = 1, latitude, longitude, stepMinutes = 5
+    } = request;
+
+    const sun = measuredSunFromLight(lightAzimuth, lightElevation, roomOrientation);
+
+    const entries: TimeSweepEntry[] = enumerateDates(dateFrom, dateTo, stepDays).map(date => {
+        const dayStart = parseUtcDateTime(date, '00:00').getTime();
+        const times: string[] = [];
+        let bestTimeUtc: string | null = null;
+        let bestErrorDeg = Infinity;
+
+        for (let minute = 0; minute < 1440; minute += stepMinutes) {
+            const instant = new Date(dayStart + minute * 60000);
+            const position = solarPositionFromEphemeris(
+                latitude,
+                longitude,
+                instant,
+                solarDeclinationAndEquationOfTime(instant)
+            );
+            const { angularDistance } = compareSolarPositions(position, sun);
+            const timeUtc = instant.toISOString().slice(11, 19);
+
+            if (angularDistance <= errorDeg) {
+                times.push(timeUtc);
+            }
+            if (angularDistance < bestErrorDeg) {
+                bestErrorDeg = angularDistance;
+                bestTimeUtc = timeUtc;
+            }
+        }
+
+        return {
+            date,
+            times,
+            bestTimeUtc: times.length > 0 ? bestTimeUtc : null,
+            bestErrorDeg
+        };
+    });
+
+    const feasibleDays = entries.filter(e => e.times.length > 0).length;
+
+    return {
+        success: feasibleDays > 0,
+        message: feasibleDays > 0
+            ? `An ${feasibleDays} von ${entries.length} Daten gibt es passende Uhrzeiten`
+            : 'Zu keiner Uhrzeit im Bereich passt der Sonnenstand',
+        entries
+    };
+}
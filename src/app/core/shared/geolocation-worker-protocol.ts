@@ -0,0 +1,41 @@
+/**
+ * Nachrichten-Protokoll zwischen GeolocationSolverService und
+ * geolocation-solver.worker.ts
+ */
+
+import type { GeolocationResponse } from '../models/api.types';
+import { GeolocationSolverRequest, solveGeolocation } from './geolocation-solver';
+import { GeolocationFusionRequest, GeolocationFusionResult, solveGeolocationFusion } from './geolocation-fusion';
+import { DateSweepRequest, DateSweepResult, TimeSweepRequest, TimeSweepResult, sweepDates, sweepTimes } from './geolocation-sweep';
+
+export type GeolocationWorkerJob =
+    | { kind: 'single'; request: GeolocationSolverRequest }
+    | { kind: 'fusion'; request: GeolocationFusionRequest }
+    | { kind: 'date-sweep'; request: DateSweepRequest }
+    | { kind: 'time-sweep'; request: TimeSweepRequest };
+
+export type GeolocationWorkerResult =
+    | GeolocationResponse
+    | GeolocationFusionResult
+    | DateSweepResult
+    | TimeSweepResult;
+
+export type GeolocationWorkerMessage =
+    | { type: 'result'; response: GeolocationWorkerResult }
+    | { type: 'error'; message: string };
+
+/**
+ * Führt einen Job aus (im Worker oder synchron als Fallback)
+ */
+export function runGeolocationJob(job: GeolocationWorkerJob): GeolocationWorkerResult {
+    switch (job.kind) {
+        case 'single':
+            return solveGeolocation(job.request);
+        case 'fusion':
+            return solveGeolocationFusion(job.request);
+        case 'date-sweep':
+            return sweepDates(job.request);
+        case 'time-sweep':
+            return sweepTimes(job.request);
+    }
+}
@@ -0,0 +1,116 @@
+import {
+  capturedAtDifference,
+  extractImageTimestamp,
+  parseFilenameTimestamp,
+  shiftCapturedAt,
+  suggestTimeline
+} from './image-timestamp';
+
+function bytesOf(text: string): number[] {
+  return Array.from(text, char => char.charCodeAt(0));
+}
+
+/** JPEG mit APP1/EXIF (Big Endian): IFD0 → Exif-IFD mit DateTimeOriginal + OffsetTimeOriginal */
+function jpegWithExif(dateTime: string, offset: string): Uint8Array {
+  const tiff = new DataView(new ArrayBuffer(84));
+  tiff.setUint16(0, 0x4d4d);
+  tiff.setUint16(2, 42);
+  tiff.setUint32(4, 8);
+
+  // IFD0: ein Eintrag, Zeiger auf das Exif-IFD
+  tiff.setUint16(8, 1);
+  tiff.setUint16(10, 0x8769);
+  tiff.setUint16(12, 4);
+  tiff.setUint32(14, 1);
+  tiff.setUint32(18, 26);
+
+  // Exif-IFD: DateTimeOriginal (20 Bytes ab 56), OffsetTimeOriginal (7 Bytes ab 76)
+  tiff.setUint16(26, 2);
+  [[0x9003, 20, 56], [0x9011, 7, 76]].forEach(([tag, count, valueOffset], i) => {
+    const entry = 28 + i * 12;
+    tiff.setUint16(entry, tag);
+    tiff.setUint16(entry + 2, 2);
+    tiff.setUint32(entry + 4, count);
+    tiff.setUint32(entry + 8, valueOffset);
+  });
+  bytesOf(`${dateTime}\0`).forEach((b, i) => tiff.setUint8(56 + i, b));
+  bytesOf(`${offset}\0`).forEach((b, i) => tiff.setUint8(76 + i, b));
+
+  const app1 = [...bytesOf('Exif\0\0'), ...new Uint8Array(tiff.buffer)];
+  const length = app1.length + 2;
+  return new Uint8Array([0xff, 0xd8, 0xff, 0xe1, length >> 8, length & 0xff, ...app1, 0xff, 0xda]);
+}
+
+function pngChunk(type: string, data: number[]): number[] {
+  const length = data.length;
+  return [length >>> 24, (length >> 16) & 0xff, (length >> 8) & 0xff, length & 0xff, ...bytesOf(type), ...data, 0, 0, 0, 0];
+}
+
+function pngWithText(keyword: string, text: string): Uint8Array {
+  return new Uint8Array([
+    0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+    ...pngChunk('tEXt', bytesOf(`${keyword}\0${text}`)),
+    ...pngChunk('IEND', [])
+  ]);
+}
+
+describe('image-timestamp', () => {
+  it('should parse CCTV date and frame patterns from filenames', () => {
+    expect(parseFilenameTimestamp('cam1_20240612_143005.png')).toEqual({ source: 'filename', capturedAt: '2024-06-12T14:30:05' });
+    expect(parseFilenameTimestamp('2024-06-12 14.30.05.jpg')?.capturedAt).toBe('2024-06-12T14:30:05');
+    expect(parseFilenameTimestamp('frame_000450@30fps.png')).toEqual({ source: 'filename', frame: { index: 450, fps: 30 } });
+    expect(parseFilenameTimestamp('frame_12.png')?.frame).toEqual({ index: 12, fps: null });
+
+    // Kein gültiges Datum (Monat 13) und keine Muster
+    expect(parseFilenameTimestamp('cam1_20241312_143005.png')).toBeNull();
+    expect(parseFilenameTimestamp('screenshot.png')).toBeNull();
+  });
+
+  it('should read EXIF DateTimeOriginal and PNG text chunks', () => {
+    expect(extractImageTimestamp(jpegWithExif('2024:06:12 14:30:05', '+02:00'), 'IMG.jpg'))
+      .toEqual({ source: 'exif', capturedAt: '2024-06-12T14:30:05+02:00' });
+
+    expect(extractImageTimestamp(pngWithText('Creation Time', '2024-06-12T14:30:05'), 'shot.png'))
+      .toEqual({ source: 'png-text', capturedAt: '2024-06-12T14:30:05' });
+    expect(extractImageTimestamp(pngWithText('Comment', '2024-06-12T14:30:05'), 'shot.png')).toBeNull();
+
+    // Dateiname hat Vorrang vor den Metadaten
+    expect(extractImageTimestamp(pngWithText('Creation Time', '2024-06-12T14:30:05'), 'cam1_20240101_080000.png')?.capturedAt)
+      .toBe('2024-01-01T08:00:00');
+
+    // Abgeschnittene Metadaten
+    expect(extractImageTimestamp(jpegWithExif('2024:06:12 14:30:05', '+02:00').subarray(0, 40), 'IMG.jpg')).toBeNull();
+  });
+
+  it('should suggest the earliest frame as reference', () => {
+    const suggestion = suggestTimeline([
+      { source: 'filename', capturedAt: '2024-06-12T14:30:35' },
+      { source: 'filename', capturedAt: '2024-06-12T14:30:05' },
+      null,
+      { source: 'filename', frame: { index: 300, fps: 30 } }
+    ]);
+
+    expect(suggestion).toEqual({
+      referenceIndex: 1,
+      offsets: [30, 0, null, null],
+      referenceTime: '2024-06-12T14:30:05'
+    });
+
+    expect(suggestTimeline([
+      { source: 'filename', frame: { index: 450, fps: 30 } },
+      { source: 'filename', frame: { index: 301, fps: 30 } }
+    ])?.offsets).toEqual([4.97, 0]);
+    expect(suggestTimeline([null])).toBeNull();
+
+    // Frames aus dem Video-Dialog: Position im Video
+    expect(suggestTimeline([
+      { source: 'video', videoSeconds: 42.5 },
+      { source: 'video', videoSeconds: 12.5 }
+    ])?.offsets).toEqual([30, 0]);
+    expect(shiftCapturedAt('2024-06-12T23:59:50+02:00', 12.5)).toBe('2024-06-13T00:00:02+02:00');
+
+    // Video-Frames zu einer Referenz aus einem Bild
+    expect(capturedAtDifference('2024-06-12T14:30:05', '2024-06-12T14:29:52.5')).toBe(-12.5);
+    expect(capturedAtDifference('2024-06-12T14:30:05+02:00', '2024-06-12T12:31:05Z')).toBe(60);
+  });
+});
@@ -0,0 +1,431 @@
+/**
+ * ============================================================================
+ * IMAGE-TIMESTAMP (Aufnahmezeit aus Metadaten und Dateinamen)
+ * ============================================================================
+ *
+ * Stage 1 braucht für jeden Screenshot den Abstand zum Referenz-Frame (t0).
+ * Statt ihn von Hand einzutippen, wird er aus drei Quellen gelesen - in
+ * dieser Reihenfolge:
+ *
+ *   filename  CCTV-/Video-Exporte: "cam1_20240612_143005.png",
+ *             "2024-06-12 14.30.05.png", "frame_000450@30fps.png"
+ *   exif      EXIF DateTimeOriginal (+ OffsetTimeOriginal), JPEG-APP1
+ *             oder PNG-eXIf
+ *   png-text  PNG tEXt/iTXt ("Creation Time", XMP CreateDate, ...)
+ *
+ * Aus einem Video extrahierte Frames (Stage 1, Video-Dialog) bekommen
+ * zusätzlich die Quelle "video" mit ihrer Position im Video, per OCR
+ * gelesene Overlays (ocr-timestamp.ts) die Quelle "ocr".
+ *
+ * Der Dateiname hat Vorrang: Bei Screenshots aus einem Video-Player
+ * beschreiben die Metadaten meist den Moment des Screenshots, der Name des
+ * Exports dagegen die Aufnahmezeit des Frames.
+ *
+ * Zeiten ohne Zonenangabe sind Wanduhrzeit der Kamera ("YYYY-MM-DDTHH:MM:SS"
+ * ohne Z) - für Offsets egal, für Stage 7 (UTC) muss die Zone geprüft werden.
+ *
+ * ============================================================================
+ */
+
+// ============================================================================
+// TYPEN
+// ============================================================================
+
+export type TimestampSource = 'filename' | 'exif' | 'png-text' | 'video' | 'ocr';
+
+export interface ImageTimestamp {
+    source: TimestampSource;
+
+    /** Absolute Aufnahmezeit, ISO 8601 - mit Z/±HH:MM nur wenn die Zone bekannt ist */
+    capturedAt?: string;
+
+    /** Frame-Nummer eines Video-Exports (fps null = Bildrate unbekannt) */
+    frame?: { index: number; fps: number | null };
+
+    /** Position im Quell-Video in Sekunden (Frames aus dem Video-Dialog) */
+    videoSeconds?: number;
+}
+
+export interface TimelineSuggestion {
+    /** Index des vorgeschlagenen Referenz-Frames (frühester Zeitpunkt) */
+    referenceIndex: number;
+
+    /** Sekunden nach t0 pro Screenshot, null = kein vergleichbarer Zeitstempel */
+    offsets: (number | null)[];
+
+    /** capturedAt des Referenz-Frames (nur bei absoluten Zeiten) */
+    referenceTime: string | null;
+}
+
+interface ParsedDateTime {
+    date: string;         // YYYY-MM-DD
+    time: string;         // HH:MM:SS
+    zone: string | null;  // "Z" | "+02:00" | null
+}
+
+// ============================================================================
+// DATUMSTEXTE
+// ============================================================================
+
+function pad(value: number, length = 2): string {
+    return String(value).padStart(length, '0');
+}
+
+function buildDateTime(
+    year: number, month: number, day: number,
+    hour: number, minute: number, second: number,
+    zone: string | null
+): ParsedDateTime | null {
+    if (year < 1970 || year > 2100) return null;
+
+    // Date.UTC normalisiert Überläufe (32. Tag o.ä.) - dann war das Datum ungültig
+    const check = new Date(Date.UTC(year, month - 1, day, hour, minute, second));
+    if (check.getUTCFullYear() !== year || check.getUTCMonth() !== month - 1 || check.getUTCDate() !== day ||
+        check.getUTCHours() !== hour || check.getUTCMinutes() !== minute || check.getUTCSeconds() !== second) {
+        return null;
+    }
+
+    return {
+        date: `${pad(year, 4)}-${pad(month)}-${pad(day)}`,
+        time: `${pad(hour)}:${pad(minute)}:${pad(second)}`,
+        zone
+    };
+}
+
+function normalizeZone(zone: string | undefined): string | null {
+    if (!zone) return null;
+    if (zone === 'Z' || zone === 'z') return 'Z';
+
+    const match = /^([+-])(\d{2}):?(\d{2})$/.exec(zone);
+    return match ? `${match[1]}${match[2]}:${match[3]}` : null;
+}
+
+/**
+ * Liest EXIF- ("2024:06:12 14:30:05"), ISO- und RFC-1123-Zeitangaben
+ */
+export function parseDateText(text: string): ParsedDateTime | null {
+    const value = text.trim();
+
+    const match = /^(\d{4})[:-](\d{2})[:-](\d{2})[T ](\d{2}):(\d{2})(?::(\d{2}))?(?:\.\d+)?\s*(Z|[+-]\d{2}:?\d{2})?$/i.exec(value);
+    if (match) {
+        const [, y, mo, d, h, mi, s, zone] = match;
+        return buildDateTime(+y, +mo, +d, +h, +mi, s ? +s : 0, normalizeZone(zone));
+    }
+
+    // "Wed, 12 Jun 2024 14:30:05 GMT" u.ä. - nur mit Monatsnamen, sonst zu beliebig
+    if (/[a-z]{3}/i.test(value) && /\d{1,2}:\d{2}/.test(value)) {
+        const parsed = Date.parse(value);
+        if (!isNaN(parsed)) {
+            const date = new Date(parsed);
+            return buildDateTime(
+                date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate(),
+                date.getUTCHours(), date.getUTCMinutes(), date.getUTCSeconds(), 'Z'
+            );
+        }
+    }
+
+    return null;
+}
+
+function toCapturedAt(parsed: ParsedDateTime): string {
+    return `${parsed.date}T${parsed.time}${parsed.zone ?? ''}`;
+}
+
+// ============================================================================
+// DATEINAME
+// ============================================================================
+
+const FILENAME_DATETIME = /(?:^|\D)((?:19|20)\d{2})[-_.]?(\d{2})[-_.]?(\d{2})(?:[T_ -]|\s+at\s+)?(\d{2})[-_.:h]?(\d{2})[-_.:m]?(\d{2})(?!\d)/i;
+const FILENAME_FRAME = /(?:^|[^a-z])(?:frame|frm)[-_ ]?(\d+)/i;
+const FILENAME_FPS = /(\d+(?:\.\d+)?)\s*fps/i;
+
+/**
+ * Zeitstempel aus typischen CCTV-/Video-Export-Dateinamen
+ */
+export function parseFilenameTimestamp(filename: string): ImageTimestamp | null {
+    const name = filename.replace(/\.[a-z0-9]+$/i, '');
+
+    const dateTime = FILENAME_DATETIME.exec(name);
+    if (dateTime) {
+        const [, y, mo, d, h, mi, s] = dateTime;
+        const parsed = buildDateTime(+y, +mo, +d, +h, +mi, +s, null);
+        if (parsed) return { source: 'filename', capturedAt: toCapturedAt(parsed) };
+    }
+
+    const frame = FILENAME_FRAME.exec(name);
+    if (frame) {
+        const fps = FILENAME_FPS.exec(name);
+        const rate = fps ? parseFloat(fps[1]) : NaN;
+        return {
+            source: 'filename',
+            frame: { index: parseInt(frame[1], 10), fps: rate > 0 ? rate : null }
+        };
+    }
+
+    return null;
+}
+
+// ============================================================================
+// EXIF (TIFF-Struktur in JPEG-APP1 oder PNG-eXIf)
+// ============================================================================
+
+const TAG_DATETIME = 0x0132;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_DATETIME_ORIGINAL = 0x9003;
+const TAG_OFFSET_TIME_ORIGINAL = 0x9011;
+
+const TYPE_ASCII = 2;
+
+interface IfdEntry {
+    type: number;
+    count: number;
+    valueOffset: number;
+}
+
+/**
+ * Liest DateTimeOriginal (bzw. DateTime) aus einem TIFF-Block
+ */
+function readTiffDateTime(bytes: Uint8Array, start: number): ImageTimestamp | null {
+    try {
+        const view = new DataView(bytes.buffer, bytes.byteOffset + start, bytes.length - start);
+        const order = view.getUint16(0);
+        if (order !== 0x4949 && order !== 0x4d4d) return null;
+
+        const little = order === 0x4949;
+        if (view.getUint16(2, little) !== 42) return null;
+
+        const readIfd = (offset: number): Map<number, IfdEntry> => {
+            const entries = new Map<number, IfdEntry>();
+            const count = view.getUint16(offset, little);
+
+            for (let i = 0; i < count; i++) {
+                const entry = offset + 2 + i * 12;
+                const type = view.getUint16(entry + 2, little);
+                const valueCount = view.getUint32(entry + 4, little);
+                // ASCII bis 4 Bytes steht direkt im Eintrag
+                const inline = type === TYPE_ASCII && valueCount <= 4;
+                entries.set(view.getUint16(entry, little), {
+                    type,
+                    count: valueCount,
+                    valueOffset: inline ? entry + 8 : view.getUint32(entry + 8, little)
+                });
+            }
+            return entries;
+        };
+
+        const readAscii = (entry: IfdEntry | undefined): string | null => {
+            if (!entry || entry.type !== TYPE_ASCII) return null;
+            let text = '';
+            for (let i = 0; i < entry.count; i++) {
+                const code = view.getUint8(entry.valueOffset + i);
+                if (code === 0) break;
+                text += String.fromCharCode(code);
+            }
+            return text;
+        };
+
+        const ifd0 = readIfd(view.getUint32(4, little));
+        const exifPointer = ifd0.get(TAG_EXIF_IFD);
+        const exif = exifPointer ? readIfd(exifPointer.valueOffset) : new Map<number, IfdEntry>();
+
+        const original = readAscii(exif.get(TAG_DATETIME_ORIGINAL)) ?? readAscii(ifd0.get(TAG_DATETIME));
+        if (!original) return null;
+
+        const parsed = parseDateText(original);
+        if (!parsed) return null;
+
+        const zone = normalizeZone(readAscii(exif.get(TAG_OFFSET_TIME_ORIGINAL))?.trim());
+        return { source: 'exif', capturedAt: toCapturedAt({ ...parsed, zone: parsed.zone ?? zone }) };
+    } catch {
+        // Abgeschnittene/kaputte Metadaten: kein Zeitstempel
+        return null;
+    }
+}
+
+function readJpegExif(bytes: Uint8Array): ImageTimestamp | null {
+    let offset = 2;
+
+    while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+        const marker = bytes[offset + 1];
+        // Start of Scan / End of Image: danach keine Metadaten mehr
+        if (marker === 0xda || marker === 0xd9) break;
+
+        const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+        if (marker === 0xe1 && ascii(bytes, offset + 4, 6) === 'Exif\0\0') {
+            return readTiffDateTime(bytes, offset + 10);
+        }
+        offset += 2 + length;
+    }
+
+    return null;
+}
+
+// ============================================================================
+// PNG
+// ============================================================================
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+/** tEXt/iTXt-Schlüssel mit Aufnahme- oder Erstellungszeit */
+const PNG_TIME_KEYS = ['creation time', 'creationtime', 'date:create', 'datetimeoriginal', 'date', 'timestamp'];
+
+/** XMP-Felder mit Aufnahmezeit (Attribut- oder Element-Schreibweise) */
+const XMP_TIME = /(?:exif:DateTimeOriginal|photoshop:DateCreated|xmp:CreateDate)\s*(?:=\s*"([^"]+)"|>([^<]+)<)/;
+
+function ascii(bytes: Uint8Array, start: number, length: number): string {
+    let text = '';
+    for (let i = start; i < start + length && i < bytes.length; i++) {
+        text += String.fromCharCode(bytes[i]);
+    }
+    return text;
+}
+
+function latin1(bytes: Uint8Array): string {
+    return ascii(bytes, 0, bytes.length);
+}
+
+function readUint32(bytes: Uint8Array, offset: number): number {
+    return ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+}
+
+/**
+ * Text eines tEXt- oder (unkomprimierten) iTXt-Chunks
+ */
+function readTextChunk(type: string, data: Uint8Array): { keyword: string; text: string } | null {
+    const keywordEnd = data.indexOf(0);
+    if (keywordEnd <= 0) return null;
+    const keyword = latin1(data.subarray(0, keywordEnd));
+
+    if (type === 'tEXt') {
+        return { keyword, text: latin1(data.subarray(keywordEnd + 1)) };
+    }
+
+    // iTXt: Keyword\0 Kompression(1) Methode(1) Sprache\0 Übersetztes Keyword\0 Text
+    if (data[keywordEnd + 1] !== 0) return null;
+    const languageEnd = data.indexOf(0, keywordEnd + 3);
+    const translatedEnd = languageEnd < 0 ? -1 : data.indexOf(0, languageEnd + 1);
+    if (translatedEnd < 0) return null;
+
+    return { keyword, text: new TextDecoder().decode(data.subarray(translatedEnd + 1)) };
+}
+
+function readPngTimestamp(bytes: Uint8Array): ImageTimestamp | null {
+    let exif: ImageTimestamp | null = null;
+    let text: ImageTimestamp | null = null;
+    let offset = PNG_SIGNATURE.length;
+
+    while (offset + 12 <= bytes.length) {
+        const length = readUint32(bytes, offset);
+        const type = ascii(bytes, offset + 4, 4);
+        const data = bytes.subarray(offset + 8, offset + 8 + length);
+
+        if (type === 'eXIf' && !exif) {
+            exif = readTiffDateTime(data, 0);
+        } else if ((type === 'tEXt' || type === 'iTXt') && !text) {
+            const chunk = readTextChunk(type, data);
+            const xmp = chunk && XMP_TIME.exec(chunk.text);
+            const value = xmp ? xmp[1] ?? xmp[2]
+                : chunk && PNG_TIME_KEYS.includes(chunk.keyword.toLowerCase()) ? chunk.text
+                : null;
+            const parsed = value ? parseDateText(value) : null;
+            if (parsed) text = { source: 'png-text', capturedAt: toCapturedAt(parsed) };
+        }
+
+        if (type === 'IEND') break;
+        offset += 12 + length;
+    }
+
+    return exif ?? text;
+}
+
+// ============================================================================
+// ÖFFENTLICHE API
+// ============================================================================
+
+/**
+ * Zeitstempel eines Bildes (Dateiname vor EXIF vor PNG-Text)
+ *
+ * @param bytes - Dateiinhalt (JPEG oder PNG, andere Formate: nur Dateiname)
+ */
+export function extractImageTimestamp(bytes: Uint8Array, filename: string): ImageTimestamp | null {
+    const fromName = parseFilenameTimestamp(filename);
+    if (fromName) return fromName;
+
+    if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+        return readJpegExif(bytes);
+    }
+    if (PNG_SIGNATURE.every((value, i) => bytes[i] === value)) {
+        return readPngTimestamp(bytes);
+    }
+    return null;
+}
+
+/**
+ * Verschiebt eine Aufnahmezeit um seconds (Zone bleibt erhalten)
+ */
+export function shiftCapturedAt(capturedAt: string, seconds: number): string | null {
+    const parsed = parseDateText(capturedAt);
+    if (!parsed) return null;
+
+    const shifted = new Date(Date.parse(`${parsed.date}T${parsed.time}Z`) + Math.round(seconds * 1000));
+    return `${shifted.toISOString().slice(0, 19)}${parsed.zone ?? ''}`;
+}
+
+/**
+ * Sekunden auf einer gemeinsamen Achse (absolut bzw. Video-Position)
+ */
+function axisValue(timestamp: ImageTimestamp | null): { axis: 'absolute' | 'frame'; seconds: number } | null {
+    if (timestamp?.capturedAt) {
+        return { axis: 'absolute', seconds: capturedSeconds(timestamp.capturedAt) };
+    }
+    if (timestamp?.frame?.fps) {
+        return { axis: 'frame', seconds: timestamp.frame.index / timestamp.frame.fps };
+    }
+    if (timestamp?.videoSeconds !== undefined) {
+        return { axis: 'frame', seconds: timestamp.videoSeconds };
+    }
+    return null;
+}
+
+function capturedSeconds(capturedAt: string): number {
+    // Ohne Zone als UTC lesen - nur Differenzen zählen
+    const zoned = /(Z|[+-]\d{2}:\d{2})$/.test(capturedAt) ? capturedAt : `${capturedAt}Z`;
+    return Date.parse(zoned) / 1000;
+}
+
+/**
+ * Sekunden von einer Aufnahmezeit zur anderen (negativ = früher)
+ */
+export function capturedAtDifference(from: string, to: string): number {
+    return Math.round((capturedSeconds(to) - capturedSeconds(from)) * 100) / 100;
+}
+
+/**
+ * Schlägt Referenz-Frame (frühester Zeitpunkt) und Offsets vor
+ *
+ * Absolute Zeiten und Frame-Nummern lassen sich nicht verrechnen - es
+ * zählt die Gruppe mit den meisten Screenshots (bei Gleichstand absolut).
+ *
+ * @returns null, wenn kein Screenshot einen verwertbaren Zeitstempel hat
+ */
+export function suggestTimeline(timestamps: (ImageTimestamp | null)[]): TimelineSuggestion | null {
+    const values = timestamps.map(axisValue);
+    const absolute = values.filter(v => v?.axis === 'absolute').length;
+    const frames = values.filter(v => v?.axis === 'frame').length;
+    if (absolute + frames === 0) return null;
+
+    const axis = absolute >= frames ? 'absolute' : 'frame';
+    const seconds = values.map(v => v?.axis === axis ? v.seconds : null);
+
+    let referenceIndex = -1;
+    seconds.forEach((value, i) => {
+        if (value !== null && (referenceIndex < 0 || value < seconds[referenceIndex]!)) referenceIndex = i;
+    });
+
+    const reference = seconds[referenceIndex]!;
+    return {
+        referenceIndex,
+        offsets: seconds.map(value => value === null ? null : Math.round((value - reference) * 100) / 100),
+        referenceTime: axis === 'absolute' ? timestamps[referenceIndex]!.capturedAt! : null
+    };
+}
@@ -0,0 +1,118 @@
+/**
+ * ============================================================================
+ * LEAST-SQUARES (Levenberg-Marquardt für kleine Probleme)
+ * ============================================================================
+ *
+ * Gemeinsamer Löser für die Kalibrier-Schätzungen (Raumecken, Linsen-
+ * verzeichnung). Wenige Parameter, wenige Dutzend Residuen - die Jacobi-
+ * Matrix wird numerisch bestimmt, die Normalgleichungen direkt gelöst.
+ *
+ * Residuen-Funktionen dürfen null liefern (z.B. Punkt hinter der Kamera):
+ * der Schritt gilt dann als Verschlechterung.
+ *
+ * ============================================================================
+ */
+
+export type ResidualFunction = (params: number[]) => number[] | null;
+
+export interface LeastSquaresResult {
+    params: number[];
+
+    /** Summe der quadrierten Residuen (Infinity wenn der Start ungültig ist) */
+    cost: number;
+}
+
+/**
+ * Lineares Gleichungssystem (Gauß mit Spaltenpivot), null wenn singulär
+ */
+export function solveLinear(matrix: number[][], rhs: number[]): number[] | null {
+    const n = rhs.length;
+    const a = matrix.map((row, i) => [...row, rhs[i]]);
+
+    for (let col = 0; col < n; col++) {
+        let pivot = col;
+        for (let row = col + 1; row < n; row++) if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+        if (Math.abs(a[pivot][col]) < 1e-14) return null;
+        [a[col], a[pivot]] = [a[pivot], a[col]];
+
+        for (let row = col + 1; row < n; row++) {
+            const factor = a[row][col] / a[col][col];
+            for (let k = col; k <= n; k++) a[row][k] -= factor * a[col][k];
+        }
+    }
+
+    const x = new Array<number>(n).fill(0);
+    for (let row = n - 1; row >= 0; row--) {
+        let sum = a[row][n];
+        for (let k = row + 1; k < n; k++) sum -= a[row][k] * x[k];
+        x[row] = sum / a[row][row];
+    }
+    return x;
+}
+
+function sumOfSquares(values: number[] | null): number {
+    return values ? values.reduce((sum, value) => sum + value * value, 0) : Infinity;
+}
+
+/**
+ * Minimiert die Summe der quadrierten Residuen ab einem Startwert
+ */
+export function levenbergMarquardt(
+    residualsOf: ResidualFunction,
+    start: number[],
+    maxIterations = 200
+): LeastSquaresResult {
+    let params = [...start];
+    let residuals = residualsOf(params);
+    let cost = sumOfSquares(residuals);
+    if (!residuals || params.length === 0) return { params, cost };
+
+    let damping = 1e-3;
+
+    for (let iteration = 0; iteration < maxIterations; iteration++) {
+        const current = residuals;
+
+        // Numerische Jacobi-Matrix (Zeilen: Residuen, Spalten: Parameter)
+        const jacobian = current.map(() => new Array<number>(params.length).fill(0));
+        params.forEach((value, column) => {
+            const step = 1e-6 * Math.max(1, Math.abs(value));
+            const shifted = [...params];
+            shifted[column] += step;
+            const r = residualsOf(shifted);
+            if (!r) return;
+            r.forEach((entry, row) => (jacobian[row][column] = (entry - current[row]) / step));
+        });
+
+        const jtj = params.map((_, a) => params.map((__, b) => jacobian.reduce((sum, row) => sum + row[a] * row[b], 0)));
+        const jtr = params.map((_, a) => jacobian.reduce((sum, row, i) => sum + row[a] * current[i], 0));
+
+        let improved = false;
+        while (damping < 1e12) {
+            const system = jtj.map((row, a) => row.map((value, b) => (a === b ? value * (1 + damping) + 1e-12 : value)));
+            const delta = solveLinear(system, jtr.map(value => -value));
+            if (!delta) {
+                damping *= 4;
+                continue;
+            }
+
+            const candidate = params.map((value, k) => value + delta[k]);
+            const candidateResiduals = residualsOf(candidate);
+            const candidateCost = sumOfSquares(candidateResiduals);
+
+            if (candidateCost < cost) {
+                const relativeGain = (cost - candidateCost) / Math.max(cost, 1e-12);
+                params = candidate;
+                residuals = candidateResiduals!;
+                cost = candidateCost;
+                damping = Math.max(damping / 3, 1e-9);
+                improved = relativeGain > 1e-12;
+                break;
+            }
+            damping *= 4;
+        }
+
+        if (!improved || cost < 1e-16) break;
+    }
+
+    return { params, cost };
+}
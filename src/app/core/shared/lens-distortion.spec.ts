@@ -0,0 +1,100 @@
+import type { LensDistortion, NormalizedPoint2D } from '../models/session.types';
+import {
+  createLensDistortion,
+  distortPoint,
+  estimateDistortionFromPlumbLines,
+  isPinhole,
+  undistortPixels,
+  undistortPoint
+} from './lens-distortion';
+
+const IMAGE = { width: 1920, height: 1080 };
+
+const barrel: LensDistortion = { ...createLensDistortion('brown-conrady', 70), k1: -0.22, k2: 0.04, p1: 0.002, p2: -0.001 };
+const fisheye: LensDistortion = { ...createLensDistortion('fisheye', 90), k1: 0.03, k2: -0.01 };
+
+/** Gerade Kanten im Lochkamera-Bild, im Screenshot verzeichnet */
+function plumbLines(distortion: LensDistortion): NormalizedPoint2D[][] {
+  const straight: Array<[NormalizedPoint2D, NormalizedPoint2D]> = [
+    [{ normalizedX: 0.05, normalizedY: 0.1 }, { normalizedX: 0.95, normalizedY: 0.12 }],
+    [{ normalizedX: 0.08, normalizedY: 0.9 }, { normalizedX: 0.9, normalizedY: 0.85 }],
+    [{ normalizedX: 0.1, normalizedY: 0.05 }, { normalizedX: 0.12, normalizedY: 0.95 }],
+    [{ normalizedX: 0.92, normalizedY: 0.1 }, { normalizedX: 0.88, normalizedY: 0.9 }]
+  ];
+
+  return straight.map(([a, b]) =>
+    [0, 0.2, 0.4, 0.6, 0.8, 1].map(t => distortPoint({
+      normalizedX: a.normalizedX + t * (b.normalizedX - a.normalizedX),
+      normalizedY: a.normalizedY + t * (b.normalizedY - a.normalizedY)
+    }, distortion, IMAGE))
+  );
+}
+
+describe('lens-distortion', () => {
+  it('should round-trip points through both models', () => {
+    const point = { normalizedX: 0.9, normalizedY: 0.15 };
+
+    for (const distortion of [barrel, fisheye]) {
+      const distorted = distortPoint(point, distortion, IMAGE);
+      const back = undistortPoint(distorted, distortion, IMAGE);
+      expect(back.normalizedX).toBeCloseTo(point.normalizedX, 8);
+      expect(back.normalizedY).toBeCloseTo(point.normalizedY, 8);
+    }
+
+    // Tonnenverzeichnung zieht Randpunkte zur Mitte
+    expect(distortPoint(point, barrel, IMAGE).normalizedX).toBeLessThan(0.9);
+    expect(distortPoint({ normalizedX: 0.5, normalizedY: 0.5 }, barrel, IMAGE)).toEqual({ normalizedX: 0.5, normalizedY: 0.5 });
+  });
+
+  it('should treat missing or zero coefficients as pinhole', () => {
+    expect(isPinhole(undefined)).toBe(true);
+    expect(isPinhole(createLensDistortion('brown-conrady', 60))).toBe(true);
+    expect(isPinhole(createLensDistortion('fisheye', 60))).toBe(false);
+
+    const point = { normalizedX: 0.2, normalizedY: 0.7 };
+    expect(distortPoint(point, null, IMAGE)).toBe(point);
+  });
+
+  it('should estimate barrel distortion from plumb lines', () => {
+    const result = estimateDistortionFromPlumbLines(plumbLines(barrel), IMAGE, 'brown-conrady', 70, true);
+
+    expect(result.success).toBe(true);
+    const data = result.data!;
+    expect(data.rmsBeforePx).toBeGreaterThan(5);
+    expect(data.rmsAfterPx).toBeLessThan(0.5);
+    expect(data.distortion.k1).toBeCloseTo(-0.22, 1);
+    expect(data.lineRmsPx).toHaveLength(4);
+
+    // Entzerrte Kante ist wieder gerade
+    const line = plumbLines(barrel)[0].map(p => undistortPoint(p, data.distortion, IMAGE));
+    const slope = (line[5].normalizedY - line[0].normalizedY) / (line[5].normalizedX - line[0].normalizedX);
+    const middle = line[0].normalizedY + slope * (line[3].normalizedX - line[0].normalizedX);
+    expect(Math.abs(line[3].normalizedY - middle) * IMAGE.height).toBeLessThan(1);
+  });
+
+  it('should estimate fisheye coefficients', () => {
+    const result = estimateDistortionFromPlumbLines(plumbLines(fisheye), IMAGE, 'fisheye', 90);
+    expect(result.data?.rmsAfterPx).toBeLessThan(0.5);
+    expect(result.data?.distortion.k1).toBeCloseTo(0.03, 2);
+  });
+
+  it('should reject too few lines or points', () => {
+    const lines = plumbLines(barrel);
+    expect(estimateDistortionFromPlumbLines(lines.slice(0, 1), IMAGE, 'brown-conrady', 70).success).toBe(false);
+    expect(estimateDistortionFromPlumbLines([lines[0], lines[1].slice(0, 2)], IMAGE, 'brown-conrady', 70).message)
+      .toContain('mindestens 3 Punkte');
+  });
+
+  it('should resample an undistorted image', () => {
+    const source = { width: 8, height: 6, data: new Uint8ClampedArray(8 * 6 * 4).fill(200) };
+    const output = undistortPixels(source, barrel);
+
+    // Bildmitte bleibt; Tonnenverzeichnung füllt die Ecken, Kissenverzeichnung nicht
+    const center = (3 * 8 + 4) * 4;
+    expect(output[center]).toBe(200);
+    expect(output[3]).toBe(200);
+
+    const pincushion = { ...createLensDistortion('brown-conrady', 70), k1: 0.3 };
+    expect(undistortPixels(source, pincushion)[3]).toBe(0);
+  });
+});
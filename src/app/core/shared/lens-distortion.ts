@@ -0,0 +1,366 @@
+/**
+ * ============================================================================
+ * LENS-DISTORTION (Objektiv-Verzeichnung: Modell, Entzerrung, Schätzung)
+ * ============================================================================
+ *
+ * Überwachungs- und Action-Kameras haben oft starke Tonnenverzeichnung:
+ * gerade Wandkanten erscheinen gebogen, Schattenstrahlen werden verfälscht.
+ * Die übrige Pipeline rechnet mit einer idealen Lochkamera - dieses Modul
+ * übersetzt zwischen beiden Welten:
+ *
+ *   distortPoint     Lochkamera-Bildpunkt → Punkt im Screenshot
+ *                    (Projektion, Overlay-Zeichnung)
+ *   undistortPoint   Punkt im Screenshot → Lochkamera-Bildpunkt
+ *                    (Ray-Casting, Kalibrier-Klicks)
+ *
+ * MODELLE (OpenCV-Konvention, x/y relativ zur Bildmitte durch Brennweite):
+ *
+ *   brown-conrady   x_d = x·(1 + k1·r² + k2·r⁴ + k3·r⁶)
+ *                         + 2·p1·x·y + p2·(r² + 2x²)    (y analog)
+ *   fisheye         θ = atan(r), θ_d = θ·(1 + k1·θ² + k2·θ⁴ + k3·θ⁶ + k4·θ⁸)
+ *                   x_d = x · θ_d / r                  (Kannala-Brandt)
+ *
+ * Die Brennweite der Normierung folgt aus distortion.fovY (Bild-Sichtfeld
+ * zum Zeitpunkt der Schätzung) - so bleiben die Koeffizienten gültig, auch
+ * wenn der Viewer-Zoom oder das Viewer-FOV später geändert werden.
+ *
+ * SCHÄTZUNG (Lotlinien / "plumb lines"):
+ *   Der Nutzer klickt Punkte entlang von Kanten, die in der Realität gerade
+ *   sind. Gesucht sind die Koeffizienten, mit denen die entzerrten Punkte
+ *   jeder Kante wieder auf einer Geraden liegen.
+ *
+ * ============================================================================
+ */
+
+import type { Dimensions, LensDistortion, LensModel, NormalizedPoint2D } from '../models/session.types';
+import { levenbergMarquardt } from './least-squares';
+
+// ============================================================================
+// KONSTANTEN & TYPEN
+// ============================================================================
+
+export const LENS_MODELS: Array<{ value: LensModel; label: string }> = [
+    { value: 'brown-conrady', label: 'Radial/tangential (Brown-Conrady)' },
+    { value: 'fisheye', label: 'Fisheye (Kannala-Brandt)' }
+];
+
+/** Mindestanzahl Punkte je Lotlinie (zwei Punkte liegen immer auf einer Geraden) */
+export const MIN_PLUMB_LINE_POINTS = 3;
+
+/** Mindestanzahl Lotlinien */
+export const MIN_PLUMB_LINES = 2;
+
+/** Rohe Bilddaten (wie ImageData) */
+export interface PixelBuffer {
+    width: number;
+    height: number;
+    data: Uint8ClampedArray;
+}
+
+export interface PlumbLineEstimate {
+    success: boolean;
+    message: string;
+    data?: {
+        distortion: LensDistortion;
+
+        /** Abstand der Punkte von ihrer Ausgleichsgeraden (RMS, Screenshot-Pixel) */
+        rmsBeforePx: number;
+        rmsAfterPx: number;
+
+        /** RMS je Linie nach der Entzerrung */
+        lineRmsPx: number[];
+    };
+}
+
+type Vec2 = [number, number];
+
+const DEG = 180 / Math.PI;
+
+// ============================================================================
+// MODELL
+// ============================================================================
+
+/**
+ * Neue Verzeichnung ohne Koeffizienten
+ */
+export function createLensDistortion(model: LensModel, fovY: number): LensDistortion {
+    return { model, fovY, k1: 0, k2: 0, k3: 0, k4: 0, p1: 0, p2: 0 };
+}
+
+/**
+ * Ideale Lochkamera? (kein Modell oder Brown-Conrady ohne Koeffizienten).
+ * Fisheye ohne Koeffizienten ist äquidistant - also nicht ideal.
+ */
+export function isPinhole(distortion?: LensDistortion | null): boolean {
+    if (!distortion) return true;
+    if (distortion.model === 'fisheye') return false;
+    return [distortion.k1, distortion.k2, distortion.k3, distortion.p1, distortion.p2].every(value => value === 0);
+}
+
+/** Brennweite der Normierung in Screenshot-Pixeln */
+function focalPx(distortion: LensDistortion, image: Dimensions): number {
+    return image.height / 2 / Math.tan(distortion.fovY / 2 / DEG);
+}
+
+function distortNormalized(x: number, y: number, d: LensDistortion): Vec2 {
+    const r2 = x * x + y * y;
+
+    if (d.model === 'fisheye') {
+        const r = Math.sqrt(r2);
+        if (r < 1e-12) return [x, y];
+        const theta = Math.atan(r);
+        const t2 = theta * theta;
+        const thetaD = theta * (1 + t2 * (d.k1 + t2 * (d.k2 + t2 * (d.k3 + t2 * d.k4))));
+        return [x * thetaD / r, y * thetaD / r];
+    }
+
+    const radial = 1 + r2 * (d.k1 + r2 * (d.k2 + r2 * d.k3));
+    return [
+        x * radial + 2 * d.p1 * x * y + d.p2 * (r2 + 2 * x * x),
+        y * radial + d.p1 * (r2 + 2 * y * y) + 2 * d.p2 * x * y
+    ];
+}
+
+/**
+ * Umkehrung von distortNormalized (iterativ), null wenn nicht konvergent
+ */
+function undistortNormalized(xd: number, yd: number, d: LensDistortion): Vec2 | null {
+    if (d.model === 'fisheye') {
+        const thetaD = Math.hypot(xd, yd);
+        if (thetaD < 1e-12) return [xd, yd];
+
+        // Newton auf θ_d(θ) - θ_d = 0
+        let theta = Math.min(thetaD, Math.PI / 2 - 1e-6);
+        for (let i = 0; i < 30; i++) {
+            const t2 = theta * theta;
+            const value = theta * (1 + t2 * (d.k1 + t2 * (d.k2 + t2 * (d.k3 + t2 * d.k4)))) - thetaD;
+            const slope = 1 + t2 * (3 * d.k1 + t2 * (5 * d.k2 + t2 * (7 * d.k3 + t2 * 9 * d.k4)));
+            if (Math.abs(slope) < 1e-12) return null;
+            const next = Math.min(Math.max(theta - value / slope, 0), Math.PI / 2 - 1e-6);
+            if (Math.abs(next - theta) < 1e-14) break;
+            theta = next;
+        }
+
+        const scale = Math.tan(theta) / thetaD;
+        return isFinite(scale) ? [xd * scale, yd * scale] : null;
+    }
+
+    // Newton mit analytischer Jacobi-Matrix (robuster als die Fixpunkt-
+    // Iteration von cv::undistortPoints bei starker Tonnenverzeichnung)
+    let x = xd;
+    let y = yd;
+    for (let i = 0; i < 50; i++) {
+        const r2 = x * x + y * y;
+        const radial = 1 + r2 * (d.k1 + r2 * (d.k2 + r2 * d.k3));
+        const radialSlope = d.k1 + r2 * (2 * d.k2 + r2 * 3 * d.k3);
+        const [fx, fy] = distortNormalized(x, y, d);
+
+        const a = radial + 2 * x * x * radialSlope + 2 * d.p1 * y + 6 * d.p2 * x;
+        const b = 2 * x * y * radialSlope + 2 * d.p1 * x + 2 * d.p2 * y;  // symmetrisch
+        const e = radial + 2 * y * y * radialSlope + 6 * d.p1 * y + 2 * d.p2 * x;
+        const det = a * e - b * b;
+        if (Math.abs(det) < 1e-12) return null;
+
+        const stepX = ((fx - xd) * e - (fy - yd) * b) / det;
+        const stepY = ((fy - yd) * a - (fx - xd) * b) / det;
+        x -= stepX;
+        y -= stepY;
+        if (Math.abs(stepX) + Math.abs(stepY) < 1e-14) break;
+    }
+
+    const [checkX, checkY] = distortNormalized(x, y, d);
+    return Math.hypot(checkX - xd, checkY - yd) < 1e-6 ? [x, y] : null;
+}
+
+// ============================================================================
+// BILDPUNKTE
+// ============================================================================
+
+/**
+ * Lochkamera-Bildpunkt → Punkt im (verzeichneten) Screenshot
+ */
+export function distortPoint(point: NormalizedPoint2D, distortion: LensDistortion | null | undefined, image: Dimensions): NormalizedPoint2D {
+    if (isPinhole(distortion)) return point;
+
+    const f = focalPx(distortion!, image);
+    const [x, y] = distortNormalized(
+        (point.normalizedX - 0.5) * image.width / f,
+        (point.normalizedY - 0.5) * image.height / f,
+        distortion!
+    );
+    return { normalizedX: 0.5 + x * f / image.width, normalizedY: 0.5 + y * f / image.height };
+}
+
+/**
+ * Punkt im (verzeichneten) Screenshot → Lochkamera-Bildpunkt.
+ * Nicht umkehrbare Punkte (weit außerhalb des Modells) bleiben unverändert.
+ */
+export function undistortPoint(point: NormalizedPoint2D, distortion: LensDistortion | null | undefined, image: Dimensions): NormalizedPoint2D {
+    if (isPinhole(distortion)) return point;
+
+    const f = focalPx(distortion!, image);
+    const undistorted = undistortNormalized(
+        (point.normalizedX - 0.5) * image.width / f,
+        (point.normalizedY - 0.5) * image.height / f,
+        distortion!
+    );
+    if (!undistorted) return point;
+    return { normalizedX: 0.5 + undistorted[0] * f / image.width, normalizedY: 0.5 + undistorted[1] * f / image.height };
+}
+
+/**
+ * Entzerrtes Bild (gleiche Größe, Lochkamera mit der Brennweite von
+ * distortion.fovY). Bilinear abgetastet, Bereiche außerhalb transparent.
+ */
+export function undistortPixels(source: PixelBuffer, distortion: LensDistortion): Uint8ClampedArray {
+    const { width, height, data } = source;
+    const output = new Uint8ClampedArray(width * height * 4);
+    const f = focalPx(distortion, { width, height });
+    const cx = width / 2;
+    const cy = height / 2;
+
+    for (let row = 0; row < height; row++) {
+        for (let col = 0; col < width; col++) {
+            // Pixelmitte → Quelle im verzeichneten Bild
+            const [xd, yd] = distortNormalized((col + 0.5 - cx) / f, (row + 0.5 - cy) / f, distortion);
+            const sx = xd * f + cx - 0.5;
+            const sy = yd * f + cy - 0.5;
+            if (!(sx >= 0 && sy >= 0 && sx <= width - 1 && sy <= height - 1)) continue;
+
+            const x0 = Math.floor(sx);
+            const y0 = Math.floor(sy);
+            const x1 = Math.min(x0 + 1, width - 1);
+            const y1 = Math.min(y0 + 1, height - 1);
+            const fx = sx - x0;
+            const fy = sy - y0;
+
+            const target = (row * width + col) * 4;
+            for (let channel = 0; channel < 4; channel++) {
+                const top = data[(y0 * width + x0) * 4 + channel] * (1 - fx) + data[(y0 * width + x1) * 4 + channel] * fx;
+                const bottom = data[(y1 * width + x0) * 4 + channel] * (1 - fx) + data[(y1 * width + x1) * 4 + channel] * fx;
+                output[target + channel] = top * (1 - fy) + bottom * fy;
+            }
+        }
+    }
+    return output;
+}
+
+// ============================================================================
+// SCHÄTZUNG AUS LOTLINIEN
+// ============================================================================
+
+/**
+ * Abstände von der Ausgleichsgeraden (orthogonale Regression)
+ */
+function lineResiduals(points: Vec2[]): number[] {
+    const n = points.length;
+    const mx = points.reduce((sum, p) => sum + p[0], 0) / n;
+    const my = points.reduce((sum, p) => sum + p[1], 0) / n;
+
+    let sxx = 0, sxy = 0, syy = 0;
+    for (const [x, y] of points) {
+        sxx += (x - mx) * (x - mx);
+        sxy += (x - mx) * (y - my);
+        syy += (y - my) * (y - my);
+    }
+
+    // Normale = Eigenvektor zum kleineren Eigenwert der Kovarianz
+    const angle = 0.5 * Math.atan2(2 * sxy, sxx - syy);
+    const normal: Vec2 = [-Math.sin(angle), Math.cos(angle)];
+    return points.map(([x, y]) => (x - mx) * normal[0] + (y - my) * normal[1]);
+}
+
+function extent(points: Vec2[]): number {
+    let max = 0;
+    for (const a of points) for (const b of points) max = Math.max(max, Math.hypot(a[0] - b[0], a[1] - b[1]));
+    return max;
+}
+
+function rms(values: number[]): number {
+    return values.length ? Math.sqrt(values.reduce((sum, v) => sum + v * v, 0) / values.length) : 0;
+}
+
+/**
+ * Verzeichnungs-Koeffizienten aus Punkten auf real geraden Kanten
+ *
+ * @param lines - je Kante die geklickten Punkte (Screenshot, normalisiert)
+ * @param fovY - Bild-Sichtfeld für die Normierung (Grad)
+ * @param tangential - p1/p2 mitschätzen (nur brown-conrady, ab 3 Linien sinnvoll)
+ */
+export function estimateDistortionFromPlumbLines(
+    lines: NormalizedPoint2D[][],
+    image: Dimensions,
+    model: LensModel,
+    fovY: number,
+    tangential = false
+): PlumbLineEstimate {
+    if (lines.length < MIN_PLUMB_LINES) {
+        return { success: false, message: `Mindestens ${MIN_PLUMB_LINES} gerade Kanten markieren` };
+    }
+    if (lines.some(line => line.length < MIN_PLUMB_LINE_POINTS)) {
+        return { success: false, message: `Jede Kante braucht mindestens ${MIN_PLUMB_LINE_POINTS} Punkte` };
+    }
+
+    const base = createLensDistortion(model, fovY);
+    const keys: Array<'k1' | 'k2' | 'p1' | 'p2'> = model === 'brown-conrady' && tangential
+        ? ['k1', 'k2', 'p1', 'p2']
+        : ['k1', 'k2'];
+
+    const toDistortion = (params: number[]): LensDistortion => {
+        const distortion = { ...base };
+        keys.forEach((key, i) => (distortion[key] = params[i]));
+        return distortion;
+    };
+
+    const f = focalPx(base, image);
+    const raw = lines.map(line => line.map(p => [(p.normalizedX - 0.5) * image.width, (p.normalizedY - 0.5) * image.height] as Vec2));
+    const rawExtents = raw.map(extent);
+
+    // Abstände in Pixeln, je Linie auf die ursprüngliche Länge skaliert
+    // (sonst "gewinnt" ein Modell, das alle Punkte zur Mitte staucht)
+    const residualsOf = (params: number[]): number[] | null => {
+        const distortion = toDistortion(params);
+        const residuals: number[] = [];
+
+        for (let i = 0; i < raw.length; i++) {
+            const undistorted: Vec2[] = [];
+            for (const [x, y] of raw[i]) {
+                const point = undistortNormalized(x / f, y / f, distortion);
+                if (!point) return null;
+                undistorted.push([point[0] * f, point[1] * f]);
+            }
+            const length = extent(undistorted);
+            if (!(length > 0)) return null;
+            residuals.push(...lineResiduals(undistorted).map(r => r * rawExtents[i] / length));
+        }
+        return residuals;
+    };
+
+    const pointCount = raw.reduce((sum, line) => sum + line.length, 0);
+    if (pointCount - 2 * lines.length < keys.length) {
+        return { success: false, message: 'Zu wenige Punkte für die Schätzung - weitere Kanten markieren' };
+    }
+
+    const result = levenbergMarquardt(residualsOf, keys.map(() => 0));
+    const residuals = residualsOf(result.params);
+    if (!residuals) {
+        return { success: false, message: 'Keine stabile Lösung - Punkte prüfen' };
+    }
+
+    const distortion = toDistortion(result.params);
+    let offset = 0;
+    const lineRmsPx = raw.map(line => {
+        const value = rms(residuals.slice(offset, offset + line.length));
+        offset += line.length;
+        return value;
+    });
+
+    const rmsBeforePx = rms(raw.flatMap(lineResiduals));
+    const rmsAfterPx = rms(residuals);
+
+    return {
+        success: true,
+        message: `Abweichung von der Geraden: ${rmsBeforePx.toFixed(1)} px → ${rmsAfterPx.toFixed(1)} px`,
+        data: { distortion, rmsBeforePx, rmsAfterPx, lineRmsPx }
+    };
+}
@@ -0,0 +1,199 @@
+import { Component, ElementRef, Inject, OnDestroy, ViewChild } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { MAT_DIALOG_DATA, MatDialog, MatDialogModule, MatDialogRef } from '@angular/material/dialog';
+import { MatButtonModule } from '@angular/material/button';
+import { MatButtonToggleModule } from '@angular/material/button-toggle';
+import { MatIconModule } from '@angular/material/icon';
+import { firstValueFrom } from 'rxjs';
+
+import { DateOrder, OcrRegion } from '../ocr-timestamp';
+
+export interface OcrRegionDialogData {
+  file: File;
+  region: OcrRegion | null;
+  dateOrder: DateOrder;
+}
+
+export interface OcrRegionDialogResult {
+  region: OcrRegion;
+  dateOrder: DateOrder;
+}
+
+/** Kleinere Rechtecke sind versehentliche Klicks */
+const MIN_REGION_SIZE = 0.01;
+
+/**
+ * Öffnet den Dialog zum Markieren des Zeitstempel-Bereichs. Ergebnis: Region oder null (abgebrochen)
+ */
+export function openOcrRegionDialog(dialog: MatDialog, data: OcrRegionDialogData): Promise<OcrRegionDialogResult | null> {
+  const dialogRef = dialog.open<OcrRegionDialogComponent, OcrRegionDialogData, OcrRegionDialogResult | null>(
+    OcrRegionDialogComponent,
+    { width: '900px', data }
+  );
+  return firstValueFrom(dialogRef.afterClosed()).then(result => result ?? null);
+}
+
+@Component({
+  selector: 'app-ocr-region-dialog',
+  standalone: true,
+  imports: [
+    CommonModule,
+    FormsModule,
+    MatDialogModule,
+    MatButtonModule,
+    MatButtonToggleModule,
+    MatIconModule
+  ],
+  template: `
+    <h2 mat-dialog-title>
+      <mat-icon>document_scanner</mat-icon>
+      Zeitstempel-Bereich markieren
+    </h2>
+
+    <mat-dialog-content>
+      <p class="intro">
+        Ziehe ein Rechteck um die eingeblendete Datum/Uhrzeit. Der Bereich wird
+        in allen Screenshots gelesen - die Kamera-Einblendung sitzt ja immer an derselben Stelle.
+      </p>
+
+      <div
+        class="image-frame"
+        (pointerdown)="onPointerDown($event)"
+        (pointermove)="onPointerMove($event)"
+        (pointerup)="onPointerUp($event)"
+      >
+        <img #image [src]="imageUrl" [alt]="data.file.name" draggable="false" />
+        @if (region) {
+          <div
+            class="region"
+            [style.left.%]="region.x * 100"
+            [style.top.%]="region.y * 100"
+            [style.width.%]="region.width * 100"
+            [style.height.%]="region.height * 100"
+          ></div>
+        }
+      </div>
+
+      <div class="date-order">
+        <span>Datumsformat ohne Jahr vorne:</span>
+        <mat-button-toggle-group [(ngModel)]="dateOrder">
+          <mat-button-toggle value="DMY">TT.MM.JJJJ</mat-button-toggle>
+          <mat-button-toggle value="MDY">MM/TT/JJJJ</mat-button-toggle>
+        </mat-button-toggle-group>
+      </div>
+    </mat-dialog-content>
+
+    <mat-dialog-actions align="end">
+      <button mat-button [mat-dialog-close]="null">Abbrechen</button>
+      <button mat-raised-button color="primary" [disabled]="!region" (click)="onConfirm()">
+        Alle Screenshots lesen
+      </button>
+    </mat-dialog-actions>
+  `,
+  styles: [`
+    h2[mat-dialog-title] {
+      display: flex;
+      align-items: center;
+      gap: 10px;
+    }
+
+    .intro {
+      color: #666;
+      font-size: 14px;
+    }
+
+    .image-frame {
+      position: relative;
+      cursor: crosshair;
+      user-select: none;
+      touch-action: none;
+
+      img {
+        display: block;
+        width: 100%;
+      }
+    }
+
+    .region {
+      position: absolute;
+      border: 2px solid #ff9800;
+      background: rgba(255, 152, 0, 0.2);
+      pointer-events: none;
+    }
+
+    .date-order {
+      display: flex;
+      align-items: center;
+      gap: 12px;
+      margin-top: 12px;
+      font-size: 14px;
+    }
+  `]
+})
+export class OcrRegionDialogComponent implements OnDestroy {
+  @ViewChild('image') imageRef!: ElementRef<HTMLImageElement>;
+
+  readonly imageUrl: string;
+  region: OcrRegion | null;
+  dateOrder: DateOrder;
+
+  private dragStart: { x: number; y: number } | null = null;
+
+  constructor(
+    public dialogRef: MatDialogRef<OcrRegionDialogComponent, OcrRegionDialogResult | null>,
+    @Inject(MAT_DIALOG_DATA) public data: OcrRegionDialogData
+  ) {
+    this.imageUrl = URL.createObjectURL(data.file);
+    this.region = data.region;
+    this.dateOrder = data.dateOrder;
+  }
+
+  ngOnDestroy() {
+    URL.revokeObjectURL(this.imageUrl);
+  }
+
+  onPointerDown(event: PointerEvent) {
+    (event.currentTarget as HTMLElement).setPointerCapture(event.pointerId);
+    this.dragStart = this.relativePoint(event);
+    this.region = null;
+  }
+
+  onPointerMove(event: PointerEvent) {
+    if (!this.dragStart) return;
+
+    const point = this.relativePoint(event);
+    this.region = {
+      x: Math.min(this.dragStart.x, point.x),
+      y: Math.min(this.dragStart.y, point.y),
+      width: Math.abs(point.x - this.dragStart.x),
+      height: Math.abs(point.y - this.dragStart.y)
+    };
+  }
+
+  onPointerUp(event: PointerEvent) {
+    this.onPointerMove(event);
+    this.dragStart = null;
+
+    if (this.region && (this.region.width < MIN_REGION_SIZE || this.region.height < MIN_REGION_SIZE)) {
+      this.region = null;
+    }
+  }
+
+  onConfirm() {
+    if (!this.region) return;
+    this.dialogRef.close({ region: this.region, dateOrder: this.dateOrder });
+  }
+
+  /**
+   * Mausposition relativ zum Bild (0..1)
+   */
+  private relativePoint(event: PointerEvent): { x: number; y: number } {
+    const rect = this.imageRef.nativeElement.getBoundingClientRect();
+    const clamp = (value: number) => Math.min(1, Math.max(0, value));
+    return {
+      x: clamp((event.clientX - rect.left) / rect.width),
+      y: clamp((event.clientY - rect.top) / rect.height)
+    };
+  }
+}
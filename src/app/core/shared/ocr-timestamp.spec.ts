@@ -0,0 +1,37 @@
+import { flagOcrOutliers, interpretOcrText, regionToPixels } from './ocr-timestamp';
+
+describe('ocr-timestamp', () => {
+  it('should read common overlay formats and fix typical digit confusions', () => {
+    expect(interpretOcrText('2024-06-12 14:30:05', 92)).toEqual({
+      text: '2024-06-12 14:30:05', capturedAt: '2024-06-12T14:30:05', confidence: 92, needsReview: false
+    });
+    expect(interpretOcrText('12.06.2024  14:3O:O5', 90).capturedAt).toBe('2024-06-12T14:30:05');
+    expect(interpretOcrText('06/13/24 02:30:05 PM', 90).capturedAt).toBe('2024-06-13T14:30:05');
+    expect(interpretOcrText('2024/06/12 12:05 AM', 90).capturedAt).toBe('2024-06-12T00:05:00');
+  });
+
+  it('should flag unreadable, uncertain and ambiguous reads for review', () => {
+    expect(interpretOcrText('--:--', 90)).toMatchObject({ capturedAt: null, needsReview: true });
+    expect(interpretOcrText('31.02.2024 10:00:00', 90)).toMatchObject({ capturedAt: null, needsReview: true });
+
+    const uncertain = interpretOcrText('2024-06-12 14:30:05', 40);
+    expect(uncertain).toMatchObject({ capturedAt: '2024-06-12T14:30:05', needsReview: true });
+
+    // 03/04: Tag/Monat vertauschbar - Annahme folgt dem gewählten Format
+    expect(interpretOcrText('03/04/2024 10:00:00', 90)).toMatchObject({ capturedAt: '2024-04-03T10:00:00', needsReview: true });
+    expect(interpretOcrText('03/04/2024 10:00:00', 90, 'MDY').capturedAt).toBe('2024-03-04T10:00:00');
+  });
+
+  it('should flag outliers against the other screenshots and map regions to pixels', () => {
+    const results = flagOcrOutliers([
+      interpretOcrText('2024-06-12 14:30:05', 90),
+      interpretOcrText('2024-06-12 14:30:35', 90),
+      interpretOcrText('2024-08-12 14:31:05', 90),
+      interpretOcrText('2024-06-12 14:31:35', 90)
+    ]);
+    expect(results.map(r => r.needsReview)).toEqual([false, false, true, false]);
+
+    expect(regionToPixels({ x: 0.5, y: 0.9, width: 0.6, height: 0.05 }, { width: 1920, height: 1080 }))
+      .toEqual({ left: 960, top: 972, width: 960, height: 54 });
+  });
+});
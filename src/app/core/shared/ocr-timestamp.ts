@@ -0,0 +1,198 @@
+/**
+ * ============================================================================
+ * OCR-TIMESTAMP (eingeblendete CCTV-Zeitstempel auswerten)
+ * ============================================================================
+ *
+ * Viele Überwachungskameras blenden Datum und Uhrzeit ins Bild ein. Stage 1
+ * liest diesen Bereich per OCR (OcrService, Tesseract als WASM - lokal
+ * gebündelt, kein Netzwerk). Hier wird nur der erkannte Text ausgewertet:
+ *
+ *   "2024-06-12 14:30:05"      YMD
+ *   "12.06.2024 14:30:05"      DMY
+ *   "06/12/2024 02:30:05 PM"   MDY mit AM/PM
+ *
+ * Die Bildregion wird relativ (0..1) gespeichert, damit dieselbe Auswahl
+ * für Screenshots unterschiedlicher Auflösung passt.
+ *
+ * Unsichere Ergebnisse (niedrige OCR-Konfidenz, Tag/Monat nicht eindeutig,
+ * Ausreißer gegenüber den anderen Screenshots) werden zur manuellen
+ * Korrektur markiert.
+ *
+ * ============================================================================
+ */
+
+import { parseDateText } from './image-timestamp';
+import type { Dimensions } from '../models/session.types';
+
+// ============================================================================
+// KONSTANTEN & TYPEN
+// ============================================================================
+
+/** Unterhalb dieser Tesseract-Konfidenz (0-100) muss der Nutzer prüfen */
+export const OCR_MIN_CONFIDENCE = 75;
+
+/** Abweichung vom Median aller Screenshots, ab der ein Wert verdächtig ist */
+export const OCR_OUTLIER_SECONDS = 24 * 3600;
+
+/** Zeichen, die ein Zeitstempel-Overlay enthalten kann */
+export const OCR_CHAR_WHITELIST = '0123456789-/.: APM';
+
+export type DateOrder = 'YMD' | 'DMY' | 'MDY';
+
+/** Rechteck relativ zur Bildgröße (0..1) */
+export interface OcrRegion {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface OcrTimestampResult {
+    /** Roh-Text der OCR */
+    text: string;
+
+    /** Erkannte Wanduhrzeit "YYYY-MM-DDTHH:MM:SS" (Overlay hat keine Zone) */
+    capturedAt: string | null;
+
+    /** Tesseract-Konfidenz 0-100 */
+    confidence: number;
+
+    needsReview: boolean;
+    reason?: string;
+}
+
+// ============================================================================
+// TEXT → DATUM/UHRZEIT
+// ============================================================================
+
+/** Typische Verwechslungen bei Ziffern-Overlays */
+const CONFUSABLES: Record<string, string> = { O: '0', o: '0', Q: '0', l: '1', I: '1', '|': '1', S: '5', B: '8', Z: '2' };
+
+const DATE_TIME = /(\d{1,4})\s*[-/.]\s*(\d{1,2})\s*[-/.]\s*(\d{1,4})\D+?(\d{1,2})\s*:\s*(\d{2})(?:\s*:\s*(\d{2}))?(?:\s*([AP])\.?\s*M)?/i;
+
+function normalizeOcrText(text: string): string {
+    // Nur zwischen Ziffern/Trennzeichen ersetzen - "PM" bleibt erhalten
+    return text.replace(/[OoQlI|SBZ]/g, (char, index: number) => {
+        const neighbours = text.slice(Math.max(0, index - 1), index + 2);
+        return /[\d:\-/.]/.test(neighbours) ? CONFUSABLES[char] : char;
+    });
+}
+
+function pad(value: number): string {
+    return String(value).padStart(2, '0');
+}
+
+/**
+ * Bestimmt Jahr/Monat/Tag aus drei Zahlen
+ *
+ * @returns ambiguous = true, wenn Tag und Monat vertauschbar sind
+ */
+function resolveDate(
+    a: string, b: string, c: string,
+    preferred: DateOrder
+): { year: number; month: number; day: number; ambiguous: boolean } {
+    if (a.length === 4) {
+        return { year: +a, month: +b, day: +c, ambiguous: false };
+    }
+
+    const year = c.length === 2 ? 2000 + +c : +c;
+    if (+a > 12) return { year, month: +b, day: +a, ambiguous: false };
+    if (+b > 12) return { year, month: +a, day: +b, ambiguous: false };
+    if (a === b) return { year, month: +a, day: +b, ambiguous: false };
+
+    return preferred === 'MDY'
+        ? { year, month: +a, day: +b, ambiguous: true }
+        : { year, month: +b, day: +a, ambiguous: true };
+}
+
+/**
+ * Wertet den OCR-Text eines Overlays aus
+ *
+ * @param dateOrder - Annahme für "03/04/2024" (Tag/Monat nicht eindeutig)
+ */
+export function interpretOcrText(text: string, confidence: number, dateOrder: DateOrder = 'DMY'): OcrTimestampResult {
+    const raw = text.trim();
+    const match = DATE_TIME.exec(normalizeOcrText(raw));
+
+    if (!match) {
+        return { text: raw, capturedAt: null, confidence, needsReview: true, reason: 'Kein Datum/Uhrzeit erkannt' };
+    }
+
+    const [, a, b, c, h, mi, s, meridiem] = match;
+    const date = resolveDate(a, b, c, dateOrder);
+
+    let hour = +h;
+    if (meridiem) {
+        if (hour < 1 || hour > 12) {
+            return { text: raw, capturedAt: null, confidence, needsReview: true, reason: `Stunde ${hour} passt nicht zu AM/PM` };
+        }
+        hour = (hour % 12) + (meridiem.toUpperCase() === 'P' ? 12 : 0);
+    }
+
+    const candidate = `${date.year}-${pad(date.month)}-${pad(date.day)}T${pad(hour)}:${mi}:${s ?? '00'}`;
+    const parsed = parseDateText(candidate);
+    if (!parsed) {
+        return { text: raw, capturedAt: null, confidence, needsReview: true, reason: `Ungültiges Datum (${candidate.replace('T', ' ')})` };
+    }
+
+    const capturedAt = `${parsed.date}T${parsed.time}`;
+    if (confidence < OCR_MIN_CONFIDENCE) {
+        return { text: raw, capturedAt, confidence, needsReview: true, reason: `Unsichere Erkennung (${Math.round(confidence)}%)` };
+    }
+    if (date.ambiguous) {
+        const assumed = dateOrder === 'MDY' ? 'Monat/Tag' : 'Tag/Monat';
+        return { text: raw, capturedAt, confidence, needsReview: true, reason: `Tag und Monat nicht eindeutig (${assumed} angenommen)` };
+    }
+
+    return { text: raw, capturedAt, confidence, needsReview: false };
+}
+
+/**
+ * Markiert Werte, die weit vom Median aller Screenshots abweichen
+ * (typisch: eine falsch gelesene Ziffer im Datum)
+ */
+export function flagOcrOutliers(results: OcrTimestampResult[]): OcrTimestampResult[] {
+    const times = results
+        .map(result => result.capturedAt ? Date.parse(`${result.capturedAt}Z`) / 1000 : null)
+        .filter((time): time is number => time !== null)
+        .sort((a, b) => a - b);
+    if (times.length < 3) return results;
+
+    const median = times[Math.floor(times.length / 2)];
+
+    return results.map(result => {
+        if (!result.capturedAt || result.needsReview) return result;
+
+        const deviation = Math.abs(Date.parse(`${result.capturedAt}Z`) / 1000 - median);
+        return deviation > OCR_OUTLIER_SECONDS
+            ? { ...result, needsReview: true, reason: 'Weicht stark von den anderen Screenshots ab' }
+            : result;
+    });
+}
+
+// ============================================================================
+// REGION
+// ============================================================================
+
+/**
+ * Relative Region → Pixel-Rechteck (auf das Bild begrenzt)
+ */
+export function regionToPixels(
+    region: OcrRegion,
+    dimensions: Dimensions
+): { left: number; top: number; width: number; height: number } {
+    const clamp = (value: number) => Math.min(1, Math.max(0, value));
+    const x0 = clamp(region.x);
+    const y0 = clamp(region.y);
+    const x1 = clamp(region.x + region.width);
+    const y1 = clamp(region.y + region.height);
+
+    const left = Math.round(x0 * dimensions.width);
+    const top = Math.round(y0 * dimensions.height);
+    return {
+        left,
+        top,
+        width: Math.max(1, Math.round(x1 * dimensions.width) - left),
+        height: Math.max(1, Math.round(y1 * dimensions.height) - top)
+    };
+}
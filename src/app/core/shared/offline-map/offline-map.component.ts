@@ -0,0 +1,308 @@
+import { Component, ElementRef, Input, OnChanges, OnInit, SimpleChanges, ViewChild } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { HttpClient } from '@angular/common/http';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatTooltipModule } from '@angular/material/tooltip';
+
+import { GeolocationCorridor } from '../geolocation-solver';
+import {
+    MapTile,
+    MapViewport,
+    WORLD_SIZE,
+    projectMercator,
+    tileZoomForScale,
+    visibleTiles
+} from '../web-mercator';
+
+export interface MapLocation {
+    latitude: number;
+    longitude: number;
+}
+
+/**
+ * Minimaler GeoJSON-Ausschnitt für die Basiskarte (Polygon / MultiPolygon)
+ */
+interface BasemapCollection {
+    features: Array<{
+        geometry:
+        | { type: 'Polygon'; coordinates: number[][][] }
+        | { type: 'MultiPolygon'; coordinates: number[][][][] };
+    }>;
+}
+
+/** Seitenverhältnis der Karte (Breite : Höhe) */
+const ASPECT = 2;
+
+/** Kleinster Ausschnitt in Welt-Einheiten (~Zoom 9) */
+const MIN_VIEW_WIDTH = 0.5;
+
+/**
+ * ============================================================================
+ * OFFLINE MAP COMPONENT
+ * ============================================================================
+ *
+ * Zeigt Geolocation-Ergebnisse ohne externe Kartendienste:
+ *   - Basiskarte: gebündelte Küstenlinien (public/geo/world-lowres.geojson)
+ *   - Optional: Tiles eines lokalen Tile-Servers (tileUrl)
+ *   - Korridor (Bounding-Box), Kandidaten und bester Standort
+ *
+ * Projektion: Web-Mercator (siehe web-mercator.ts), gerendert als SVG.
+ *
+ * INTERAKTION:
+ * - Mausrad: Zoom um den Mauszeiger
+ * - Maus-Drag: Verschieben
+ */
+@Component({
+    selector: 'app-offline-map',
+    standalone: true,
+    imports: [CommonModule, MatButtonModule, MatIconModule, MatTooltipModule],
+    templateUrl: './offline-map.component.html',
+    styleUrls: ['./offline-map.component.scss']
+})
+export class OfflineMapComponent implements OnInit, OnChanges {
+    @ViewChild('svg', { static: true }) svgRef!: ElementRef<SVGSVGElement>;
+
+    // ========================================================================
+    // INPUTS
+    // ========================================================================
+
+    @Input() corridor: GeolocationCorridor | null = null;
+    @Input() locations: MapLocation[] = [];
+    @Input() best: MapLocation | null = null;
+
+    /** URL-Vorlage eines lokalen Tile-Servers ({z}/{x}/{y}) oder null */
+    @Input() tileUrl: string | null = null;
+
+    // ========================================================================
+    // STATE
+    // ========================================================================
+
+    readonly worldSize = WORLD_SIZE;
+
+    view: MapViewport = { x: 0, y: WORLD_SIZE / 4, width: WORLD_SIZE, height: WORLD_SIZE / ASPECT };
+
+    basemapPaths: string[] = [];
+    graticulePaths: string[] = [];
+    tiles: MapTile[] = [];
+
+    corridorRects: MapViewport[] = [];
+    candidatePoints: Array<{ x: number; y: number }> = [];
+    bestPoint: { x: number; y: number } | null = null;
+    focusPoint: { x: number; y: number } | null = null;
+
+    private dragStart: { clientX: number; clientY: number; view: MapViewport } | null = null;
+
+    constructor(private http: HttpClient) { }
+
+    ngOnInit() {
+        this.graticulePaths = this.buildGraticule();
+
+        this.http.get<BasemapCollection>('geo/world-lowres.geojson').subscribe({
+            next: (collection) => {
+                this.basemapPaths = collection.features.flatMap(f =>
+                    f.geometry.type === 'Polygon'
+                        ? [this.ringsToPath(f.geometry.coordinates)]
+                        : f.geometry.coordinates.map(polygon => this.ringsToPath(polygon))
+                );
+            },
+            error: (err) => console.warn('⚠️ Basiskarte nicht geladen:', err)
+        });
+    }
+
+    ngOnChanges(changes: SimpleChanges) {
+        if (changes['corridor'] || changes['locations'] || changes['best']) {
+            this.updateOverlays();
+            this.fitToResult();
+        } else if (changes['tileUrl']) {
+            this.updateTiles();
+        }
+    }
+
+    // ========================================================================
+    // GETTERS
+    // ========================================================================
+
+    get viewBox(): string {
+        const { x, y, width, height } = this.view;
+        return `${x} ${y} ${width} ${height}`;
+    }
+
+    /** Bildschirm-Pixel pro Welt-Einheit */
+    get pixelsPerUnit(): number {
+        const clientWidth = this.svgRef?.nativeElement.clientWidth || 800;
+        return clientWidth / this.view.width;
+    }
+
+    /** Marker-Radius in Welt-Einheiten (konstant ~6px auf dem Bildschirm) */
+    get markerRadius(): number {
+        return 6 / this.pixelsPerUnit;
+    }
+
+    // ========================================================================
+    // ÖFFENTLICHE METHODEN
+    // ========================================================================
+
+    /**
+     * Zentriert die Karte auf einen Ort und markiert ihn
+     */
+    focusOn(latitude: number, longitude: number) {
+        this.focusPoint = projectMercator(latitude, longitude);
+        this.setView(this.focusPoint.x, this.focusPoint.y, 2);
+    }
+
+    /**
+     * Zeigt Korridor und alle Orte (oder die ganze Welt ohne Ergebnis)
+     */
+    fitToResult() {
+        const points = [...this.candidatePoints];
+        if (this.bestPoint) points.push(this.bestPoint);
+        for (const rect of this.corridorRects) {
+            points.push({ x: rect.x, y: rect.y }, { x: rect.x + rect.width, y: rect.y + rect.height });
+        }
+
+        // Korridor über die Datumsgrenze → ganze Breite zeigen
+        if (points.length === 0 || this.corridorRects.length > 1) {
+            this.setView(WORLD_SIZE / 2, WORLD_SIZE / 2, WORLD_SIZE);
+            return;
+        }
+
+        const xs = points.map(p => p.x);
+        const ys = points.map(p => p.y);
+        const minX = Math.min(...xs), maxX = Math.max(...xs);
+        const minY = Math.min(...ys), maxY = Math.max(...ys);
+
+        const width = Math.max((maxX - minX) * 1.4, (maxY - minY) * 1.4 * ASPECT, 4);
+        this.setView((minX + maxX) / 2, (minY + maxY) / 2, width);
+    }
+
+    zoomBy(factor: number) {
+        const { x, y, width, height } = this.view;
+        this.setView(x + width / 2, y + height / 2, width * factor);
+    }
+
+    // ========================================================================
+    // INTERAKTION
+    // ========================================================================
+
+    onWheel(event: WheelEvent) {
+        event.preventDefault();
+
+        const svg = this.svgRef.nativeElement;
+        const fx = event.offsetX / (svg.clientWidth || 1);
+        const fy = event.offsetY / (svg.clientHeight || 1);
+
+        // Punkt unter dem Mauszeiger bleibt fest
+        const px = this.view.x + fx * this.view.width;
+        const py = this.view.y + fy * this.view.height;
+        const width = this.clampWidth(this.view.width * (event.deltaY > 0 ? 1.25 : 0.8));
+        const height = width / ASPECT;
+
+        this.view = this.clampView({ x: px - fx * width, y: py - fy * height, width, height });
+        this.updateTiles();
+    }
+
+    onPointerDown(event: PointerEvent) {
+        this.dragStart = { clientX: event.clientX, clientY: event.clientY, view: { ...this.view } };
+        (event.target as Element).setPointerCapture?.(event.pointerId);
+    }
+
+    onPointerMove(event: PointerEvent) {
+        if (!this.dragStart) return;
+
+        const scale = this.dragStart.view.width / (this.svgRef.nativeElement.clientWidth || 1);
+        this.view = this.clampView({
+            ...this.dragStart.view,
+            x: this.dragStart.view.x - (event.clientX - this.dragStart.clientX) * scale,
+            y: this.dragStart.view.y - (event.clientY - this.dragStart.clientY) * scale
+        });
+    }
+
+    onPointerUp() {
+        if (!this.dragStart) return;
+        this.dragStart = null;
+        this.updateTiles();
+    }
+
+    // ========================================================================
+    // PRIVATE
+    // ========================================================================
+
+    private setView(centerX: number, centerY: number, width: number) {
+        const w = this.clampWidth(width);
+        const h = w / ASPECT;
+        this.view = this.clampView({ x: centerX - w / 2, y: centerY - h / 2, width: w, height: h });
+        this.updateTiles();
+    }
+
+    private clampWidth(width: number): number {
+        return Math.max(MIN_VIEW_WIDTH, Math.min(WORLD_SIZE, width));
+    }
+
+    /** Hält den Ausschnitt innerhalb der Welt */
+    private clampView(view: MapViewport): MapViewport {
+        return {
+            ...view,
+            x: Math.max(0, Math.min(WORLD_SIZE - view.width, view.x)),
+            y: Math.max(0, Math.min(WORLD_SIZE - view.height, view.y))
+        };
+    }
+
+    private updateTiles() {
+        this.tiles = this.tileUrl
+            ? visibleTiles(this.view, tileZoomForScale(this.pixelsPerUnit), this.tileUrl)
+            : [];
+    }
+
+    private updateOverlays() {
+        this.candidatePoints = this.locations.map(l => projectMercator(l.latitude, l.longitude));
+        this.bestPoint = this.best ? projectMercator(this.best.latitude, this.best.longitude) : null;
+        this.focusPoint = null;
+        this.corridorRects = [];
+
+        const c = this.corridor;
+        if (!c) return;
+
+        // lon_min > lon_max: Korridor überquert die Datumsgrenze
+        const lonRanges = c.lon_min <= c.lon_max
+            ? [[c.lon_min, c.lon_max]]
+            : [[c.lon_min, 180], [-180, c.lon_max]];
+
+        for (const [lonMin, lonMax] of lonRanges) {
+            const topLeft = projectMercator(c.lat_max, lonMin);
+            const bottomRight = projectMercator(c.lat_min, lonMax);
+            this.corridorRects.push({
+                x: topLeft.x,
+                y: topLeft.y,
+                width: bottomRight.x - topLeft.x,
+                height: bottomRight.y - topLeft.y
+            });
+        }
+    }
+
+    private ringsToPath(rings: number[][][]): string {
+        return rings.map(ring =>
+            ring.map(([lon, lat], i) => {
+                const p = projectMercator(lat, lon);
+                return `${i === 0 ? 'M' : 'L'}${p.x.toFixed(3)} ${p.y.toFixed(3)}`;
+            }).join('') + 'Z'
+        ).join('');
+    }
+
+    /** Gradnetz alle 30° */
+    private buildGraticule(): string[] {
+        const paths: string[] = [];
+
+        for (let lon = -180; lon <= 180; lon += 30) {
+            const top = projectMercator(85, lon);
+            const bottom = projectMercator(-85, lon);
+            paths.push(`M${top.x} ${top.y}L${bottom.x} ${bottom.y}`);
+        }
+        for (let lat = -60; lat <= 60; lat += 30) {
+            const y = projectMercator(lat, 0).y;
+            paths.push(`M0 ${y}L${WORLD_SIZE} ${y}`);
+        }
+
+        return paths;
+    }
+}
@@ -0,0 +1,372 @@
+import { Component, ElementRef, Inject, OnDestroy, ViewChild } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { MAT_DIALOG_DATA, MatDialog, MatDialogModule, MatDialogRef } from '@angular/material/dialog';
+import { MatButtonModule } from '@angular/material/button';
+import { MatButtonToggleModule } from '@angular/material/button-toggle';
+import { MatIconModule } from '@angular/material/icon';
+import { firstValueFrom } from 'rxjs';
+
+import type { LensDistortion, LensModel, NormalizedPoint2D } from '../../models/session.types';
+import {
+  LENS_MODELS,
+  MIN_PLUMB_LINE_POINTS,
+  PlumbLineEstimate,
+  estimateDistortionFromPlumbLines,
+  undistortPoint
+} from '../lens-distortion';
+
+export interface PlumbLineDialogData {
+  file: File;
+
+  /** Screenshot-Größe in Pixeln */
+  imageWidth: number;
+  imageHeight: number;
+
+  /** Bild-Sichtfeld für die Normierung der Koeffizienten (Grad) */
+  fovY: number;
+
+  /** Bereits markierte Kanten (erneutes Öffnen) */
+  lines: NormalizedPoint2D[][];
+  model: LensModel;
+}
+
+export interface PlumbLineDialogResult {
+  lines: NormalizedPoint2D[][];
+  distortion: LensDistortion;
+}
+
+/** Linien, deren Punkte nach der Entzerrung weiter als das von der Geraden liegen, gelten als Ausreißer */
+const MAX_LINE_RMS_PX = 2;
+
+/**
+ * Öffnet den Dialog zum Markieren gerader Kanten. Ergebnis: Verzeichnung oder null (abgebrochen)
+ */
+export function openPlumbLineDialog(
+  dialog: MatDialog,
+  data: PlumbLineDialogData
+): Promise<PlumbLineDialogResult | null> {
+  const dialogRef = dialog.open<PlumbLineDialogComponent, PlumbLineDialogData, PlumbLineDialogResult | null>(
+    PlumbLineDialogComponent,
+    { width: '960px', data }
+  );
+  return firstValueFrom(dialogRef.afterClosed()).then(result => result ?? null);
+}
+
+@Component({
+  selector: 'app-plumb-line-dialog',
+  standalone: true,
+  imports: [
+    CommonModule,
+    FormsModule,
+    MatDialogModule,
+    MatButtonModule,
+    MatButtonToggleModule,
+    MatIconModule
+  ],
+  template: `
+    <h2 mat-dialog-title>
+      <mat-icon>straighten</mat-icon>
+      Linsenverzeichnung aus geraden Kanten
+    </h2>
+
+    <mat-dialog-content>
+      <p class="intro">
+        Klicke mindestens {{ minPoints }} Punkte entlang einer Kante, die in der Realität gerade ist
+        (Wand-/Bodenkante, Türrahmen, Regal), und schließe sie ab. Kanten nahe am Bildrand zeigen
+        die Verzeichnung am deutlichsten - mindestens zwei, besser vier Kanten markieren.
+      </p>
+
+      <div class="toolbar">
+        <mat-button-toggle-group [(ngModel)]="model" (change)="recalculate()">
+          @for (m of models; track m.value) {
+          <mat-button-toggle [value]="m.value">{{ m.label }}</mat-button-toggle>
+          }
+        </mat-button-toggle-group>
+
+        @if (model === 'brown-conrady') {
+        <label class="toggle">
+          <input type="checkbox" [(ngModel)]="tangential" (change)="recalculate()" />
+          Tangential (p1, p2)
+        </label>
+        }
+
+        <span class="spacer"></span>
+
+        <button mat-button (click)="onRemoveLast()" [disabled]="draft.length === 0 && lines.length === 0">
+          <mat-icon>undo</mat-icon>
+          Letzten Punkt entfernen
+        </button>
+        <button mat-stroked-button (click)="onFinishLine()" [disabled]="draft.length < minPoints">
+          <mat-icon>done</mat-icon>
+          Kante abschließen
+        </button>
+      </div>
+
+      <div class="image-frame" (click)="onImageClick($event)">
+        <img #image [src]="imageUrl" [alt]="data.file.name" draggable="false" />
+        <svg viewBox="0 0 1 1" preserveAspectRatio="none">
+          @for (line of lines; track $index) {
+          <polyline [class.misfit]="lineRmsOf($index) > maxLineRms" [attr.points]="pointsOf(line)" />
+          @if (showCorrected && result?.data) {
+          <polyline class="corrected" [attr.points]="pointsOf(correctedOf(line))" />
+          }
+          }
+          @if (draft.length) {
+          <polyline class="draft" [attr.points]="pointsOf(draft)" />
+          }
+        </svg>
+        @for (line of lines; track $index) {
+        @for (point of line; track $index) {
+        <span class="marker" [style.left.%]="point.normalizedX * 100" [style.top.%]="point.normalizedY * 100"></span>
+        }
+        }
+        @for (point of draft; track $index) {
+        <span class="marker draft" [style.left.%]="point.normalizedX * 100" [style.top.%]="point.normalizedY * 100"></span>
+        }
+      </div>
+
+      @if (result) {
+      <div class="summary" [class.error]="!result.success">
+        @if (result.data; as d) {
+        <span><strong>k1</strong> {{ d.distortion.k1 | number : '1.3-3' }}</span>
+        <span><strong>k2</strong> {{ d.distortion.k2 | number : '1.3-3' }}</span>
+        @if (tangential && model === 'brown-conrady') {
+        <span><strong>p1</strong> {{ d.distortion.p1 | number : '1.4-4' }}</span>
+        <span><strong>p2</strong> {{ d.distortion.p2 | number : '1.4-4' }}</span>
+        }
+        <span><strong>Sichtfeld (Bild)</strong> {{ data.fovY | number : '1.1-1' }}°</span>
+        <label class="toggle">
+          <input type="checkbox" [(ngModel)]="showCorrected" />
+          Entzerrte Kanten zeigen
+        </label>
+        }
+        <p>{{ result.message }}</p>
+        @if (misfitCount > 0) {
+        <p class="warn">
+          {{ misfitCount }} Kante(n) bleiben nach der Entzerrung mehr als {{ maxLineRms }} px krumm (rot) -
+          ist die Kante wirklich gerade?
+        </p>
+        }
+      </div>
+      }
+    </mat-dialog-content>
+
+    <mat-dialog-actions align="end">
+      <button mat-button [mat-dialog-close]="null">Abbrechen</button>
+      <button mat-raised-button color="primary" [disabled]="!result?.success" (click)="onConfirm()">
+        Übernehmen
+      </button>
+    </mat-dialog-actions>
+  `,
+  styles: [`
+    h2[mat-dialog-title] {
+      display: flex;
+      align-items: center;
+      gap: 10px;
+    }
+
+    .intro {
+      color: #666;
+      font-size: 14px;
+    }
+
+    .toolbar {
+      display: flex;
+      flex-wrap: wrap;
+      align-items: center;
+      gap: 12px;
+      margin-bottom: 12px;
+
+      .spacer {
+        flex: 1;
+      }
+    }
+
+    .image-frame {
+      position: relative;
+      cursor: crosshair;
+      user-select: none;
+
+      img {
+        display: block;
+        width: 100%;
+      }
+
+      svg {
+        position: absolute;
+        inset: 0;
+        width: 100%;
+        height: 100%;
+        pointer-events: none;
+      }
+    }
+
+    polyline {
+      fill: none;
+      stroke: #ff9800;
+      stroke-width: 2.5;
+      vector-effect: non-scaling-stroke;
+      stroke-linejoin: round;
+
+      &.draft {
+        stroke: #2196f3;
+        stroke-dasharray: 4 4;
+      }
+
+      &.corrected {
+        stroke: #fff;
+        stroke-width: 1.5;
+        stroke-dasharray: 6 4;
+      }
+
+      &.misfit {
+        stroke: #f44336;
+      }
+    }
+
+    .marker {
+      position: absolute;
+      width: 8px;
+      height: 8px;
+      margin: -4px 0 0 -4px;
+      border-radius: 50%;
+      background: #ff9800;
+      border: 1px solid #fff;
+      pointer-events: none;
+
+      &.draft {
+        background: #2196f3;
+      }
+    }
+
+    .summary {
+      display: flex;
+      flex-wrap: wrap;
+      align-items: center;
+      gap: 8px 20px;
+      margin-top: 12px;
+      font-size: 14px;
+
+      p {
+        flex-basis: 100%;
+        margin: 0;
+        color: #666;
+      }
+
+      &.error p,
+      .warn {
+        color: #f44336;
+      }
+    }
+
+    .toggle {
+      display: flex;
+      align-items: center;
+      gap: 6px;
+      cursor: pointer;
+    }
+  `]
+})
+export class PlumbLineDialogComponent implements OnDestroy {
+  @ViewChild('image') imageRef!: ElementRef<HTMLImageElement>;
+
+  readonly imageUrl: string;
+  readonly models = LENS_MODELS;
+  readonly minPoints = MIN_PLUMB_LINE_POINTS;
+  readonly maxLineRms = MAX_LINE_RMS_PX;
+
+  model: LensModel;
+  tangential = false;
+  lines: NormalizedPoint2D[][];
+  draft: NormalizedPoint2D[] = [];
+  result: PlumbLineEstimate | null = null;
+  showCorrected = true;
+
+  constructor(
+    public dialogRef: MatDialogRef<PlumbLineDialogComponent, PlumbLineDialogResult | null>,
+    @Inject(MAT_DIALOG_DATA) public data: PlumbLineDialogData
+  ) {
+    this.imageUrl = URL.createObjectURL(data.file);
+    this.model = data.model;
+    this.lines = data.lines.map(line => [...line]);
+    this.recalculate();
+  }
+
+  ngOnDestroy() {
+    URL.revokeObjectURL(this.imageUrl);
+  }
+
+  pointsOf(line: NormalizedPoint2D[]): string {
+    return line.map(p => `${p.normalizedX},${p.normalizedY}`).join(' ');
+  }
+
+  correctedOf(line: NormalizedPoint2D[]): NormalizedPoint2D[] {
+    const distortion = this.result?.data?.distortion;
+    return line.map(p => undistortPoint(p, distortion, this.imageSize));
+  }
+
+  lineRmsOf(index: number): number {
+    return this.result?.data?.lineRmsPx[index] ?? 0;
+  }
+
+  get misfitCount(): number {
+    return this.result?.data?.lineRmsPx.filter(rms => rms > MAX_LINE_RMS_PX).length ?? 0;
+  }
+
+  onImageClick(event: MouseEvent) {
+    this.draft = [...this.draft, this.relativePoint(event)];
+  }
+
+  onFinishLine() {
+    if (this.draft.length < MIN_PLUMB_LINE_POINTS) return;
+    this.lines = [...this.lines, this.draft];
+    this.draft = [];
+    this.recalculate();
+  }
+
+  onRemoveLast() {
+    if (this.draft.length) {
+      this.draft = this.draft.slice(0, -1);
+      return;
+    }
+
+    // Letzte Kante wieder zum Bearbeiten öffnen
+    this.draft = this.lines[this.lines.length - 1].slice(0, -1);
+    this.lines = this.lines.slice(0, -1);
+    this.recalculate();
+  }
+
+  onConfirm() {
+    if (!this.result?.data) return;
+    this.dialogRef.close({ lines: this.lines, distortion: this.result.data.distortion });
+  }
+
+  recalculate() {
+    this.result = this.lines.length
+      ? estimateDistortionFromPlumbLines(
+        this.lines,
+        this.imageSize,
+        this.model,
+        this.data.fovY,
+        this.tangential && this.model === 'brown-conrady'
+      )
+      : null;
+  }
+
+  private get imageSize() {
+    return { width: this.data.imageWidth, height: this.data.imageHeight };
+  }
+
+  /**
+   * Mausposition relativ zum Bild (0..1)
+   */
+  private relativePoint(event: MouseEvent): NormalizedPoint2D {
+    const rect = this.imageRef.nativeElement.getBoundingClientRect();
+    const clamp = (value: number) => Math.min(1, Math.max(0, value));
+    return {
+      normalizedX: clamp((event.clientX - rect.left) / rect.width),
+      normalizedY: clamp((event.clientY - rect.top) / rect.height)
+    };
+  }
+}
@@ -0,0 +1,107 @@
+import { TestBed } from '@angular/core/testing';
+import { MAT_DIALOG_DATA, MatDialogRef } from '@angular/material/dialog';
+
+import { SessionData, createDefaultCalibration, createEmptySession } from '../../models/session.types';
+import { lShapedSurfaces, usedSurfaceNames } from '../room-geometry';
+import { SessionSchemaError, migrateSession } from '../session-schema';
+import { RoomGeometryDialogComponent } from './room-geometry-dialog.component';
+
+const ROOM = { width: 5, depth: 6, height: 3 };
+
+/** Session mit L-Form und Schatten auf Boden und Versatz */
+function sessionWithShadows(): SessionData {
+  const session = createEmptySession('s1', 'Projekt');
+  session.screenshots = [{ id: 'a', filename: 'a.png', timestamp: 't0', isReferencePoint: true }];
+  session.calibration = {
+    ...createDefaultCalibration(),
+    room: { ...ROOM },
+    surfaces: lShapedSurfaces(ROOM, { width: 2, depth: 2 })
+  };
+  session.shadows = [{
+    screenshotId: 'a',
+    objects: [{
+      id: 'o1',
+      name: 'Stuhl',
+      pairs: [
+        { objectPoint: { normalizedX: 0.5, normalizedY: 0.5 }, shadowPoint: { normalizedX: 0.4, normalizedY: 0.8, wall: 'floor' } },
+        { objectPoint: { normalizedX: 0.6, normalizedY: 0.4 }, shadowPoint: { normalizedX: 0.7, normalizedY: 0.3, wall: 'step-side' } }
+      ]
+    }]
+  }];
+  return session;
+}
+
+/** Speichern und neu laden (Schema-Prüfung wie beim Öffnen der Session) */
+function reload(session: SessionData): SessionData {
+  return migrateSession(JSON.parse(JSON.stringify(session))).session;
+}
+
+describe('RoomGeometryDialogComponent', () => {
+  let close: ReturnType<typeof vi.fn>;
+
+  function open(session: SessionData): RoomGeometryDialogComponent {
+    close = vi.fn();
+    TestBed.configureTestingModule({
+      imports: [RoomGeometryDialogComponent],
+      providers: [
+        { provide: MatDialogRef, useValue: { close } },
+        {
+          provide: MAT_DIALOG_DATA,
+          useValue: {
+            room: { ...ROOM },
+            surfaces: session.calibration!.surfaces!,
+            usedSurfaces: usedSurfaceNames(session.shadows)
+          }
+        }
+      ]
+    });
+    const fixture = TestBed.createComponent(RoomGeometryDialogComponent);
+    fixture.detectChanges();
+    return fixture.componentInstance;
+  }
+
+  it('should keep surfaces with shadow marks so the edited session still loads', () => {
+    const session = sessionWithShadows();
+    const dialog = open(session);
+    const index = (name: string) => dialog.surfaces.findIndex(s => s.name === name);
+
+    expect(dialog.isUsed('step-side')).toBe(true);
+    expect(dialog.canUseBox).toBe(false);
+
+    // Entfernen ignoriert, Umbenennen blockiert die Übernahme
+    dialog.onRemoveSurface(index('step-side'));
+    expect(index('step-side')).toBeGreaterThanOrEqual(0);
+
+    dialog.surfaces[index('step-side')].name = 'nische';
+    dialog.validate();
+    expect(dialog.errors).toEqual(['Versatz (Seite): fehlt, darauf sind Schatten markiert']);
+    dialog.onConfirm();
+    expect(close).not.toHaveBeenCalled();
+
+    dialog.surfaces[index('nische')].name = 'step-side';
+    dialog.preset = 'box';
+    dialog.onApplyPreset();
+    expect(dialog.errors).toEqual(['Versatz (Seite): fehlt, darauf sind Schatten markiert']);
+
+    // Unmarkierte Flächen bleiben frei änderbar
+    dialog.surfaces = lShapedSurfaces(ROOM, { width: 2, depth: 2 });
+    dialog.onRemoveSurface(index('front'));
+    dialog.validate();
+    expect(dialog.errors).toEqual([]);
+    dialog.onConfirm();
+
+    const { surfaces } = close.mock.calls[0][0];
+    session.calibration!.surfaces = surfaces;
+    const reloaded = reload(session);
+
+    expect(reloaded.calibration!.surfaces!.map(s => s.name)).not.toContain('front');
+    expect(reloaded.shadows![0].objects[0].pairs.map(p => p.shadowPoint.wall)).toEqual(['floor', 'step-side']);
+  });
+
+  it('should reject a session whose marked surface was removed', () => {
+    const session = sessionWithShadows();
+    session.calibration!.surfaces = session.calibration!.surfaces!.filter(s => s.name !== 'step-side');
+
+    expect(() => reload(session)).toThrow(SessionSchemaError);
+  });
+});
@@ -0,0 +1,398 @@
+import { Component, Inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { MAT_DIALOG_DATA, MatDialog, MatDialogModule, MatDialogRef } from '@angular/material/dialog';
+import { MatButtonModule } from '@angular/material/button';
+import { MatButtonToggleModule } from '@angular/material/button-toggle';
+import { MatIconModule } from '@angular/material/icon';
+import { firstValueFrom } from 'rxjs';
+
+import type { Point3D, RoomDimensions, RoomSurface } from '../../models/session.types';
+import {
+  BOX_SURFACE_NAMES,
+  boxSurfaces,
+  lShapedSurfaces,
+  slopedCeilingSurfaces,
+  surfaceColor,
+  surfaceLabel,
+  surfacesBounds,
+  validateRoomSurfaces,
+  validateUsedSurfaces
+} from '../room-geometry';
+
+export interface RoomGeometryDialogData {
+  /** Aktueller umschließender Quader (Grundlage der Vorlagen) */
+  room: RoomDimensions;
+
+  /** Bisherige Flächen (null = Quader) */
+  surfaces: RoomSurface[] | null;
+
+  /** Flächen mit Schatten-Markierungen - dürfen nicht entfernt oder umbenannt werden */
+  usedSurfaces: string[];
+}
+
+export interface RoomGeometryDialogResult {
+  /** null = zurück zum Quader aus den Raummaßen */
+  surfaces: RoomSurface[] | null;
+}
+
+type RoomPreset = 'box' | 'l-shape' | 'sloped';
+
+const PRESETS: Array<{ value: RoomPreset; label: string }> = [
+  { value: 'box', label: 'Quader' },
+  { value: 'l-shape', label: 'L-Form' },
+  { value: 'sloped', label: 'Dachschräge' }
+];
+
+/**
+ * Öffnet den Dialog zum Bearbeiten der Raumflächen. Ergebnis: Flächen oder null (abgebrochen)
+ */
+export function openRoomGeometryDialog(
+  dialog: MatDialog,
+  data: RoomGeometryDialogData
+): Promise<RoomGeometryDialogResult | null> {
+  const dialogRef = dialog.open<RoomGeometryDialogComponent, RoomGeometryDialogData, RoomGeometryDialogResult | null>(
+    RoomGeometryDialogComponent,
+    { width: '760px', data }
+  );
+  return firstValueFrom(dialogRef.afterClosed()).then(result => result ?? null);
+}
+
+@Component({
+  selector: 'app-room-geometry-dialog',
+  standalone: true,
+  imports: [
+    CommonModule,
+    FormsModule,
+    MatDialogModule,
+    MatButtonModule,
+    MatButtonToggleModule,
+    MatIconModule
+  ],
+  template: `
+    <h2 mat-dialog-title>
+      <mat-icon>view_in_ar</mat-icon>
+      Raumgeometrie
+    </h2>
+
+    <mat-dialog-content>
+      <p class="intro">
+        Der Raum besteht aus benannten, ebenen Flächen. Eckpunkte in Metern, Ursprung vorne links
+        am Boden (X = Breite, Y = Höhe, Z = Tiefe). Starte mit einer Vorlage und passe Flächen und
+        Eckpunkte an - Schatten lassen sich danach auf jeder Fläche markieren.
+      </p>
+
+      <div class="toolbar">
+        <mat-button-toggle-group [(ngModel)]="preset">
+          @for (p of presets; track p.value) {
+          <mat-button-toggle [value]="p.value">{{ p.label }}</mat-button-toggle>
+          }
+        </mat-button-toggle-group>
+
+        @if (preset === 'l-shape') {
+        <label>Aussparung B <input type="number" min="0.1" step="0.1" [(ngModel)]="notch.width" /> m</label>
+        <label>T <input type="number" min="0.1" step="0.1" [(ngModel)]="notch.depth" /> m</label>
+        }
+        @if (preset === 'sloped') {
+        <label>Niedrige Seite <input type="number" min="0.1" step="0.1" [(ngModel)]="lowHeight" /> m</label>
+        }
+
+        <button mat-stroked-button (click)="onApplyPreset()">
+          <mat-icon>auto_awesome</mat-icon>
+          Vorlage anwenden
+        </button>
+      </div>
+
+      <div class="surfaces">
+        @for (surface of surfaces; track $index; let s = $index) {
+        <div class="surface">
+          <div class="surface-header">
+            <span class="swatch" [style.background]="colorOf(surface.name, s)"></span>
+            <input
+              class="name"
+              [(ngModel)]="surface.name"
+              (ngModelChange)="validate()"
+              [readonly]="isUsed(surface.name)"
+              [title]="isUsed(surface.name) ? 'Schatten markiert - Name fest' : ''"
+              placeholder="Name"
+            />
+            <span class="label">{{ labelOf(surface.name) }}</span>
+            <span class="spacer"></span>
+            <button
+              mat-icon-button
+              [disabled]="isUsed(surface.name)"
+              (click)="onRemoveSurface(s)"
+              [title]="isUsed(surface.name) ? 'Schatten markiert - Fläche bleibt' : 'Fläche entfernen'"
+            >
+              <mat-icon>delete</mat-icon>
+            </button>
+          </div>
+
+          @for (vertex of surface.vertices; track $index; let v = $index) {
+          <div class="vertex">
+            <span class="index">{{ v + 1 }}</span>
+            @for (axis of axes; track axis) {
+            <label>
+              {{ axis.toUpperCase() }}
+              <input type="number" step="0.1" [(ngModel)]="vertex[axis]" (ngModelChange)="validate()" />
+            </label>
+            }
+            <button
+              mat-icon-button
+              [disabled]="surface.vertices.length <= 3"
+              (click)="onRemoveVertex(surface, v)"
+              title="Eckpunkt entfernen"
+            >
+              <mat-icon>remove_circle_outline</mat-icon>
+            </button>
+          </div>
+          }
+
+          <button mat-button (click)="onAddVertex(surface)">
+            <mat-icon>add</mat-icon>
+            Eckpunkt
+          </button>
+        </div>
+        }
+      </div>
+
+      <button mat-stroked-button (click)="onAddSurface()">
+        <mat-icon>add</mat-icon>
+        Fläche hinzufügen
+      </button>
+
+      <div class="summary" [class.error]="errors.length > 0">
+        @if (errors.length === 0) {
+        <span>
+          <strong>Umschließender Quader</strong>
+          {{ bounds.width | number : '1.2-2' }} × {{ bounds.depth | number : '1.2-2' }} ×
+          {{ bounds.height | number : '1.2-2' }} m
+        </span>
+        }
+        @for (error of errors; track $index) {
+        <p>{{ error }}</p>
+        }
+      </div>
+    </mat-dialog-content>
+
+    <mat-dialog-actions align="end">
+      <button mat-button [mat-dialog-close]="null">Abbrechen</button>
+      <button mat-button [disabled]="!canUseBox" (click)="onUseBox()">Quader verwenden</button>
+      <button mat-raised-button color="primary" [disabled]="errors.length > 0" (click)="onConfirm()">
+        Übernehmen
+      </button>
+    </mat-dialog-actions>
+  `,
+  styles: [`
+    h2[mat-dialog-title] {
+      display: flex;
+      align-items: center;
+      gap: 10px;
+    }
+
+    .intro {
+      color: #666;
+      font-size: 14px;
+    }
+
+    .toolbar {
+      display: flex;
+      flex-wrap: wrap;
+      align-items: center;
+      gap: 12px;
+      margin-bottom: 12px;
+    }
+
+    input[type='number'] {
+      width: 64px;
+    }
+
+    .surfaces {
+      display: flex;
+      flex-direction: column;
+      gap: 8px;
+      margin-bottom: 12px;
+    }
+
+    .surface {
+      border: 1px solid #ddd;
+      border-radius: 4px;
+      padding: 4px 8px 8px;
+    }
+
+    .surface-header {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+
+      .name {
+        width: 140px;
+        font-weight: 500;
+      }
+
+      .label {
+        color: #666;
+        font-size: 13px;
+      }
+
+      .spacer {
+        flex: 1;
+      }
+    }
+
+    .swatch {
+      width: 14px;
+      height: 14px;
+      border-radius: 3px;
+      border: 1px solid rgba(0, 0, 0, 0.3);
+    }
+
+    .vertex {
+      display: flex;
+      align-items: center;
+      gap: 12px;
+      font-size: 13px;
+
+      .index {
+        width: 20px;
+        color: #999;
+        text-align: right;
+      }
+    }
+
+    .summary {
+      margin-top: 12px;
+      font-size: 14px;
+
+      p {
+        margin: 4px 0 0;
+      }
+
+      &.error p {
+        color: #f44336;
+      }
+    }
+  `]
+})
+export class RoomGeometryDialogComponent {
+  readonly presets = PRESETS;
+  readonly axes: Array<keyof Point3D> = ['x', 'y', 'z'];
+
+  preset: RoomPreset = 'box';
+  notch: { width: number; depth: number };
+  lowHeight: number;
+
+  surfaces: RoomSurface[];
+  errors: string[] = [];
+  bounds: RoomDimensions;
+
+  constructor(
+    public dialogRef: MatDialogRef<RoomGeometryDialogComponent, RoomGeometryDialogResult | null>,
+    @Inject(MAT_DIALOG_DATA) public data: RoomGeometryDialogData
+  ) {
+    const { room } = data;
+    this.notch = { width: round(room.width / 3), depth: round(room.depth / 3) };
+    this.lowHeight = round(room.height * 0.6);
+    this.surfaces = cloneSurfaces(data.surfaces ?? boxSurfaces(room));
+    this.bounds = { ...room };
+    this.validate();
+  }
+
+  labelOf(name: string): string {
+    const label = surfaceLabel(name);
+    return label === name ? '' : label;
+  }
+
+  colorOf(name: string, index: number): string {
+    return surfaceColor(name, index);
+  }
+
+  isUsed(name: string): boolean {
+    return this.data.usedSurfaces.includes(name);
+  }
+
+  /** Quader nur, wenn alle markierten Flächen Quader-Flächen sind */
+  get canUseBox(): boolean {
+    return this.data.usedSurfaces.every(name => BOX_SURFACE_NAMES.includes(name));
+  }
+
+  onApplyPreset() {
+    const room = this.data.room;
+    switch (this.preset) {
+      case 'l-shape':
+        this.surfaces = lShapedSurfaces(room, this.notch);
+        break;
+      case 'sloped':
+        this.surfaces = slopedCeilingSurfaces(room, this.lowHeight);
+        break;
+      default:
+        this.surfaces = boxSurfaces(room);
+    }
+    this.validate();
+  }
+
+  onAddSurface() {
+    // Platzhalter: 1 × 1 m auf Höhe der Rückwand, Eckpunkte danach anpassen
+    const z = this.data.room.depth;
+    this.surfaces = [...this.surfaces, {
+      name: `fläche-${this.surfaces.length + 1}`,
+      vertices: [
+        { x: 1, y: 0, z },
+        { x: 0, y: 0, z },
+        { x: 0, y: 1, z },
+        { x: 1, y: 1, z }
+      ]
+    }];
+    this.validate();
+  }
+
+  onRemoveSurface(index: number) {
+    if (this.isUsed(this.surfaces[index].name)) return;
+    this.surfaces = this.surfaces.filter((_, i) => i !== index);
+    this.validate();
+  }
+
+  onAddVertex(surface: RoomSurface) {
+    // Mitte der schließenden Kante: Fläche bleibt eben
+    const first = surface.vertices[0];
+    const last = surface.vertices[surface.vertices.length - 1];
+    surface.vertices = [...surface.vertices, {
+      x: round((first.x + last.x) / 2),
+      y: round((first.y + last.y) / 2),
+      z: round((first.z + last.z) / 2)
+    }];
+    this.validate();
+  }
+
+  onRemoveVertex(surface: RoomSurface, index: number) {
+    surface.vertices = surface.vertices.filter((_, i) => i !== index);
+    this.validate();
+  }
+
+  validate() {
+    this.errors = this.surfaces.length
+      ? [...validateRoomSurfaces(this.surfaces), ...validateUsedSurfaces(this.surfaces, this.data.usedSurfaces)]
+      : ['Mindestens eine Fläche erforderlich'];
+    if (this.errors.length === 0) {
+      this.bounds = surfacesBounds(this.surfaces);
+    }
+  }
+
+  onUseBox() {
+    if (!this.canUseBox) return;
+    this.dialogRef.close({ surfaces: null });
+  }
+
+  onConfirm() {
+    if (this.errors.length) return;
+    this.dialogRef.close({ surfaces: cloneSurfaces(this.surfaces) });
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function cloneSurfaces(surfaces: RoomSurface[]): RoomSurface[] {
+  return surfaces.map(s => ({ name: s.name, vertices: s.vertices.map(v => ({ ...v })) }));
+}
@@ -0,0 +1,97 @@
+import type { RoomSurface } from '../models/session.types';
+import {
+  boxSurfaces,
+  intersectRoomSurfaces,
+  lShapedSurfaces,
+  resolveRoomSurfaces,
+  scaleSurfaces,
+  slopedCeilingSurfaces,
+  surfaceEdges,
+  surfacePlane,
+  surfacesBounds,
+  validateRoomSurfaces
+} from './room-geometry';
+
+const ROOM = { width: 5, depth: 6, height: 3 };
+const CAMERA = { x: 2.5, y: 1.5, z: 0.5 };
+
+function find(surfaces: RoomSurface[], name: string): RoomSurface {
+  return surfaces.find(s => s.name === name)!;
+}
+
+describe('room-geometry', () => {
+  it('should build the default box with inward normals like the former walls', () => {
+    const surfaces = resolveRoomSurfaces(ROOM);
+
+    expect(surfaces.map(s => s.name)).toEqual(['back', 'left', 'right', 'front', 'floor']);
+    const back = surfacePlane(find(surfaces, 'back'))!;
+    expect(back.normal.z).toBe(-1);
+    expect(back.d).toBe(6);
+    expect(surfacePlane(find(surfaces, 'right'))!.normal.x).toBe(-1);
+    expect(surfacePlane(find(surfaces, 'floor'))!.normal.y).toBe(1);
+    expect(surfaceEdges(surfaces)).toHaveLength(12);
+    expect(validateRoomSurfaces(surfaces)).toEqual([]);
+  });
+
+  it('should hit the nearest surface along a ray', () => {
+    const surfaces = boxSurfaces(ROOM);
+
+    const back = intersectRoomSurfaces(CAMERA, { x: 0, y: 0, z: 1 }, surfaces);
+    expect(back?.surface).toBe('back');
+    expect(back?.distance).toBeCloseTo(5.5, 9);
+
+    expect(intersectRoomSurfaces(CAMERA, { x: 0.2, y: -1, z: 1 }, surfaces)?.surface).toBe('floor');
+    // Decke ist offen
+    expect(intersectRoomSurfaces(CAMERA, { x: 0, y: 1, z: 0.1 }, surfaces)).toBeNull();
+  });
+
+  it('should hit the step walls of an L-shaped room instead of the bounding box', () => {
+    const surfaces = lShapedSurfaces(ROOM, { width: 2, depth: 2 });
+    expect(validateRoomSurfaces(surfaces)).toEqual([]);
+
+    // Richtung hinten rechts: trifft die Versatz-Wand bei z = 4
+    const hit = intersectRoomSurfaces(CAMERA, { x: 0.35, y: 0, z: 1 }, surfaces);
+    expect(hit?.surface).toBe('step-back');
+    expect(hit?.point.z).toBeCloseTo(4, 9);
+
+    // Hinten links: normale Rückwand
+    expect(intersectRoomSurfaces(CAMERA, { x: -0.2, y: 0, z: 1 }, surfaces)?.surface).toBe('back');
+
+    // Boden ist nicht konvex: Punkt in der Aussparung gehört nicht dazu
+    expect(intersectRoomSurfaces({ x: 4, y: 1, z: 5 }, { x: 0, y: -1, z: 0 }, surfaces)).toBeNull();
+    expect(surfacesBounds(surfaces)).toEqual(ROOM);
+  });
+
+  it('should model a sloped ceiling as planar trapezoids', () => {
+    const surfaces = slopedCeilingSurfaces(ROOM, 1.5);
+    expect(validateRoomSurfaces(surfaces)).toEqual([]);
+
+    // Senkrecht nach oben bei x = 4: Decke auf 1.8 m
+    const hit = intersectRoomSurfaces({ x: 4, y: 1, z: 3 }, { x: 0, y: 1, z: 0 }, surfaces);
+    expect(hit?.surface).toBe('ceiling');
+    expect(hit?.point.y).toBeCloseTo(3 - 1.5 * 0.8, 9);
+  });
+
+  it('should reject unnamed, duplicate, degenerate and warped surfaces', () => {
+    const errors = validateRoomSurfaces([
+      { name: '', vertices: find(boxSurfaces(ROOM), 'back').vertices },
+      { name: 'a', vertices: [{ x: 0, y: 0, z: 0 }, { x: 1, y: 0, z: 0 }] },
+      { name: 'a', vertices: [{ x: 0, y: 0, z: 0 }, { x: 1, y: 0, z: 0 }, { x: 2, y: 0, z: 0 }] },
+      { name: 'b', vertices: [{ x: 0, y: 0, z: 0 }, { x: 1, y: 0, z: 0 }, { x: 1, y: 1, z: 0.3 }, { x: 0, y: 1, z: 0 }] }
+    ]);
+
+    expect(errors).toEqual([
+      'Fläche 1: Name fehlt',
+      'a: mindestens 3 Eckpunkte',
+      'a: Name doppelt vergeben',
+      'a: Eckpunkte liegen auf einer Linie',
+      expect.stringContaining('b: nicht eben')
+    ]);
+  });
+
+  it('should scale surfaces with the bounding box', () => {
+    const scaled = scaleSurfaces(lShapedSurfaces(ROOM, { width: 2, depth: 2 }), ROOM, { width: 10, depth: 6, height: 2.5 });
+    expect(surfacesBounds(scaled)).toEqual({ width: 10, depth: 6, height: 2.5 });
+    expect(find(scaled, 'step-side').vertices[0]).toEqual({ x: 6, y: 0, z: 4 });
+  });
+});
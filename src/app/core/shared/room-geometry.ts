@@ -0,0 +1,410 @@
+/**
+ * ============================================================================
+ * ROOM-GEOMETRY (Raum aus benannten, ebenen Flächen)
+ * ============================================================================
+ *
+ * Der Raum ist eine Liste ebener Polygone (RoomSurface) in Raum-Koordinaten
+ * (siehe coordinate-system.ts). Jede Fläche hat einen eindeutigen Namen -
+ * Schatten-Punkte verweisen über shadowPoint.wall darauf.
+ *
+ * Ohne eigene Flächen (calibration.surfaces fehlt) gilt der bisherige
+ * Quader aus calibration.room mit den Flächen back, left, right, front und
+ * floor - bestehende Sessions bleiben dadurch unverändert gültig.
+ *
+ * Vorlagen für häufige Formen:
+ *
+ *   boxSurfaces            Quader (Standard)
+ *   lShapedSurfaces        L-Form: Ecke hinten rechts ausgespart
+ *   slopedCeilingSurfaces  Dachschräge: Decke fällt nach rechts ab
+ *
+ * Nischen, Innenhöfe usw. entstehen durch Hinzufügen/Entfernen einzelner
+ * Flächen im Dialog.
+ *
+ * WINDUNG: Eckpunkte so, dass die Normale (Rechte-Hand-Regel) in den Raum
+ * zeigt - wie getWallPlane. Für Treffer-Tests ist die Richtung egal.
+ *
+ * calibration.room bleibt der umschließende Quader (Grid, Ecken-
+ * Kalibrierung, Slider); ändert er sich, werden die Flächen mitskaliert.
+ *
+ * ============================================================================
+ */
+
+import type { Point3D, RoomDimensions, RoomSurface, ScreenshotShadows } from '../models/session.types';
+
+// ============================================================================
+// KONSTANTEN & TYPEN
+// ============================================================================
+
+/** Flächen des Standard-Quaders (Reihenfolge wie die bisherigen Wände) */
+export const BOX_SURFACE_NAMES = ['back', 'left', 'right', 'front', 'floor'];
+
+/** Anzeigenamen der Vorlagen-Flächen */
+const SURFACE_LABELS: Record<string, string> = {
+    back: 'Rückwand',
+    left: 'Links',
+    right: 'Rechts',
+    front: 'Vorne',
+    floor: 'Boden',
+    ceiling: 'Decke',
+    'step-back': 'Versatz (Rückseite)',
+    'step-side': 'Versatz (Seite)'
+};
+
+/** Farben wie bisher im Viewer, weitere Flächen aus der Palette */
+const SURFACE_COLORS: Record<string, string> = {
+    front: '#ff0000',
+    back: '#00ff00',
+    left: '#0000ff',
+    right: '#00ffff',
+    floor: '#ffff00',
+    ceiling: '#ff00ff'
+};
+const PALETTE = ['#ff9800', '#9c27b0', '#795548', '#e91e63', '#3f51b5', '#009688', '#cddc39'];
+
+/** Maximale Abweichung der Eckpunkte von der Ausgleichsebene (Meter) */
+export const MAX_PLANARITY_ERROR = 0.02;
+
+/** Treffer knapp außerhalb einer Fläche zählen noch (Meter, wie bisher) */
+export const SURFACE_HIT_TOLERANCE = 0.1;
+
+/** Ebene: normal · p + d = 0 (normal normiert) */
+export interface SurfacePlane {
+    normal: Point3D;
+    d: number;
+}
+
+export interface SurfaceHit {
+    surface: string;
+    point: Point3D;
+    distance: number;
+}
+
+/** Eckpunkt des Grundrisses; wall = Wand bis zum nächsten Eckpunkt */
+interface OutlinePoint {
+    x: number;
+    z: number;
+    wall: string;
+}
+
+type Vec2 = [number, number];
+
+// ============================================================================
+// VEKTOR-HILFSFUNKTIONEN
+// ============================================================================
+
+function dot(a: Point3D, b: Point3D): number {
+    return a.x * b.x + a.y * b.y + a.z * b.z;
+}
+
+function cross(a: Point3D, b: Point3D): Point3D {
+    return { x: a.y * b.z - a.z * b.y, y: a.z * b.x - a.x * b.z, z: a.x * b.y - a.y * b.x };
+}
+
+function length(a: Point3D): number {
+    return Math.sqrt(dot(a, a));
+}
+
+// ============================================================================
+// VORLAGEN
+// ============================================================================
+
+/**
+ * Wände entlang des Grundrisses (Höhe je Eckpunkt), Boden und optional Decke
+ */
+function extrudeOutline(outline: OutlinePoint[], heightAt: (x: number, z: number) => number, ceiling: boolean): RoomSurface[] {
+    const walls = outline.map((start, i) => {
+        const end = outline[(i + 1) % outline.length];
+        return {
+            name: start.wall,
+            vertices: [
+                { x: start.x, y: 0, z: start.z },
+                { x: end.x, y: 0, z: end.z },
+                { x: end.x, y: heightAt(end.x, end.z), z: end.z },
+                { x: start.x, y: heightAt(start.x, start.z), z: start.z }
+            ]
+        };
+    });
+
+    const floor = { name: 'floor', vertices: [...outline].reverse().map(p => ({ x: p.x, y: 0, z: p.z })) };
+    const top = ceiling ? [{ name: 'ceiling', vertices: outline.map(p => ({ x: p.x, y: heightAt(p.x, p.z), z: p.z })) }] : [];
+
+    return [...walls, floor, ...top];
+}
+
+function byName(surfaces: RoomSurface[], order: string[]): RoomSurface[] {
+    const rank = (name: string) => (order.includes(name) ? order.indexOf(name) : order.length);
+    return [...surfaces].sort((a, b) => rank(a.name) - rank(b.name));
+}
+
+/**
+ * Standard-Quader (ohne Decke, wie die bisherigen fünf Wände)
+ */
+export function boxSurfaces(room: RoomDimensions): RoomSurface[] {
+    const { width: w, depth: d } = room;
+    return byName(extrudeOutline([
+        { x: 0, z: 0, wall: 'front' },
+        { x: w, z: 0, wall: 'right' },
+        { x: w, z: d, wall: 'back' },
+        { x: 0, z: d, wall: 'left' }
+    ], () => room.height, false), BOX_SURFACE_NAMES);
+}
+
+/**
+ * L-förmiger Raum: Ecke hinten rechts (notch.width × notch.depth) fehlt
+ */
+export function lShapedSurfaces(room: RoomDimensions, notch: { width: number; depth: number }): RoomSurface[] {
+    const { width: w, depth: d } = room;
+    const nw = Math.min(Math.max(notch.width, 0.1), w - 0.1);
+    const nd = Math.min(Math.max(notch.depth, 0.1), d - 0.1);
+    return byName(extrudeOutline([
+        { x: 0, z: 0, wall: 'front' },
+        { x: w, z: 0, wall: 'right' },
+        { x: w, z: d - nd, wall: 'step-back' },
+        { x: w - nw, z: d - nd, wall: 'step-side' },
+        { x: w - nw, z: d, wall: 'back' },
+        { x: 0, z: d, wall: 'left' }
+    ], () => room.height, false), BOX_SURFACE_NAMES);
+}
+
+/**
+ * Dachschräge: Decke fällt von room.height (links) auf lowHeight (rechts)
+ */
+export function slopedCeilingSurfaces(room: RoomDimensions, lowHeight: number): RoomSurface[] {
+    const { width: w, depth: d, height: h } = room;
+    const low = Math.min(Math.max(lowHeight, 0.1), h);
+    return byName(extrudeOutline([
+        { x: 0, z: 0, wall: 'front' },
+        { x: w, z: 0, wall: 'right' },
+        { x: w, z: d, wall: 'back' },
+        { x: 0, z: d, wall: 'left' }
+    ], x => h + (low - h) * (x / w), true), [...BOX_SURFACE_NAMES, 'ceiling']);
+}
+
+/**
+ * Flächen einer Kalibrierung (ohne eigene Flächen: Quader aus room)
+ */
+export function resolveRoomSurfaces(room: RoomDimensions, surfaces?: RoomSurface[] | null): RoomSurface[] {
+    return surfaces?.length ? surfaces : boxSurfaces(room);
+}
+
+// ============================================================================
+// DARSTELLUNG
+// ============================================================================
+
+export function surfaceLabel(name: string): string {
+    return SURFACE_LABELS[name] ?? name;
+}
+
+/**
+ * Farbe einer Fläche (#rrggbb) - bekannte Namen fest, sonst nach Position
+ */
+export function surfaceColor(name: string, index: number): string {
+    return SURFACE_COLORS[name] ?? PALETTE[index % PALETTE.length];
+}
+
+/**
+ * Alle Kanten (gemeinsame Kanten benachbarter Flächen nur einmal)
+ */
+export function surfaceEdges(surfaces: RoomSurface[]): Array<[Point3D, Point3D]> {
+    const key = (p: Point3D) => `${p.x.toFixed(4)},${p.y.toFixed(4)},${p.z.toFixed(4)}`;
+    const seen = new Set<string>();
+    const edges: Array<[Point3D, Point3D]> = [];
+
+    for (const surface of surfaces) {
+        surface.vertices.forEach((start, i) => {
+            const end = surface.vertices[(i + 1) % surface.vertices.length];
+            const id = [key(start), key(end)].sort().join('|');
+            if (seen.has(id)) return;
+            seen.add(id);
+            edges.push([start, end]);
+        });
+    }
+    return edges;
+}
+
+// ============================================================================
+// GEOMETRIE
+// ============================================================================
+
+/**
+ * Ebene eines Polygons (Newell-Normale), null wenn entartet
+ */
+export function surfacePlane(surface: RoomSurface): SurfacePlane | null {
+    const vertices = surface.vertices;
+    if (vertices.length < 3) return null;
+
+    const normal = { x: 0, y: 0, z: 0 };
+    const centroid = { x: 0, y: 0, z: 0 };
+    vertices.forEach((a, i) => {
+        const b = vertices[(i + 1) % vertices.length];
+        normal.x += (a.y - b.y) * (a.z + b.z);
+        normal.y += (a.z - b.z) * (a.x + b.x);
+        normal.z += (a.x - b.x) * (a.y + b.y);
+        centroid.x += a.x / vertices.length;
+        centroid.y += a.y / vertices.length;
+        centroid.z += a.z / vertices.length;
+    });
+
+    const size = length(normal);
+    if (size < 1e-9) return null;
+
+    const unit = { x: normal.x / size, y: normal.y / size, z: normal.z / size };
+    return { normal: unit, d: -dot(unit, centroid) };
+}
+
+/**
+ * 2D-Koordinaten in der Flächenebene (für Punkt-in-Polygon und Triangulierung)
+ */
+export function surfaceCoordinates(points: Point3D[], plane: SurfacePlane): Vec2[] {
+    const n = plane.normal;
+    const helper = Math.abs(n.y) < 0.9 ? { x: 0, y: 1, z: 0 } : { x: 1, y: 0, z: 0 };
+    const u = cross(helper, n);
+    const uLength = length(u);
+    const uAxis = { x: u.x / uLength, y: u.y / uLength, z: u.z / uLength };
+    const vAxis = cross(n, uAxis);
+    return points.map(p => [dot(p, uAxis), dot(p, vAxis)]);
+}
+
+function distanceToSegment(p: Vec2, a: Vec2, b: Vec2): number {
+    const dx = b[0] - a[0];
+    const dy = b[1] - a[1];
+    const t = Math.max(0, Math.min(1, ((p[0] - a[0]) * dx + (p[1] - a[1]) * dy) / (dx * dx + dy * dy || 1)));
+    return Math.hypot(p[0] - a[0] - t * dx, p[1] - a[1] - t * dy);
+}
+
+/**
+ * Punkt (in der Ebene) innerhalb des Polygons oder höchstens tolerance daneben
+ */
+function containsPoint(polygon: Vec2[], point: Vec2, tolerance: number): boolean {
+    let inside = false;
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+        const [xi, yi] = polygon[i];
+        const [xj, yj] = polygon[j];
+        if ((yi > point[1]) !== (yj > point[1]) && point[0] < ((xj - xi) * (point[1] - yi)) / (yj - yi) + xi) {
+            inside = !inside;
+        }
+    }
+    return inside || polygon.some((a, i) => distanceToSegment(point, a, polygon[(i + 1) % polygon.length]) <= tolerance);
+}
+
+/**
+ * Nächste getroffene Fläche entlang eines Strahls (null = keine)
+ */
+export function intersectRoomSurfaces(
+    origin: Point3D,
+    direction: Point3D,
+    surfaces: RoomSurface[],
+    minDistance = 0.01
+): SurfaceHit | null {
+    const dirLength = length(direction);
+    const dir = { x: direction.x / dirLength, y: direction.y / dirLength, z: direction.z / dirLength };
+
+    let best: SurfaceHit | null = null;
+    for (const surface of surfaces) {
+        const plane = surfacePlane(surface);
+        if (!plane) continue;
+
+        const denominator = dot(plane.normal, dir);
+        if (Math.abs(denominator) < 1e-4) continue; // parallel
+
+        const distance = -(dot(plane.normal, origin) + plane.d) / denominator;
+        if (distance <= minDistance || (best && distance >= best.distance)) continue;
+
+        const point = { x: origin.x + distance * dir.x, y: origin.y + distance * dir.y, z: origin.z + distance * dir.z };
+        const polygon = surfaceCoordinates(surface.vertices, plane);
+        if (containsPoint(polygon, surfaceCoordinates([point], plane)[0], SURFACE_HIT_TOLERANCE)) {
+            best = { surface: surface.name, point, distance };
+        }
+    }
+    return best;
+}
+
+/**
+ * Umschließender Quader (Ursprung bleibt bei 0/0/0)
+ */
+export function surfacesBounds(surfaces: RoomSurface[]): RoomDimensions {
+    const vertices = surfaces.flatMap(s => s.vertices);
+    const max = (axis: keyof Point3D) => Math.max(0, ...vertices.map(v => v[axis]));
+    return { width: max('x'), depth: max('z'), height: max('y') };
+}
+
+/**
+ * Flächen auf neue Raummaße strecken (Slider, Ecken-Kalibrierung)
+ */
+export function scaleSurfaces(surfaces: RoomSurface[], from: RoomDimensions, to: RoomDimensions): RoomSurface[] {
+    const factor = (a: number, b: number) => (a > 0 ? b / a : 1);
+    const fx = factor(from.width, to.width);
+    const fy = factor(from.height, to.height);
+    const fz = factor(from.depth, to.depth);
+    return surfaces.map(surface => ({
+        ...surface,
+        vertices: surface.vertices.map(v => ({ x: v.x * fx, y: v.y * fy, z: v.z * fz }))
+    }));
+}
+
+// ============================================================================
+// VALIDIERUNG
+// ============================================================================
+
+/**
+ * Prüft Namen, Eckpunkte und Ebenheit aller Flächen
+ *
+ * @returns Fehlermeldungen (leer = gültig)
+ */
+export function validateRoomSurfaces(surfaces: RoomSurface[]): string[] {
+    const errors: string[] = [];
+    if (surfaces.length === 0) errors.push('Mindestens eine Fläche anlegen');
+
+    const names = new Set<string>();
+    surfaces.forEach((surface, i) => {
+        const label = surface.name.trim() || `Fläche ${i + 1}`;
+
+        if (!surface.name.trim()) errors.push(`${label}: Name fehlt`);
+        else if (names.has(surface.name)) errors.push(`${label}: Name doppelt vergeben`);
+        names.add(surface.name);
+
+        if (surface.vertices.length < 3) {
+            errors.push(`${label}: mindestens 3 Eckpunkte`);
+            return;
+        }
+
+        const plane = surfacePlane(surface);
+        if (!plane) {
+            errors.push(`${label}: Eckpunkte liegen auf einer Linie`);
+            return;
+        }
+
+        const deviation = Math.max(...surface.vertices.map(v => Math.abs(dot(plane.normal, v) + plane.d)));
+        if (deviation > MAX_PLANARITY_ERROR) {
+            errors.push(`${label}: nicht eben (Abweichung ${(deviation * 100).toFixed(0)} cm)`);
+        }
+    });
+
+    return errors;
+}
+
+/**
+ * Flächen, auf denen Schatten markiert sind (shadowPoint.wall, sortiert)
+ */
+export function usedSurfaceNames(shadows: ScreenshotShadows[] | null): string[] {
+    const names = new Set<string>();
+    for (const entry of shadows ?? []) {
+        for (const object of entry.objects) {
+            for (const pair of object.pairs) names.add(pair.shadowPoint.wall);
+        }
+    }
+    return [...names].sort();
+}
+
+/**
+ * Markierte Flächen, die in den neuen Flächen fehlen (entfernt oder
+ * umbenannt) - die Schatten darauf würden beim nächsten Laden abgelehnt
+ *
+ * @returns Fehlermeldungen (leer = alle markierten Flächen vorhanden)
+ */
+export function validateUsedSurfaces(surfaces: RoomSurface[], usedNames: string[]): string[] {
+    const names = new Set(surfaces.map(s => s.name));
+    return usedNames
+        .filter(name => !names.has(name))
+        .map(name => `${surfaceLabel(name)}: fehlt, darauf sind Schatten markiert`);
+}
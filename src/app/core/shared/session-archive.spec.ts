@@ -0,0 +1,54 @@
+import { strToU8, unzipSync, zipSync } from 'fflate';
+
+import { createEmptySession } from '../models/session.types';
+import { SessionArchiveError, buildSessionArchive, readSessionArchive } from './session-archive';
+
+function sampleSession() {
+  const session = createEmptySession('sess1', 'Testfall');
+  session.screenshots = [
+    { id: 'ss1', filename: 'a.png', timestamp: 't0+0', isReferencePoint: true },
+    { id: 'ss2', filename: 'b.png', timestamp: 't0+30', isReferencePoint: false }
+  ];
+  return session;
+}
+
+describe('session-archive', () => {
+  it('should round-trip session and screenshots', async () => {
+    const files = new Map([
+      ['ss1', new Uint8Array([1, 2, 3])],
+      ['ss2', new Uint8Array([4, 5])]
+    ]);
+
+    const archive = await buildSessionArchive(sampleSession(), files);
+    const content = await readSessionArchive(archive);
+
+    expect(content.session.meta.projectName).toBe('Testfall');
+    expect(content.screenshots.get('ss2')).toEqual(new Uint8Array([4, 5]));
+    expect(content.issues).toEqual([]);
+  });
+
+  it('should report missing and tampered screenshots', async () => {
+    const archive = await buildSessionArchive(sampleSession(), new Map([['ss1', new Uint8Array([1, 2, 3])]]));
+
+    // Screenshot im Archiv austauschen (gleiche Größe, anderer Inhalt)
+    const entries = unzipSync(archive);
+    entries['screenshots/ss1/a.png'] = new Uint8Array([9, 9, 9]);
+
+    const content = await readSessionArchive(zipSync(entries));
+    expect(content.issues.map(i => [i.screenshotId, i.kind])).toEqual([
+      ['ss1', 'hash-mismatch'],
+      ['ss2', 'missing']
+    ]);
+  });
+
+  it('should reject archives with an invalid schema', async () => {
+    const archive = zipSync({
+      'manifest.json': new Uint8Array(strToU8(JSON.stringify({ format: 'sgeo', archiveVersion: 1, screenshots: [] }))),
+      'session.json': new Uint8Array(strToU8(JSON.stringify({ version: '2.0', screenshots: {} })))
+    });
+
+    await expect(readSessionArchive(archive)).rejects.toBeInstanceOf(SessionArchiveError);
+    await expect(readSessionArchive(archive)).rejects.toThrow('Schema v2.0');
+    await expect(readSessionArchive(new Uint8Array([1, 2, 3]))).rejects.toThrow('kein gültiges');
+  });
+});
@@ -0,0 +1,241 @@
+/**
+ * ============================================================================
+ * SESSION-ARCHIV (.sgeo)
+ * ============================================================================
+ *
+ * Eine Session als einzelne Datei (Zip), z.B. zur Übergabe an Kollegen oder
+ * zur Archivierung mit dem Beweismaterial.
+ *
+ * AUFBAU:
+ *   manifest.json          Format, Version, Screenshot-Liste (Größe + SHA-256)
+ *   session.json           SessionData (ältere Versionen werden migriert)
+ *   screenshots/<id>/<filename>
+ *
+ * Beim Import wird das Schema geprüft und ggf. migriert (session-schema.ts,
+ * Fehler → SessionArchiveError) und jeder Screenshot gegen das Manifest
+ * abgeglichen (fehlend / Größe / Hash).
+ * Abweichungen sind keine harten Fehler, sondern werden gemeldet.
+ *
+ * ============================================================================
+ */
+
+import { strFromU8, strToU8, unzipSync, zipSync } from 'fflate';
+
+import type { SessionData } from '../models/session.types';
+import { SessionMigrationReport, SessionSchemaError, migrateSession } from './session-schema';
+
+// ============================================================================
+// KONSTANTEN
+// ============================================================================
+
+export const SESSION_ARCHIVE_FORMAT = 'sgeo';
+export const SESSION_ARCHIVE_VERSION = 1;
+export const SESSION_ARCHIVE_EXTENSION = '.sgeo';
+
+const MANIFEST_PATH = 'manifest.json';
+const SESSION_PATH = 'session.json';
+
+// ============================================================================
+// TYPEN
+// ============================================================================
+
+export interface SessionArchiveManifest {
+    format: typeof SESSION_ARCHIVE_FORMAT;
+    archiveVersion: number;
+    schemaVersion: string;
+    sourceSessionId: string;
+    exportedAt: string;
+    screenshots: Array<{
+        id: string;
+        filename: string;
+        path: string;
+        size: number;
+        sha256: string;
+    }>;
+}
+
+/**
+ * Abweichung eines Screenshots beim Import
+ */
+export interface SessionArchiveIssue {
+    screenshotId: string;
+    filename: string;
+    kind: 'missing' | 'name-mismatch' | 'size-mismatch' | 'hash-mismatch' | 'unlisted';
+    message: string;
+}
+
+export interface SessionArchiveContent {
+    manifest: SessionArchiveManifest;
+    session: SessionData;
+
+    /** Migration von session.json auf die aktuelle Schema-Version */
+    migration: SessionMigrationReport;
+
+    /** Screenshot-Binärdaten nach Screenshot-ID */
+    screenshots: Map<string, Uint8Array>;
+
+    issues: SessionArchiveIssue[];
+}
+
+/**
+ * Archiv unlesbar oder Schema ungültig
+ */
+export class SessionArchiveError extends Error {
+    constructor(message: string, public readonly details: string[] = []) {
+        super(details.length > 0 ? `${message}: ${details.join('; ')}` : message);
+        this.name = 'SessionArchiveError';
+    }
+}
+
+// ============================================================================
+// HILFSFUNKTIONEN
+// ============================================================================
+
+async function sha256Hex(data: Uint8Array): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', data as Uint8Array<ArrayBuffer>);
+    return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * JSON als Bytes. Kopie in das globale Uint8Array, da fflate Dateien per
+ * instanceof von Ordnern unterscheidet (TextEncoder liefert unter jsdom
+ * ein Uint8Array aus einem anderen Realm).
+ */
+function jsonBytes(value: unknown): Uint8Array {
+    return new Uint8Array(strToU8(JSON.stringify(value, null, 2)));
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Pfad eines Screenshots im Archiv (ID als Ordner → Dateinamen dürfen kollidieren)
+ */
+function screenshotPath(id: string, filename: string): string {
+    return `screenshots/${id}/${filename.replace(/[\\/]/g, '_')}`;
+}
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+/**
+ * Packt Session und Screenshots in ein .sgeo-Archiv
+ *
+ * @param files - Screenshot-Binärdaten nach Screenshot-ID
+ */
+export async function buildSessionArchive(
+    session: SessionData,
+    files: Map<string, Uint8Array>,
+    exportedAt = new Date().toISOString()
+): Promise<Uint8Array> {
+    const entries: Record<string, Uint8Array | [Uint8Array, { level: 0 }]> = {};
+    const manifest: SessionArchiveManifest = {
+        format: SESSION_ARCHIVE_FORMAT,
+        archiveVersion: SESSION_ARCHIVE_VERSION,
+        schemaVersion: session.version,
+        sourceSessionId: session.sessionId,
+        exportedAt,
+        screenshots: []
+    };
+
+    for (const screenshot of session.screenshots) {
+        const data = files.get(screenshot.id);
+        if (!data) continue;
+
+        const path = screenshotPath(screenshot.id, screenshot.filename);
+
+        // Bilder sind bereits komprimiert → nur speichern
+        entries[path] = [data, { level: 0 }];
+        manifest.screenshots.push({
+            id: screenshot.id,
+            filename: screenshot.filename,
+            path,
+            size: data.byteLength,
+            sha256: await sha256Hex(data)
+        });
+    }
+
+    entries[MANIFEST_PATH] = jsonBytes(manifest);
+    entries[SESSION_PATH] = jsonBytes(session);
+
+    return zipSync(entries);
+}
+
+// ============================================================================
+// IMPORT
+// ============================================================================
+
+/**
+ * Liest und prüft ein .sgeo-Archiv
+ *
+ * @throws SessionArchiveError bei unlesbarem Archiv oder ungültigem Schema
+ */
+export async function readSessionArchive(archive: Uint8Array): Promise<SessionArchiveContent> {
+    let entries: Record<string, Uint8Array>;
+    try {
+        entries = unzipSync(archive);
+    } catch {
+        throw new SessionArchiveError('Datei ist kein gültiges .sgeo-Archiv');
+    }
+
+    const parse = (path: string): unknown => {
+        if (!entries[path]) {
+            throw new SessionArchiveError(`${path} fehlt im Archiv`);
+        }
+        try {
+            return JSON.parse(strFromU8(entries[path]));
+        } catch {
+            throw new SessionArchiveError(`${path} ist kein gültiges JSON`);
+        }
+    };
+
+    const manifest = parse(MANIFEST_PATH) as SessionArchiveManifest;
+    if (!isObject(manifest) || manifest.format !== SESSION_ARCHIVE_FORMAT || !Array.isArray(manifest.screenshots)) {
+        throw new SessionArchiveError('manifest.json ungültig');
+    }
+    if (manifest.archiveVersion > SESSION_ARCHIVE_VERSION) {
+        throw new SessionArchiveError(`Archiv-Version ${manifest.archiveVersion} wird nicht unterstützt`);
+    }
+
+    let sessionData: SessionData;
+    let migration: SessionMigrationReport;
+    try {
+        ({ session: sessionData, report: migration } = migrateSession(parse(SESSION_PATH)));
+    } catch (err) {
+        if (err instanceof SessionSchemaError) {
+            throw new SessionArchiveError(`session.json: ${err.reason}`, err.details);
+        }
+        throw err;
+    }
+
+    const screenshots = new Map<string, Uint8Array>();
+    const issues: SessionArchiveIssue[] = [];
+
+    for (const screenshot of sessionData.screenshots) {
+        const entry = manifest.screenshots.find(s => s.id === screenshot.id);
+        const data = entries[entry?.path ?? screenshotPath(screenshot.id, screenshot.filename)];
+        const issue = (kind: SessionArchiveIssue['kind'], message: string) =>
+            issues.push({ screenshotId: screenshot.id, filename: screenshot.filename, kind, message });
+
+        if (!data) {
+            issue('missing', `${screenshot.filename} fehlt im Archiv`);
+            continue;
+        }
+
+        screenshots.set(screenshot.id, data);
+
+        if (!entry) {
+            issue('unlisted', `${screenshot.filename} steht nicht im Manifest`);
+        } else if (entry.filename !== screenshot.filename) {
+            issue('name-mismatch', `${screenshot.filename}: Manifest nennt "${entry.filename}"`);
+        } else if (entry.size !== data.byteLength) {
+            issue('size-mismatch', `${screenshot.filename}: ${data.byteLength} statt ${entry.size} Bytes`);
+        } else if (entry.sha256 !== await sha256Hex(data)) {
+            issue('hash-mismatch', `${screenshot.filename}: Prüfsumme stimmt nicht`);
+        }
+    }
+
+    return { manifest, session: sessionData, migration, screenshots, issues };
+}
@@ -0,0 +1,88 @@
+import { CalibrationData, SessionData, ShadowObject, createDefaultCalibration, createEmptySession } from '../models/session.types';
+import { HISTORY_LIMIT, canRedo, canUndo, historyShortcut, recordChange, redoChange, undoChange } from './session-history';
+import { validateSessionData } from './session-schema';
+
+function calibrationWithWidth(width: number): CalibrationData {
+  const calibration = createDefaultCalibration();
+  calibration.room.width = width;
+  return calibration;
+}
+
+function session(): SessionData {
+  const data = createEmptySession('s1', 'Projekt');
+  data.calibration = calibrationWithWidth(5);
+  return data;
+}
+
+describe('session-history', () => {
+  it('should undo and redo calibration and shadow changes on separate stacks', () => {
+    const data = session();
+    const chair: ShadowObject = { id: 'obj1', name: 'Stuhl', pairs: [] };
+
+    data.calibration = calibrationWithWidth(6);
+    recordChange(data, 'Raummaße', { scope: 'calibration', before: calibrationWithWidth(5), after: calibrationWithWidth(6) });
+    recordChange(data, 'Objekt hinzugefügt', { scope: 'shadows', screenshotId: 'ss1', before: [], after: [chair] });
+
+    expect(undoChange(data, 'calibration')?.label).toBe('Raummaße');
+    expect(data.calibration!.room.width).toBe(5);
+    expect(canUndo(data, 'calibration')).toBe(false);
+    expect(canUndo(data, 'shadows')).toBe(true);
+
+    expect(undoChange(data, 'shadows')?.label).toBe('Objekt hinzugefügt');
+    expect(data.shadows).toEqual([{ screenshotId: 'ss1', objects: [] }]);
+
+    redoChange(data, 'calibration');
+    expect(data.calibration!.room.width).toBe(6);
+
+    // Neue Änderung verwirft Redo
+    recordChange(data, 'Objekt hinzugefügt', { scope: 'shadows', screenshotId: 'ss1', before: [], after: [chair] });
+    expect(canRedo(data, 'shadows')).toBe(false);
+
+    expect(validateSessionData(JSON.parse(JSON.stringify(data)))).toEqual([]);
+  });
+
+  it('should merge rapid changes with the same key and cap the stack', () => {
+    const data = session();
+    const t0 = new Date('2025-01-01T12:00:00Z');
+    const at = (ms: number) => new Date(t0.getTime() + ms);
+
+    recordChange(data, 'Kamera-Rotation', { scope: 'calibration', before: calibrationWithWidth(5), after: calibrationWithWidth(5.5) }, { mergeKey: 'rotation:ss1', now: t0 });
+    recordChange(data, 'Kamera-Rotation', { scope: 'calibration', before: calibrationWithWidth(5.5), after: calibrationWithWidth(6) }, { mergeKey: 'rotation:ss1', now: at(500) });
+    expect(data.history!.calibration.undo.length).toBe(1);
+
+    undoChange(data, 'calibration');
+    expect(data.calibration!.room.width).toBe(5);
+
+    // Ohne Änderung kein Eintrag
+    expect(recordChange(data, 'Sichtfeld', { scope: 'calibration', before: calibrationWithWidth(5), after: calibrationWithWidth(5) })).toBeNull();
+
+    for (let i = 0; i < HISTORY_LIMIT + 10; i++) {
+      recordChange(data, 'Raummaße', { scope: 'calibration', before: calibrationWithWidth(i), after: calibrationWithWidth(i + 1) }, { mergeKey: 'room', now: at(i * 2000) });
+    }
+    expect(data.history!.calibration.undo.length).toBe(HISTORY_LIMIT);
+    expect(data.history!.calibration.undo[0].before).toEqual(calibrationWithWidth(10));
+  });
+
+  it('should not merge shadow changes of different screenshots', () => {
+    const data = session();
+    const now = new Date('2025-01-01T12:00:00Z');
+    const chair: ShadowObject = { id: 'obj1', name: 'Stuhl', pairs: [] };
+
+    recordChange(data, 'Punkt verschoben', { scope: 'shadows', screenshotId: 'ss1', before: [], after: [chair] }, { mergeKey: 'drag', now });
+    recordChange(data, 'Punkt verschoben', { scope: 'shadows', screenshotId: 'ss2', before: [], after: [chair] }, { mergeKey: 'drag', now });
+
+    expect(data.history!.shadows.undo.map(e => e.scope === 'shadows' && e.screenshotId)).toEqual(['ss1', 'ss2']);
+  });
+
+  it('should map Ctrl+Z and Ctrl+Shift+Z but leave text inputs alone', () => {
+    expect(historyShortcut(new KeyboardEvent('keydown', { key: 'z', ctrlKey: true }))).toBe('undo');
+    expect(historyShortcut(new KeyboardEvent('keydown', { key: 'Z', ctrlKey: true, shiftKey: true }))).toBe('redo');
+    expect(historyShortcut(new KeyboardEvent('keydown', { key: 'z' }))).toBeNull();
+
+    const input = document.createElement('input');
+    input.type = 'text';
+    const event = new KeyboardEvent('keydown', { key: 'z', ctrlKey: true });
+    Object.defineProperty(event, 'target', { value: input });
+    expect(historyShortcut(event)).toBeNull();
+  });
+});
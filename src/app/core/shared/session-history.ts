@@ -0,0 +1,228 @@
+/**
+ * ============================================================================
+ * SESSION-HISTORY (Undo/Redo für Kalibrierung und Schatten-Markierung)
+ * ============================================================================
+ *
+ * Jede Bearbeitung wird als Kommando mit Vorher/Nachher-Stand gespeichert:
+ *
+ *   calibration  komplette CalibrationData (Raum, Kamera, Rotationen, Anzeige)
+ *   shadows      Objekt-Liste eines Screenshots
+ *
+ * Undo setzt den Vorher-Stand, Redo den Nachher-Stand - unabhängig davon,
+ * wie die Änderung zustande kam (Slider, Drag im Viewer, Bundle Adjustment).
+ * Kalibrierung und Schatten haben getrennte Stapel, Stage 3 und Stage 5
+ * kommen sich also nicht in die Quere.
+ *
+ * Die History liegt in SessionData.history und wird mit der Session
+ * gespeichert (überlebt einen Reload). Pro Stapel höchstens HISTORY_LIMIT
+ * Einträge; schnelle Folgen gleichartiger Änderungen (mergeKey, z.B. ein
+ * Drag) werden zu einem Eintrag zusammengefasst.
+ *
+ * ============================================================================
+ */
+
+import type {
+    HistoryChange,
+    HistoryEntry,
+    HistoryScope,
+    HistoryStack,
+    SessionData,
+    SessionHistory,
+    ShadowObject
+} from '../models/session.types';
+
+// ============================================================================
+// KONSTANTEN
+// ============================================================================
+
+/** Maximale Einträge pro Stapel (Undo und Redo getrennt) */
+export const HISTORY_LIMIT = 50;
+
+/** Änderungen mit gleichem mergeKey innerhalb dieses Fensters = ein Eintrag */
+export const HISTORY_MERGE_WINDOW_MS = 1000;
+
+export type HistoryAction = 'undo' | 'redo';
+
+export interface RecordOptions {
+    /** Gleichartige Änderungen zusammenfassen (z.B. "rotation:ss1") */
+    mergeKey?: string;
+    now?: Date;
+}
+
+// ============================================================================
+// HILFSFUNKTIONEN
+// ============================================================================
+
+function clone<T>(value: T): T {
+    return JSON.parse(JSON.stringify(value));
+}
+
+function same(a: unknown, b: unknown): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+}
+
+export function createEmptyHistory(): SessionHistory {
+    return {
+        calibration: { undo: [], redo: [] },
+        shadows: { undo: [], redo: [] }
+    };
+}
+
+function stackOf(session: SessionData, scope: HistoryScope): HistoryStack {
+    if (!session.history) session.history = createEmptyHistory();
+    return session.history[scope];
+}
+
+/**
+ * Übernimmt den Nachher-Stand in den letzten Eintrag (nur gleicher Bereich / Screenshot)
+ */
+function mergeAfter(last: HistoryEntry, change: HistoryChange): boolean {
+    if (last.scope === 'calibration' && change.scope === 'calibration') {
+        last.after = clone(change.after);
+        return true;
+    }
+    if (last.scope === 'shadows' && change.scope === 'shadows' && last.screenshotId === change.screenshotId) {
+        last.after = clone(change.after);
+        return true;
+    }
+    return false;
+}
+
+/**
+ * Schreibt einen Stand in die Session
+ */
+function applyState(session: SessionData, change: HistoryChange, state: 'before' | 'after'): void {
+    if (change.scope === 'calibration') {
+        session.calibration = clone(change[state]);
+        return;
+    }
+
+    const objects: ShadowObject[] = clone(change[state]);
+    const shadows = session.shadows ?? [];
+    const entry = shadows.find(s => s.screenshotId === change.screenshotId);
+
+    if (entry) {
+        entry.objects = objects;
+    } else {
+        shadows.push({ screenshotId: change.screenshotId, objects });
+    }
+    session.shadows = shadows;
+}
+
+// ============================================================================
+// RECORD / UNDO / REDO
+// ============================================================================
+
+/**
+ * Merkt eine Änderung vor (Redo-Stapel wird verworfen)
+ *
+ * Die Session selbst wird nicht verändert - der Nachher-Stand ist bereits
+ * der aktuelle Zustand des Aufrufers.
+ *
+ * @returns Der (ggf. zusammengefasste) Eintrag, null wenn sich nichts geändert hat
+ */
+export function recordChange(
+    session: SessionData,
+    label: string,
+    change: HistoryChange,
+    options: RecordOptions = {}
+): HistoryEntry | null {
+    const stack = stackOf(session, change.scope);
+    const now = options.now ?? new Date();
+    const last = stack.undo[stack.undo.length - 1];
+
+    const mergeable = last && options.mergeKey && last.mergeKey === options.mergeKey &&
+        now.getTime() - new Date(last.at).getTime() <= HISTORY_MERGE_WINDOW_MS;
+
+    if (mergeable && mergeAfter(last, change)) {
+        last.at = now.toISOString();
+        stack.redo = [];
+
+        // Drag zurück zum Ausgangspunkt: Eintrag überflüssig
+        if (same(last.before, last.after)) {
+            stack.undo.pop();
+            return null;
+        }
+        return last;
+    }
+
+    if (same(change.before, change.after)) return null;
+
+    const entry: HistoryEntry = {
+        ...clone(change),
+        label,
+        at: now.toISOString(),
+        ...(options.mergeKey ? { mergeKey: options.mergeKey } : {})
+    };
+
+    stack.undo.push(entry);
+    stack.undo.splice(0, Math.max(0, stack.undo.length - HISTORY_LIMIT));
+    stack.redo = [];
+    return entry;
+}
+
+/**
+ * Macht die letzte Änderung rückgängig
+ *
+ * @returns Rückgängig gemachter Eintrag, null wenn der Stapel leer ist
+ */
+export function undoChange(session: SessionData, scope: HistoryScope): HistoryEntry | null {
+    return step(session, scope, 'undo');
+}
+
+/**
+ * Stellt die zuletzt rückgängig gemachte Änderung wieder her
+ */
+export function redoChange(session: SessionData, scope: HistoryScope): HistoryEntry | null {
+    return step(session, scope, 'redo');
+}
+
+function step(session: SessionData, scope: HistoryScope, action: HistoryAction): HistoryEntry | null {
+    const stack = stackOf(session, scope);
+    const from = action === 'undo' ? stack.undo : stack.redo;
+    const to = action === 'undo' ? stack.redo : stack.undo;
+
+    const entry = from.pop();
+    if (!entry) return null;
+
+    applyState(session, entry, action === 'undo' ? 'before' : 'after');
+
+    // Nach Undo/Redo nicht mehr mit neuen Änderungen zusammenfassen
+    delete entry.mergeKey;
+    to.push(entry);
+    to.splice(0, Math.max(0, to.length - HISTORY_LIMIT));
+    return entry;
+}
+
+export function canUndo(session: SessionData | null, scope: HistoryScope): boolean {
+    return (session?.history?.[scope].undo.length ?? 0) > 0;
+}
+
+export function canRedo(session: SessionData | null, scope: HistoryScope): boolean {
+    return (session?.history?.[scope].redo.length ?? 0) > 0;
+}
+
+// ============================================================================
+// TASTATUR
+// ============================================================================
+
+const TEXT_INPUT_TYPES = ['text', 'search', 'number', 'email', 'url', 'tel', 'password'];
+
+/**
+ * Ctrl+Z / Cmd+Z = Undo, Ctrl+Shift+Z / Ctrl+Y = Redo
+ *
+ * In Textfeldern bleibt das native Undo des Browsers aktiv.
+ */
+export function historyShortcut(event: KeyboardEvent): HistoryAction | null {
+    if (!(event.ctrlKey || event.metaKey) || event.altKey) return null;
+
+    const target = event.target as HTMLElement | null;
+    if (target?.isContentEditable || target?.tagName === 'TEXTAREA') return null;
+    if (target?.tagName === 'INPUT' && TEXT_INPUT_TYPES.includes((target as HTMLInputElement).type)) return null;
+
+    const key = event.key.toLowerCase();
+    if (key === 'z') return event.shiftKey ? 'redo' : 'undo';
+    if (key === 'y' && !event.shiftKey) return 'redo';
+    return null;
+}
+
@@ -0,0 +1,183 @@
+import { Component, Inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { MAT_DIALOG_DATA, MatDialog, MatDialogModule, MatDialogRef } from '@angular/material/dialog';
+import { MatButtonModule } from '@angular/material/button';
+import { MatButtonToggleModule } from '@angular/material/button-toggle';
+import { MatIconModule } from '@angular/material/icon';
+import { MatDividerModule } from '@angular/material/divider';
+import { firstValueFrom } from 'rxjs';
+
+import { SessionData } from '../../models/session.types';
+import {
+  MergeChoices,
+  MergeSide,
+  SessionConflictError,
+  SessionDiff,
+  diffSessions,
+  mergeSessions
+} from '../session-merge';
+
+export interface SessionMergeDialogData {
+  conflict: SessionConflictError;
+}
+
+/**
+ * Öffnet den Merge-Dialog. Ergebnis: zusammengeführte Session oder null (abgebrochen)
+ */
+export function openSessionMergeDialog(dialog: MatDialog, conflict: SessionConflictError): Promise<SessionData | null> {
+  const dialogRef = dialog.open<SessionMergeDialogComponent, SessionMergeDialogData, SessionData | null>(
+    SessionMergeDialogComponent,
+    { width: '720px', disableClose: true, data: { conflict } }
+  );
+  return firstValueFrom(dialogRef.afterClosed()).then(result => result ?? null);
+}
+
+@Component({
+  selector: 'app-session-merge-dialog',
+  standalone: true,
+  imports: [
+    CommonModule,
+    FormsModule,
+    MatDialogModule,
+    MatButtonModule,
+    MatButtonToggleModule,
+    MatIconModule,
+    MatDividerModule
+  ],
+  template: `
+    <h2 mat-dialog-title>
+      <mat-icon color="warn">sync_problem</mat-icon>
+      Session wurde zwischenzeitlich geändert
+    </h2>
+
+    <mat-dialog-content>
+      <p class="intro">
+        Jemand hat diese Session gespeichert, nachdem du sie geladen hast
+        (Server-Stand vom {{ data.conflict.theirs.meta.lastModified | date:'short' }}).
+        Wähle pro Screenshot, welcher Stand übernommen wird.
+      </p>
+
+      <!-- Globale Werte -->
+      <div class="merge-row">
+        <div class="merge-info">
+          <strong>Projekt, Referenzzeit, Raum & Kamera</strong>
+          @for (change of diff.global; track change) {
+            <div class="change">{{ change }}</div>
+          } @empty {
+            <div class="change none">Keine Unterschiede</div>
+          }
+        </div>
+        <mat-button-toggle-group [(ngModel)]="choices.global">
+          <mat-button-toggle value="mine">Meins</mat-button-toggle>
+          <mat-button-toggle value="theirs">Server</mat-button-toggle>
+        </mat-button-toggle-group>
+      </div>
+
+      <mat-divider></mat-divider>
+
+      <!-- Screenshots -->
+      @for (screenshot of diff.screenshots; track screenshot.screenshotId) {
+        <div class="merge-row">
+          <div class="merge-info">
+            <strong>{{ screenshot.filename }}</strong>
+            @for (change of screenshot.calibration; track change) {
+              <div class="change"><mat-icon inline>tune</mat-icon> {{ change }}</div>
+            }
+            @for (change of screenshot.shadows; track change) {
+              <div class="change"><mat-icon inline>wb_sunny</mat-icon> {{ change }}</div>
+            }
+            @if (screenshot.onlyOn) {
+              <div class="change removed">
+                <mat-icon inline>warning</mat-icon>
+                {{ screenshot.onlyOn === 'mine' ? 'Nur lokal vorhanden - mit "Server" wird der Screenshot entfernt' : 'Nur auf dem Server vorhanden - mit "Meins" wird der Screenshot entfernt' }}
+              </div>
+            }
+          </div>
+          <mat-button-toggle-group [(ngModel)]="choices.screenshots[screenshot.screenshotId]">
+            <mat-button-toggle value="mine">Meins</mat-button-toggle>
+            <mat-button-toggle value="theirs">Server</mat-button-toggle>
+          </mat-button-toggle-group>
+        </div>
+      } @empty {
+        <p class="change none">Kalibrierung und Schatten sind auf beiden Seiten gleich.</p>
+      }
+    </mat-dialog-content>
+
+    <mat-dialog-actions align="end">
+      <button mat-button [mat-dialog-close]="null">Abbrechen</button>
+      <button mat-button (click)="setAll('theirs')">Alles vom Server</button>
+      <button mat-button (click)="setAll('mine')">Alles meins</button>
+      <button mat-raised-button color="primary" (click)="onMerge()">
+        Übernehmen
+      </button>
+    </mat-dialog-actions>
+  `,
+  styles: [`
+    h2[mat-dialog-title] {
+      display: flex;
+      align-items: center;
+      gap: 10px;
+    }
+
+    .intro {
+      color: #666;
+      font-size: 14px;
+    }
+
+    .merge-row {
+      display: flex;
+      align-items: center;
+      justify-content: space-between;
+      gap: 16px;
+      padding: 12px 0;
+    }
+
+    .merge-info {
+      flex: 1;
+
+      .change {
+        font-size: 13px;
+        color: #555;
+        margin-top: 4px;
+      }
+
+      .change.removed {
+        color: #e65100;
+      }
+    }
+
+    .none {
+      color: #999;
+      font-style: italic;
+    }
+
+    mat-divider {
+      margin: 8px 0;
+    }
+  `]
+})
+export class SessionMergeDialogComponent {
+  diff: SessionDiff;
+  choices: MergeChoices;
+
+  constructor(
+    public dialogRef: MatDialogRef<SessionMergeDialogComponent, SessionData | null>,
+    @Inject(MAT_DIALOG_DATA) public data: SessionMergeDialogData
+  ) {
+    this.diff = diffSessions(data.conflict.mine, data.conflict.theirs);
+    this.choices = { global: 'mine', screenshots: {} };
+    this.setAll('mine');
+  }
+
+  setAll(side: MergeSide) {
+    this.choices.global = side;
+    for (const screenshot of this.diff.screenshots) {
+      this.choices.screenshots[screenshot.screenshotId] = side;
+    }
+  }
+
+  onMerge() {
+    this.dialogRef.close(mergeSessions(this.data.conflict.mine, this.data.conflict.theirs, this.choices));
+  }
+}
@@ -0,0 +1,89 @@
+import { SessionData, createDefaultCalibration, createDefaultDisplayParams, createEmptySession } from '../models/session.types';
+import { diffSessions, mergeSessions } from './session-merge';
+
+function baseSession(): SessionData {
+  const session = createEmptySession('s1', 'Projekt');
+  session.screenshots = [
+    { id: 'ss1', filename: 'a.png', timestamp: 't0', isReferencePoint: true },
+    { id: 'ss2', filename: 'b.png', timestamp: 't0+30', isReferencePoint: false }
+  ];
+  session.calibration = createDefaultCalibration();
+  session.calibration.screenshots = ['ss1', 'ss2'].map(screenshotId => ({
+    screenshotId,
+    cameraRotation: { x: 0, y: 0, z: 0 },
+    display: createDefaultDisplayParams(),
+    completed: true
+  }));
+  session.shadows = [{
+    screenshotId: 'ss1',
+    objects: [{ id: 'obj1', name: 'Stuhl', pairs: [] }]
+  }];
+  return session;
+}
+
+describe('session-merge', () => {
+  it('should describe calibration and shadow differences per screenshot', () => {
+    const mine = baseSession();
+    const theirs = baseSession();
+    mine.calibration!.screenshots[0].cameraRotation.y = 12;
+    theirs.shadows![0].objects.push({ id: 'obj2', name: 'Tisch', pairs: [] });
+    theirs.calibration!.room.width = 6;
+
+    const diff = diffSessions(mine, theirs);
+
+    expect(diff.global).toEqual(['Raummaße: 5×5×3 ↔ 6×5×3 m']);
+    expect(diff.screenshots).toEqual([{
+      screenshotId: 'ss1',
+      filename: 'a.png',
+      calibration: ['Kamera-Rotation: 0.0/12.0/0.0° ↔ 0.0/0.0/0.0°'],
+      shadows: ['Objekt "Tisch" nur auf dem Server']
+    }]);
+  });
+
+  it('should merge per screenshot and take global values from the chosen side', () => {
+    const mine = baseSession();
+    const theirs = baseSession();
+    mine.meta.projectName = 'Meins';
+    mine.calibration!.screenshots[1].completed = false;
+    mine.shadows![0].objects[0].name = 'Stuhl (lokal)';
+    theirs.calibration!.room.depth = 8;
+    theirs.screenshots.push({ id: 'ss3', filename: 'c.png', timestamp: 't0+60', isReferencePoint: false });
+
+    const merged = mergeSessions(mine, theirs, { global: 'theirs', screenshots: { ss1: 'mine' } });
+
+    expect(merged.meta.projectName).toBe('Projekt');
+    expect(merged.calibration!.room.depth).toBe(8);
+    expect(merged.screenshots.map(s => s.id)).toEqual(['ss1', 'ss2', 'ss3']);
+    expect(merged.shadows![0].objects[0].name).toBe('Stuhl (lokal)');
+    expect(merged.calibration!.screenshots.map(s => s.completed)).toEqual([true, true]);
+    expect(merged).not.toBe(theirs);
+  });
+
+  it('should drop a screenshot that is set to the side without it', () => {
+    const mine = baseSession();
+    const theirs = baseSession();
+    theirs.screenshots.push({ id: 'ss3', filename: 'c.png', timestamp: 't0+60', isReferencePoint: false });
+    theirs.calibration!.screenshots.push({ ...theirs.calibration!.screenshots[1], screenshotId: 'ss3' });
+    theirs.shadows!.push({ screenshotId: 'ss3', objects: [{ id: 'obj3', name: 'Lampe', pairs: [] }] });
+    mine.shadows![0].objects[0].name = 'Stuhl (lokal)';
+
+    expect(diffSessions(mine, theirs).screenshots.map(s => [s.screenshotId, s.onlyOn])).toEqual([
+      ['ss1', undefined],
+      ['ss3', 'theirs']
+    ]);
+
+    // ss3 auf "Meins" (fehlt dort), ss1 auf "Server"
+    const dropped = mergeSessions(mine, theirs, { global: 'mine', screenshots: { ss1: 'theirs', ss3: 'mine' } });
+
+    expect(dropped.screenshots.map(s => s.id)).toEqual(['ss1', 'ss2']);
+    expect(dropped.calibration!.screenshots.map(s => s.screenshotId)).toEqual(['ss1', 'ss2']);
+    expect(dropped.shadows!.map(s => s.screenshotId)).toEqual(['ss1']);
+    expect(dropped.shadows![0].objects[0].name).toBe('Stuhl');
+
+    const kept = mergeSessions(mine, theirs, { global: 'mine', screenshots: { ss1: 'mine', ss3: 'theirs' } });
+
+    expect(kept.screenshots.map(s => s.id)).toEqual(['ss1', 'ss2', 'ss3']);
+    expect(kept.calibration!.screenshots.map(s => s.screenshotId)).toEqual(['ss1', 'ss2', 'ss3']);
+    expect(kept.shadows!.map(s => s.objects[0].name)).toEqual(['Stuhl (lokal)', 'Lampe']);
+  });
+});
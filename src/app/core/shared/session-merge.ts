@@ -0,0 +1,239 @@
+/**
+ * ============================================================================
+ * SESSION-MERGE (Konflikte beim Speichern)
+ * ============================================================================
+ *
+ * saveSession überträgt die komplette Session mit der Revision, auf der sie
+ * basiert (meta.lastModified → If-Match). Hat jemand anderes die Session
+ * zwischenzeitlich gespeichert, lehnt der Server ab und der Client bekommt
+ * einen SessionConflictError mit beiden Ständen.
+ *
+ * diffSessions() beschreibt die Unterschiede pro Screenshot (Kalibrierung,
+ * Schatten-Objekte), mergeSessions() setzt aus beiden Ständen eine neue
+ * Session zusammen - pro Screenshot "mine" oder "theirs", dazu eine Wahl
+ * für die globalen Werte (Projektname, Referenzzeit, Raum, Kamera).
+ *
+ * ============================================================================
+ */
+
+import type {
+    CalibrationData,
+    ScreenshotCalibration,
+    ScreenshotData,
+    ScreenshotShadows,
+    SessionData,
+    ShadowObject
+} from '../models/session.types';
+
+// ============================================================================
+// TYPEN
+// ============================================================================
+
+export type MergeSide = 'mine' | 'theirs';
+
+export interface MergeChoices {
+    /** Projektname, Raummaße, Kamera, Anzeige-Zoom, Validierung */
+    global: MergeSide;
+
+    /** Pro Screenshot-ID; fehlende Einträge = global */
+    screenshots: Record<string, MergeSide>;
+}
+
+export interface ScreenshotDiff {
+    screenshotId: string;
+    filename: string;
+    calibration: string[];
+    shadows: string[];
+
+    /** Screenshot fehlt auf der anderen Seite - wählt man sie, entfällt er */
+    onlyOn?: MergeSide;
+}
+
+export interface SessionDiff {
+    global: string[];
+
+    /** Nur Screenshots mit Unterschieden */
+    screenshots: ScreenshotDiff[];
+}
+
+/**
+ * Session wurde seit dem Laden von anderer Seite gespeichert
+ */
+export class SessionConflictError extends Error {
+    constructor(
+        public readonly sessionId: string,
+        public readonly mine: SessionData,
+        public readonly theirs: SessionData
+    ) {
+        super(`Session ${sessionId} wurde zwischenzeitlich geändert (${theirs.meta.lastModified})`);
+        this.name = 'SessionConflictError';
+    }
+}
+
+// ============================================================================
+// DIFF
+// ============================================================================
+
+function same(a: unknown, b: unknown): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function calibrationOf(session: SessionData, screenshotId: string): ScreenshotCalibration | undefined {
+    return session.calibration?.screenshots.find(s => s.screenshotId === screenshotId);
+}
+
+function shadowsOf(session: SessionData, screenshotId: string): ScreenshotShadows | undefined {
+    return session.shadows?.find(s => s.screenshotId === screenshotId);
+}
+
+function diffCalibration(mine?: ScreenshotCalibration, theirs?: ScreenshotCalibration): string[] {
+    if (!mine && !theirs) return [];
+    if (!theirs) return ['Nur lokal kalibriert'];
+    if (!mine) return ['Nur auf dem Server kalibriert'];
+
+    const changes: string[] = [];
+    if (!same(mine.cameraRotation, theirs.cameraRotation)) {
+        const r = (c: ScreenshotCalibration) => `${c.cameraRotation.x.toFixed(1)}/${c.cameraRotation.y.toFixed(1)}/${c.cameraRotation.z.toFixed(1)}°`;
+        changes.push(`Kamera-Rotation: ${r(mine)} ↔ ${r(theirs)}`);
+    }
+    if (!same(mine.display, theirs.display)) {
+        changes.push('Bild-Ausrichtung (Zoom/Versatz/Drehung)');
+    }
+    if (mine.completed !== theirs.completed) {
+        changes.push(`Abgeschlossen: ${mine.completed ? 'ja' : 'nein'} ↔ ${theirs.completed ? 'ja' : 'nein'}`);
+    }
+    return changes;
+}
+
+function diffObjects(mine: ShadowObject[], theirs: ShadowObject[]): string[] {
+    const changes: string[] = [];
+
+    for (const object of mine) {
+        const other = theirs.find(o => o.id === object.id);
+        if (!other) {
+            changes.push(`Objekt "${object.name}" nur lokal`);
+        } else if (object.pairs.length !== other.pairs.length) {
+            changes.push(`Objekt "${object.name}": ${object.pairs.length} ↔ ${other.pairs.length} Paare`);
+        } else if (!same(object.pairs, other.pairs) || object.name !== other.name) {
+            changes.push(`Objekt "${object.name}": Punkte/Name geändert`);
+        }
+    }
+    for (const object of theirs) {
+        if (!mine.some(o => o.id === object.id)) {
+            changes.push(`Objekt "${object.name}" nur auf dem Server`);
+        }
+    }
+    return changes;
+}
+
+function diffGlobal(mine: SessionData, theirs: SessionData): string[] {
+    const changes: string[] = [];
+    const a = mine.calibration;
+    const b = theirs.calibration;
+
+    if (mine.meta.projectName !== theirs.meta.projectName) {
+        changes.push(`Projektname: "${mine.meta.projectName}" ↔ "${theirs.meta.projectName}"`);
+    }
+    if (!same(mine.timeReference, theirs.timeReference)) {
+        changes.push('Referenzzeit (t0) / Zeitzone');
+    }
+    if (!a !== !b) {
+        changes.push(a ? 'Kalibrierung nur lokal' : 'Kalibrierung nur auf dem Server');
+    } else if (a && b) {
+        if (!same(a.room, b.room)) {
+            changes.push(`Raummaße: ${a.room.width}×${a.room.depth}×${a.room.height} ↔ ${b.room.width}×${b.room.depth}×${b.room.height} m`);
+        }
+        if (!same(a.surfaces ?? null, b.surfaces ?? null)) changes.push('Raumgeometrie');
+        if (!same(a.camera.position, b.camera.position)) changes.push('Kameraposition');
+        if (a.camera.fovY !== b.camera.fovY) changes.push(`Sichtfeld: ${a.camera.fovY}° ↔ ${b.camera.fovY}°`);
+        if (!same(a.camera.distortion ?? null, b.camera.distortion ?? null)) changes.push('Linsenverzeichnung');
+        if (a.globalDisplayZoom !== b.globalDisplayZoom) changes.push('Anzeige-Zoom');
+    }
+    return changes;
+}
+
+function hasScreenshot(session: SessionData, screenshotId: string): boolean {
+    return session.screenshots.some(s => s.id === screenshotId);
+}
+
+function onlyOn(mine: SessionData, theirs: SessionData, screenshotId: string): MergeSide | null {
+    if (!hasScreenshot(theirs, screenshotId)) return 'mine';
+    if (!hasScreenshot(mine, screenshotId)) return 'theirs';
+    return null;
+}
+
+function screenshotIds(mine: SessionData, theirs: SessionData): ScreenshotData[] {
+    const all = [...mine.screenshots];
+    for (const screenshot of theirs.screenshots) {
+        if (!all.some(s => s.id === screenshot.id)) all.push(screenshot);
+    }
+    return all;
+}
+
+/**
+ * Unterschiede zwischen lokalem ("mine") und Server-Stand ("theirs")
+ */
+export function diffSessions(mine: SessionData, theirs: SessionData): SessionDiff {
+    const screenshots = screenshotIds(mine, theirs)
+        .map((screenshot): ScreenshotDiff => {
+            const side = onlyOn(mine, theirs, screenshot.id);
+            return {
+                screenshotId: screenshot.id,
+                filename: screenshot.filename,
+                calibration: diffCalibration(calibrationOf(mine, screenshot.id), calibrationOf(theirs, screenshot.id)),
+                shadows: diffObjects(shadowsOf(mine, screenshot.id)?.objects ?? [], shadowsOf(theirs, screenshot.id)?.objects ?? []),
+                ...(side ? { onlyOn: side } : {})
+            };
+        })
+        .filter(diff => diff.calibration.length > 0 || diff.shadows.length > 0);
+
+    return { global: diffGlobal(mine, theirs), screenshots };
+}
+
+// ============================================================================
+// MERGE
+// ============================================================================
+
+/**
+ * Setzt eine Session aus beiden Ständen zusammen
+ *
+ * Screenshots: Vereinigung beider Listen. Kalibrierung und Schatten eines
+ * Screenshots kommen vollständig von der gewählten Seite; ist er explizit
+ * einer Seite zugeordnet, die ihn nicht hat, fehlt er im Ergebnis ganz.
+ * Die Undo-History wird verworfen.
+ */
+export function mergeSessions(mine: SessionData, theirs: SessionData, choices: MergeChoices): SessionData {
+    const pick = (side: MergeSide) => side === 'mine' ? mine : theirs;
+    const global = pick(choices.global);
+    const sideOf = (screenshotId: string) => pick(choices.screenshots[screenshotId] ?? choices.global);
+
+    const screenshots = screenshotIds(global, global === mine ? theirs : mine).filter(s => {
+        const side = choices.screenshots[s.id];
+        return side === undefined || hasScreenshot(pick(side), s.id);
+    });
+
+    const calibrationBase = global.calibration ?? mine.calibration ?? theirs.calibration;
+    const calibration: CalibrationData | null = calibrationBase && {
+        ...calibrationBase,
+        screenshots: screenshots
+            .map(s => calibrationOf(sideOf(s.id), s.id))
+            .filter((c): c is ScreenshotCalibration => c !== undefined)
+    };
+
+    const shadowEntries = screenshots
+        .map(s => shadowsOf(sideOf(s.id), s.id))
+        .filter((s): s is ScreenshotShadows => s !== undefined);
+
+    const merged: SessionData = {
+        ...global,
+        meta: { ...global.meta },
+        screenshots,
+        calibration,
+        shadows: mine.shadows === null && theirs.shadows === null ? null : shadowEntries,
+
+        // Undo-Stände beziehen sich auf keinen der beiden Stände mehr
+        history: undefined
+    };
+
+    return JSON.parse(JSON.stringify(merged));
+}
@@ -0,0 +1,100 @@
+import { createEmptySession } from '../models/session.types';
+import { SessionSchemaError, migrateSession } from './session-schema';
+
+function legacySession() {
+  const display = { backgroundScale: 80, backgroundOffsetX: 50, backgroundOffsetY: 50, backgroundRotation: 0 };
+  const point = { normalizedX: 0.5, normalizedY: 0.5 };
+
+  return {
+    sessionId: 'old1',
+    projectName: 'Altprojekt',
+    createdAt: '2024-05-01T10:00:00.000Z',
+    screenshots: [
+      { id: 'ss1', filename: 'a.png', timestamp: 't0', isReferencePoint: true }
+    ],
+    calibration: {
+      version: '2.0',
+      room: { width: 4, height: 2.5, depth: 6 },
+      camera: { position: { x: 2, y: 1.5, z: 0.3 }, fovY: 55 },
+      screenshots: [{
+        id: 'ss1',
+        screenshotDimensions: { width: 1920, height: 1080 },
+        cameraRotation: { x: -5, y: 10, z: 0, order: 'YXZ' },
+        display,
+        completed: true
+      }]
+    },
+    shadows: {
+      version: '2.0',
+      calibrationVersion: '2.0',
+      screenshots: [{
+        screenshotId: 'ss1',
+        timestamp: 't0',
+        objects: [{
+          id: 'obj1',
+          name: 'Stuhl',
+          pairs: [
+            { objectPoint: point, shadowPoint: { ...point, wall: 'floor' }, _displayCache: {} },
+            { objectPoint: point, shadowPoint: { ...point, wall: 'ceiling' } }
+          ]
+        }]
+      }]
+    }
+  };
+}
+
+describe('session-schema', () => {
+  it('should migrate an unversioned v2.0 session to v3.0 with a report', () => {
+    const input = legacySession();
+    const { session, report } = migrateSession(input, '2025-01-01T00:00:00.000Z');
+
+    expect(report.fromVersion).toBe('2.0');
+    expect(report.steps).toEqual(['2.0 → 3.0']);
+    expect(report.changes.some(c => c.includes('Decke'))).toBe(true);
+
+    expect(session.version).toBe('3.0');
+    expect(session.meta).toEqual({
+      projectName: 'Altprojekt',
+      cameraType: 'static',
+      createdAt: '2024-05-01T10:00:00.000Z',
+      lastModified: '2024-05-01T10:00:00.000Z'
+    });
+    expect(session.screenshots[0].dimensions).toEqual({ width: 1920, height: 1080 });
+    expect(session.calibration!.screenshots[0]).toEqual({
+      screenshotId: 'ss1',
+      cameraRotation: { x: -5, y: 10, z: 0 },
+      display: input.calibration.screenshots[0].display,
+      completed: true
+    });
+    expect(session.calibration!.globalDisplayZoom).toBe(80);
+    expect(session.shadows![0].objects[0].pairs).toEqual([
+      { objectPoint: { normalizedX: 0.5, normalizedY: 0.5 }, shadowPoint: { normalizedX: 0.5, normalizedY: 0.5, wall: 'floor' } }
+    ]);
+
+    // Eingabe bleibt unverändert
+    expect(input.calibration.screenshots[0].id).toBe('ss1');
+  });
+
+  it('should pass current sessions through unchanged', () => {
+    const current = createEmptySession('s1', 'Aktuell');
+    const { session, report } = migrateSession(current);
+
+    expect(session).toEqual(current);
+    expect(session).not.toBe(current);
+    expect(report).toEqual({ fromVersion: '3.0', toVersion: '3.0', steps: [], changes: [] });
+  });
+
+  it('should reject unknown versions and invalid shapes', () => {
+    expect(() => migrateSession({ version: '9.0' })).toThrow('nicht unterstützt');
+    expect(() => migrateSession('kaputt')).toThrow(SessionSchemaError);
+
+    const broken = { ...createEmptySession('s1', 'X'), calibration: { room: { width: 'breit' } } };
+    try {
+      migrateSession(broken);
+      expect.unreachable();
+    } catch (err) {
+      expect(err).toBeInstanceOf(SessionSchemaError);
+      expect((err as SessionSchemaError).details).toContain('calibration.room.width ist kein number');
+    }
+  });
+});
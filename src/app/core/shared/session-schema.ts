@@ -0,0 +1,592 @@
+/**
+ * ============================================================================
+ * SESSION-SCHEMA (Registry, Validierung, Migration)
+ * ============================================================================
+ *
+ * Jede bekannte Schema-Version hat einen Laufzeit-Validator und - außer der
+ * aktuellen - eine Migration auf die nächste Version:
+ *
+ *   2.0  Sessions der Koordinatensystem-Pipeline (coordinate-system.ts):
+ *        CalibrationData/ShadowData v2.0 mit eigener Versionsnummer,
+ *        screenshotDimensions in der Kalibrierung, ShadowData als Objekt
+ *   3.0  SessionData (session.types.ts) - aktuelles Modell
+ *
+ * migrateSession() prüft vor und nach jedem Schritt gegen das jeweilige
+ * Schema und arbeitet auf einer Kopie. Entweder kommt eine vollständige
+ * v3.0-Session heraus oder ein SessionSchemaError - nie ein halb gelesenes
+ * Objekt.
+ *
+ * ============================================================================
+ */
+
+import type {
+    CalibrationData as CalibrationDataV2,
+    ShadowData as ShadowDataV2
+} from './coordinate-system';
+import type {
+    MetaData,
+    ScreenshotData,
+    SessionData,
+    ValidationData
+} from '../models/session.types';
+
+// ============================================================================
+// KONSTANTEN
+// ============================================================================
+
+export const CURRENT_SESSION_VERSION: SessionData['version'] = '3.0';
+
+const WALLS_V2 = ['front', 'back', 'left', 'right', 'floor', 'ceiling'];
+const WALLS_V3 = ['back', 'left', 'right', 'front', 'floor'];
+const VALIDATION_STATUSES = ['pending', 'valid', 'warning', 'error'];
+const DISTORTION_MODELS = ['brown-conrady', 'fisheye'];
+const SURFACE: Record<string, FieldType> = { name: 'string' };
+
+/** globalDisplayZoom, falls aus v2.0-Daten nicht ableitbar */
+const DEFAULT_DISPLAY_ZOOM = 50;
+
+// ============================================================================
+// TYPEN
+// ============================================================================
+
+/**
+ * Session v2.0 (vor SessionData v3.0)
+ *
+ * Metadaten lagen teils noch auf oberster Ebene.
+ */
+export interface SessionDataV2 {
+    version?: '2.0';
+    sessionId: string;
+    meta?: Partial<MetaData>;
+    projectName?: string;
+    createdAt?: string;
+    screenshots: ScreenshotData[];
+    calibration: CalibrationDataV2 | null;
+    shadows: ShadowDataV2 | null;
+    validation?: ValidationData;
+}
+
+/**
+ * Was beim Laden geändert wurde
+ */
+export interface SessionMigrationReport {
+    fromVersion: string;
+    toVersion: string;
+
+    /** Durchlaufene Migrationen, z.B. "2.0 → 3.0" (leer = bereits aktuell) */
+    steps: string[];
+
+    /** Einzelne Änderungen in lesbarer Form */
+    changes: string[];
+}
+
+export interface SessionMigrationResult {
+    session: SessionData;
+    report: SessionMigrationReport;
+}
+
+/**
+ * Session-JSON unbekannt, ungültig oder nicht migrierbar
+ */
+export class SessionSchemaError extends Error {
+    constructor(public readonly reason: string, public readonly details: string[] = []) {
+        super(details.length > 0 ? `${reason}: ${details.join('; ')}` : reason);
+        this.name = 'SessionSchemaError';
+    }
+}
+
+interface SessionSchema {
+    validate: (value: unknown) => string[];
+
+    /** Migration auf die nächste Version (fehlt bei der aktuellen) */
+    upgrade?: {
+        to: string;
+        migrate: (value: unknown, changes: string[], now: string) => unknown;
+    };
+}
+
+// ============================================================================
+// VALIDIERUNG - HILFSFUNKTIONEN
+// ============================================================================
+
+type FieldType = 'string' | 'number' | 'boolean';
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isOneOf(value: unknown, allowed: string[]): value is string {
+    return typeof value === 'string' && allowed.includes(value);
+}
+
+function hasType(value: unknown, type: FieldType): boolean {
+    return type === 'number'
+        ? typeof value === 'number' && Number.isFinite(value)
+        : typeof value === type;
+}
+
+/**
+ * Prüft ein Objekt mit einfachen Feldern
+ *
+ * @returns das Objekt (oder null, wenn es keins ist)
+ */
+function checkObject(
+    value: unknown,
+    path: string,
+    fields: Record<string, FieldType>,
+    errors: string[]
+): Record<string, unknown> | null {
+    if (!isObject(value)) {
+        errors.push(`${path} fehlt`);
+        return null;
+    }
+
+    for (const [key, type] of Object.entries(fields)) {
+        if (!hasType(value[key], type)) errors.push(`${path}.${key} ist kein ${type}`);
+    }
+
+    return value;
+}
+
+function checkArray(value: unknown, path: string, errors: string[], check: (item: unknown, path: string) => void) {
+    if (!Array.isArray(value)) {
+        errors.push(`${path} ist kein Array`);
+        return;
+    }
+    value.forEach((item, i) => check(item, `${path}[${i}]`));
+}
+
+const XYZ: Record<string, FieldType> = { x: 'number', y: 'number', z: 'number' };
+const ROOM: Record<string, FieldType> = { width: 'number', depth: 'number', height: 'number' };
+const DISPLAY: Record<string, FieldType> = {
+    backgroundScale: 'number',
+    backgroundRotation: 'number',
+    backgroundOffsetX: 'number',
+    backgroundOffsetY: 'number'
+};
+const POINT: Record<string, FieldType> = { normalizedX: 'number', normalizedY: 'number' };
+const DISTORTION: Record<string, FieldType> = {
+    fovY: 'number', k1: 'number', k2: 'number', k3: 'number', k4: 'number', p1: 'number', p2: 'number'
+};
+
+/** Optionale Linsenverzeichnung (v3.0) */
+function checkDistortion(value: unknown, errors: string[]) {
+    if (value === undefined) return;
+
+    const distortion = checkObject(value, 'calibration.camera.distortion', DISTORTION, errors);
+    if (distortion && !isOneOf(distortion['model'], DISTORTION_MODELS)) {
+        errors.push(`calibration.camera.distortion.model "${distortion['model']}" unbekannt`);
+    }
+}
+
+/**
+ * Optionale Raumflächen (v3.0)
+ *
+ * @returns erlaubte Werte für shadowPoint.wall
+ */
+function checkSurfaces(value: unknown, errors: string[]): string[] {
+    if (value === undefined) return WALLS_V3;
+
+    const names: string[] = [];
+    checkArray(value, 'calibration.surfaces', errors, (item, path) => {
+        const surface = checkObject(item, path, SURFACE, errors);
+        if (!surface) return;
+        if (typeof surface['name'] === 'string') names.push(surface['name']);
+        checkArray(surface['vertices'], `${path}.vertices`, errors, (vertex, vertexPath) =>
+            checkObject(vertex, vertexPath, XYZ, errors)
+        );
+    });
+    return names;
+}
+
+function checkScreenshot(value: unknown, path: string, errors: string[]) {
+    const screenshot = checkObject(value, path, {
+        id: 'string', filename: 'string', timestamp: 'string', isReferencePoint: 'boolean'
+    }, errors);
+
+    if (screenshot?.['dimensions'] !== undefined) {
+        checkObject(screenshot['dimensions'], `${path}.dimensions`, { width: 'number', height: 'number' }, errors);
+    }
+    if (screenshot?.['capturedAt'] !== undefined && typeof screenshot['capturedAt'] !== 'string') {
+        errors.push(`${path}.capturedAt ist kein string`);
+    }
+    if (screenshot?.['offsetSeconds'] !== undefined && !hasType(screenshot['offsetSeconds'], 'number')) {
+        errors.push(`${path}.offsetSeconds ist kein number`);
+    }
+}
+
+function checkShadowObjects(value: unknown, path: string, walls: string[], errors: string[]) {
+    checkArray(value, path, errors, (item, objectPath) => {
+        const object = checkObject(item, objectPath, { id: 'string', name: 'string' }, errors);
+        if (!object) return;
+
+        checkArray(object['pairs'], `${objectPath}.pairs`, errors, (pair, pairPath) => {
+            if (!isObject(pair)) {
+                errors.push(`${pairPath} fehlt`);
+                return;
+            }
+            checkObject(pair['objectPoint'], `${pairPath}.objectPoint`, POINT, errors);
+            const shadowPoint = checkObject(pair['shadowPoint'], `${pairPath}.shadowPoint`, POINT, errors);
+            if (shadowPoint && !isOneOf(shadowPoint['wall'], walls)) {
+                errors.push(`${pairPath}.shadowPoint.wall "${shadowPoint['wall']}" unbekannt`);
+            }
+        });
+    });
+}
+
+function checkValidation(value: unknown, errors: string[]) {
+    if (value === undefined) return;
+
+    const validation = checkObject(value, 'validation', {}, errors);
+    if (!validation) return;
+
+    if (!isOneOf(validation['globalStatus'], VALIDATION_STATUSES)) {
+        errors.push(`validation.globalStatus "${validation['globalStatus']}" unbekannt`);
+    }
+    checkArray(validation['screenshots'], 'validation.screenshots', errors, (item, path) =>
+        checkObject(item, path, { screenshotId: 'string' }, errors)
+    );
+}
+
+function checkTimeReference(value: unknown, errors: string[]) {
+    if (value === undefined) return;
+
+    const reference = checkObject(value, 'timeReference', { localDateTime: 'string' }, errors);
+    if (!reference) return;
+
+    const zone = checkObject(reference['timeZone'], 'timeReference.timeZone', {}, errors);
+    if (zone?.['kind'] === 'iana') {
+        checkObject(zone, 'timeReference.timeZone', { zone: 'string' }, errors);
+    } else if (zone?.['kind'] === 'offset') {
+        checkObject(zone, 'timeReference.timeZone', { offsetMinutes: 'number' }, errors);
+        if (zone['dst'] !== null && typeof zone['dst'] !== 'boolean') {
+            errors.push('timeReference.timeZone.dst ist kein boolean');
+        }
+    } else if (zone && zone['kind'] !== 'unknown') {
+        errors.push(`timeReference.timeZone.kind "${zone['kind']}" unbekannt`);
+    }
+}
+
+function checkHistory(value: unknown, errors: string[]) {
+    if (value === undefined) return;
+
+    const history = checkObject(value, 'history', {}, errors);
+    if (!history) return;
+
+    for (const scope of ['calibration', 'shadows']) {
+        const stack = checkObject(history[scope], `history.${scope}`, {}, errors);
+        if (!stack) continue;
+
+        for (const direction of ['undo', 'redo']) {
+            checkArray(stack[direction], `history.${scope}.${direction}`, errors, (item, path) => {
+                const entry = checkObject(item, path, { label: 'string', at: 'string' }, errors);
+                if (entry && entry['scope'] !== scope) {
+                    errors.push(`${path}.scope "${entry['scope']}" statt "${scope}"`);
+                }
+            });
+        }
+    }
+}
+
+// ============================================================================
+// VALIDIERUNG - SCHEMATA
+// ============================================================================
+
+/**
+ * Prüft eine Session gegen SessionData v3.0
+ *
+ * @returns Liste der Verstöße (leer = gültig)
+ */
+export function validateSessionData(value: unknown): string[] {
+    const errors: string[] = [];
+
+    if (!isObject(value)) return ['Session ist kein Objekt'];
+
+    if (value['version'] !== '3.0') errors.push(`version "${value['version']}" statt "3.0"`);
+    if (typeof value['sessionId'] !== 'string') errors.push('sessionId fehlt');
+
+    const meta = checkObject(value['meta'], 'meta', {
+        projectName: 'string', createdAt: 'string', lastModified: 'string'
+    }, errors);
+    if (meta && meta['cameraType'] !== undefined && meta['cameraType'] !== 'static') {
+        errors.push(`meta.cameraType "${meta['cameraType']}" unbekannt`);
+    }
+
+    checkArray(value['screenshots'], 'screenshots', errors, (item, path) => checkScreenshot(item, path, errors));
+    checkTimeReference(value['timeReference'], errors);
+
+    let walls = WALLS_V3;
+    if (value['calibration'] !== null) {
+        const calibration = checkObject(value['calibration'], 'calibration', { globalDisplayZoom: 'number' }, errors);
+        if (calibration) {
+            checkObject(calibration['room'], 'calibration.room', ROOM, errors);
+            walls = checkSurfaces(calibration['surfaces'], errors);
+            const camera = checkObject(calibration['camera'], 'calibration.camera', { fovY: 'number' }, errors);
+            if (camera) {
+                checkObject(camera['position'], 'calibration.camera.position', XYZ, errors);
+                checkDistortion(camera['distortion'], errors);
+            }
+
+            checkArray(calibration['screenshots'], 'calibration.screenshots', errors, (item, path) => {
+                const entry = checkObject(item, path, { screenshotId: 'string', completed: 'boolean' }, errors);
+                if (!entry) return;
+                checkObject(entry['cameraRotation'], `${path}.cameraRotation`, XYZ, errors);
+                checkObject(entry['display'], `${path}.display`, DISPLAY, errors);
+            });
+        }
+    }
+
+    if (value['shadows'] !== null) {
+        checkArray(value['shadows'], 'shadows', errors, (item, path) => {
+            const entry = checkObject(item, path, { screenshotId: 'string' }, errors);
+            if (entry) checkShadowObjects(entry['objects'], `${path}.objects`, walls, errors);
+        });
+    }
+
+    checkValidation(value['validation'], errors);
+    checkHistory(value['history'], errors);
+
+    return errors;
+}
+
+/**
+ * Prüft eine Session gegen das v2.0-Schema
+ */
+function validateSessionDataV2(value: unknown): string[] {
+    const errors: string[] = [];
+
+    if (!isObject(value)) return ['Session ist kein Objekt'];
+
+    if (typeof value['sessionId'] !== 'string') errors.push('sessionId fehlt');
+
+    const projectName = isObject(value['meta']) ? value['meta']['projectName'] : value['projectName'];
+    if (typeof projectName !== 'string') errors.push('meta.projectName fehlt');
+
+    checkArray(value['screenshots'], 'screenshots', errors, (item, path) => checkScreenshot(item, path, errors));
+
+    if (value['calibration'] !== null) {
+        const calibration = checkObject(value['calibration'], 'calibration', {}, errors);
+        if (calibration) {
+            if (calibration['version'] !== '2.0') {
+                errors.push(`calibration.version "${calibration['version']}" statt "2.0"`);
+            }
+            checkObject(calibration['room'], 'calibration.room', ROOM, errors);
+            const camera = checkObject(calibration['camera'], 'calibration.camera', { fovY: 'number' }, errors);
+            if (camera) checkObject(camera['position'], 'calibration.camera.position', XYZ, errors);
+
+            checkArray(calibration['screenshots'], 'calibration.screenshots', errors, (item, path) => {
+                const entry = checkObject(item, path, { id: 'string', completed: 'boolean' }, errors);
+                if (!entry) return;
+                checkObject(entry['screenshotDimensions'], `${path}.screenshotDimensions`,
+                    { width: 'number', height: 'number' }, errors);
+                checkObject(entry['cameraRotation'], `${path}.cameraRotation`, XYZ, errors);
+                checkObject(entry['display'], `${path}.display`, DISPLAY, errors);
+            });
+        }
+    }
+
+    if (value['shadows'] !== null) {
+        const shadows = checkObject(value['shadows'], 'shadows', {}, errors);
+        if (shadows) {
+            if (shadows['version'] !== '2.0') {
+                errors.push(`shadows.version "${shadows['version']}" statt "2.0"`);
+            }
+            checkArray(shadows['screenshots'], 'shadows.screenshots', errors, (item, path) => {
+                const entry = checkObject(item, path, { screenshotId: 'string' }, errors);
+                if (entry) checkShadowObjects(entry['objects'], `${path}.objects`, WALLS_V2, errors);
+            });
+        }
+    }
+
+    checkValidation(value['validation'], errors);
+
+    return errors;
+}
+
+// ============================================================================
+// MIGRATIONEN
+// ============================================================================
+
+/**
+ * 2.0 → 3.0
+ *
+ * - Metadaten nach meta, cameraType 'static'
+ * - calibration.screenshots[].id → screenshotId
+ * - screenshotDimensions → ScreenshotData.dimensions
+ * - cameraRotation.order, calibration.version entfallen; globalDisplayZoom neu
+ * - ShadowData → ScreenshotShadows[] (timestamp, calibrationVersion,
+ *   _displayCache entfallen; Schatten an der Decke gibt es in v3.0 nicht)
+ */
+function migrateV2ToV3(session: SessionDataV2, changes: string[], now: string): SessionData {
+    const meta = session.meta ?? {};
+    const createdAt = meta.createdAt ?? session.createdAt;
+
+    if (!session.meta) changes.push('Metadaten von oberster Ebene nach meta verschoben');
+    if (!createdAt) changes.push('meta.createdAt fehlte → Migrationszeitpunkt');
+
+    const screenshots: ScreenshotData[] = session.screenshots.map(s => ({ ...s }));
+
+    let calibration: SessionData['calibration'] = null;
+    if (session.calibration) {
+        const v2 = session.calibration;
+
+        for (const entry of v2.screenshots) {
+            const screenshot = screenshots.find(s => s.id === entry.id);
+            const { width, height } = entry.screenshotDimensions;
+
+            if (!screenshot) {
+                changes.push(`Kalibrierung ${entry.id}: kein passender Screenshot, screenshotDimensions verworfen`);
+            } else if (!screenshot.dimensions) {
+                screenshot.dimensions = { width, height };
+                changes.push(`Screenshot ${entry.id}: dimensions aus calibration.screenshotDimensions übernommen`);
+            } else if (screenshot.dimensions.width !== width || screenshot.dimensions.height !== height) {
+                changes.push(
+                    `Screenshot ${entry.id}: screenshotDimensions ${width}×${height} weichen ab, ` +
+                    `${screenshot.dimensions.width}×${screenshot.dimensions.height} beibehalten`
+                );
+            }
+        }
+
+        const globalDisplayZoom = v2.screenshots[0]?.display.backgroundScale ?? DEFAULT_DISPLAY_ZOOM;
+        changes.push(`calibration: id → screenshotId, cameraRotation.order entfernt, globalDisplayZoom = ${globalDisplayZoom}`);
+
+        calibration = {
+            room: { width: v2.room.width, depth: v2.room.depth, height: v2.room.height },
+            camera: {
+                position: { ...v2.camera.position },
+                fovY: v2.camera.fovY
+            },
+            globalDisplayZoom,
+            screenshots: v2.screenshots.map(entry => ({
+                screenshotId: entry.id,
+                cameraRotation: { x: entry.cameraRotation.x, y: entry.cameraRotation.y, z: entry.cameraRotation.z },
+                display: { ...entry.display },
+                completed: entry.completed
+            }))
+        };
+    }
+
+    let shadows: SessionData['shadows'] = null;
+    if (session.shadows) {
+        let ceilingPairs = 0;
+
+        shadows = session.shadows.screenshots.map(entry => ({
+            screenshotId: entry.screenshotId,
+            objects: entry.objects.map(object => ({
+                id: object.id,
+                name: object.name,
+                pairs: object.pairs.flatMap(pair => {
+                    const { normalizedX, normalizedY, wall } = pair.shadowPoint;
+                    if (wall === 'ceiling') {
+                        ceilingPairs++;
+                        return [];
+                    }
+                    return [{ objectPoint: { ...pair.objectPoint }, shadowPoint: { normalizedX, normalizedY, wall } }];
+                })
+            }))
+        }));
+
+        changes.push('shadows: ShadowData → Liste pro Screenshot (timestamp, calibrationVersion entfernt)');
+        if (ceilingPairs > 0) {
+            changes.push(`${ceilingPairs} Schatten-Paar(e) an der Decke entfernt (in v3.0 nicht unterstützt)`);
+        }
+    }
+
+    return {
+        version: '3.0',
+        sessionId: session.sessionId,
+        meta: {
+            projectName: (meta.projectName ?? session.projectName)!,
+            cameraType: 'static',
+            createdAt: createdAt ?? now,
+            lastModified: meta.lastModified ?? createdAt ?? now
+        },
+        screenshots,
+        calibration,
+        shadows,
+        ...(session.validation ? { validation: session.validation } : {})
+    };
+}
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+const SESSION_SCHEMAS: Record<string, SessionSchema> = {
+    '2.0': {
+        validate: validateSessionDataV2,
+        // migrateSession ruft migrate erst nach validateSessionDataV2 auf
+        upgrade: { to: '3.0', migrate: (value, changes, now) => migrateV2ToV3(value as SessionDataV2, changes, now) }
+    },
+    '3.0': {
+        validate: validateSessionData
+    }
+};
+
+export const SUPPORTED_SESSION_VERSIONS = Object.keys(SESSION_SCHEMAS);
+
+/**
+ * Schema-Version eines Session-JSON
+ *
+ * Unversionierte Sessions der v2.0-Pipeline tragen die Version nur in
+ * calibration/shadows.
+ */
+export function detectSessionVersion(value: unknown): string | null {
+    if (!isObject(value)) return null;
+    if (typeof value['version'] === 'string') return value['version'];
+
+    for (const part of [value['calibration'], value['shadows']]) {
+        if (isObject(part) && typeof part['version'] === 'string') return part['version'];
+    }
+    return null;
+}
+
+/**
+ * Prüft ein beliebiges Session-JSON und hebt es auf die aktuelle Version an
+ *
+ * @param now - Zeitpunkt für fehlende Datumsangaben
+ * @throws SessionSchemaError bei unbekannter Version oder Schema-Verstoß
+ */
+export function migrateSession(value: unknown, now = new Date().toISOString()): SessionMigrationResult {
+    const fromVersion = detectSessionVersion(value);
+
+    if (fromVersion === null) {
+        throw new SessionSchemaError('Session-Version nicht erkennbar');
+    }
+    if (!SESSION_SCHEMAS[fromVersion]) {
+        throw new SessionSchemaError(
+            `Session-Version "${fromVersion}" wird nicht unterstützt (bekannt: ${SUPPORTED_SESSION_VERSIONS.join(', ')})`
+        );
+    }
+
+    // Auf einer Kopie arbeiten: der Aufrufer sieht nie ein halb migriertes Objekt
+    let current: unknown = JSON.parse(JSON.stringify(value));
+    let version = fromVersion;
+    const steps: string[] = [];
+    const changes: string[] = [];
+
+    for (;;) {
+        const schema = SESSION_SCHEMAS[version];
+        const errors = schema.validate(current);
+
+        if (errors.length > 0) {
+            throw new SessionSchemaError(
+                steps.length === 0
+                    ? `Session entspricht nicht Schema v${version}`
+                    : `Migration ${steps.join(', ')} ergab keine gültige v${version}-Session`,
+                errors
+            );
+        }
+
+        if (!schema.upgrade) break;
+
+        current = schema.upgrade.migrate(current, changes, now);
+        steps.push(`${version} → ${schema.upgrade.to}`);
+        version = schema.upgrade.to;
+    }
+
+    return {
+        session: current as SessionData,
+        report: { fromVersion, toVersion: version, steps, changes }
+    };
+}
@@ -0,0 +1,84 @@
+import { ScreenshotData, createEmptySession } from '../models/session.types';
+import {
+  absoluteTime,
+  formatUtcOffset,
+  offsetLabel,
+  screenshotOffset,
+  sessionTimeReference,
+  timeReferenceFromCapture
+} from './session-time';
+import { validateSessionData } from './session-schema';
+import { loadTimeZoneRules } from './time-zones';
+
+function screenshot(id: string, timestamp: string, extra: Partial<ScreenshotData> = {}): ScreenshotData {
+  return { id, filename: `${id}.png`, timestamp, isReferencePoint: timestamp === 't0', ...extra };
+}
+
+describe('session-time', () => {
+  beforeAll(() => loadTimeZoneRules());
+
+  it('should compute local and UTC time per screenshot from the reference', () => {
+    const reference = timeReferenceFromCapture('2024-06-12T14:30:35+02:00', 30)!;
+    expect(reference).toEqual({
+      localDateTime: '2024-06-12T14:30:05',
+      timeZone: { kind: 'offset', offsetMinutes: 120, dst: null }
+    });
+
+    expect(absoluteTime({ ...reference, timeZone: { kind: 'offset', offsetMinutes: 120, dst: true } }, 90)).toEqual({
+      local: '2024-06-12T14:31:35',
+      utc: '2024-06-12T12:31:35Z',
+      zoneLabel: 'UTC+02:00',
+      dstLabel: 'Sommerzeit angenommen'
+    });
+
+    // Ohne Zone nur Wanduhrzeit
+    const unknown = absoluteTime({ localDateTime: '2024-06-12T23:59:50', timeZone: { kind: 'unknown' } }, 20)!;
+    expect(unknown.local).toBe('2024-06-13T00:00:10');
+    expect(unknown.utc).toBeNull();
+
+    expect(formatUtcOffset(-210)).toBe('UTC-03:30');
+    expect(formatUtcOffset(0)).toBe('UTC');
+  });
+
+  it('should read offsets from offsetSeconds or the legacy label and fall back to capturedAt', () => {
+    expect(screenshotOffset(screenshot('a', 't0+30'))).toBe(30);
+    expect(screenshotOffset(screenshot('b', 't0+30', { offsetSeconds: 29.5 }))).toBe(29.5);
+    expect(offsetLabel(12.5)).toBe('t0+12.5');
+    expect(offsetLabel(-5)).toBe('t0-5');
+    expect(offsetLabel(40, true)).toBe('t0');
+
+    const session = createEmptySession('s1', 'Projekt');
+    session.screenshots = [screenshot('a', 't0'), screenshot('b', 't0+60', { offsetSeconds: 60, capturedAt: '2024-06-12T14:31:05' })];
+    expect(sessionTimeReference(session)).toEqual({ localDateTime: '2024-06-12T14:30:05', timeZone: { kind: 'unknown' } });
+
+    session.timeReference = { localDateTime: '2024-06-12T12:00:00', timeZone: { kind: 'offset', offsetMinutes: 60, dst: false } };
+    expect(sessionTimeReference(session)).toBe(session.timeReference);
+    expect(validateSessionData(JSON.parse(JSON.stringify(session)))).toEqual([]);
+
+    session.timeReference = { localDateTime: '2024-06-12T12:00:00', timeZone: { kind: 'iana', zone: 'Europe/Berlin' } };
+    expect(validateSessionData(JSON.parse(JSON.stringify(session)))).toEqual([]);
+
+    const invalid = { ...session, timeReference: { localDateTime: '2024-06-12T12:00:00', timeZone: { kind: 'iana' } } };
+    expect(validateSessionData(invalid)).toEqual(['timeReference.timeZone.zone ist kein string']);
+    const unknownKind = { ...session, timeReference: { localDateTime: '2024-06-12T12:00:00', timeZone: { kind: 'lmt' } } };
+    expect(validateSessionData(unknownKind)).toEqual(['timeReference.timeZone.kind "lmt" unbekannt']);
+  });
+
+  it('should apply the zone rules at each screenshot instant for an IANA zone', () => {
+    // t0 kurz vor der Umstellung auf Sommerzeit (31.03.2024, 02:00 → 03:00)
+    const reference = { localDateTime: '2024-03-31T01:59:00', timeZone: { kind: 'iana' as const, zone: 'Europe/Berlin' } };
+
+    expect(absoluteTime(reference)).toEqual({
+      local: '2024-03-31T01:59:00',
+      utc: '2024-03-31T00:59:00Z',
+      zoneLabel: 'Europe/Berlin (UTC+01:00)',
+      dstLabel: 'Normalzeit (keine Sommerzeit)'
+    });
+    expect(absoluteTime(reference, 120)).toEqual({
+      local: '2024-03-31T03:01:00',
+      utc: '2024-03-31T01:01:00Z',
+      zoneLabel: 'Europe/Berlin (UTC+02:00)',
+      dstLabel: 'Sommerzeit angenommen'
+    });
+  });
+});
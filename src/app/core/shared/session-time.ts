@@ -0,0 +1,178 @@
+/**
+ * ============================================================================
+ * SESSION-TIME (absolute Zeit statt "t0+N")
+ * ============================================================================
+ *
+ * Die Session speichert die Zeitachse numerisch:
+ *
+ *   SessionData.timeReference      Wanduhrzeit von t0 + Zeitzone
+ *                                  (IANA-Zone, feste UTC-Abweichung oder unbekannt)
+ *   ScreenshotData.offsetSeconds   Sekunden nach t0
+ *
+ * Daraus ergibt sich für jeden Screenshot eine absolute Zeit - lokal und,
+ * wenn die Zone bekannt ist, in UTC. Bei einer IANA-Zone gilt für jeden
+ * Screenshot die Abweichung zu seinem Zeitpunkt (Zeitumstellung zwischen
+ * den Screenshots, siehe time-zones.ts). ScreenshotData.timestamp ("t0+30")
+ * bleibt als Anzeige-Label erhalten; Sessions ohne offsetSeconds werden
+ * über dieses Label gelesen.
+ *
+ * Ohne timeReference wird t0 aus der erkannten Aufnahmezeit eines
+ * Screenshots abgeleitet (capturedAt, siehe image-timestamp.ts).
+ *
+ * ============================================================================
+ */
+
+import type { ScreenshotData, SessionData, TimeReference, TimeZoneInfo } from '../models/session.types';
+import { parseDateText, shiftCapturedAt } from './image-timestamp';
+import { parseTimestampOffset } from './geolocation-fusion';
+import { isDaylightSavingTime, localToUtc, zoneOffsetMinutes } from './time-zones';
+
+// ============================================================================
+// KONSTANTEN & TYPEN
+// ============================================================================
+
+export interface AbsoluteTime {
+    /** Wanduhrzeit "YYYY-MM-DDTHH:MM:SS" */
+    local: string;
+
+    /** "YYYY-MM-DDTHH:MM:SSZ", null wenn die Zone unbekannt ist */
+    utc: string | null;
+
+    /** "UTC+02:00", "Europe/Berlin (UTC+02:00)" bzw. "Zone unbekannt" */
+    zoneLabel: string;
+
+    /** Annahme zur Sommerzeit in lesbarer Form */
+    dstLabel: string;
+}
+
+// ============================================================================
+// OFFSETS
+// ============================================================================
+
+function roundOffset(seconds: number): number {
+    return Math.round(seconds * 100) / 100;
+}
+
+/**
+ * Sekunden nach t0 (offsetSeconds, sonst aus dem Label)
+ */
+export function screenshotOffset(screenshot: ScreenshotData): number {
+    return screenshot.offsetSeconds ?? parseTimestampOffset(screenshot.timestamp);
+}
+
+/**
+ * Label "t0" / "t0+30" / "t0-5" für einen Offset
+ */
+export function offsetLabel(offsetSeconds: number, isReferencePoint = false): string {
+    if (isReferencePoint) return 't0';
+
+    const offset = roundOffset(offsetSeconds || 0);
+    return offset < 0 ? `t0${offset}` : `t0+${offset}`;
+}
+
+// ============================================================================
+// ZEITZONEN
+// ============================================================================
+
+/**
+ * "UTC", "UTC+02:00", "UTC-03:30"
+ */
+export function formatUtcOffset(offsetMinutes: number): string {
+    if (offsetMinutes === 0) return 'UTC';
+
+    const sign = offsetMinutes < 0 ? '-' : '+';
+    const abs = Math.abs(offsetMinutes);
+    return `UTC${sign}${String(Math.floor(abs / 60)).padStart(2, '0')}:${String(abs % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Zone aus dem Suffix einer Aufnahmezeit ("Z", "+02:00" oder keins)
+ */
+export function timeZoneFromCapturedAt(capturedAt: string): TimeZoneInfo {
+    const zone = parseDateText(capturedAt)?.zone;
+    if (!zone) return { kind: 'unknown' };
+    if (zone === 'Z') return { kind: 'offset', offsetMinutes: 0, dst: null };
+
+    const sign = zone.startsWith('-') ? -1 : 1;
+    const [hours, minutes] = zone.slice(1).split(':').map(Number);
+    return { kind: 'offset', offsetMinutes: sign * (hours * 60 + minutes), dst: null };
+}
+
+export function dstAssumptionLabel(zone: TimeZoneInfo): string {
+    if (zone.kind === 'unknown') return 'Sommerzeit unbekannt';
+    if (zone.kind === 'iana') return 'Sommerzeit nach den Regeln der Zone';
+    if (zone.dst === true) return 'Sommerzeit angenommen';
+    if (zone.dst === false) return 'Normalzeit (keine Sommerzeit)';
+    return 'Sommerzeit: keine Angabe';
+}
+
+// ============================================================================
+// ABSOLUTE ZEIT
+// ============================================================================
+
+/**
+ * t0 aus der Aufnahmezeit eines Screenshots mit bekanntem Offset
+ */
+export function timeReferenceFromCapture(capturedAt: string, offsetSeconds = 0): TimeReference | null {
+    const shifted = shiftCapturedAt(capturedAt, -offsetSeconds);
+    if (!shifted) return null;
+
+    return {
+        localDateTime: shifted.slice(0, 19),
+        timeZone: timeZoneFromCapturedAt(capturedAt)
+    };
+}
+
+/**
+ * Bezugspunkt einer Session: gespeicherte timeReference, sonst aus der
+ * erkannten Aufnahmezeit des ersten Screenshots, der eine hat
+ */
+export function sessionTimeReference(session: SessionData): TimeReference | null {
+    if (session.timeReference) return session.timeReference;
+
+    const screenshot = session.screenshots.find(s => s.capturedAt);
+    return screenshot ? timeReferenceFromCapture(screenshot.capturedAt!, screenshotOffset(screenshot)) : null;
+}
+
+/**
+ * Absolute Zeit eines Screenshots (offsetSeconds nach t0)
+ */
+export function absoluteTime(reference: TimeReference, offsetSeconds = 0): AbsoluteTime | null {
+    const parsed = parseDateText(reference.localDateTime);
+    if (!parsed) return null;
+
+    const wallClock = Date.parse(`${parsed.date}T${parsed.time}Z`) + Math.round(offsetSeconds * 1000);
+    const local = new Date(wallClock).toISOString().slice(0, 19);
+    const zone = reference.timeZone;
+
+    if (zone.kind === 'iana') return absoluteTimeInZone(parsed.date, parsed.time, zone.zone, offsetSeconds);
+
+    return {
+        local,
+        utc: zone.kind === 'offset'
+            ? `${new Date(wallClock - zone.offsetMinutes * 60000).toISOString().slice(0, 19)}Z`
+            : null,
+        zoneLabel: zone.kind === 'offset' ? formatUtcOffset(zone.offsetMinutes) : 'Zone unbekannt',
+        dstLabel: dstAssumptionLabel(zone)
+    };
+}
+
+/**
+ * Absolute Zeit bei IANA-Zone: t0 nach UTC, Offset in UTC addieren und die
+ * Lokalzeit mit der Abweichung zu diesem Zeitpunkt bilden
+ */
+function absoluteTimeInZone(date: string, time: string, zone: string, offsetSeconds: number): AbsoluteTime | null {
+    const t0 = localToUtc(date, time, zone);
+    if (!t0) return null;
+
+    const instant = Date.parse(`${date}T${time}Z`) - t0.offsetMinutes * 60000 + Math.round(offsetSeconds * 1000);
+    const offsetMinutes = zoneOffsetMinutes(zone, instant);
+    const dst = isDaylightSavingTime(zone, instant);
+
+    return {
+        local: new Date(instant + offsetMinutes * 60000).toISOString().slice(0, 19),
+        utc: `${new Date(instant).toISOString().slice(0, 19)}Z`,
+        zoneLabel: `${zone} (${formatUtcOffset(offsetMinutes)})`,
+        dstLabel: dstAssumptionLabel({ kind: 'offset', offsetMinutes, dst })
+    };
+}
@@ -0,0 +1,62 @@
+import {
+  calculateSolarPosition,
+  compareSolarPositions,
+  julianDay,
+  parseUtcDateTime,
+  solarDeclinationAndEquationOfTime
+} from './solar-position';
+
+describe('solar-position', () => {
+  it('should compute the Julian day of J2000.0', () => {
+    expect(julianDay(new Date('2000-01-01T12:00:00Z'))).toBeCloseTo(2451545.0, 6);
+  });
+
+  // Meeus, Astronomical Algorithms, Beispiel 25.a und 28.b (1992-10-13 0h TD)
+  it('should match Meeus declination and equation of time', () => {
+    const { declination, equationOfTime } = solarDeclinationAndEquationOfTime(
+      new Date('1992-10-13T00:00:00Z')
+    );
+    expect(declination).toBeCloseTo(-7.78507, 3);
+    expect(equationOfTime).toBeCloseTo(13.71, 1);
+  });
+
+  // NREL SPA (Reda & Andreas 2004), Tabelle A4.1: Golden, Colorado
+  it('should match the NREL SPA reference position', () => {
+    const position = calculateSolarPosition(
+      39.742476,
+      -105.1786,
+      new Date('2003-10-17T19:30:30Z'),
+      { pressure: 820, temperature: 11 }
+    );
+    expect(position.zenith).toBeCloseTo(50.11162, 2);
+    expect(position.azimuth).toBeCloseTo(194.34024, 2);
+  });
+
+  it('should put the sun due south/north at solar noon depending on hemisphere', () => {
+    const berlin = calculateSolarPosition(52.52, 13.405, new Date('2024-06-21T11:08:20Z'));
+    expect(berlin.azimuth).toBeCloseTo(180, 0);
+    expect(berlin.elevation).toBeCloseTo(90 - 52.52 + 23.44, 0);
+
+    const sydney = calculateSolarPosition(-33.87, 151.21, new Date('2024-06-21T01:57:00Z'));
+    expect(Math.min(sydney.azimuth, 360 - sydney.azimuth)).toBeLessThan(1);
+  });
+
+  it('should report negative elevation at night', () => {
+    const position = calculateSolarPosition(48.14, 11.58, new Date('2024-01-15T00:00:00Z'));
+    expect(position.elevation).toBeLessThan(-30);
+  });
+
+  it('should parse Stage 7 date/time inputs as UTC', () => {
+    expect(parseUtcDateTime('2024-06-21', '14:30').toISOString()).toBe('2024-06-21T14:30:00.000Z');
+    expect(() => parseUtcDateTime('2024-13-45', '99:99')).toThrow();
+  });
+
+  it('should wrap azimuth deviations across north', () => {
+    const deviation = compareSolarPositions(
+      { azimuth: 359, elevation: 30 },
+      { azimuth: 1, elevation: 30 }
+    );
+    expect(deviation.azimuthDelta).toBeCloseTo(-2, 6);
+    expect(deviation.angularDistance).toBeLessThan(2);
+  });
+});
@@ -0,0 +1,280 @@
+/**
+ * ============================================================================
+ * SONNENSTAND-BERECHNUNG (Solar Ephemeris)
+ * ============================================================================
+ *
+ * Reine TypeScript-Implementierung des NOAA-Algorithmus (nach Meeus,
+ * "Astronomical Algorithms", Kap. 25 + 28). Ersetzt den Round-Trip zu
+ * /api/sun-position und funktioniert komplett offline.
+ *
+ * GENAUIGKEIT:
+ *   - Azimut/Elevation: ca. ±0.01° für Jahre 1800-2100
+ *   - Refraktion nach Saemundsson (wie NREL SPA), abschaltbar
+ *
+ * KONVENTIONEN (identisch zum Backend):
+ *   - Azimut:    Grad im Uhrzeigersinn ab NORDEN (0=N, 90=O, 180=S, 270=W)
+ *   - Elevation: Grad über dem Horizont (negativ = unter dem Horizont)
+ *   - Breite:    Grad, Nord positiv
+ *   - Länge:     Grad, Ost positiv
+ *   - Zeit:      UTC
+ *
+ * ============================================================================
+ */
+
+// ============================================================================
+// TYPEN
+// ============================================================================
+
+/**
+ * Ergebnis einer Sonnenstands-Berechnung
+ */
+export interface SolarPosition {
+    /** Azimut in Grad (0=N, im Uhrzeigersinn) */
+    azimuth: number;
+
+    /** Elevation in Grad (inkl. Refraktion, falls aktiviert) */
+    elevation: number;
+
+    /** Zenitwinkel in Grad (= 90 - elevation) */
+    zenith: number;
+
+    /** Deklination der Sonne in Grad */
+    declination: number;
+
+    /** Zeitgleichung in Minuten */
+    equationOfTime: number;
+
+    /** Stundenwinkel in Grad (negativ = Vormittag) */
+    hourAngle: number;
+}
+
+/**
+ * Atmosphären-Parameter für die Refraktions-Korrektur
+ */
+export interface SolarPositionOptions {
+    /** Refraktion berücksichtigen (Default: true) */
+    applyRefraction?: boolean;
+
+    /** Luftdruck in mbar (Default: 1010) */
+    pressure?: number;
+
+    /** Temperatur in °C (Default: 10) */
+    temperature?: number;
+}
+
+/**
+ * Abweichung zwischen zwei Sonnenständen (z.B. lokal vs. Backend)
+ */
+export interface SolarPositionDeviation {
+    /** Azimut-Differenz in Grad (-180..180) */
+    azimuthDelta: number;
+
+    /** Elevations-Differenz in Grad */
+    elevationDelta: number;
+
+    /** Winkelabstand auf der Himmelskugel in Grad */
+    angularDistance: number;
+}
+
+// ============================================================================
+// HILFSFUNKTIONEN
+// ============================================================================
+
+const DEG = Math.PI / 180;
+
+function normalizeDegrees(angle: number): number {
+    const result = angle % 360;
+    return result < 0 ? result + 360 : result;
+}
+
+/**
+ * Julianisches Datum für einen UTC-Zeitpunkt
+ */
+export function julianDay(date: Date): number {
+    return date.getTime() / 86400000 + 2440587.5;
+}
+
+/**
+ * Julianische Jahrhunderte seit J2000.0
+ */
+export function julianCentury(date: Date): number {
+    return (julianDay(date) - 2451545.0) / 36525;
+}
+
+/**
+ * Baut einen UTC-Zeitpunkt aus den Stage-7-Eingaben
+ *
+ * @param date - "YYYY-MM-DD"
+ * @param timeUtc - "HH:MM" oder "HH:MM:SS"
+ */
+export function parseUtcDateTime(date: string, timeUtc: string): Date {
+    const time = timeUtc.length === 5 ? `${timeUtc}:00` : timeUtc;
+    const result = new Date(`${date}T${time}Z`);
+
+    if (isNaN(result.getTime())) {
+        throw new Error(`Ungültiges Datum/Uhrzeit: ${date} ${timeUtc}`);
+    }
+
+    return result;
+}
+
+/**
+ * Atmosphärische Refraktion in Grad (Saemundsson, wie NREL SPA)
+ */
+function refractionCorrection(elevation: number, pressure: number, temperature: number): number {
+    // Unterhalb von -1° ist die Formel nicht mehr sinnvoll
+    if (elevation < -1) return 0;
+
+    const arcMinutes = 1.02 / Math.tan((elevation + 10.3 / (elevation + 5.11)) * DEG);
+    return (pressure / 1010) * (283 / (273 + temperature)) * arcMinutes / 60;
+}
+
+// ============================================================================
+// SONNENSTAND
+// ============================================================================
+
+/**
+ * Deklination (Grad) und Zeitgleichung (Minuten) für einen Zeitpunkt
+ */
+export function solarDeclinationAndEquationOfTime(date: Date): { declination: number; equationOfTime: number } {
+    const T = julianCentury(date);
+
+    // Mittlere Länge und mittlere Anomalie der Sonne
+    const L0 = normalizeDegrees(280.46646 + T * (36000.76983 + T * 0.0003032));
+    const M = 357.52911 + T * (35999.05029 - 0.0001537 * T);
+    const e = 0.016708634 - T * (0.000042037 + 0.0000001267 * T);
+
+    // Mittelpunktsgleichung
+    const C =
+        Math.sin(M * DEG) * (1.914602 - T * (0.004817 + 0.000014 * T)) +
+        Math.sin(2 * M * DEG) * (0.019993 - 0.000101 * T) +
+        Math.sin(3 * M * DEG) * 0.000289;
+
+    // Scheinbare Länge (mit Nutation + Aberration)
+    const trueLongitude = L0 + C;
+    const omega = 125.04 - 1934.136 * T;
+    const lambda = trueLongitude - 0.00569 - 0.00478 * Math.sin(omega * DEG);
+
+    // Schiefe der Ekliptik
+    const epsilon0 = 23 + (26 + (21.448 - T * (46.815 + T * (0.00059 - T * 0.001813))) / 60) / 60;
+    const epsilon = epsilon0 + 0.00256 * Math.cos(omega * DEG);
+
+    const declination = Math.asin(Math.sin(epsilon * DEG) * Math.sin(lambda * DEG)) / DEG;
+
+    // Zeitgleichung
+    const y = Math.tan((epsilon / 2) * DEG) ** 2;
+    const eot =
+        y * Math.sin(2 * L0 * DEG) -
+        2 * e * Math.sin(M * DEG) +
+        4 * e * y * Math.sin(M * DEG) * Math.cos(2 * L0 * DEG) -
+        0.5 * y * y * Math.sin(4 * L0 * DEG) -
+        1.25 * e * e * Math.sin(2 * M * DEG);
+
+    return {
+        declination,
+        equationOfTime: 4 * eot / DEG
+    };
+}
+
+/**
+ * Berechnet Azimut und Elevation der Sonne
+ *
+ * @param latitude - Breite in Grad (Nord positiv)
+ * @param longitude - Länge in Grad (Ost positiv)
+ * @param date - Zeitpunkt (UTC)
+ */
+export function calculateSolarPosition(
+    latitude: number,
+    longitude: number,
+    date: Date,
+    options: SolarPositionOptions = {}
+): SolarPosition {
+    return solarPositionFromEphemeris(
+        latitude,
+        longitude,
+        date,
+        solarDeclinationAndEquationOfTime(date),
+        options
+    );
+}
+
+/**
+ * Wie calculateSolarPosition, aber mit vorberechneter Deklination/Zeitgleichung.
+ *
+ * Für Grid-Suchen: Die Ephemeride hängt nur vom Zeitpunkt ab und muss
+ * nicht für jeden Gitterpunkt neu berechnet werden.
+ */
+export function solarPositionFromEphemeris(
+    latitude: number,
+    longitude: number,
+    date: Date,
+    ephemeris: { declination: number; equationOfTime: number },
+    options: SolarPositionOptions = {}
+): SolarPosition {
+    const { applyRefraction = true, pressure = 1010, temperature = 10 } = options;
+    const { declination, equationOfTime } = ephemeris;
+
+    // Wahre Sonnenzeit (Minuten)
+    const utcMinutes =
+        date.getUTCHours() * 60 +
+        date.getUTCMinutes() +
+        date.getUTCSeconds() / 60 +
+        date.getUTCMilliseconds() / 60000;
+    const trueSolarTime = (((utcMinutes + equationOfTime + 4 * longitude) % 1440) + 1440) % 1440;
+
+    const hourAngle = trueSolarTime / 4 - 180;
+
+    const latRad = latitude * DEG;
+    const declRad = declination * DEG;
+    const haRad = hourAngle * DEG;
+
+    // Zenitwinkel (geometrisch)
+    const cosZenith = Math.min(1, Math.max(-1,
+        Math.sin(latRad) * Math.sin(declRad) +
+        Math.cos(latRad) * Math.cos(declRad) * Math.cos(haRad)
+    ));
+    const geometricZenith = Math.acos(cosZenith) / DEG;
+
+    // Azimut (0=N, im Uhrzeigersinn)
+    const azimuth = normalizeDegrees(
+        Math.atan2(
+            Math.sin(haRad),
+            Math.cos(haRad) * Math.sin(latRad) - Math.tan(declRad) * Math.cos(latRad)
+        ) / DEG + 180
+    );
+
+    let elevation = 90 - geometricZenith;
+    if (applyRefraction) {
+        elevation += refractionCorrection(elevation, pressure, temperature);
+    }
+
+    return {
+        azimuth,
+        elevation,
+        zenith: 90 - elevation,
+        declination,
+        equationOfTime,
+        hourAngle
+    };
+}
+
+/**
+ * Vergleicht zwei Sonnenstände (z.B. lokal berechnet vs. Backend)
+ */
+export function compareSolarPositions(
+    a: { azimuth: number; elevation: number },
+    b: { azimuth: number; elevation: number }
+): SolarPositionDeviation {
+    const azimuthDelta = ((a.azimuth - b.azimuth + 540) % 360) - 180;
+    const elevationDelta = a.elevation - b.elevation;
+
+    const cosDistance =
+        Math.sin(a.elevation * DEG) * Math.sin(b.elevation * DEG) +
+        Math.cos(a.elevation * DEG) * Math.cos(b.elevation * DEG) * Math.cos(azimuthDelta * DEG);
+
+    return {
+        azimuthDelta,
+        elevationDelta,
+        angularDistance: Math.acos(Math.min(1, Math.max(-1, cosDistance))) / DEG
+    };
+}
@@ -0,0 +1,83 @@
+import { Component } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { MatButtonModule } from '@angular/material/button';
+import { MatDialog } from '@angular/material/dialog';
+import { MatIconModule } from '@angular/material/icon';
+import { MatSnackBar } from '@angular/material/snack-bar';
+import { MatTooltipModule } from '@angular/material/tooltip';
+
+import { SessionService } from '../../services/session.service';
+import { SyncState, SyncStatus, SyncStatusService } from '../../services/sync-status.service';
+import { openSessionMergeDialog } from '../session-merge-dialog/session-merge-dialog.component';
+
+const STATUS_DISPLAY: Record<SyncStatus, { icon: string; label: string }> = {
+    synced: { icon: 'cloud_done', label: 'Synchronisiert' },
+    pending: { icon: 'cloud_upload', label: 'Änderungen ausstehend' },
+    syncing: { icon: 'sync', label: 'Synchronisiere…' },
+    offline: { icon: 'cloud_off', label: 'Offline - lokal gespeichert' },
+    conflict: { icon: 'sync_problem', label: 'Sync-Konflikt' }
+};
+
+/**
+ * ============================================================================
+ * SYNC STATUS COMPONENT
+ * ============================================================================
+ *
+ * Kleine Statusanzeige im App-Shell für die Offline-Synchronisation.
+ * Klick stößt einen Sync an, bei Konflikten öffnet er den Merge-Dialog.
+ */
+@Component({
+    selector: 'app-sync-status',
+    standalone: true,
+    imports: [CommonModule, MatButtonModule, MatIconModule, MatTooltipModule],
+    templateUrl: './sync-status.component.html',
+    styleUrl: './sync-status.component.scss'
+})
+export class SyncStatusComponent {
+    constructor(
+        public syncStatus: SyncStatusService,
+        private sessionService: SessionService,
+        private dialog: MatDialog,
+        private snackBar: MatSnackBar
+    ) { }
+
+    display(state: SyncState): { icon: string; label: string } {
+        return STATUS_DISPLAY[state.status];
+    }
+
+    tooltip(state: SyncState): string {
+        const parts = [this.display(state).label];
+        if (state.pendingCount > 0) {
+            parts.push(`${state.pendingCount} Session(s) nicht übertragen`);
+        }
+        if (state.conflicts.length > 0) {
+            parts.push(`Konflikt: ${state.conflicts.join(', ')}`);
+        }
+        if (state.lastSync) {
+            parts.push(`Letzter Sync: ${new Date(state.lastSync).toLocaleTimeString()}`);
+        }
+        return parts.join(' · ');
+    }
+
+    async onClick(state: SyncState): Promise<void> {
+        if (state.status !== 'conflict') {
+            this.syncStatus.requestSync();
+            return;
+        }
+
+        for (const sessionId of state.conflicts) {
+            try {
+                const conflict = (await this.sessionService.loadConflict(sessionId).toPromise())!;
+                const merged = await openSessionMergeDialog(this.dialog, conflict);
+                if (!merged) return;
+
+                await this.sessionService.resolveConflict(conflict, merged).toPromise();
+                this.snackBar.open('Änderungen zusammengeführt ✓ - Seite neu laden, um sie zu sehen', '', { duration: 4000 });
+            } catch (err) {
+                console.error('Konflikt nicht aufgelöst:', err);
+                this.snackBar.open('Konflikt konnte nicht aufgelöst werden', '', { duration: 3000 });
+                return;
+            }
+        }
+    }
+}
@@ -1,7 +1,18 @@
-import { Component, ElementRef, ViewChild, AfterViewInit, Input, OnDestroy, OnChanges, SimpleChanges, Output, EventEmitter } from '@angular/core';
+import { Component, ElementRef, ViewChild, AfterViewInit, Input, OnDestroy, OnChanges, SimpleChanges, Output, EventEmitter, ChangeDetectorRef } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { DomSanitizer } from '@angular/platform-browser';
 import * as THREE from 'three';
+import type { LensDistortion, RoomSurface } from '../../models/session.types';
+import { ROOM_CORNERS, roomCornerPosition } from '../corner-pnp';
+import { isPinhole, undistortPixels } from '../lens-distortion';
+import {
+    intersectRoomSurfaces,
+    resolveRoomSurfaces,
+    surfaceColor,
+    surfaceCoordinates,
+    surfaceEdges,
+    surfacePlane
+} from '../room-geometry';
 
 export interface RoomParams {
     width: number;
@@ -15,11 +26,6 @@ export interface RoomRotation {
     z: number;
 }
 
-interface WallInfo {
-    name: 'back' | 'left' | 'right' | 'front' | 'floor';
-    plane: THREE.Plane;
-}
-
 /**
  * ============================================================================
  * THREE VIEWER COMPONENT
@@ -33,16 +39,21 @@ interface WallInfo {
  * Z-Achse:  Nach hinten (0 → room.depth)
  * Einheit:  Meter
  * 
+ * LINSENVERZEICHNUNG:
+ * Mit lensDistortion wird das Hintergrundbild entzerrt angezeigt, damit es
+ * zum (idealen) Lochkamera-Wireframe passt.
+ * 
  * INTERAKTION:
  * - Maus-Drag: Ändert Kamera-Blickrichtung (Pan/Tilt)
  * - Mausrad: DEAKTIVIERT (FOV nur über Slider)
  * 
- * WAND-FARBEN (transparent):
+ * WAND-FARBEN (transparent, Standard-Quader):
  *   front:  Rot      (z = 0)
  *   back:   Grün     (z = room.depth)
  *   left:   Blau     (x = 0)
  *   right:  Cyan     (x = room.width)
  *   floor:  Gelb     (y = 0)
+ * Eigene Raumflächen (roomSurfaces) erhalten Farben aus room-geometry.ts.
  */
 @Component({
     selector: 'app-three-viewer',
@@ -63,6 +74,9 @@ export class ThreeViewerComponent implements AfterViewInit, OnDestroy, OnChanges
     @Input() roomRotation: RoomRotation = { x: 0, y: 0, z: 0 };
     @Input() cameraPosition = { x: 2, y: 1.5, z: 0.5 };
 
+    /** Benannte Raumflächen (null = Quader aus roomParams) */
+    @Input() roomSurfaces: RoomSurface[] | null = null;
+
     /** Field of View (vertikal, in Grad) */
     @Input() fovY = 60;
 
@@ -73,6 +87,9 @@ export class ThreeViewerComponent implements AfterViewInit, OnDestroy, OnChanges
     @Input() backgroundOffsetY = 50;
     @Input() showGrid = true;
 
+    /** Verzeichnung des Screenshots (null = ideale Lochkamera) */
+    @Input() lensDistortion: LensDistortion | null = null;
+
     // ========================================================================
     // OUTPUTS - Events für Rotation-Änderungen
     // ========================================================================
@@ -105,7 +122,10 @@ export class ThreeViewerComponent implements AfterViewInit, OnDestroy, OnChanges
     /** Sensitivität für Maus-Rotation (Grad pro Pixel) */
     private readonly ROTATION_SENSITIVITY = 0.3;
 
-    constructor(private sanitizer: DomSanitizer) { }
+    /** Verwirft veraltete (asynchrone) Entzerrungen */
+    private backgroundRequest = 0;
+
+    constructor(private sanitizer: DomSanitizer, private cdr: ChangeDetectorRef) { }
 
     ngAfterViewInit() {
         this.initThreeJS();
@@ -115,7 +135,7 @@ export class ThreeViewerComponent implements AfterViewInit, OnDestroy, OnChanges
     }
 
     ngOnChanges(changes: SimpleChanges) {
-        if (changes['backgroundImage'] && this.backgroundImage) {
+        if ((changes['backgroundImage'] || changes['lensDistortion']) && this.backgroundImage) {
             this.loadBackgroundImage(this.backgroundImage);
         }
 
@@ -312,9 +332,7 @@ export class ThreeViewerComponent implements AfterViewInit, OnDestroy, OnChanges
         this.roomMesh = new THREE.Group();
         this.wallMeshes = [];
 
-        const w = this.roomParams.width;
-        const h = this.roomParams.height;
-        const d = this.roomParams.depth;
+        const surfaces = resolveRoomSurfaces(this.roomParams, this.roomSurfaces);
 
         // ====================================================================
         // TRANSPARENTE WAND-FLÄCHEN
@@ -322,88 +340,32 @@ export class ThreeViewerComponent implements AfterViewInit, OnDestroy, OnChanges
 
         const wallOpacity = 0.15;  // Hohe Transparenz für gute Screenshot-Sichtbarkeit
 
-        // Front-Wand (z = 0) - ROT
-        const frontGeometry = new THREE.PlaneGeometry(w, h);
-        const frontMaterial = new THREE.MeshBasicMaterial({
-            color: 0xff0000,
-            transparent: true,
-            opacity: wallOpacity,
-            side: THREE.DoubleSide,
-            depthWrite: false  // Verhindert Z-Fighting
-        });
-        const frontMesh = new THREE.Mesh(frontGeometry, frontMaterial);
-        frontMesh.position.set(w / 2, h / 2, 0);
-        this.roomMesh.add(frontMesh);
-        this.wallMeshes.push(frontMesh);
-
-        // Back-Wand (z = depth) - GRÜN
-        const backGeometry = new THREE.PlaneGeometry(w, h);
-        const backMaterial = new THREE.MeshBasicMaterial({
-            color: 0x00ff00,
-            transparent: true,
-            opacity: wallOpacity,
-            side: THREE.DoubleSide,
-            depthWrite: false
+        surfaces.forEach((surface, i) => {
+            const geometry = this.createSurfaceGeometry(surface);
+            if (!geometry) return;
+
+            const material = new THREE.MeshBasicMaterial({
+                color: new THREE.Color(surfaceColor(surface.name, i)),
+                transparent: true,
+                opacity: wallOpacity,
+                side: THREE.DoubleSide,
+                depthWrite: false  // Verhindert Z-Fighting
+            });
+            const mesh = new THREE.Mesh(geometry, material);
+            mesh.name = surface.name;
+            this.roomMesh.add(mesh);
+            this.wallMeshes.push(mesh);
         });
-        const backMesh = new THREE.Mesh(backGeometry, backMaterial);
-        backMesh.position.set(w / 2, h / 2, d);
-        this.roomMesh.add(backMesh);
-        this.wallMeshes.push(backMesh);
-
-        // Left-Wand (x = 0) - BLAU
-        const leftGeometry = new THREE.PlaneGeometry(d, h);
-        const leftMaterial = new THREE.MeshBasicMaterial({
-            color: 0x0000ff,
-            transparent: true,
-            opacity: wallOpacity,
-            side: THREE.DoubleSide,
-            depthWrite: false
-        });
-        const leftMesh = new THREE.Mesh(leftGeometry, leftMaterial);
-        leftMesh.position.set(0, h / 2, d / 2);
-        leftMesh.rotation.y = Math.PI / 2;
-        this.roomMesh.add(leftMesh);
-        this.wallMeshes.push(leftMesh);
-
-        // Right-Wand (x = width) - CYAN
-        const rightGeometry = new THREE.PlaneGeometry(d, h);
-        const rightMaterial = new THREE.MeshBasicMaterial({
-            color: 0x00ffff,
-            transparent: true,
-            opacity: wallOpacity,
-            side: THREE.DoubleSide,
-            depthWrite: false
-        });
-        const rightMesh = new THREE.Mesh(rightGeometry, rightMaterial);
-        rightMesh.position.set(w, h / 2, d / 2);
-        rightMesh.rotation.y = Math.PI / 2;
-        this.roomMesh.add(rightMesh);
-        this.wallMeshes.push(rightMesh);
-
-        // Floor (y = 0) - GELB
-        const floorGeometry = new THREE.PlaneGeometry(w, d);
-        const floorMaterial = new THREE.MeshBasicMaterial({
-            color: 0xffff00,
-            transparent: true,
-            opacity: wallOpacity,
-            side: THREE.DoubleSide,
-            depthWrite: false
-        });
-        const floorMesh = new THREE.Mesh(floorGeometry, floorMaterial);
-        floorMesh.position.set(w / 2, 0, d / 2);
-        floorMesh.rotation.x = -Math.PI / 2;
-        this.roomMesh.add(floorMesh);
-        this.wallMeshes.push(floorMesh);
 
         // ====================================================================
         // KANTEN (WIREFRAME)
         // ====================================================================
 
-        // Box-Geometrie für Kanten
-        const boxGeometry = new THREE.BoxGeometry(w, h, d);
-        boxGeometry.translate(w / 2, h / 2, d / 2);
-
-        const edges = new THREE.EdgesGeometry(boxGeometry);
+        const edgePoints = surfaceEdges(surfaces).flatMap(([a, b]) => [
+            new THREE.Vector3(a.x, a.y, a.z),
+            new THREE.Vector3(b.x, b.y, b.z)
+        ]);
+        const edges = new THREE.BufferGeometry().setFromPoints(edgePoints);
         const edgeMaterial = new THREE.LineBasicMaterial({
             color: 0xffffff,  // Weiße Kanten für bessere Sichtbarkeit
             linewidth: 2,
@@ -425,28 +387,32 @@ export class ThreeViewerComponent implements AfterViewInit, OnDestroy, OnChanges
         this.scene.add(this.roomMesh);
     }
 
-    private addCornerMarkers(group: THREE.Group) {
-        const w = this.roomParams.width;
-        const h = this.roomParams.height;
-        const d = this.roomParams.depth;
-
-        const corners = [
-            [0, 0, 0],
-            [w, 0, 0],
-            [0, h, 0],
-            [w, h, 0],
-            [0, 0, d],
-            [w, 0, d],
-            [0, h, d],
-            [w, h, d],
-        ];
+    /**
+     * Dreiecke eines (auch nicht-konvexen) ebenen Polygons
+     */
+    private createSurfaceGeometry(surface: RoomSurface): THREE.BufferGeometry | null {
+        const plane = surfacePlane(surface);
+        if (!plane) return null;
+
+        const contour = surfaceCoordinates(surface.vertices, plane).map(([u, v]) => new THREE.Vector2(u, v));
+        const triangles = THREE.ShapeUtils.triangulateShape(contour, []);
+
+        const geometry = new THREE.BufferGeometry().setFromPoints(
+            surface.vertices.map(v => new THREE.Vector3(v.x, v.y, v.z))
+        );
+        geometry.setIndex(triangles.flat());
+        return geometry;
+    }
 
+    private addCornerMarkers(group: THREE.Group) {
         const sphereGeometry = new THREE.SphereGeometry(0.06, 16, 16);
         const sphereMaterial = new THREE.MeshBasicMaterial({ color: 0xffffff });
 
-        corners.forEach(pos => {
+        // Reihenfolge wie ROOM_CORNERS (Ecken-Kalibrierung)
+        ROOM_CORNERS.forEach(corner => {
+            const pos = roomCornerPosition(corner, this.roomParams);
             const sphere = new THREE.Mesh(sphereGeometry, sphereMaterial);
-            sphere.position.set(pos[0], pos[1], pos[2]);
+            sphere.position.set(pos.x, pos.y, pos.z);
             group.add(sphere);
         });
     }
@@ -473,10 +439,57 @@ export class ThreeViewerComponent implements AfterViewInit, OnDestroy, OnChanges
     // ========================================================================
 
     private loadBackgroundImage(file: File) {
+        const request = ++this.backgroundRequest;
+        const distortion = this.lensDistortion;
+
+        if (isPinhole(distortion)) {
+            this.setBackgroundUrl(URL.createObjectURL(file));
+            return;
+        }
+
+        this.createUndistortedUrl(file, distortion!)
+            .catch(error => {
+                console.warn('⚠️ Entzerrung fehlgeschlagen, zeige Original:', error);
+                return URL.createObjectURL(file);
+            })
+            .then(url => {
+                if (request !== this.backgroundRequest) {
+                    URL.revokeObjectURL(url);
+                    return;
+                }
+                this.setBackgroundUrl(url);
+                this.cdr.markForCheck();
+            });
+    }
+
+    private setBackgroundUrl(url: string) {
         if (this.backgroundUrl) {
             URL.revokeObjectURL(this.backgroundUrl);
         }
-        this.backgroundUrl = URL.createObjectURL(file);
+        this.backgroundUrl = url;
+    }
+
+    /**
+     * Entzerrtes Hintergrundbild als Object-URL (PNG, gleiche Größe)
+     */
+    private async createUndistortedUrl(file: File, distortion: LensDistortion): Promise<string> {
+        const bitmap = await createImageBitmap(file);
+        const canvas = document.createElement('canvas');
+        canvas.width = bitmap.width;
+        canvas.height = bitmap.height;
+
+        const ctx = canvas.getContext('2d');
+        if (!ctx) throw new Error('Kein 2D-Kontext');
+        ctx.drawImage(bitmap, 0, 0);
+        bitmap.close();
+
+        const source = ctx.getImageData(0, 0, canvas.width, canvas.height);
+        source.data.set(undistortPixels(source, distortion));
+        ctx.putImageData(source, 0, 0);
+
+        const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+        if (!blob) throw new Error('Bild konnte nicht erzeugt werden');
+        return URL.createObjectURL(blob);
     }
 
     // ========================================================================
@@ -493,7 +506,7 @@ export class ThreeViewerComponent implements AfterViewInit, OnDestroy, OnChanges
     // ========================================================================
 
     getWallAtScreenPosition(screenX: number, screenY: number): {
-        wall: 'back' | 'left' | 'right' | 'front' | 'floor' | null;
+        wall: string | null;
         point3D: { x: number; y: number; z: number } | null;
         point2D: { x: number; y: number } | null;
     } {
@@ -505,101 +518,22 @@ export class ThreeViewerComponent implements AfterViewInit, OnDestroy, OnChanges
         const raycaster = new THREE.Raycaster();
         raycaster.setFromCamera(new THREE.Vector2(ndcX, ndcY), this.camera);
 
-        const walls: WallInfo[] = [
-            {
-                name: 'back',
-                plane: new THREE.Plane(new THREE.Vector3(0, 0, -1), this.roomParams.depth)
-            },
-            {
-                name: 'front',
-                plane: new THREE.Plane(new THREE.Vector3(0, 0, 1), 0)
-            },
-            {
-                name: 'left',
-                plane: new THREE.Plane(new THREE.Vector3(1, 0, 0), 0)
-            },
-            {
-                name: 'right',
-                plane: new THREE.Plane(new THREE.Vector3(-1, 0, 0), this.roomParams.width)
-            },
-            {
-                name: 'floor',
-                plane: new THREE.Plane(new THREE.Vector3(0, 1, 0), 0)
-            },
-        ];
+        const surfaces = resolveRoomSurfaces(this.roomParams, this.roomSurfaces);
+        const hit = intersectRoomSurfaces(raycaster.ray.origin, raycaster.ray.direction, surfaces);
 
-        const intersections: Array<{ wall: WallInfo; point: THREE.Vector3; distance: number }> = [];
-
-        for (const wall of walls) {
-            const intersection = new THREE.Vector3();
-            if (raycaster.ray.intersectPlane(wall.plane, intersection)) {
-                const inBounds = this.isPointInWallBounds(intersection, wall.name);
-                const distance = intersection.distanceTo(this.camera.position);
-
-                if (inBounds && distance > 0.01) {
-                    intersections.push({ wall, point: intersection, distance });
-                }
-            }
-        }
-
-        if (intersections.length === 0) {
+        if (!hit) {
             return { wall: null, point3D: null, point2D: null };
         }
 
-        const closest = intersections.reduce((prev, curr) =>
-            curr.distance < prev.distance ? curr : prev
-        );
-
-        const point2D = this.project3DToScreen(closest.point);
+        const point2D = this.project3DToScreen(new THREE.Vector3(hit.point.x, hit.point.y, hit.point.z));
 
         return {
-            wall: closest.wall.name,
-            point3D: {
-                x: closest.point.x,
-                y: closest.point.y,
-                z: closest.point.z
-            },
+            wall: hit.surface,
+            point3D: hit.point,
             point2D: point2D,
         };
     }
 
-    private isPointInWallBounds(point: THREE.Vector3, wallName: string): boolean {
-        const epsilon = 0.1;
-        const w = this.roomParams.width;
-        const h = this.roomParams.height;
-        const d = this.roomParams.depth;
-
-        switch (wallName) {
-            case 'back':
-                return point.x >= -epsilon && point.x <= w + epsilon &&
-                    point.y >= -epsilon && point.y <= h + epsilon &&
-                    Math.abs(point.z - d) < epsilon;
-
-            case 'front':
-                return point.x >= -epsilon && point.x <= w + epsilon &&
-                    point.y >= -epsilon && point.y <= h + epsilon &&
-                    Math.abs(point.z) < epsilon;
-
-            case 'left':
-                return point.z >= -epsilon && point.z <= d + epsilon &&
-                    point.y >= -epsilon && point.y <= h + epsilon &&
-                    Math.abs(point.x) < epsilon;
-
-            case 'right':
-                return point.z >= -epsilon && point.z <= d + epsilon &&
-                    point.y >= -epsilon && point.y <= h + epsilon &&
-                    Math.abs(point.x - w) < epsilon;
-
-            case 'floor':
-                return point.x >= -epsilon && point.x <= w + epsilon &&
-                    point.z >= -epsilon && point.z <= d + epsilon &&
-                    Math.abs(point.y) < epsilon;
-
-            default:
-                return false;
-        }
-    }
-
     private project3DToScreen(point3D: THREE.Vector3): { x: number; y: number } {
         const projected = point3D.clone().project(this.camera);
         const rect = this.renderer.domElement.getBoundingClientRect();
@@ -629,8 +563,9 @@ export class ThreeViewerComponent implements AfterViewInit, OnDestroy, OnChanges
     // PUBLIC UPDATE METHODS
     // ========================================================================
 
-    public updateRoom(params: RoomParams) {
+    public updateRoom(params: RoomParams, surfaces: RoomSurface[] | null = this.roomSurfaces) {
         this.roomParams = params;
+        this.roomSurfaces = surfaces;
         this.createRoomWireframe();
         if (this.showGrid) {
             this.createGrid();
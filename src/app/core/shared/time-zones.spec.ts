@@ -0,0 +1,65 @@
+import {
+  candidateUtcOffsets,
+  loadTimeZoneRules,
+  localToUtc,
+  localToUtcWithOffset,
+  longitudeBandMatchesOffset,
+  nominalLongitudeBand,
+  zoneOffsetMinutes
+} from './time-zones';
+
+describe('time-zones', () => {
+  beforeAll(() => loadTimeZoneRules());
+
+  it('should convert local wall-clock time with summer and winter time', () => {
+    expect(localToUtc('2024-06-12', '14:30', 'Europe/Berlin')).toEqual({
+      date: '2024-06-12', timeUtc: '12:30', offsetMinutes: 120, dst: true, status: 'ok'
+    });
+    expect(localToUtc('2024-01-12', '00:30', 'Europe/Berlin')).toEqual({
+      date: '2024-01-11', timeUtc: '23:30', offsetMinutes: 60, dst: false, status: 'ok'
+    });
+
+    // Sekunden der Eingabe bleiben erhalten
+    expect(localToUtc('2024-06-12', '14:30:35', 'Europe/Berlin')?.timeUtc).toBe('12:30:35');
+    expect(localToUtcWithOffset('2024-06-12', '14:30:35', 120)?.timeUtc).toBe('12:30:35');
+
+    // Südhalbkugel: Sommerzeit im Januar
+    expect(localToUtc('2024-01-15', '12:00', 'Australia/Sydney')?.dst).toBe(true);
+    expect(localToUtc('2024-06-12', '14:30', 'Not/AZone')).toBeNull();
+  });
+
+  it('should apply historical rules', () => {
+    // Deutschland hatte 1975 keine Sommerzeit
+    expect(localToUtc('1975-07-01', '12:00', 'Europe/Berlin')).toMatchObject({ timeUtc: '11:00', dst: false });
+    expect(zoneOffsetMinutes('America/New_York', Date.UTC(2006, 2, 20))).toBe(-300);
+    expect(zoneOffsetMinutes('America/New_York', Date.UTC(2007, 2, 20))).toBe(-240);
+  });
+
+  it('should flag nonexistent and repeated wall-clock times', () => {
+    // Uhr springt 02:00 → 03:00
+    expect(localToUtc('2024-03-31', '02:30', 'Europe/Berlin')).toMatchObject({
+      timeUtc: '01:30', offsetMinutes: 60, status: 'gap'
+    });
+
+    // 02:30 kommt am 27.10. zweimal vor
+    expect(localToUtc('2024-10-27', '02:30', 'Europe/Berlin')).toEqual({
+      date: '2024-10-27', timeUtc: '00:30', offsetMinutes: 120, dst: true,
+      status: 'ambiguous', alternativeOffsetMinutes: 60
+    });
+  });
+
+  it('should relate UTC offsets to longitude bands', () => {
+    expect(localToUtcWithOffset('2024-06-12', '01:00', 330)).toEqual({ date: '2024-06-11', timeUtc: '19:30' });
+    expect(candidateUtcOffsets()).toContain(-210);
+
+    expect(nominalLongitudeBand(120)).toEqual({ lonMin: 22.5, lonMax: 37.5 });
+    expect(nominalLongitudeBand(720)).toEqual({ lonMin: 172.5, lonMax: -172.5 });
+
+    // Berlin (13.4°) passt zu UTC+1/+2, nicht zu UTC-5
+    expect(longitudeBandMatchesOffset({ lonMin: 12, lonMax: 15 }, 120)).toBe(true);
+    expect(longitudeBandMatchesOffset({ lonMin: 12, lonMax: 15 }, -300)).toBe(false);
+
+    // Korridor über die Datumsgrenze
+    expect(longitudeBandMatchesOffset({ lonMin: 170, lonMax: -170 }, -660)).toBe(true);
+  });
+});
@@ -0,0 +1,238 @@
+/**
+ * ============================================================================
+ * TIME-ZONES (Lokalzeit → UTC mit historischen Sommerzeit-Regeln)
+ * ============================================================================
+ *
+ * Die Kamera-Einblendung zeigt Wanduhrzeit. Für den Sonnenstand braucht
+ * Stage 7 aber UTC. Die Umrechnung nutzt die tz-Datenbank aus
+ * moment-timezone, die mit der App ausgeliefert wird - unabhängig von der
+ * ICU-Version des Browsers, offline verfügbar und inklusive historischer
+ * Regeln (z.B. Deutschland ohne Sommerzeit 1950-1979). Neue tz-Regeln kommen
+ * mit einem Update des Pakets.
+ *
+ * Die Daten werden als eigener Chunk nachgeladen (loadTimeZoneRules, beim
+ * App-Start per Initializer) - erst danach sind die Funktionen nutzbar.
+ *
+ * SONDERFÄLLE DER WANDUHRZEIT:
+ *   gap         Uhrzeit existiert nicht (Uhr springt vor, z.B. 02:30 im März)
+ *               → Abweichung vor dem Sprung wird verwendet
+ *   ambiguous   Uhrzeit kommt zweimal vor (Uhr springt zurück)
+ *               → erstes Vorkommen (Sommerzeit), das zweite als Alternative
+ *
+ * ZONE UNBEKANNT:
+ *   UTC-Abweichung und Längengrad hängen eng zusammen - nominell deckt eine
+ *   Stunde 15° ab (Mitte = Abweichung in Stunden × 15°). Jede Kandidaten-
+ *   Abweichung wird deshalb getrennt gelöst und ihr Längengrad-Band mit dem
+ *   nominellen Band verglichen.
+ *
+ * ============================================================================
+ */
+
+import type moment from 'moment-timezone';
+
+// ============================================================================
+// KONSTANTEN & TYPEN
+// ============================================================================
+
+/** Gebräuchliche UTC-Abweichungen in Minuten (inkl. halber/dreiviertel Stunden) */
+export const COMMON_UTC_OFFSETS: number[] = [
+    ...Array.from({ length: 27 }, (_, i) => (i - 12) * 60),
+    -570, -210, 210, 270, 330, 345, 390, 525, 570, 630, 765, 825
+].sort((a, b) => a - b);
+
+/**
+ * Zulässige Abweichung zwischen Längengrad und nominellem Band einer
+ * UTC-Abweichung. Reale Zonen weichen oft deutlich ab (Spanien liegt auf
+ * UTC+1/+2 bei ~0°, Westchina auf UTC+8) - daher großzügig.
+ */
+export const ZONE_LONGITUDE_TOLERANCE_DEG = 30;
+
+export type LocalTimeStatus = 'ok' | 'gap' | 'ambiguous';
+
+export interface LocalTimeConversion {
+    /** UTC-Zeitpunkt ("YYYY-MM-DD" + "HH:MM", mit Sekunden wie die Eingabe) */
+    date: string;
+    timeUtc: string;
+
+    /** Verwendete Abweichung von UTC in Minuten */
+    offsetMinutes: number;
+
+    /** Sommerzeit zu diesem Zeitpunkt in dieser Zone */
+    dst: boolean;
+
+    status: LocalTimeStatus;
+
+    /** Zweites Vorkommen bei status 'ambiguous' */
+    alternativeOffsetMinutes?: number;
+}
+
+export interface LongitudeBand {
+    lonMin: number;
+    lonMax: number;
+}
+
+// ============================================================================
+// ZONEN
+// ============================================================================
+
+type ZoneRules = typeof moment.tz;
+
+let zoneRules: ZoneRules | null = null;
+
+/**
+ * Lädt die tz-Datenbank (einmalig, danach sofort aufgelöst)
+ */
+export async function loadTimeZoneRules(): Promise<void> {
+    if (zoneRules) return;
+    const { default: moment } = await import('moment-timezone');
+    zoneRules = moment.tz;
+}
+
+function rules(): ZoneRules {
+    if (!zoneRules) throw new Error('Zeitzonen-Regeln nicht geladen');
+    return zoneRules;
+}
+
+/**
+ * Alle IANA-Zonen der tz-Datenbank (sortiert)
+ */
+export function listTimeZones(): string[] {
+    const zones = rules().names();
+    return zones.includes('UTC') ? zones : ['UTC', ...zones];
+}
+
+export function isValidTimeZone(zone: string): boolean {
+    return rules().zone(zone) !== null;
+}
+
+/** Zone des Analyse-Rechners (Startwert der Auswahl) */
+export function browserTimeZone(): string {
+    const zone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+    return zone && isValidTimeZone(zone) ? zone : 'UTC';
+}
+
+/**
+ * Abweichung der Zone von UTC (Minuten) zu einem Zeitpunkt
+ */
+export function zoneOffsetMinutes(zone: string, epochMs: number): number {
+    const rule = rules().zone(zone);
+    if (!rule) throw new Error(`Unbekannte Zeitzone: ${zone}`);
+
+    // moment zählt Abweichungen westwärts positiv
+    return -rule.utcOffset(epochMs) || 0;
+}
+
+/**
+ * Sommerzeit: Abweichung größer als die Normalzeit des Jahres
+ * (kleinere Abweichung von Januar und Juli - gilt für beide Hemisphären)
+ */
+export function isDaylightSavingTime(zone: string, epochMs: number): boolean {
+    const year = new Date(epochMs).getUTCFullYear();
+    const standard = Math.min(
+        zoneOffsetMinutes(zone, Date.UTC(year, 0, 1)),
+        zoneOffsetMinutes(zone, Date.UTC(year, 6, 1))
+    );
+    return zoneOffsetMinutes(zone, epochMs) > standard;
+}
+
+// ============================================================================
+// UMRECHNUNG
+// ============================================================================
+
+/** UTC-Teile, Sekunden nur wenn die Eingabe welche hatte */
+function toUtcParts(epochMs: number, withSeconds: boolean): { date: string; timeUtc: string } {
+    const iso = new Date(epochMs).toISOString();
+    return { date: iso.slice(0, 10), timeUtc: iso.slice(11, withSeconds ? 19 : 16) };
+}
+
+/**
+ * Wanduhrzeit in einer IANA-Zone → UTC
+ *
+ * @param date - "YYYY-MM-DD"
+ * @param time - "HH:MM" oder "HH:MM:SS" (Wanduhrzeit)
+ * @returns null bei ungültiger Eingabe oder unbekannter Zone
+ */
+export function localToUtc(date: string, time: string, zone: string): LocalTimeConversion | null {
+    const wallClock = Date.parse(`${date}T${time.length === 5 ? `${time}:00` : time}Z`);
+    if (isNaN(wallClock) || !isValidTimeZone(zone)) return null;
+
+    // Abweichungen rund um den Zeitpunkt (Umstellungen liegen Monate auseinander)
+    const before = zoneOffsetMinutes(zone, wallClock - 86400000);
+    const after = zoneOffsetMinutes(zone, wallClock + 86400000);
+
+    // Passende Abweichungen: UTC = Wanduhr - Abweichung muss dieselbe Abweichung haben
+    const valid = [...new Set([before, after])]
+        .filter(offset => zoneOffsetMinutes(zone, wallClock - offset * 60000) === offset)
+        .sort((a, b) => b - a);
+
+    const convert = (offsetMinutes: number, status: LocalTimeStatus): LocalTimeConversion => {
+        const epochMs = wallClock - offsetMinutes * 60000;
+        return {
+            ...toUtcParts(epochMs, time.length > 5),
+            offsetMinutes,
+            dst: isDaylightSavingTime(zone, epochMs),
+            status
+        };
+    };
+
+    if (valid.length === 0) return convert(before, 'gap');
+    if (valid.length === 1) return convert(valid[0], 'ok');
+
+    // Größere Abweichung = früherer Zeitpunkt = erstes Vorkommen
+    return { ...convert(valid[0], 'ambiguous'), alternativeOffsetMinutes: valid[1] };
+}
+
+/**
+ * Wanduhrzeit mit fester Abweichung → UTC (Kandidaten bei unbekannter Zone)
+ */
+export function localToUtcWithOffset(date: string, time: string, offsetMinutes: number): { date: string; timeUtc: string } | null {
+    const wallClock = Date.parse(`${date}T${time.length === 5 ? `${time}:00` : time}Z`);
+    return isNaN(wallClock) ? null : toUtcParts(wallClock - offsetMinutes * 60000, time.length > 5);
+}
+
+// ============================================================================
+// ABWEICHUNG ↔ LÄNGENGRAD
+// ============================================================================
+
+/** Kandidaten-Abweichungen bei unbekannter Zone (UTC-12 bis UTC+14) */
+export function candidateUtcOffsets(): number[] {
+    return [...COMMON_UTC_OFFSETS];
+}
+
+function normalizeLongitude(lon: number): number {
+    return ((lon + 540) % 360) - 180;
+}
+
+/**
+ * Nominelles Längengrad-Band einer UTC-Abweichung (Mitte ± 7.5°)
+ */
+export function nominalLongitudeBand(offsetMinutes: number): LongitudeBand {
+    const center = offsetMinutes / 4;
+    return { lonMin: normalizeLongitude(center - 7.5), lonMax: normalizeLongitude(center + 7.5) };
+}
+
+/**
+ * Kürzester Abstand eines Längengrads zum nominellen Band (0 = im Band)
+ */
+export function longitudeDeviationFromOffset(lon: number, offsetMinutes: number): number {
+    const distance = Math.abs(normalizeLongitude(lon - offsetMinutes / 4));
+    return Math.max(0, distance - 7.5);
+}
+
+/**
+ * Passt ein Längengrad-Band (Korridor, ggf. über die Datumsgrenze) zur Abweichung?
+ */
+export function longitudeBandMatchesOffset(
+    band: LongitudeBand,
+    offsetMinutes: number,
+    toleranceDeg = ZONE_LONGITUDE_TOLERANCE_DEG
+): boolean {
+    const width = band.lonMin <= band.lonMax ? band.lonMax - band.lonMin : band.lonMax - band.lonMin + 360;
+
+    // Band in 1°-Schritten abtasten - Korridore sind höchstens 360° breit
+    for (let step = 0; step <= Math.ceil(width); step++) {
+        const lon = normalizeLongitude(band.lonMin + Math.min(step, width));
+        if (longitudeDeviationFromOffset(lon, offsetMinutes) <= toleranceDeg) return true;
+    }
+    return false;
+}
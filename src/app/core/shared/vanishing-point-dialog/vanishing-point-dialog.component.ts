@@ -0,0 +1,369 @@
+import { Component, ElementRef, Inject, OnDestroy, ViewChild } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { MAT_DIALOG_DATA, MatDialog, MatDialogModule, MatDialogRef } from '@angular/material/dialog';
+import { MatButtonModule } from '@angular/material/button';
+import { MatButtonToggleModule } from '@angular/material/button-toggle';
+import { MatIconModule } from '@angular/material/icon';
+import { firstValueFrom } from 'rxjs';
+
+import type { NormalizedPoint2D } from '../../models/session.types';
+import {
+  EdgeSegment,
+  MAX_RESIDUAL_DEG,
+  MIN_SEGMENT_LENGTH,
+  ROOM_AXES,
+  RoomAxis,
+  VanishingPointCalibration,
+  VanishingPointRequest,
+  calibrateFromVanishingPoints
+} from '../vanishing-points';
+
+export interface VanishingPointDialogData extends Omit<VanishingPointRequest, 'segments'> {
+  file: File;
+
+  /** Bereits markierte Kanten (erneutes Öffnen) */
+  segments: EdgeSegment[];
+}
+
+export interface VanishingPointDialogResult {
+  segments: EdgeSegment[];
+  calibration: NonNullable<VanishingPointCalibration['data']>;
+}
+
+const AXIS_LABELS: Record<RoomAxis, string> = {
+  x: 'Breite (X)',
+  y: 'Höhe (Y)',
+  z: 'Tiefe (Z)'
+};
+
+/**
+ * Öffnet den Dialog zum Markieren der Raumkanten. Ergebnis: Kalibrierung oder null (abgebrochen)
+ */
+export function openVanishingPointDialog(
+  dialog: MatDialog,
+  data: VanishingPointDialogData
+): Promise<VanishingPointDialogResult | null> {
+  const dialogRef = dialog.open<VanishingPointDialogComponent, VanishingPointDialogData, VanishingPointDialogResult | null>(
+    VanishingPointDialogComponent,
+    { width: '960px', data }
+  );
+  return firstValueFrom(dialogRef.afterClosed()).then(result => result ?? null);
+}
+
+@Component({
+  selector: 'app-vanishing-point-dialog',
+  standalone: true,
+  imports: [
+    CommonModule,
+    FormsModule,
+    MatDialogModule,
+    MatButtonModule,
+    MatButtonToggleModule,
+    MatIconModule
+  ],
+  template: `
+    <h2 mat-dialog-title>
+      <mat-icon>architecture</mat-icon>
+      Kamera aus Raumkanten kalibrieren
+    </h2>
+
+    <mat-dialog-content>
+      <p class="intro">
+        Wähle eine Raumachse und ziehe entlang von zwei bis drei Kanten, die in diese Richtung
+        laufen (Boden-/Deckenkanten, Raumecken, Türrahmen). Mindestens zwei Achsen markieren -
+        mit allen drei wird auch das Sichtfeld bestimmt.
+      </p>
+
+      <div class="axis-select">
+        <mat-button-toggle-group [(ngModel)]="axis">
+          @for (a of axes; track a) {
+          <mat-button-toggle [value]="a">
+            <span class="axis-dot" [class]="'axis-' + a"></span>
+            {{ axisLabels[a] }} · {{ countFor(a) }}
+          </mat-button-toggle>
+          }
+        </mat-button-toggle-group>
+
+        <button mat-button (click)="onRemoveLast()" [disabled]="segments.length === 0">
+          <mat-icon>undo</mat-icon>
+          Letzte Kante entfernen
+        </button>
+      </div>
+
+      <div
+        class="image-frame"
+        (pointerdown)="onPointerDown($event)"
+        (pointermove)="onPointerMove($event)"
+        (pointerup)="onPointerUp($event)"
+      >
+        <img #image [src]="imageUrl" [alt]="data.file.name" draggable="false" />
+        <svg viewBox="0 0 1 1" preserveAspectRatio="none">
+          @if (showResiduals && result?.data) {
+          @for (r of result!.data!.residuals; track r.index) {
+          <line
+            class="predicted"
+            [attr.x1]="r.predicted.start.normalizedX"
+            [attr.y1]="r.predicted.start.normalizedY"
+            [attr.x2]="r.predicted.end.normalizedX"
+            [attr.y2]="r.predicted.end.normalizedY"
+          />
+          }
+          }
+          @for (segment of segments; track $index) {
+          <line
+            [class]="'axis-' + segment.axis"
+            [class.misfit]="residualOf($index) > maxResidual"
+            [attr.x1]="segment.start.normalizedX"
+            [attr.y1]="segment.start.normalizedY"
+            [attr.x2]="segment.end.normalizedX"
+            [attr.y2]="segment.end.normalizedY"
+          />
+          }
+          @if (draft) {
+          <line
+            [class]="'draft axis-' + axis"
+            [attr.x1]="draft.start.normalizedX"
+            [attr.y1]="draft.start.normalizedY"
+            [attr.x2]="draft.end.normalizedX"
+            [attr.y2]="draft.end.normalizedY"
+          />
+          }
+        </svg>
+      </div>
+
+      @if (result) {
+      <div class="summary" [class.error]="!result.success">
+        @if (result.data; as d) {
+        <span><strong>Pitch</strong> {{ d.rotation.x | number : '1.1-1' }}°</span>
+        <span><strong>Yaw</strong> {{ d.rotation.y | number : '1.1-1' }}°</span>
+        <span><strong>Roll</strong> {{ d.rotation.z | number : '1.1-1' }}°</span>
+        <span><strong>Sichtfeld (Bild)</strong> {{ d.imageFovY | number : '1.1-1' }}°</span>
+        <span [class.warn]="d.rmsResidualDeg > maxResidual">
+          <strong>Residuum (RMS)</strong> {{ d.rmsResidualDeg | number : '1.2-2' }}°
+        </span>
+        <label class="toggle">
+          <input type="checkbox" [(ngModel)]="showResiduals" />
+          Erwartete Kanten zeigen
+        </label>
+        }
+        <p>{{ result.message }}</p>
+        @if (misfitCount > 0) {
+        <p class="warn">
+          {{ misfitCount }} Kante(n) weichen mehr als {{ maxResidual }}° ab (rot) - neu markieren oder entfernen.
+        </p>
+        }
+      </div>
+      }
+    </mat-dialog-content>
+
+    <mat-dialog-actions align="end">
+      <button mat-button [mat-dialog-close]="null">Abbrechen</button>
+      <button mat-raised-button color="primary" [disabled]="!result?.success" (click)="onConfirm()">
+        Übernehmen
+      </button>
+    </mat-dialog-actions>
+  `,
+  styles: [`
+    h2[mat-dialog-title] {
+      display: flex;
+      align-items: center;
+      gap: 10px;
+    }
+
+    .intro {
+      color: #666;
+      font-size: 14px;
+    }
+
+    .axis-select {
+      display: flex;
+      align-items: center;
+      justify-content: space-between;
+      gap: 12px;
+      margin-bottom: 12px;
+    }
+
+    .axis-dot {
+      display: inline-block;
+      width: 10px;
+      height: 10px;
+      border-radius: 50%;
+      margin-right: 6px;
+      background: currentColor;
+    }
+
+    .image-frame {
+      position: relative;
+      cursor: crosshair;
+      user-select: none;
+      touch-action: none;
+
+      img {
+        display: block;
+        width: 100%;
+      }
+
+      svg {
+        position: absolute;
+        inset: 0;
+        width: 100%;
+        height: 100%;
+        pointer-events: none;
+      }
+    }
+
+    line {
+      stroke-width: 3;
+      vector-effect: non-scaling-stroke;
+      stroke-linecap: round;
+
+      &.draft {
+        stroke-dasharray: 4 4;
+      }
+
+      &.predicted {
+        stroke: #fff;
+        stroke-width: 1.5;
+        stroke-dasharray: 6 4;
+      }
+
+      &.misfit {
+        stroke: #f44336 !important;
+        stroke-width: 4;
+      }
+    }
+
+    .axis-x { color: #ff9800; stroke: #ff9800; }
+    .axis-y { color: #4caf50; stroke: #4caf50; }
+    .axis-z { color: #2196f3; stroke: #2196f3; }
+
+    .summary {
+      display: flex;
+      flex-wrap: wrap;
+      align-items: center;
+      gap: 8px 20px;
+      margin-top: 12px;
+      font-size: 14px;
+
+      p {
+        flex-basis: 100%;
+        margin: 0;
+        color: #666;
+      }
+
+      &.error p,
+      .warn {
+        color: #f44336;
+      }
+    }
+
+    .toggle {
+      display: flex;
+      align-items: center;
+      gap: 6px;
+      cursor: pointer;
+    }
+  `]
+})
+export class VanishingPointDialogComponent implements OnDestroy {
+  @ViewChild('image') imageRef!: ElementRef<HTMLImageElement>;
+
+  readonly imageUrl: string;
+  readonly axes = ROOM_AXES;
+  readonly axisLabels = AXIS_LABELS;
+  readonly maxResidual = MAX_RESIDUAL_DEG;
+
+  axis: RoomAxis = 'y';
+  segments: EdgeSegment[];
+  draft: { start: NormalizedPoint2D; end: NormalizedPoint2D } | null = null;
+  result: VanishingPointCalibration | null = null;
+  showResiduals = true;
+
+  constructor(
+    public dialogRef: MatDialogRef<VanishingPointDialogComponent, VanishingPointDialogResult | null>,
+    @Inject(MAT_DIALOG_DATA) public data: VanishingPointDialogData
+  ) {
+    this.imageUrl = URL.createObjectURL(data.file);
+    this.segments = [...data.segments];
+    this.recalculate();
+  }
+
+  ngOnDestroy() {
+    URL.revokeObjectURL(this.imageUrl);
+  }
+
+  countFor(axis: RoomAxis): number {
+    return this.segments.filter(s => s.axis === axis).length;
+  }
+
+  residualOf(index: number): number {
+    return this.result?.data?.residuals[index]?.residualDeg ?? 0;
+  }
+
+  get misfitCount(): number {
+    return this.result?.data?.residuals.filter(r => r.residualDeg > MAX_RESIDUAL_DEG).length ?? 0;
+  }
+
+  onPointerDown(event: PointerEvent) {
+    (event.currentTarget as HTMLElement).setPointerCapture(event.pointerId);
+    const point = this.relativePoint(event);
+    this.draft = { start: point, end: point };
+  }
+
+  onPointerMove(event: PointerEvent) {
+    if (!this.draft) return;
+    this.draft = { ...this.draft, end: this.relativePoint(event) };
+  }
+
+  onPointerUp(event: PointerEvent) {
+    this.onPointerMove(event);
+    const draft = this.draft;
+    this.draft = null;
+    if (!draft) return;
+
+    const length = Math.hypot(
+      draft.end.normalizedX - draft.start.normalizedX,
+      draft.end.normalizedY - draft.start.normalizedY
+    );
+    if (length < MIN_SEGMENT_LENGTH) return;
+
+    this.segments = [...this.segments, { axis: this.axis, ...draft }];
+    this.recalculate();
+  }
+
+  onRemoveLast() {
+    this.segments = this.segments.slice(0, -1);
+    this.recalculate();
+  }
+
+  onConfirm() {
+    if (!this.result?.data) return;
+    this.dialogRef.close({ segments: this.segments, calibration: this.result.data });
+  }
+
+  private recalculate() {
+    this.result = this.segments.length
+      ? calibrateFromVanishingPoints({
+        segments: this.segments,
+        imageWidth: this.data.imageWidth,
+        imageHeight: this.data.imageHeight,
+        viewDirectionHint: this.data.viewDirectionHint,
+        focalHintPx: this.data.focalHintPx,
+        distortion: this.data.distortion
+      })
+      : null;
+  }
+
+  /**
+   * Mausposition relativ zum Bild (0..1)
+   */
+  private relativePoint(event: PointerEvent): NormalizedPoint2D {
+    const rect = this.imageRef.nativeElement.getBoundingClientRect();
+    const clamp = (value: number) => Math.min(1, Math.max(0, value));
+    return {
+      normalizedX: clamp((event.clientX - rect.left) / rect.width),
+      normalizedY: clamp((event.clientY - rect.top) / rect.height)
+    };
+  }
+}
@@ -0,0 +1,109 @@
+import type { EulerRotation, NormalizedPoint2D } from '../models/session.types';
+import {
+  EdgeSegment,
+  RoomAxis,
+  calibrateFromVanishingPoints,
+  eulerToMatrix,
+  focalFromViewerFovY,
+  matrixToEuler,
+  viewerFovY
+} from './vanishing-points';
+
+const WIDTH = 1920;
+const HEIGHT = 1080;
+const CAMERA = { x: 2.5, y: 1.5, z: 0.5 };
+
+type Point = [number, number, number];
+
+/** Projiziert einen Raumpunkt wie die Three.js-Kamera (Euler YXZ, Blick entlang -z) */
+function project(point: Point, rotation: EulerRotation, focal: number): NormalizedPoint2D {
+  const m = eulerToMatrix(rotation);
+  const p = [point[0] - CAMERA.x, point[1] - CAMERA.y, point[2] - CAMERA.z];
+  const camera = [0, 1, 2].map(j => m[0][j] * p[0] + m[1][j] * p[1] + m[2][j] * p[2]);
+
+  return {
+    normalizedX: (WIDTH / 2 + focal * camera[0] / -camera[2]) / WIDTH,
+    normalizedY: (HEIGHT / 2 - focal * camera[1] / -camera[2]) / HEIGHT
+  };
+}
+
+/** Kanten eines 5 × 3 × 5 m Raums */
+function roomEdges(rotation: EulerRotation, focal: number, axes: RoomAxis[] = ['x', 'y', 'z']): EdgeSegment[] {
+  const edges: Array<[RoomAxis, Point, Point]> = [
+    ['x', [0, 0, 5], [5, 0, 5]],
+    ['x', [0, 3, 5], [5, 3, 5]],
+    ['y', [0, 0, 5], [0, 3, 5]],
+    ['y', [5, 0, 5], [5, 3, 5]],
+    ['z', [0, 0, 2], [0, 0, 5]],
+    ['z', [5, 0, 2], [5, 0, 5]]
+  ];
+
+  return edges
+    .filter(([axis]) => axes.includes(axis))
+    .map(([axis, start, end]) => ({ axis, start: project(start, rotation, focal), end: project(end, rotation, focal) }));
+}
+
+describe('vanishing-points', () => {
+  const rotation = { x: -12, y: 170, z: 4 };
+  const request = {
+    imageWidth: WIDTH,
+    imageHeight: HEIGHT,
+    viewDirectionHint: { x: 0, y: 0, z: 1 },
+    focalHintPx: 800
+  };
+
+  it('should convert between Euler YXZ and rotation matrices', () => {
+    expect(matrixToEuler(eulerToMatrix(rotation))).toEqual(rotation);
+    expect(matrixToEuler(eulerToMatrix({ x: 30, y: -45, z: -10 }))).toEqual({ x: 30, y: -45, z: -10 });
+  });
+
+  it('should recover rotation and focal length from room edges', () => {
+    const result = calibrateFromVanishingPoints({ ...request, segments: roomEdges(rotation, 1100) });
+
+    expect(result.success).toBe(true);
+    const data = result.data!;
+    expect(data.rotation.x).toBeCloseTo(-12, 1);
+    expect(data.rotation.y).toBeCloseTo(170, 1);
+    expect(data.rotation.z).toBeCloseTo(4, 1);
+    expect(data.focalPx).toBeCloseTo(1100, 0);
+    expect(data.focalFromVanishingPoints).toBe(true);
+    expect(data.rmsResidualDeg).toBeLessThan(0.01);
+    expect(data.residuals).toHaveLength(6);
+  });
+
+  it('should work with two axes and resolve the viewing direction', () => {
+    const result = calibrateFromVanishingPoints({ ...request, segments: roomEdges(rotation, 1100, ['x', 'y']) });
+    expect(result.data?.rotation.y).toBeCloseTo(170, 1);
+    expect(result.data?.focalPx).toBeCloseTo(1100, 0);
+
+    // Blickrichtung zur Rückwand (+z) gegen einen Hinweis in die Gegenrichtung
+    const flipped = calibrateFromVanishingPoints({
+      ...request,
+      viewDirectionHint: { x: 0, y: 0, z: -1 },
+      segments: roomEdges(rotation, 1100, ['x', 'y'])
+    });
+    expect(flipped.data?.rotation.y).toBeCloseTo(-10, 1);
+  });
+
+  it('should flag edges that do not fit and reject too few axes', () => {
+    // Dritte senkrechte Kante (Türrahmen) schief markiert
+    const door = { axis: 'y' as const, start: project([2, 0, 5], rotation, 1100), end: project([2, 2, 5], rotation, 1100) };
+    door.end = { ...door.end, normalizedX: door.end.normalizedX + 0.04 };
+
+    const result = calibrateFromVanishingPoints({ ...request, segments: [...roomEdges(rotation, 1100), door] });
+    const worst = result.data!.residuals.reduce((a, b) => (b.residualDeg > a.residualDeg ? b : a));
+    expect(worst.index).toBe(6);
+    expect(worst.residualDeg).toBeGreaterThan(2);
+
+    expect(calibrateFromVanishingPoints({ ...request, segments: roomEdges(rotation, 1100, ['y']) }).success).toBe(false);
+  });
+
+  it('should convert focal lengths to the viewer field of view', () => {
+    const canvas = { width: 1000, height: 600 };
+    const fov = viewerFovY(1100, WIDTH, 50, canvas);
+    expect(focalFromViewerFovY(fov, WIDTH, 50, canvas)).toBeCloseTo(1100, 6);
+
+    // Screenshot füllt die Canvas-Breite → Sichtfeld über die Canvas-Höhe
+    expect(viewerFovY(1100, WIDTH, 100, { width: WIDTH, height: HEIGHT })).toBeCloseTo(2 * Math.atan(540 / 1100) * 180 / Math.PI, 6);
+  });
+});
@@ -0,0 +1,482 @@
+/**
+ * ============================================================================
+ * VANISHING-POINTS (Kamera-Kalibrierung aus Raumkanten)
+ * ============================================================================
+ *
+ * Statt Pitch/Yaw/FOV per Slider anzupassen, markiert der Nutzer je
+ * Raumachse zwei bis drei Kanten im Screenshot (Wand-/Bodenkanten):
+ *
+ *   x   Breite (z.B. Boden-/Deckenkante der Rückwand)
+ *   y   Höhe   (senkrechte Raumecken, Tür-/Fensterrahmen)
+ *   z   Tiefe  (Kanten der Seitenwände Richtung Rückwand)
+ *
+ * Parallele Kanten einer Achse schneiden sich im Bild im Fluchtpunkt der
+ * Achse. Daraus folgt:
+ *
+ *   Brennweite   f² = -(v1 · v2) für zwei Fluchtpunkte orthogonaler Achsen
+ *                (relativ zur Bildmitte = Hauptpunkt)
+ *   Rotation     Richtung der Achse in Kamera-Koordinaten ∝ (vx, -vy, -f)
+ *                (Three.js: x rechts, y oben, Blick entlang -z)
+ *
+ * Die Rotation wird als Euler YXZ zurückgegeben (cameraRotation inkl. Roll,
+ * siehe coordinate-system.ts) - backgroundRotation ist danach überflüssig.
+ *
+ * Fluchtpunkte werden homogen gerechnet: Kanten, die im Bild parallel
+ * bleiben (Fluchtpunkt im Unendlichen), funktionieren genauso.
+ *
+ * Bei Linsenverzeichnung (request.distortion) werden die Kantenendpunkte
+ * vorher entzerrt - nur im Lochkamera-Bild bleiben Geraden gerade.
+ *
+ * ============================================================================
+ */
+
+import type { EulerRotation, LensDistortion, NormalizedPoint2D } from '../models/session.types';
+import { distortPoint, undistortPoint } from './lens-distortion';
+
+// ============================================================================
+// KONSTANTEN & TYPEN
+// ============================================================================
+
+export type RoomAxis = 'x' | 'y' | 'z';
+
+export const ROOM_AXES: RoomAxis[] = ['x', 'y', 'z'];
+
+/** Kürzere Kanten (relativ zur Bildgröße) sind zu ungenau */
+export const MIN_SEGMENT_LENGTH = 0.02;
+
+/** Ab dieser Abweichung (Grad) passt eine Kante nicht zum Fluchtpunkt */
+export const MAX_RESIDUAL_DEG = 2;
+
+/**
+ * Markierte Raumkante (Bildkoordinaten 0..1)
+ */
+export interface EdgeSegment {
+    axis: RoomAxis;
+    start: NormalizedPoint2D;
+    end: NormalizedPoint2D;
+}
+
+/**
+ * Abweichung einer Kante vom Fluchtpunkt der Lösung
+ */
+export interface EdgeResidual {
+    /** Index in der Eingabe */
+    index: number;
+    axis: RoomAxis;
+
+    /** Winkel zwischen Kante und Linie Kantenmitte → Fluchtpunkt (Grad) */
+    residualDeg: number;
+
+    /** Erwartete Kante (gleiche Länge, durch die Kantenmitte) für das Overlay */
+    predicted: { start: NormalizedPoint2D; end: NormalizedPoint2D };
+}
+
+export interface VanishingPointCalibration {
+    success: boolean;
+    message: string;
+    data?: {
+        /** Kamera-Rotation (Euler YXZ, Grad) */
+        rotation: EulerRotation;
+
+        /** Brennweite in Pixeln des Original-Screenshots */
+        focalPx: number;
+
+        /** Vertikales Sichtfeld des ganzen Screenshots (Grad) */
+        imageFovY: number;
+
+        /** false = zu wenige Fluchtpunkte, Brennweite aus focalHintPx übernommen */
+        focalFromVanishingPoints: boolean;
+
+        /** Fluchtpunkte (0..1 im entzerrten Bild, oft außerhalb; null = im Unendlichen) */
+        vanishingPoints: Record<RoomAxis, NormalizedPoint2D | null>;
+
+        residuals: EdgeResidual[];
+        rmsResidualDeg: number;
+    };
+}
+
+export interface VanishingPointRequest {
+    segments: EdgeSegment[];
+
+    /** Original-Größe des Screenshots in Pixeln */
+    imageWidth: number;
+    imageHeight: number;
+
+    /**
+     * Ungefähre Blickrichtung in Welt-Koordinaten (z.B. Kamera → Raummitte).
+     * Fluchtpunkte sagen nicht, ob die Kamera nach vorne oder hinten blickt.
+     */
+    viewDirectionHint: { x: number; y: number; z: number };
+
+    /** Brennweite, falls nur ein Fluchtpunkt endlich ist */
+    focalHintPx: number;
+
+    /** Verzeichnung des Screenshots (fehlt = ideale Lochkamera) */
+    distortion?: LensDistortion | null;
+}
+
+type Vec3 = [number, number, number];
+type Matrix3 = [Vec3, Vec3, Vec3];
+
+// ============================================================================
+// VEKTOR-HILFSFUNKTIONEN
+// ============================================================================
+
+const DEG = 180 / Math.PI;
+
+function dot(a: Vec3, b: Vec3): number {
+    return a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+}
+
+function cross(a: Vec3, b: Vec3): Vec3 {
+    return [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+}
+
+function scale(a: Vec3, factor: number): Vec3 {
+    return [a[0] * factor, a[1] * factor, a[2] * factor];
+}
+
+function normalize(a: Vec3): Vec3 {
+    const length = Math.hypot(a[0], a[1], a[2]);
+    return length > 0 ? scale(a, 1 / length) : a;
+}
+
+/**
+ * Eigenvektor zum kleinsten Eigenwert einer symmetrischen 3×3-Matrix (Jacobi)
+ */
+function smallestEigenvector(matrix: Matrix3): Vec3 {
+    const a = matrix.map(row => [...row]) as Matrix3;
+    const v: Matrix3 = [[1, 0, 0], [0, 1, 0], [0, 0, 1]];
+
+    for (let sweep = 0; sweep < 50; sweep++) {
+        const offDiagonal = Math.abs(a[0][1]) + Math.abs(a[0][2]) + Math.abs(a[1][2]);
+        if (offDiagonal < 1e-15) break;
+
+        for (const [p, q] of [[0, 1], [0, 2], [1, 2]]) {
+            if (Math.abs(a[p][q]) < 1e-18) continue;
+
+            const theta = (a[q][q] - a[p][p]) / (2 * a[p][q]);
+            const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+            const c = 1 / Math.sqrt(t * t + 1);
+            const s = t * c;
+
+            for (let k = 0; k < 3; k++) {
+                const akp = a[k][p];
+                const akq = a[k][q];
+                a[k][p] = c * akp - s * akq;
+                a[k][q] = s * akp + c * akq;
+            }
+            for (let k = 0; k < 3; k++) {
+                const apk = a[p][k];
+                const aqk = a[q][k];
+                a[p][k] = c * apk - s * aqk;
+                a[q][k] = s * apk + c * aqk;
+            }
+            for (let k = 0; k < 3; k++) {
+                const vkp = v[k][p];
+                const vkq = v[k][q];
+                v[k][p] = c * vkp - s * vkq;
+                v[k][q] = s * vkp + c * vkq;
+            }
+        }
+    }
+
+    const smallest = [0, 1, 2].reduce((best, i) => (a[i][i] < a[best][best] ? i : best), 0);
+    return [v[0][smallest], v[1][smallest], v[2][smallest]];
+}
+
+// ============================================================================
+// ROTATION (Euler YXZ wie Three.js)
+// ============================================================================
+
+/**
+ * Rotationsmatrix Kamera → Welt. Zeile i = Welt-Achse i in Kamera-Koordinaten.
+ */
+export function eulerToMatrix(rotation: EulerRotation): Matrix3 {
+    const a = Math.cos(rotation.x / DEG), b = Math.sin(rotation.x / DEG);
+    const c = Math.cos(rotation.y / DEG), d = Math.sin(rotation.y / DEG);
+    const e = Math.cos(rotation.z / DEG), f = Math.sin(rotation.z / DEG);
+
+    return [
+        [c * e + d * f * b, d * e * b - c * f, a * d],
+        [a * f, a * e, -b],
+        [c * f * b - d * e, d * f + c * e * b, a * c]
+    ];
+}
+
+export function matrixToEuler(m: Matrix3): EulerRotation {
+    const round = (value: number) => Math.round(value * 100) / 100 || 0;
+    const x = Math.asin(-Math.min(1, Math.max(-1, m[1][2])));
+
+    if (Math.abs(m[1][2]) < 0.9999999) {
+        return {
+            x: round(x * DEG),
+            y: round(Math.atan2(m[0][2], m[2][2]) * DEG),
+            z: round(Math.atan2(m[1][0], m[1][1]) * DEG)
+        };
+    }
+    return { x: round(x * DEG), y: round(Math.atan2(-m[2][0], m[0][0]) * DEG), z: 0 };
+}
+
+// ============================================================================
+// FLUCHTPUNKTE
+// ============================================================================
+
+/** Bildpunkt → zentrierte Pixel (Hauptpunkt = Bildmitte) */
+function centered(point: NormalizedPoint2D, width: number, height: number): [number, number] {
+    return [(point.normalizedX - 0.5) * width, (point.normalizedY - 0.5) * height];
+}
+
+/**
+ * Fluchtpunkt (homogen, zentrierte Pixel / norm) als Kleinste-Quadrate-
+ * Schnittpunkt der Kanten
+ *
+ * @param norm - Skalierung für die Kondition (größte Bildseite)
+ */
+function vanishingPoint(segments: EdgeSegment[], width: number, height: number, norm: number): Vec3 {
+    const m: Matrix3 = [[0, 0, 0], [0, 0, 0], [0, 0, 0]];
+
+    for (const segment of segments) {
+        const [x1, y1] = centered(segment.start, width, height);
+        const [x2, y2] = centered(segment.end, width, height);
+        const line = cross([x1 / norm, y1 / norm, 1], [x2 / norm, y2 / norm, 1]);
+        const l = scale(line, 1 / Math.hypot(line[0], line[1]));
+
+        for (let i = 0; i < 3; i++) {
+            for (let j = 0; j < 3; j++) m[i][j] += l[i] * l[j];
+        }
+    }
+
+    return smallestEigenvector(m);
+}
+
+/** Fluchtpunkt gilt als unendlich fern ab diesem Abstand (in Bildgrößen) */
+const INFINITY_DISTANCE = 1e3;
+
+function isFinite2D(vp: Vec3): boolean {
+    return Math.abs(vp[2]) * INFINITY_DISTANCE > Math.hypot(vp[0], vp[1]);
+}
+
+/**
+ * Brennweite aus Paaren endlicher Fluchtpunkte (Mittelwert, in Einheiten von norm)
+ */
+function focalFromPairs(points: Vec3[]): number | null {
+    const candidates: number[] = [];
+
+    for (let i = 0; i < points.length; i++) {
+        for (let j = i + 1; j < points.length; j++) {
+            if (!isFinite2D(points[i]) || !isFinite2D(points[j])) continue;
+
+            const a = scale(points[i], 1 / points[i][2]);
+            const b = scale(points[j], 1 / points[j][2]);
+            const f2 = -(a[0] * b[0] + a[1] * b[1]);
+            if (f2 > 0) candidates.push(Math.sqrt(f2));
+        }
+    }
+
+    return candidates.length ? candidates.reduce((sum, f) => sum + f, 0) / candidates.length : null;
+}
+
+/**
+ * Ergänzt zwei orthonormale Achsen zur dritten (rechtshändig: x × y = z)
+ */
+function thirdAxis(rows: Partial<Record<RoomAxis, Vec3>>, missing: RoomAxis): Vec3 {
+    if (missing === 'x') return cross(rows.y!, rows.z!);
+    if (missing === 'y') return cross(rows.z!, rows.x!);
+    return cross(rows.x!, rows.y!);
+}
+
+/**
+ * Wählt die Vorzeichen der beiden gemessenen Achsen: Kamera steht aufrecht
+ * (Welt-Y zeigt im Bild nach oben), Blickrichtung möglichst zum Hinweis
+ */
+function chooseOrientation(first: RoomAxis, a: Vec3, second: RoomAxis, b: Vec3, viewDirection: Vec3): Matrix3 {
+    const missing = ROOM_AXES.find(axis => axis !== first && axis !== second)!;
+    let best: { matrix: Matrix3; score: number } | null = null;
+
+    for (const signA of [1, -1]) {
+        for (const signB of [1, -1]) {
+            const rows: Partial<Record<RoomAxis, Vec3>> = { [first]: scale(a, signA), [second]: scale(b, signB) };
+            rows[missing] = thirdAxis(rows, missing);
+
+            const matrix: Matrix3 = [rows.x!, rows.y!, rows.z!];
+            if (matrix[1][1] < 0) continue;
+
+            // Blickrichtung in Welt-Koordinaten = R · (0, 0, -1)
+            const forward: Vec3 = [-matrix[0][2], -matrix[1][2], -matrix[2][2]];
+            const score = dot(forward, viewDirection);
+            if (!best || score > best.score) best = { matrix, score };
+        }
+    }
+
+    return best!.matrix;
+}
+
+/**
+ * Kalibriert Rotation und Brennweite aus markierten Raumkanten
+ */
+export function calibrateFromVanishingPoints(request: VanishingPointRequest): VanishingPointCalibration {
+    const { imageWidth: width, imageHeight: height, viewDirectionHint, focalHintPx, distortion } = request;
+    const norm = Math.max(width, height);
+    const image = { width, height };
+
+    const segments = request.segments.map(segment => ({
+        ...segment,
+        start: undistortPoint(segment.start, distortion, image),
+        end: undistortPoint(segment.end, distortion, image)
+    }));
+
+    const byAxis = (axis: RoomAxis) => segments.filter(s => s.axis === axis);
+    const axes = ROOM_AXES.filter(axis => byAxis(axis).length >= 2);
+
+    if (axes.length < 2) {
+        return {
+            success: false,
+            message: 'Mindestens zwei Achsen mit je zwei Kanten markieren'
+        };
+    }
+
+    const points = new Map<RoomAxis, Vec3>(axes.map(axis => [axis, vanishingPoint(byAxis(axis), width, height, norm)]));
+
+    const estimatedFocal = focalFromPairs([...points.values()]);
+    const focal = estimatedFocal ?? focalHintPx / norm;
+
+    // Richtungen der Achsen in Kamera-Koordinaten (Vorzeichen noch offen)
+    const directions = new Map<RoomAxis, Vec3>();
+    for (const [axis, vp] of points) {
+        directions.set(axis, normalize([vp[0], -vp[1], -focal * vp[2]]));
+    }
+
+    // Orthonormalisieren: senkrechte Achse zuerst (bestimmt Pitch und Roll)
+    const [first, second] = (['y', 'x', 'z'] as RoomAxis[]).filter(axis => directions.has(axis));
+    const a = directions.get(first)!;
+    const raw = directions.get(second)!;
+    if (Math.abs(dot(a, raw)) > 0.99) {
+        return { success: false, message: 'Fluchtpunkte zweier Achsen fallen zusammen - Kanten prüfen' };
+    }
+    const b = normalize([raw[0] - dot(raw, a) * a[0], raw[1] - dot(raw, a) * a[1], raw[2] - dot(raw, a) * a[2]]);
+
+    const matrix = chooseOrientation(first, a, second, b, [viewDirectionHint.x, viewDirectionHint.y, viewDirectionHint.z]);
+    const rotation = matrixToEuler(matrix);
+
+    // Residuen: Kante gegen Fluchtpunkt der Lösung (Overlay zurück in den Screenshot)
+    const residuals = segments.map((segment, index) => {
+        const residual = edgeResidual(segment, index, matrix[ROOM_AXES.indexOf(segment.axis)], focal, width, height, norm);
+        residual.predicted = {
+            start: distortPoint(residual.predicted.start, distortion, image),
+            end: distortPoint(residual.predicted.end, distortion, image)
+        };
+        return residual;
+    });
+    const used = residuals.filter(r => byAxis(r.axis).length >= 2);
+    const rmsResidualDeg = Math.sqrt(used.reduce((sum, r) => sum + r.residualDeg ** 2, 0) / Math.max(1, used.length));
+
+    const vanishingPoints = Object.fromEntries(ROOM_AXES.map(axis => {
+        const d = matrix[ROOM_AXES.indexOf(axis)];
+        const vp: Vec3 = [focal * d[0], -focal * d[1], -d[2]];
+        return [axis, isFinite2D(vp)
+            ? { normalizedX: (vp[0] / vp[2]) * norm / width + 0.5, normalizedY: (vp[1] / vp[2]) * norm / height + 0.5 }
+            : null];
+    })) as Record<RoomAxis, NormalizedPoint2D | null>;
+
+    const focalPx = focal * norm;
+    const imageFovY = 2 * Math.atan(height / 2 / focalPx) * DEG;
+
+    return {
+        success: true,
+        message: estimatedFocal === null
+            ? `Rotation aus ${axes.length} Fluchtpunkten - Brennweite nicht bestimmbar, Sichtfeld beibehalten`
+            : `Rotation und Sichtfeld aus ${axes.length} Fluchtpunkten`,
+        data: {
+            rotation,
+            focalPx,
+            imageFovY,
+            focalFromVanishingPoints: estimatedFocal !== null,
+            vanishingPoints,
+            residuals,
+            rmsResidualDeg
+        }
+    };
+}
+
+function edgeResidual(
+    segment: EdgeSegment,
+    index: number,
+    direction: Vec3,
+    focal: number,
+    width: number,
+    height: number,
+    norm: number
+): EdgeResidual {
+    const [x1, y1] = centered(segment.start, width, height).map(v => v / norm);
+    const [x2, y2] = centered(segment.end, width, height).map(v => v / norm);
+    const mx = (x1 + x2) / 2;
+    const my = (y1 + y2) / 2;
+
+    // Fluchtpunkt homogen (zentriert / norm) → Richtung ab Kantenmitte
+    const vp: Vec3 = [focal * direction[0], -focal * direction[1], -direction[2]];
+    let tx = vp[0] - mx * vp[2];
+    let ty = vp[1] - my * vp[2];
+    const tLength = Math.hypot(tx, ty) || 1;
+    tx /= tLength;
+    ty /= tLength;
+
+    const sx = x2 - x1;
+    const sy = y2 - y1;
+    const sLength = Math.hypot(sx, sy) || 1;
+    const cos = Math.min(1, Math.abs(sx * tx + sy * ty) / sLength);
+
+    const toImage = (x: number, y: number): NormalizedPoint2D => ({
+        normalizedX: x * norm / width + 0.5,
+        normalizedY: y * norm / height + 0.5
+    });
+    const half = sLength / 2;
+
+    return {
+        index,
+        axis: segment.axis,
+        residualDeg: Math.acos(cos) * DEG,
+        predicted: {
+            start: toImage(mx - tx * half, my - ty * half),
+            end: toImage(mx + tx * half, my + ty * half)
+        }
+    };
+}
+
+// ============================================================================
+// SICHTFELD IM VIEWER
+// ============================================================================
+
+/**
+ * Screenshot-Pixel → CSS-Pixel im Viewer (background-size in % der Breite)
+ */
+function displayFactor(imageWidth: number, backgroundScale: number, canvasWidth: number): number {
+    return (backgroundScale / 100) * canvasWidth / imageWidth;
+}
+
+/**
+ * fovY der Viewer-Kamera, damit das Drahtgitter zum dargestellten
+ * Screenshot passt (Screenshot zentriert, backgroundScale % der Breite)
+ */
+export function viewerFovY(
+    focalPx: number,
+    imageWidth: number,
+    backgroundScale: number,
+    canvas: { width: number; height: number }
+): number {
+    const focalCanvas = focalPx * displayFactor(imageWidth, backgroundScale, canvas.width);
+    return 2 * Math.atan(canvas.height / 2 / focalCanvas) * DEG;
+}
+
+/**
+ * Umkehrung von viewerFovY: Brennweite in Screenshot-Pixeln
+ */
+export function focalFromViewerFovY(
+    fovY: number,
+    imageWidth: number,
+    backgroundScale: number,
+    canvas: { width: number; height: number }
+): number {
+    const focalCanvas = canvas.height / 2 / Math.tan(fovY / 2 / DEG);
+    return focalCanvas / displayFactor(imageWidth, backgroundScale, canvas.width);
+}
@@ -0,0 +1,373 @@
+import { AfterViewInit, Component, ElementRef, Inject, OnDestroy, ViewChild } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { MAT_DIALOG_DATA, MatDialog, MatDialogModule, MatDialogRef } from '@angular/material/dialog';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatSliderModule } from '@angular/material/slider';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+import { MatChipsModule } from '@angular/material/chips';
+import { MatProgressBarModule } from '@angular/material/progress-bar';
+import { MatTooltipModule } from '@angular/material/tooltip';
+import { firstValueFrom } from 'rxjs';
+
+import {
+  MAX_VIDEO_FRAMES,
+  formatVideoTime,
+  intervalFrameTimes,
+  mergeFrameTimes,
+  videoFrameFilename
+} from '../video-frames';
+
+export interface VideoFrameDialogData {
+  file: File;
+}
+
+export interface ExtractedVideoFrame {
+  file: File;
+  videoSeconds: number;
+}
+
+/**
+ * Öffnet den Video-Dialog. Ergebnis: extrahierte Frames (nach Zeit sortiert) oder null (abgebrochen)
+ */
+export function openVideoFrameDialog(dialog: MatDialog, file: File): Promise<ExtractedVideoFrame[] | null> {
+  const dialogRef = dialog.open<VideoFrameDialogComponent, VideoFrameDialogData, ExtractedVideoFrame[] | null>(
+    VideoFrameDialogComponent,
+    { width: '820px', disableClose: true, data: { file } }
+  );
+  return firstValueFrom(dialogRef.afterClosed()).then(result => result ?? null);
+}
+
+@Component({
+  selector: 'app-video-frame-dialog',
+  standalone: true,
+  imports: [
+    CommonModule,
+    FormsModule,
+    MatDialogModule,
+    MatButtonModule,
+    MatIconModule,
+    MatSliderModule,
+    MatFormFieldModule,
+    MatInputModule,
+    MatChipsModule,
+    MatProgressBarModule,
+    MatTooltipModule
+  ],
+  template: `
+    <h2 mat-dialog-title>
+      <mat-icon>movie</mat-icon>
+      Frames aus {{ data.file.name }}
+    </h2>
+
+    <mat-dialog-content>
+      <video
+        #video
+        muted
+        preload="auto"
+        (loadedmetadata)="onLoadedMetadata()"
+        (timeupdate)="onTimeUpdate()"
+        (error)="onVideoError()"
+      ></video>
+
+      <!-- Scrubber -->
+      <div class="scrubber">
+        <button mat-icon-button (click)="stepBy(-1)" [disabled]="!duration || isExtracting" matTooltip="1 s zurück">
+          <mat-icon>replay</mat-icon>
+        </button>
+        <mat-slider min="0" [max]="duration" step="0.01" [disabled]="!duration || isExtracting">
+          <input matSliderThumb [ngModel]="currentTime" (ngModelChange)="onScrub($event)" />
+        </mat-slider>
+        <button mat-icon-button (click)="stepBy(1)" [disabled]="!duration || isExtracting" matTooltip="1 s vor">
+          <mat-icon>forward</mat-icon>
+        </button>
+        <span class="time">{{ formatTime(currentTime) }} / {{ formatTime(duration) }}</span>
+      </div>
+
+      <div class="actions-row">
+        <button mat-stroked-button (click)="onAddCurrentFrame()" [disabled]="!duration || isExtracting || limitReached">
+          <mat-icon>add_photo_alternate</mat-icon>
+          Diesen Frame hinzufügen
+        </button>
+      </div>
+
+      <!-- Intervall -->
+      <div class="actions-row">
+        <mat-form-field appearance="outline">
+          <mat-label>Alle (Sek.)</mat-label>
+          <input matInput type="number" min="0.1" [(ngModel)]="intervalSeconds" [disabled]="isExtracting" />
+        </mat-form-field>
+        <mat-form-field appearance="outline">
+          <mat-label>Von (Sek.)</mat-label>
+          <input matInput type="number" min="0" [max]="duration" [(ngModel)]="rangeStart" [disabled]="isExtracting" />
+        </mat-form-field>
+        <mat-form-field appearance="outline">
+          <mat-label>Bis (Sek.)</mat-label>
+          <input matInput type="number" min="0" [max]="duration" [(ngModel)]="rangeEnd" [disabled]="isExtracting" />
+        </mat-form-field>
+        <button mat-stroked-button (click)="onAddInterval()" [disabled]="!duration || isExtracting || limitReached">
+          <mat-icon>timer</mat-icon>
+          Intervall hinzufügen
+        </button>
+      </div>
+
+      <!-- Auswahl -->
+      <div class="selection">
+        <strong>Ausgewählt ({{ selectedTimes.length }})</strong>
+        @if (selectedTimes.length > 0) {
+          <span class="hint">Der erste Frame wird Referenzpunkt (t0)</span>
+        }
+        <mat-chip-set>
+          @for (time of selectedTimes; track time; let first = $first) {
+            <mat-chip [class.reference-chip]="first" (click)="onScrub(time)" [disabled]="isExtracting">
+              {{ formatTime(time) }}
+              <button matChipRemove (click)="onRemoveTime(time); $event.stopPropagation()">
+                <mat-icon>cancel</mat-icon>
+              </button>
+            </mat-chip>
+          } @empty {
+            <span class="none">Noch keine Frames gewählt</span>
+          }
+        </mat-chip-set>
+        @if (limitReached) {
+          <span class="hint">Maximal {{ maxFrames }} Frames pro Video</span>
+        }
+      </div>
+
+      @if (isExtracting) {
+        <mat-progress-bar mode="determinate" [value]="progress"></mat-progress-bar>
+      }
+      @if (error) {
+        <p class="error">{{ error }}</p>
+      }
+    </mat-dialog-content>
+
+    <mat-dialog-actions align="end">
+      <button mat-button [mat-dialog-close]="null" [disabled]="isExtracting">Abbrechen</button>
+      <button mat-button (click)="selectedTimes = []" [disabled]="isExtracting || selectedTimes.length === 0">
+        Auswahl leeren
+      </button>
+      <button
+        mat-raised-button
+        color="primary"
+        (click)="onExtract()"
+        [disabled]="isExtracting || selectedTimes.length === 0"
+      >
+        {{ selectedTimes.length }} Frames übernehmen
+      </button>
+    </mat-dialog-actions>
+  `,
+  styles: [`
+    h2[mat-dialog-title] {
+      display: flex;
+      align-items: center;
+      gap: 10px;
+    }
+
+    video {
+      width: 100%;
+      max-height: 360px;
+      background: #000;
+      border-radius: 4px;
+    }
+
+    .scrubber {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+
+      mat-slider {
+        flex: 1;
+      }
+
+      .time {
+        font-family: monospace;
+        font-size: 13px;
+        white-space: nowrap;
+      }
+    }
+
+    .actions-row {
+      display: flex;
+      align-items: center;
+      gap: 10px;
+      flex-wrap: wrap;
+      margin-top: 8px;
+
+      mat-form-field {
+        width: 110px;
+      }
+    }
+
+    .selection {
+      margin-top: 8px;
+
+      .hint {
+        margin-left: 10px;
+        font-size: 12px;
+        color: #666;
+      }
+    }
+
+    .reference-chip {
+      background: #ff9800 !important;
+    }
+
+    .none {
+      color: #999;
+      font-style: italic;
+      font-size: 13px;
+    }
+
+    .error {
+      color: #f44336;
+    }
+  `]
+})
+export class VideoFrameDialogComponent implements AfterViewInit, OnDestroy {
+  @ViewChild('video') videoRef!: ElementRef<HTMLVideoElement>;
+
+  readonly maxFrames = MAX_VIDEO_FRAMES;
+  private readonly videoUrl: string;
+
+  duration = 0;
+  currentTime = 0;
+  selectedTimes: number[] = [];
+
+  intervalSeconds = 30;
+  rangeStart = 0;
+  rangeEnd = 0;
+
+  isExtracting = false;
+  progress = 0;
+  error = '';
+
+  constructor(
+    public dialogRef: MatDialogRef<VideoFrameDialogComponent, ExtractedVideoFrame[] | null>,
+    @Inject(MAT_DIALOG_DATA) public data: VideoFrameDialogData
+  ) {
+    this.videoUrl = URL.createObjectURL(data.file);
+  }
+
+  ngAfterViewInit() {
+    this.videoRef.nativeElement.src = this.videoUrl;
+  }
+
+  ngOnDestroy() {
+    URL.revokeObjectURL(this.videoUrl);
+  }
+
+  get limitReached(): boolean {
+    return this.selectedTimes.length >= MAX_VIDEO_FRAMES;
+  }
+
+  formatTime(seconds: number): string {
+    return formatVideoTime(seconds);
+  }
+
+  // ==========================================================================
+  // VIDEO
+  // ==========================================================================
+
+  onLoadedMetadata() {
+    const video = this.videoRef.nativeElement;
+    this.duration = video.duration;
+    this.rangeEnd = Math.floor(video.duration * 100) / 100;
+    console.log(`🎬 Video geladen: ${this.data.file.name} (${formatVideoTime(video.duration)}, ${video.videoWidth}x${video.videoHeight})`);
+  }
+
+  onTimeUpdate() {
+    this.currentTime = this.videoRef.nativeElement.currentTime;
+  }
+
+  onVideoError() {
+    this.error = 'Video kann im Browser nicht abgespielt werden (Codec nicht unterstützt?)';
+  }
+
+  onScrub(time: number) {
+    this.videoRef.nativeElement.currentTime = time;
+    this.currentTime = time;
+  }
+
+  stepBy(seconds: number) {
+    this.onScrub(Math.min(this.duration, Math.max(0, this.currentTime + seconds)));
+  }
+
+  // ==========================================================================
+  // AUSWAHL
+  // ==========================================================================
+
+  onAddCurrentFrame() {
+    this.selectedTimes = mergeFrameTimes(this.selectedTimes, [this.currentTime]);
+  }
+
+  onAddInterval() {
+    const end = Math.min(this.rangeEnd, this.duration);
+    this.selectedTimes = mergeFrameTimes(
+      this.selectedTimes,
+      intervalFrameTimes(this.rangeStart, end, this.intervalSeconds)
+    );
+  }
+
+  onRemoveTime(time: number) {
+    this.selectedTimes = this.selectedTimes.filter(t => t !== time);
+  }
+
+  // ==========================================================================
+  // EXTRAKTION
+  // ==========================================================================
+
+  async onExtract() {
+    const video = this.videoRef.nativeElement;
+    video.pause();
+
+    this.isExtracting = true;
+    this.progress = 0;
+    this.error = '';
+
+    try {
+      const frames: ExtractedVideoFrame[] = [];
+
+      for (const [i, time] of this.selectedTimes.entries()) {
+        await this.seek(video, time);
+        frames.push({ file: await this.captureFrame(video, time), videoSeconds: time });
+        this.progress = ((i + 1) / this.selectedTimes.length) * 100;
+      }
+
+      console.log(`✅ ${frames.length} Frames extrahiert`);
+      this.dialogRef.close(frames);
+    } catch (err: any) {
+      console.error('❌ Frame-Extraktion fehlgeschlagen:', err);
+      this.error = err.message || 'Frames konnten nicht extrahiert werden';
+    } finally {
+      this.isExtracting = false;
+    }
+  }
+
+  private seek(video: HTMLVideoElement, time: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+      video.addEventListener('seeked', () => resolve(), { once: true });
+      video.addEventListener('error', () => reject(new Error('Video-Fehler beim Springen')), { once: true });
+      video.currentTime = time;
+    });
+  }
+
+  private captureFrame(video: HTMLVideoElement, time: number): Promise<File> {
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    canvas.getContext('2d')!.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+    return new Promise((resolve, reject) => {
+      canvas.toBlob(blob => {
+        if (!blob) {
+          reject(new Error(`Frame bei ${formatVideoTime(time)} konnte nicht gespeichert werden`));
+          return;
+        }
+        resolve(new File([blob], videoFrameFilename(this.data.file.name, time), { type: 'image/png' }));
+      }, 'image/png');
+    });
+  }
+}
@@ -0,0 +1,28 @@
+import {
+  MAX_VIDEO_FRAMES,
+  formatVideoTime,
+  frameOffsets,
+  intervalFrameTimes,
+  mergeFrameTimes,
+  videoFrameFilename
+} from './video-frames';
+
+describe('video-frames', () => {
+  it('should build interval times, merge them with picked frames and derive offsets', () => {
+    expect(intervalFrameTimes(0, 95, 30)).toEqual([0, 30, 60, 90]);
+    expect(intervalFrameTimes(10, 70, 30)).toEqual([10, 40, 70]);
+    expect(intervalFrameTimes(0, 10, 0)).toEqual([]);
+    expect(intervalFrameTimes(0, 100000, 1).length).toBe(MAX_VIDEO_FRAMES);
+
+    const selected = mergeFrameTimes([12.344], [0, 30, 12.341, 30]);
+    expect(selected).toEqual([0, 12.34, 30]);
+
+    expect(frameOffsets([12.34, 30, 45.5])).toEqual([0, 17.66, 33.16]);
+  });
+
+  it('should format video times and frame filenames', () => {
+    expect(formatVideoTime(75.5)).toBe('1:15.50');
+    expect(formatVideoTime(3725)).toBe('1:02:05.00');
+    expect(videoFrameFilename('cam1.mp4', 12.5)).toBe('cam1_t0012.50s.png');
+  });
+});
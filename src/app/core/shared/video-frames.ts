@@ -0,0 +1,95 @@
+/**
+ * ============================================================================
+ * VIDEO-FRAMES (Frame-Auswahl für den Video-Import in Stage 1)
+ * ============================================================================
+ *
+ * Stage 1 nimmt neben Bildern auch Videos an. Im Video-Dialog wählt man
+ * einzelne Zeitpunkte per Scrubber oder ein Intervall ("alle 30 s"); jeder
+ * Zeitpunkt wird als PNG extrahiert und wie ein hochgeladener Screenshot
+ * behandelt. Der früheste gewählte Frame wird t0, die übrigen bekommen die
+ * Video-Zeit als Offset.
+ *
+ * Hier nur die reine Zeit-Logik - das Extrahieren (video + canvas) macht
+ * der Dialog.
+ *
+ * ============================================================================
+ */
+
+// ============================================================================
+// KONSTANTEN
+// ============================================================================
+
+/** Obergrenze pro Video - jeder Frame landet als PNG im Speicher */
+export const MAX_VIDEO_FRAMES = 200;
+
+/** Zeitpunkte näher beieinander gelten als derselbe Frame */
+const SAME_FRAME_SECONDS = 0.01;
+
+// ============================================================================
+// ZEITPUNKTE
+// ============================================================================
+
+function roundTime(seconds: number): number {
+    return Math.round(seconds * 100) / 100;
+}
+
+/**
+ * Zeitpunkte im festen Abstand (start, start+interval, ... bis end)
+ *
+ * @returns Leer bei ungültigem Intervall, höchstens MAX_VIDEO_FRAMES Einträge
+ */
+export function intervalFrameTimes(start: number, end: number, intervalSeconds: number): number[] {
+    if (!(intervalSeconds > 0) || !(end >= start)) return [];
+
+    const times: number[] = [];
+    for (let i = 0; times.length < MAX_VIDEO_FRAMES; i++) {
+        const time = start + i * intervalSeconds;
+        if (time > end + SAME_FRAME_SECONDS) break;
+        times.push(roundTime(time));
+    }
+    return times;
+}
+
+/**
+ * Fügt Zeitpunkte zur Auswahl hinzu (sortiert, ohne Duplikate)
+ */
+export function mergeFrameTimes(selected: number[], added: number[]): number[] {
+    const merged = [...selected, ...added.map(roundTime)].sort((a, b) => a - b);
+    return merged
+        .filter((time, i) => i === 0 || time - merged[i - 1] >= SAME_FRAME_SECONDS)
+        .slice(0, MAX_VIDEO_FRAMES);
+}
+
+/**
+ * Offsets zum ersten gewählten Frame (= t0)
+ */
+export function frameOffsets(times: number[]): number[] {
+    const t0 = Math.min(...times);
+    return times.map(time => roundTime(time - t0));
+}
+
+// ============================================================================
+// ANZEIGE / DATEINAMEN
+// ============================================================================
+
+/**
+ * "m:ss.ss" bzw. "h:mm:ss.ss"
+ */
+export function formatVideoTime(seconds: number): string {
+    const total = Math.max(0, roundTime(seconds));
+    const hours = Math.floor(total / 3600);
+    const minutes = Math.floor((total % 3600) / 60);
+    const secs = (total % 60).toFixed(2).padStart(5, '0');
+
+    return hours > 0
+        ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}`
+        : `${minutes}:${secs}`;
+}
+
+/**
+ * Dateiname des extrahierten Frames, z.B. "cam1_t0012.50s.png"
+ */
+export function videoFrameFilename(videoFilename: string, seconds: number): string {
+    const base = videoFilename.replace(/\.[a-z0-9]+$/i, '');
+    return `${base}_t${roundTime(seconds).toFixed(2).padStart(7, '0')}s.png`;
+}
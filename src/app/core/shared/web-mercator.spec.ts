@@ -0,0 +1,24 @@
+import { WORLD_SIZE, projectMercator, unprojectMercator, tileZoomForScale, visibleTiles } from './web-mercator';
+
+describe('web-mercator', () => {
+  it('should map the equator and prime meridian to the world center', () => {
+    const p = projectMercator(0, 0);
+    expect(p.x).toBeCloseTo(WORLD_SIZE / 2, 9);
+    expect(p.y).toBeCloseTo(WORLD_SIZE / 2, 9);
+  });
+
+  it('should round-trip coordinates', () => {
+    const p = projectMercator(48.137, 11.575);
+    const back = unprojectMercator(p.x, p.y);
+    expect(back.latitude).toBeCloseTo(48.137, 9);
+    expect(back.longitude).toBeCloseTo(11.575, 9);
+  });
+
+  it('should list the tiles covering a viewport', () => {
+    expect(tileZoomForScale(4)).toBe(2);
+
+    const tiles = visibleTiles({ x: 60, y: 10, width: 70, height: 10 }, 2, '/tiles/{z}/{x}/{y}.png');
+    expect(tiles.map(t => t.url)).toEqual(['/tiles/2/0/0.png', '/tiles/2/1/0.png', '/tiles/2/2/0.png']);
+    expect(tiles[0].size).toBe(64);
+  });
+});
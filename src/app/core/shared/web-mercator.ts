@@ -0,0 +1,140 @@
+/**
+ * ============================================================================
+ * WEB-MERCATOR PROJEKTION (Offline-Karte)
+ * ============================================================================
+ *
+ * Welt-Koordinaten wie bei Slippy-Map-Tiles:
+ *   x: 0 (180°W) → WORLD_SIZE (180°E)
+ *   y: 0 (85.05°N) → WORLD_SIZE (85.05°S)
+ *
+ * Damit passen die gebündelte Basiskarte und die Tiles eines lokalen
+ * Tile-Servers ohne Umrechnung übereinander.
+ *
+ * ============================================================================
+ */
+
+// ============================================================================
+// KONSTANTEN
+// ============================================================================
+
+/** Kantenlänge der Welt in Welt-Einheiten (= ein Tile bei Zoom 0) */
+export const WORLD_SIZE = 256;
+
+/** Breitengrad-Grenze der Web-Mercator-Projektion */
+export const MAX_LATITUDE = 85.05112878;
+
+const DEG_TO_RAD = Math.PI / 180;
+const RAD_TO_DEG = 180 / Math.PI;
+
+// ============================================================================
+// TYPEN
+// ============================================================================
+
+export interface MercatorPoint {
+    x: number;
+    y: number;
+}
+
+/**
+ * Sichtbarer Ausschnitt in Welt-Koordinaten
+ */
+export interface MapViewport {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/**
+ * Ein Tile mit Position in Welt-Koordinaten
+ */
+export interface MapTile {
+    url: string;
+    x: number;
+    y: number;
+    size: number;
+}
+
+// ============================================================================
+// PROJEKTION
+// ============================================================================
+
+/**
+ * Geographische Koordinaten → Welt-Koordinaten
+ */
+export function projectMercator(latitude: number, longitude: number): MercatorPoint {
+    const lat = Math.max(-MAX_LATITUDE, Math.min(MAX_LATITUDE, latitude)) * DEG_TO_RAD;
+
+    return {
+        x: (longitude + 180) / 360 * WORLD_SIZE,
+        y: (1 - Math.log(Math.tan(lat) + 1 / Math.cos(lat)) / Math.PI) / 2 * WORLD_SIZE
+    };
+}
+
+/**
+ * Welt-Koordinaten → geographische Koordinaten
+ */
+export function unprojectMercator(x: number, y: number): { latitude: number; longitude: number } {
+    const n = Math.PI * (1 - 2 * y / WORLD_SIZE);
+
+    return {
+        latitude: Math.atan(Math.sinh(n)) * RAD_TO_DEG,
+        longitude: x / WORLD_SIZE * 360 - 180
+    };
+}
+
+// ============================================================================
+// TILES
+// ============================================================================
+
+/**
+ * Tile-Zoomstufe, bei der ein Tile etwa 256 Bildschirm-Pixel groß ist
+ *
+ * @param pixelsPerUnit - Bildschirm-Pixel pro Welt-Einheit
+ */
+export function tileZoomForScale(pixelsPerUnit: number, maxZoom = 18): number {
+    const zoom = Math.round(Math.log2(Math.max(pixelsPerUnit, 1e-9)));
+    return Math.max(0, Math.min(maxZoom, zoom));
+}
+
+/**
+ * Alle Tiles, die den Ausschnitt abdecken
+ *
+ * @param template - URL-Vorlage mit {z}, {x}, {y}
+ * @param maxTiles - Obergrenze (verhindert Tile-Flut bei großen Fenstern)
+ */
+export function visibleTiles(
+    viewport: MapViewport,
+    zoom: number,
+    template: string,
+    maxTiles = 64
+): MapTile[] {
+    const count = 2 ** zoom;
+    const size = WORLD_SIZE / count;
+    const clamp = (v: number) => Math.max(0, Math.min(count - 1, v));
+
+    const xFrom = clamp(Math.floor(viewport.x / size));
+    const xTo = clamp(Math.floor((viewport.x + viewport.width) / size));
+    const yFrom = clamp(Math.floor(viewport.y / size));
+    const yTo = clamp(Math.floor((viewport.y + viewport.height) / size));
+
+    const tiles: MapTile[] = [];
+
+    for (let ty = yFrom; ty <= yTo; ty++) {
+        for (let tx = xFrom; tx <= xTo; tx++) {
+            if (tiles.length >= maxTiles) return tiles;
+
+            tiles.push({
+                url: template
+                    .replace('{z}', String(zoom))
+                    .replace('{x}', String(tx))
+                    .replace('{y}', String(ty)),
+                x: tx * size,
+                y: ty * size,
+                size
+            });
+        }
+    }
+
+    return tiles;
+}
@@ -12,12 +12,46 @@ import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
 import { MatChipsModule } from '@angular/material/chips';
 import { MatTooltipModule } from '@angular/material/tooltip';
 import { MatSnackBar, MatSnackBarModule } from '@angular/material/snack-bar';  
+import { MatDialog, MatDialogModule } from '@angular/material/dialog';
+import { MatSelectModule } from '@angular/material/select';
 
-import { SessionService } from '../../services/session.service';
+import { SessionService, SessionArchiveImportResult } from '../../services/session.service';
+import { OcrService } from '../../services/ocr.service';
+import { SESSION_ARCHIVE_EXTENSION } from '../../shared/session-archive';
+import {
+  ImageTimestamp,
+  capturedAtDifference,
+  extractImageTimestamp,
+  parseDateText,
+  parseFilenameTimestamp,
+  shiftCapturedAt,
+  suggestTimeline
+} from '../../shared/image-timestamp';
+import {
+  DateOrder,
+  OcrRegion,
+  OcrTimestampResult,
+  flagOcrOutliers,
+  interpretOcrText
+} from '../../shared/ocr-timestamp';
+import { openOcrRegionDialog } from '../../shared/ocr-region-dialog/ocr-region-dialog.component';
+import {
+  AbsoluteTime,
+  absoluteTime,
+  formatUtcOffset,
+  offsetLabel,
+  timeReferenceFromCapture
+} from '../../shared/session-time';
+import { COMMON_UTC_OFFSETS } from '../../shared/time-zones';
+import { formatVideoTime, frameOffsets } from '../../shared/video-frames';
+import { ExtractedVideoFrame, openVideoFrameDialog } from '../../shared/video-frame-dialog/video-frame-dialog.component';
 import {
   ScreenshotData,
   CreateSessionRequest,
-  Dimensions
+  Dimensions,
+  SessionData,
+  TimeReference,
+  getResumeRoute
 } from '../../models/session.types';
 
 interface ScreenshotItem {
@@ -29,6 +63,8 @@ interface ScreenshotItem {
   isReferencePoint: boolean;
   offsetSeconds: number;
   dimensions?: Dimensions;
+  detected: ImageTimestamp | null;
+  ocr?: OcrTimestampResult;
 }
 
 @Component({
@@ -46,6 +82,8 @@ interface ScreenshotItem {
     MatChipsModule,
     MatTooltipModule,
     MatSnackBarModule,
+    MatDialogModule,
+    MatSelectModule,
   ],
   templateUrl: './stage1-setup.component.html',
   styleUrls: ['./stage1-setup.component.scss'],
@@ -58,22 +96,91 @@ export class Stage1SetupComponent implements OnInit {
   isLoading = false;
   error = '';
 
+  // Von Hand gesetzte Referenz/Offsets werden nicht mehr automatisch überschrieben
+  manualTimeline = false;
+
+  // Absolute Referenzzeit t0 (Wanduhrzeit + Zone), vorbelegt aus den Zeitstempeln
+  referenceLocal = '';
+  referenceZone: number | 'unknown' = 'unknown';
+  referenceDst: boolean | null = null;
+  manualReferenceTime = false;
+  readonly utcOffsets = COMMON_UTC_OFFSETS;
+
+  // OCR eingeblendeter Zeitstempel (Region gilt für alle Screenshots)
+  ocrRegion: OcrRegion | null = null;
+  ocrDateOrder: DateOrder = 'DMY';
+  isReadingOcr = false;
+  ocrProgress = '';
+
+  // Archiv-Import (.sgeo)
+  readonly archiveExtension = SESSION_ARCHIVE_EXTENSION;
+  isImporting = false;
+  importResult: SessionArchiveImportResult | null = null;
+
+  // Bestehende Session (aus localStorage)
+  existingSession: SessionData | null = null;
+
   constructor(
     private sessionService: SessionService,
     private router: Router,
     private sanitizer: DomSanitizer,
-    private snackBar: MatSnackBar
+    private snackBar: MatSnackBar,
+    private dialog: MatDialog,
+    private ocrService: OcrService
   ) { }
 
   ngOnInit() {
+    this.loadExistingSession();
+  }
+
+  /**
+   * Lädt die zuletzt geöffnete Session für den "Fortsetzen"-Hinweis.
+   * Existiert sie im Backend nicht mehr, wird die gemerkte ID verworfen.
+   */
+  async loadExistingSession() {
     const existingSessionId = this.sessionService.getCurrentSessionId();
-    if (existingSessionId) console.log('📂 Existierende Session gefunden:', existingSessionId);
+    if (!existingSessionId) return;
+
+    try {
+      const data = await this.sessionService.loadSession(existingSessionId).toPromise();
+      this.existingSession = data as SessionData;
+      console.log('📂 Existierende Session gefunden:', existingSessionId);
+    } catch (err) {
+      console.warn('⚠️ Gemerkte Session nicht mehr vorhanden:', existingSessionId, err);
+      this.sessionService.clearCurrentSessionId();
+    }
   }
 
   get hasReferencePoint(): boolean {
     return this.screenshotItems.some(item => item.isReferencePoint);
   }
 
+  get hasDetectedTimestamps(): boolean {
+    return this.screenshotItems.some(item => item.detected);
+  }
+
+  get timeReference(): TimeReference | null {
+    const parsed = parseDateText(this.referenceLocal);
+    if (!parsed) return null;
+
+    return {
+      localDateTime: `${parsed.date}T${parsed.time}`,
+      timeZone: this.referenceZone === 'unknown'
+        ? { kind: 'unknown' }
+        : { kind: 'offset', offsetMinutes: this.referenceZone, dst: this.referenceDst }
+    };
+  }
+
+  /** t0 lokal / UTC / Sommerzeit-Annahme für die Anzeige */
+  get referencePreview(): AbsoluteTime | null {
+    const reference = this.timeReference;
+    return reference ? absoluteTime(reference) : null;
+  }
+
+  get ocrReviewCount(): number {
+    return this.screenshotItems.filter(item => item.ocr?.needsReview).length;
+  }
+
   get canProceed(): boolean {
     return (
       this.projectName.trim().length > 0 &&
@@ -121,9 +228,10 @@ export class Stage1SetupComponent implements OnInit {
 
   async addFiles(files: File[]) {
     const imageFiles = files.filter(f => f.type.startsWith('image/'));
+    const videoFiles = files.filter(f => f.type.startsWith('video/'));
 
-    if (imageFiles.length === 0) {
-      this.snackBar.open('Bitte nur Bilddateien auswählen', '', { duration: 3000 });
+    if (imageFiles.length === 0 && videoFiles.length === 0) {
+      this.snackBar.open('Bitte nur Bild- oder Videodateien auswählen', '', { duration: 3000 });
       return;
     }
 
@@ -133,20 +241,115 @@ export class Stage1SetupComponent implements OnInit {
         continue;
       }
 
-      const dimensions = await this.getImageDimensions(file);
-
-      const item: ScreenshotItem = {
-        id: this.generateId(),
-        file,
-        filename: file.name,
-        previewUrl: this.sanitizer.bypassSecurityTrustUrl(URL.createObjectURL(file)),
-        timestamp: 't0+0',
-        isReferencePoint: false,
-        offsetSeconds: 0,
-        dimensions
-      };
+      this.screenshotItems.push(await this.createItem(file, await this.readTimestamp(file)));
+    }
 
-      this.screenshotItems.push(item);
+    if (imageFiles.length > 0 && !this.manualTimeline) this.applyDetectedTimeline();
+
+    for (const video of videoFiles) {
+      await this.addVideoFrames(video);
+    }
+  }
+
+  private async createItem(file: File, detected: ImageTimestamp | null): Promise<ScreenshotItem> {
+    return {
+      id: this.generateId(),
+      file,
+      filename: file.name,
+      previewUrl: this.sanitizer.bypassSecurityTrustUrl(URL.createObjectURL(file)),
+      timestamp: 't0+0',
+      isReferencePoint: false,
+      offsetSeconds: 0,
+      dimensions: await this.getImageDimensions(file),
+      detected
+    };
+  }
+
+  /**
+   * Video-Dialog: gewählte Frames werden Screenshots mit der Video-Zeit
+   * als Offset, ohne bestehende Referenz wird der erste gewählte Frame
+   * Referenzpunkt (t0). Steht im Video-Namen eine Aufnahmezeit, bekommt
+   * jeder Frame seine eigene (Startzeit + Video-Zeit).
+   */
+  private async addVideoFrames(video: File) {
+    const extracted = await openVideoFrameDialog(this.dialog, video);
+    const frames = (extracted ?? []).filter(frame =>
+      !this.screenshotItems.some(item => item.filename === frame.file.name)
+    );
+    if (frames.length === 0) return;
+
+    const videoStart = parseFilenameTimestamp(video.name)?.capturedAt;
+    const offsets = frameOffsets(frames.map(frame => frame.videoSeconds));
+    const items: ScreenshotItem[] = [];
+
+    for (const [i, frame] of frames.entries()) {
+      const item = await this.createItem(frame.file, this.videoTimestamp(frame, videoStart));
+      item.offsetSeconds = offsets[i];
+      items.push(item);
+    }
+
+    const reference = this.screenshotItems.find(item => item.isReferencePoint);
+    this.screenshotItems.push(...items);
+
+    let aligned = true;
+    if (reference) {
+      aligned = this.alignToReference(items, reference);
+    } else {
+      this.setAsReference(items[0].id);
+      this.setReferenceTime(items[0].detected?.capturedAt);
+    }
+    this.manualTimeline = true;
+
+    console.log(`🎬 ${items.length} Frames aus ${video.name} übernommen`);
+    this.snackBar.open(
+      aligned
+        ? `${items.length} Frames aus ${video.name} übernommen`
+        : `${items.length} Frames aus ${video.name} übernommen - Offsets zu t0 bitte prüfen`,
+      '',
+      { duration: 4000 }
+    );
+  }
+
+  /**
+   * Bestehende Referenz bleibt t0: Frames mit Aufnahmezeit bekommen den
+   * Abstand zur Referenzzeit, sonst bleibt der Offset zum ersten Frame
+   *
+   * @returns false, wenn ein Frame nicht eingeordnet werden konnte
+   */
+  private alignToReference(items: ScreenshotItem[], reference: ScreenshotItem): boolean {
+    const referenceTime = reference.detected?.capturedAt;
+    let aligned = true;
+
+    for (const item of items) {
+      const capturedAt = item.detected?.capturedAt;
+      if (referenceTime && capturedAt) {
+        item.offsetSeconds = capturedAtDifference(referenceTime, capturedAt);
+      } else {
+        aligned = false;
+      }
+      this.updateTimestamp(item);
+    }
+    return aligned;
+  }
+
+  private videoTimestamp(frame: ExtractedVideoFrame, videoStart: string | undefined): ImageTimestamp {
+    const capturedAt = videoStart ? shiftCapturedAt(videoStart, frame.videoSeconds) : null;
+    return {
+      source: 'video',
+      videoSeconds: frame.videoSeconds,
+      ...(capturedAt ? { capturedAt } : {})
+    };
+  }
+
+  private async readTimestamp(file: File): Promise<ImageTimestamp | null> {
+    try {
+      const bytes = new Uint8Array(await file.arrayBuffer());
+      const detected = extractImageTimestamp(bytes, file.name);
+      if (detected) console.log(`🕒 Zeitstempel in ${file.name} (${detected.source}):`, detected);
+      return detected;
+    } catch (err) {
+      console.warn(`⚠️ Metadaten von ${file.name} nicht lesbar:`, err);
+      return null;
     }
   }
 
@@ -169,12 +372,180 @@ export class Stage1SetupComponent implements OnInit {
     const item = this.screenshotItems.find(i => i.id === id);
     if (item) URL.revokeObjectURL(item.previewUrl as string);
     this.screenshotItems = this.screenshotItems.filter(i => i.id !== id);
+    if (!this.manualTimeline) this.applyDetectedTimeline();
   }
 
   // ==========================================================================
   // TIMESTAMP HANDLING
   // ==========================================================================
 
+  onSetReference(id: string) {
+    this.manualTimeline = true;
+    this.setAsReference(id);
+  }
+
+  onOffsetChange(item: ScreenshotItem) {
+    this.manualTimeline = true;
+    this.updateTimestamp(item);
+  }
+
+  /**
+   * Übernimmt Referenz und Offsets aus den erkannten Zeitstempeln
+   * (frühester Screenshot = t0). Screenshots ohne vergleichbaren
+   * Zeitstempel behalten ihren Offset.
+   *
+   * @returns false, wenn nichts erkannt wurde
+   */
+  applyDetectedTimeline(): boolean {
+    const suggestion = suggestTimeline(this.screenshotItems.map(item => item.detected));
+    if (!suggestion) return false;
+
+    this.screenshotItems.forEach((item, i) => {
+      const offset = suggestion.offsets[i];
+      if (offset !== null) item.offsetSeconds = offset;
+    });
+    this.setAsReference(this.screenshotItems[suggestion.referenceIndex].id);
+    this.setReferenceTime(suggestion.referenceTime);
+
+    console.log('🕒 Zeitachse aus Metadaten:', suggestion);
+    return true;
+  }
+
+  onApplyDetectedTimeline() {
+    this.manualTimeline = false;
+    if (this.applyDetectedTimeline()) {
+      this.snackBar.open('Referenz und Offsets aus den Zeitstempeln übernommen', '', { duration: 3000 });
+    }
+  }
+
+  timestampLabel(item: ScreenshotItem): string | null {
+    const detected = item.detected;
+    if (!detected) return null;
+
+    const source = { filename: 'Dateiname', exif: 'EXIF', 'png-text': 'PNG', video: 'Video', ocr: 'OCR' }[detected.source];
+    if (detected.capturedAt) {
+      return `${source}: ${detected.capturedAt.replace('T', ' ')}`;
+    }
+    if (detected.videoSeconds !== undefined) {
+      return `${source}: ${formatVideoTime(detected.videoSeconds)}`;
+    }
+    const fps = detected.frame!.fps ? ` @ ${detected.frame!.fps} fps` : ' (fps unbekannt)';
+    return `${source}: Frame ${detected.frame!.index}${fps}`;
+  }
+
+  // ==========================================================================
+  // OCR (eingeblendete Zeitstempel)
+  // ==========================================================================
+
+  /**
+   * Region auf einem Screenshot markieren und in allen Screenshots lesen.
+   * Erkannte Zeiten ersetzen EXIF/Dateiname, Referenz und Offsets werden
+   * neu berechnet; unsichere Werte bleiben zur Korrektur markiert.
+   */
+  async onReadOcrTimestamps() {
+    const first = this.screenshotItems.find(item => item.isReferencePoint) ?? this.screenshotItems[0];
+    if (!first) return;
+
+    const choice = await openOcrRegionDialog(this.dialog, {
+      file: first.file,
+      region: this.ocrRegion,
+      dateOrder: this.ocrDateOrder
+    });
+    if (!choice) return;
+
+    this.ocrRegion = choice.region;
+    this.ocrDateOrder = choice.dateOrder;
+    this.isReadingOcr = true;
+
+    const items = [...this.screenshotItems];
+    try {
+      const results: OcrTimestampResult[] = [];
+      for (const [i, item] of items.entries()) {
+        this.ocrProgress = `${i + 1}/${items.length}`;
+        const read = await this.ocrService.readRegion(item.file, choice.region).toPromise();
+        results.push(interpretOcrText(read!.text, read!.confidence, choice.dateOrder));
+        console.log(`🔠 OCR ${item.filename}: "${read!.text}" (${Math.round(read!.confidence)}%)`);
+      }
+
+      flagOcrOutliers(results).forEach((result, i) => this.applyOcrResult(items[i], result));
+      this.manualTimeline = false;
+      this.applyDetectedTimeline();
+
+      const review = this.ocrReviewCount;
+      this.snackBar.open(
+        review > 0
+          ? `Zeitstempel gelesen - ${review} bitte prüfen`
+          : 'Zeitstempel aus allen Screenshots gelesen',
+        '',
+        { duration: 4000 }
+      );
+    } catch (err: any) {
+      console.error('❌ OCR fehlgeschlagen:', err);
+      this.error = err.message || 'Zeitstempel konnten nicht gelesen werden';
+    } finally {
+      this.isReadingOcr = false;
+      this.ocrProgress = '';
+      await this.ocrService.terminate();
+    }
+  }
+
+  /**
+   * Manuelle Korrektur eines OCR-Werts ("JJJJ-MM-TT HH:MM:SS")
+   */
+  onCorrectOcr(item: ScreenshotItem, value: string) {
+    const parsed = parseDateText(value);
+    if (!parsed) {
+      this.snackBar.open('Bitte im Format JJJJ-MM-TT HH:MM:SS eingeben', '', { duration: 3000 });
+      return;
+    }
+
+    this.applyOcrResult(item, {
+      text: item.ocr?.text ?? value,
+      capturedAt: `${parsed.date}T${parsed.time}`,
+      confidence: 100,
+      needsReview: false
+    });
+    if (!this.manualTimeline) this.applyDetectedTimeline();
+  }
+
+  ocrInputValue(item: ScreenshotItem): string {
+    return item.ocr?.capturedAt?.replace('T', ' ') ?? item.ocr?.text ?? '';
+  }
+
+  private applyOcrResult(item: ScreenshotItem, result: OcrTimestampResult) {
+    item.ocr = result;
+    if (result.capturedAt) {
+      item.detected = { source: 'ocr', capturedAt: result.capturedAt };
+    }
+  }
+
+  // ==========================================================================
+  // REFERENZZEIT (t0)
+  // ==========================================================================
+
+  /**
+   * Belegt Referenzzeit und Zone aus der Aufnahmezeit des t0-Screenshots
+   * vor - nicht mehr, sobald der Nutzer sie selbst gesetzt hat
+   */
+  private setReferenceTime(capturedAt: string | null | undefined) {
+    if (this.manualReferenceTime || !capturedAt) return;
+
+    const reference = timeReferenceFromCapture(capturedAt);
+    if (!reference) return;
+
+    this.referenceLocal = reference.localDateTime;
+    this.referenceZone = reference.timeZone.kind === 'offset' ? reference.timeZone.offsetMinutes : 'unknown';
+    this.referenceDst = reference.timeZone.kind === 'offset' ? reference.timeZone.dst : null;
+  }
+
+  onReferenceTimeChange() {
+    this.manualReferenceTime = true;
+  }
+
+  utcOffsetLabel(offsetMinutes: number): string {
+    return formatUtcOffset(offsetMinutes);
+  }
+
   setAsReference(id: string) {
     this.screenshotItems.forEach(item => {
       if (item.id === id) {
@@ -189,12 +560,7 @@ export class Stage1SetupComponent implements OnInit {
   }
 
   updateTimestamp(item: ScreenshotItem) {
-    if (item.isReferencePoint) {
-      item.timestamp = 't0';
-    } else {
-      const offset = item.offsetSeconds || 0;
-      item.timestamp = offset === 0 ? 't0+0' : `t0+${offset}`;
-    }
+    item.timestamp = offsetLabel(item.offsetSeconds, item.isReferencePoint);
   }
 
   // ==========================================================================
@@ -214,13 +580,16 @@ export class Stage1SetupComponent implements OnInit {
         filename: item.filename,
         timestamp: item.timestamp,
         isReferencePoint: item.isReferencePoint,
-        dimensions: item.dimensions
+        offsetSeconds: item.isReferencePoint ? 0 : item.offsetSeconds || 0,
+        dimensions: item.dimensions,
+        ...(item.detected?.capturedAt ? { capturedAt: item.detected.capturedAt } : {})
       }));
 
       const createRequest: CreateSessionRequest = {
         projectName: this.projectName,
         cameraType: 'static',
-        screenshots
+        screenshots,
+        ...(this.timeReference ? { timeReference: this.timeReference } : {})
       };
 
       const response = await this.sessionService.createSession(createRequest).toPromise();
@@ -253,6 +622,56 @@ export class Stage1SetupComponent implements OnInit {
     }
   }
 
+  // ==========================================================================
+  // ARCHIV-IMPORT
+  // ==========================================================================
+
+  async onArchiveSelected(event: Event) {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) return;
+
+    this.isImporting = true;
+    this.error = '';
+    this.importResult = null;
+
+    try {
+      const result = await this.sessionService.importSessionArchive(file).toPromise();
+      this.importResult = result!;
+      this.sessionService.setCurrentSessionId(result!.sessionId);
+
+      if (result!.issues.length === 0 && result!.migration.steps.length === 0) {
+        this.snackBar.open(`Archiv importiert (${result!.uploadedCount} Screenshots)`, '', { duration: 3000 });
+        this.router.navigate(['/stage3-calibration']);
+      } else {
+        console.warn('⚠️ Archiv-Abweichungen:', result!.issues, result!.migration);
+      }
+    } catch (err: any) {
+      console.error('❌ Import fehlgeschlagen:', err);
+      this.error = err.message || 'Archiv konnte nicht importiert werden';
+    } finally {
+      this.isImporting = false;
+    }
+  }
+
+  onOpenImportedSession() {
+    this.router.navigate(['/stage3-calibration']);
+  }
+
+  // ==========================================================================
+  // BESTEHENDE SESSIONS
+  // ==========================================================================
+
+  onResumeExisting() {
+    if (!this.existingSession) return;
+    this.router.navigate([getResumeRoute(this.existingSession)]);
+  }
+
+  onOpenSessionBrowser() {
+    this.router.navigate(['/sessions']);
+  }
+
   // ==========================================================================
   // HELPERS
   // ==========================================================================
@@ -1,4 +1,4 @@
-import { ChangeDetectorRef, Component, OnInit, ViewChild } from '@angular/core';
+import { ChangeDetectorRef, Component, HostListener, OnDestroy, OnInit, ViewChild } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
 import { Router } from '@angular/router';
@@ -19,13 +19,30 @@ import { MatTooltipModule } from '@angular/material/tooltip';
 
 import { ThreeViewerComponent, RoomParams, RoomRotation } from '../../shared/three-viewer/three-viewer.component';
 import { SessionService } from '../../services/session.service';
+import { HistoryService } from '../../services/history.service';
+import { AutosaveService } from '../../services/autosave.service';
 import { BundleAdjustmentDialogComponent, BundleAdjustmentDialogData } from '../../shared/bundle-adjustment-dialog/bundle-adjustment-dialog.component';
+import { openSessionMergeDialog } from '../../shared/session-merge-dialog/session-merge-dialog.component';
+import { AutosaveStatusComponent } from '../../shared/autosave-status/autosave-status.component';
+import { SessionConflictError } from '../../shared/session-merge';
+import { HistoryAction } from '../../shared/session-history';
+import { openVanishingPointDialog } from '../../shared/vanishing-point-dialog/vanishing-point-dialog.component';
+import { openCornerPnpDialog } from '../../shared/corner-pnp-dialog/corner-pnp-dialog.component';
+import { openPlumbLineDialog } from '../../shared/plumb-line-dialog/plumb-line-dialog.component';
+import { openRoomGeometryDialog } from '../../shared/room-geometry-dialog/room-geometry-dialog.component';
+import { scaleSurfaces, surfacesBounds, usedSurfaceNames } from '../../shared/room-geometry';
+import { LENS_MODELS } from '../../shared/lens-distortion';
+import { CornerCorrespondence, PnpLocks } from '../../shared/corner-pnp';
+import { EdgeSegment, focalFromViewerFovY, viewerFovY } from '../../shared/vanishing-points';
 
 import {
   SessionData,
   CalibrationData,
   EulerRotation,
   DisplayParams,
+  LensDistortion,
+  NormalizedPoint2D,
+  RoomSurface,
   createDefaultCalibration,
   createDefaultDisplayParams
 } from '../../models/session.types';
@@ -38,6 +55,15 @@ interface CalibrationStep {
   cameraRotation: EulerRotation;
   display: DisplayParams;
   completed: boolean;
+
+  /** Markierte Raumkanten der Fluchtpunkt-Kalibrierung (nur im Speicher) */
+  edgeSegments?: EdgeSegment[];
+
+  /** Zugeordnete Raumecken der Ecken-Kalibrierung (nur im Speicher) */
+  cornerCorrespondences?: CornerCorrespondence[];
+
+  /** Punkte auf geraden Kanten der Verzeichnungs-Schätzung (nur im Speicher) */
+  plumbLines?: NormalizedPoint2D[][];
 }
 
 @Component({
@@ -58,28 +84,41 @@ interface CalibrationStep {
     MatDialogModule,
     MatTooltipModule,
     ThreeViewerComponent,
+    AutosaveStatusComponent,
     MatExpansionModule,
   ],
   templateUrl: './stage3-calibration.component.html',
   styleUrls: ['./stage3-calibration.component.scss']
 })
-export class Stage3CalibrationComponent implements OnInit {
+export class Stage3CalibrationComponent implements OnInit, OnDestroy {
   @ViewChild('viewer') viewer!: ThreeViewerComponent;
 
   // Session Data (Source of Truth)
   sessionData: SessionData | null = null;
   sessionId: string | null = null;
 
+  // Offener Sync-Konflikt (Merge startet der Nutzer, nicht der Autosave)
+  saveConflict: SessionConflictError | null = null;
+
   // UI State
   calibrationSteps: CalibrationStep[] = [];
   currentStepIndex = 0;
 
   // Globale Parameter
   currentRoomParams: RoomParams = { width: 5, depth: 5, height: 3 };
+  roomSurfaces: RoomSurface[] | null = null;  // null = Quader aus currentRoomParams
   globalCameraPosition = { x: 2.5, y: 1.5, z: 0.5 };
   globalFovY = 60;
   globalDisplayZoom = 50;
 
+  // Fixierte Werte der Ecken-Kalibrierung (Raumhöhe, Kamerahöhe, ...)
+  cornerLocks: PnpLocks = {};
+
+  // Linsenverzeichnung (null = ideale Lochkamera)
+  lensDistortion: LensDistortion | null = null;
+  showUndistorted = true;
+  readonly lensModels = LENS_MODELS;
+
   // Pro-Screenshot Parameter
   currentCameraRotation: EulerRotation = { x: 0, y: 0, z: 0 };
   currentDisplay: DisplayParams = createDefaultDisplayParams();
@@ -94,8 +133,13 @@ export class Stage3CalibrationComponent implements OnInit {
 
   private isInitialLoad = true;
 
+  // Undo/Redo: Kalibrierungs-Stand nach der letzten vorgemerkten Änderung
+  private historyBase: CalibrationData | null = null;
+
   constructor(
     private sessionService: SessionService,
+    private historyService: HistoryService,
+    private autosave: AutosaveService,
     private router: Router,
     private snackBar: MatSnackBar,
     private dialog: MatDialog,
@@ -111,9 +155,21 @@ export class Stage3CalibrationComponent implements OnInit {
       return;
     }
 
+    await this.loadSessionData();
+  }
+
+  ngOnDestroy() {
+    const key = this.autosaveKey;
+    void this.autosave.flush(key).then(() => {
+      // Konflikt übernimmt die Sync-Anzeige (lokale Kopie bleibt vorgemerkt)
+      if (this.saveConflict) this.autosave.discard(key);
+    });
+  }
+
+  private async loadSessionData() {
     try {
       // Session laden
-      this.sessionData = await this.sessionService.loadSession(this.sessionId).toPromise() as SessionData;
+      this.sessionData = await this.sessionService.loadSession(this.sessionId!).toPromise() as SessionData;
       console.log('📂 Session geladen:', this.sessionData);
 
       // Kalibrierung initialisieren falls nicht vorhanden
@@ -123,8 +179,10 @@ export class Stage3CalibrationComponent implements OnInit {
 
       // Globale Parameter laden
       this.currentRoomParams = { ...this.sessionData.calibration.room };
+      this.roomSurfaces = this.sessionData.calibration.surfaces ?? null;
       this.globalCameraPosition = { ...this.sessionData.calibration.camera.position };
       this.globalFovY = this.sessionData.calibration.camera.fovY;
+      this.lensDistortion = this.sessionData.calibration.camera.distortion ?? null;
       this.globalDisplayZoom = this.sessionData.calibration.globalDisplayZoom;
 
       // Screenshots laden
@@ -135,6 +193,8 @@ export class Stage3CalibrationComponent implements OnInit {
         this.goToScreenshot(0);
       }
 
+      this.historyBase = this.calibrationSnapshot();
+
     } catch (err) {
       console.error('❌ Fehler beim Laden:', err);
       this.snackBar.open('Fehler beim Laden der Session', '', { duration: 3000 });
@@ -146,12 +206,11 @@ export class Stage3CalibrationComponent implements OnInit {
 
     this.calibrationSteps = await Promise.all(
       this.sessionData.screenshots.map(async (screenshot) => {
-        // Screenshot-Datei vom Backend laden
-        const url = this.sessionService.getScreenshotUrl(this.sessionId!, `${screenshot.id}.png`);
+        // Screenshot-Datei laden (lokaler Cache, sonst Backend)
         let file: File | null = null;
 
         try {
-          const blob = await fetch(url).then(r => r.blob());
+          const blob = (await this.sessionService.loadScreenshot(this.sessionId!, screenshot.id).toPromise())!;
           file = new File([blob], screenshot.filename, { type: 'image/png' });
         } catch (err) {
           console.warn(`⚠️ Konnte Screenshot ${screenshot.id} nicht laden`);
@@ -203,11 +262,35 @@ export class Stage3CalibrationComponent implements OnInit {
   // ==========================================================================
 
   onRoomChange() {
-    this.viewer?.updateRoom(this.currentRoomParams);
+    this.fitSurfacesToRoom();
+    this.viewer?.updateRoom(this.currentRoomParams, this.roomSurfaces);
+    this.recordCalibration('Raummaße', 'room');
+  }
+
+  /**
+   * Raum aus benannten Flächen (L-Form, Dachschräge, eigene Flächen)
+   */
+  async onEditRoomGeometry() {
+    const result = await openRoomGeometryDialog(this.dialog, {
+      room: { ...this.currentRoomParams },
+      surfaces: this.roomSurfaces,
+      usedSurfaces: usedSurfaceNames(this.sessionData?.shadows ?? null)
+    });
+    if (!result) return;
+
+    this.roomSurfaces = result.surfaces;
+    if (this.roomSurfaces) {
+      this.currentRoomParams = surfacesBounds(this.roomSurfaces);
+    }
+
+    this.viewer?.updateRoom(this.currentRoomParams, this.roomSurfaces);
+    this.recordCalibration('Raumgeometrie');
+    this.cdr.detectChanges();
   }
 
   onGlobalCameraPositionChange() {
     this.viewer?.updateCameraPosition(this.globalCameraPosition);
+    this.recordCalibration('Kameraposition', 'camera-position');
   }
 
   onCameraRotationChange() {
@@ -216,15 +299,18 @@ export class Stage3CalibrationComponent implements OnInit {
       y: this.currentCameraRotation.y,
       z: this.currentCameraRotation.z
     });
+    this.recordCalibration('Kamera-Rotation', `rotation:${this.currentStep?.screenshotId}`);
   }
 
   onViewerRotationChange(rotation: RoomRotation) {
     this.currentCameraRotation = { x: rotation.x, y: rotation.y, z: rotation.z };
+    this.recordCalibration('Kamera-Rotation', `rotation:${this.currentStep?.screenshotId}`);
     this.cdr.detectChanges();
   }
 
   onFovChange() {
     this.viewer?.updateFov(this.globalFovY);
+    this.recordCalibration('Sichtfeld', 'fov');
   }
 
   onDisplayZoomChange() {
@@ -233,10 +319,12 @@ export class Stage3CalibrationComponent implements OnInit {
     });
     this.currentDisplay.backgroundScale = this.globalDisplayZoom;
     this.viewer?.updateBackgroundScale(this.globalDisplayZoom);
+    this.recordCalibration('Anzeige-Zoom', 'display-zoom');
   }
 
   onBackgroundRotationChange() {
     this.viewer?.updateBackgroundRotation(this.currentDisplay.backgroundRotation);
+    this.recordCalibration('Bild-Drehung', `background-rotation:${this.currentStep?.screenshotId}`);
   }
 
   onBackgroundOffsetChange() {
@@ -244,12 +332,314 @@ export class Stage3CalibrationComponent implements OnInit {
       this.currentDisplay.backgroundOffsetX,
       this.currentDisplay.backgroundOffsetY
     );
+    this.recordCalibration('Bild-Versatz', `background-offset:${this.currentStep?.screenshotId}`);
+  }
+
+  // ==========================================================================
+  // FLUCHTPUNKT-KALIBRIERUNG
+  // ==========================================================================
+
+  /**
+   * Rotation (und bei drei Achsen das Sichtfeld) aus markierten Raumkanten
+   */
+  async onVanishingPointCalibration() {
+    const step = this.currentStep;
+    if (!step?.file) return;
+
+    const canvas = this.viewerCanvasSize();
+    const result = await openVanishingPointDialog(this.dialog, {
+      file: step.file,
+      segments: step.edgeSegments ?? [],
+      imageWidth: step.originalWidth,
+      imageHeight: step.originalHeight,
+      // Kamera blickt in den Raum: Richtung zur Raummitte
+      viewDirectionHint: {
+        x: this.currentRoomParams.width / 2 - this.globalCameraPosition.x,
+        y: this.currentRoomParams.height / 2 - this.globalCameraPosition.y,
+        z: this.currentRoomParams.depth / 2 - this.globalCameraPosition.z
+      },
+      focalHintPx: focalFromViewerFovY(this.globalFovY, step.originalWidth, this.currentDisplay.backgroundScale, canvas),
+      distortion: this.lensDistortion
+    });
+    if (!result) return;
+
+    const { calibration } = result;
+    step.edgeSegments = result.segments;
+    this.currentCameraRotation = { ...calibration.rotation };
+
+    // Roll steckt jetzt in der Kamera - Screenshot ungedreht und zentriert
+    this.currentDisplay.backgroundRotation = 0;
+    this.currentDisplay.backgroundOffsetX = 50;
+    this.currentDisplay.backgroundOffsetY = 50;
+
+    if (calibration.focalFromVanishingPoints) {
+      this.setFovFromFocalLength(calibration.focalPx, step.originalWidth, canvas);
+    }
+
+    this.updateViewer();
+    this.recordCalibration('Fluchtpunkt-Kalibrierung');
+    this.snackBar.open(
+      `Kamera aus Raumkanten kalibriert ✓ (Residuum ${calibration.rmsResidualDeg.toFixed(2)}°)`,
+      '',
+      { duration: 3000 }
+    );
+    this.cdr.detectChanges();
+  }
+
+  /**
+   * Pose, Sichtfeld und freie Raummaße aus zugeordneten Raumecken (PnP)
+   *
+   * Nur für den Quader: der Solver kennt die 8 Ecken des umschließenden
+   * Quaders, die bei eigenen Flächen (L-Form, Dachschräge) nicht im Bild liegen.
+   */
+  async onCornerCalibration() {
+    const step = this.currentStep;
+    if (!step?.file || this.roomSurfaces) return;
+
+    const canvas = this.viewerCanvasSize();
+    const result = await openCornerPnpDialog(this.dialog, {
+      file: step.file,
+      correspondences: step.cornerCorrespondences ?? [],
+      locks: this.cornerLocks,
+      imageWidth: step.originalWidth,
+      imageHeight: step.originalHeight,
+      room: { ...this.currentRoomParams },
+      rotation: { ...this.currentCameraRotation },
+      cameraPosition: { ...this.globalCameraPosition },
+      focalPx: focalFromViewerFovY(this.globalFovY, step.originalWidth, this.currentDisplay.backgroundScale, canvas),
+      distortion: this.lensDistortion
+    });
+    if (!result) return;
+
+    const { solution } = result;
+    step.cornerCorrespondences = result.correspondences;
+    this.cornerLocks = result.locks;
+
+    this.currentCameraRotation = { ...solution.rotation };
+    this.globalCameraPosition = { ...solution.cameraPosition };
+    this.currentRoomParams = { ...solution.room };
+    this.fitSurfacesToRoom();
+
+    this.currentDisplay.backgroundRotation = 0;
+    this.currentDisplay.backgroundOffsetX = 50;
+    this.currentDisplay.backgroundOffsetY = 50;
+
+    this.setFovFromFocalLength(solution.focalPx, step.originalWidth, canvas);
+
+    this.updateViewer();
+    this.recordCalibration('Ecken-Kalibrierung');
+    this.snackBar.open(
+      `Kamera aus ${result.correspondences.length} Raumecken kalibriert ✓ (RMS ${solution.rmsErrorPx.toFixed(1)} px)`,
+      '',
+      { duration: 3000 }
+    );
+    this.cdr.detectChanges();
+  }
+
+  // ==========================================================================
+  // LINSENVERZEICHNUNG
+  // ==========================================================================
+
+  /** Verzeichnung für den Viewer (Vorschau abgeschaltet = Original-Screenshot) */
+  get previewDistortion(): LensDistortion | null {
+    return this.showUndistorted ? this.lensDistortion : null;
+  }
+
+  get lensModelLabel(): string {
+    return this.lensModels.find(m => m.value === this.lensDistortion?.model)?.label ?? '';
+  }
+
+  /**
+   * Koeffizienten aus Punkten auf geraden Kanten schätzen
+   */
+  async onPlumbLineCalibration() {
+    const step = this.currentStep;
+    if (!step?.file) return;
+
+    // Normierung: Sichtfeld des ganzen Screenshots (bestehende Verzeichnung behält ihres)
+    const canvas = this.viewerCanvasSize();
+    const focalPx = focalFromViewerFovY(this.globalFovY, step.originalWidth, this.currentDisplay.backgroundScale, canvas);
+    const imageFovY = 2 * Math.atan(step.originalHeight / 2 / focalPx) * 180 / Math.PI;
+
+    const result = await openPlumbLineDialog(this.dialog, {
+      file: step.file,
+      imageWidth: step.originalWidth,
+      imageHeight: step.originalHeight,
+      fovY: this.lensDistortion?.fovY ?? imageFovY,
+      lines: step.plumbLines ?? [],
+      model: this.lensDistortion?.model ?? 'brown-conrady'
+    });
+    if (!result) return;
+
+    step.plumbLines = result.lines;
+    this.lensDistortion = result.distortion;
+    this.recordCalibration('Linsenverzeichnung', 'distortion');
+    this.snackBar.open(
+      `Linsenverzeichnung aus ${result.lines.length} Kanten geschätzt ✓`,
+      '',
+      { duration: 3000 }
+    );
+    this.cdr.detectChanges();
+  }
+
+  onDistortionChange() {
+    // Neue Referenz, damit der Viewer das Bild neu entzerrt
+    if (this.lensDistortion) this.lensDistortion = { ...this.lensDistortion };
+    this.recordCalibration('Linsenverzeichnung', 'distortion');
+  }
+
+  onResetDistortion() {
+    this.lensDistortion = null;
+    this.recordCalibration('Linsenverzeichnung entfernt');
+  }
+
+  /**
+   * Brennweite (Screenshot-Pixel) → Viewer-FOV im Bereich des Sliders
+   */
+  private setFovFromFocalLength(focalPx: number, imageWidth: number, canvas: { width: number; height: number }) {
+    const fovY = viewerFovY(focalPx, imageWidth, this.currentDisplay.backgroundScale, canvas);
+    this.globalFovY = Math.round(Math.min(120, Math.max(30, fovY)));
+  }
+
+  /**
+   * Eigene Flächen auf den (geänderten) umschließenden Quader strecken
+   */
+  private fitSurfacesToRoom() {
+    if (!this.roomSurfaces) return;
+    this.roomSurfaces = scaleSurfaces(this.roomSurfaces, surfacesBounds(this.roomSurfaces), this.currentRoomParams);
+  }
+
+  private viewerCanvasSize(): { width: number; height: number } {
+    const canvas = this.viewer?.getCanvasElement();
+    return { width: canvas?.clientWidth || 1, height: canvas?.clientHeight || 1 };
+  }
+
+  // ==========================================================================
+  // UNDO / REDO
+  // ==========================================================================
+
+  @HostListener('window:keydown', ['$event'])
+  onKeydown(event: KeyboardEvent) {
+    const action = this.historyService.shortcut(event);
+    if (!action) return;
+
+    event.preventDefault();
+    this.stepHistory(action);
+  }
+
+  get canUndo(): boolean {
+    return this.historyService.canUndo(this.sessionData, 'calibration');
+  }
+
+  get canRedo(): boolean {
+    return this.historyService.canRedo(this.sessionData, 'calibration');
+  }
+
+  historyTooltip(action: HistoryAction): string {
+    const label = this.historyService.nextLabel(this.sessionData, 'calibration', action);
+    const prefix = action === 'undo' ? 'Rückgängig' : 'Wiederholen';
+    return label ? `${prefix}: ${label}` : prefix;
+  }
+
+  stepHistory(action: HistoryAction) {
+    if (!this.sessionData) return;
+
+    const entry = action === 'undo'
+      ? this.historyService.undo(this.sessionData, 'calibration')
+      : this.historyService.redo(this.sessionData, 'calibration');
+    if (!entry || entry.scope !== 'calibration' || !this.sessionData.calibration) return;
+
+    this.applyCalibrationState(this.sessionData.calibration);
+
+    // Zum betroffenen Screenshot springen
+    const changedIndex = this.calibrationSteps.findIndex(step => {
+      const before = entry.before?.screenshots.find(s => s.screenshotId === step.screenshotId);
+      const after = entry.after?.screenshots.find(s => s.screenshotId === step.screenshotId);
+      return JSON.stringify(before?.cameraRotation) !== JSON.stringify(after?.cameraRotation) ||
+        JSON.stringify(before?.display) !== JSON.stringify(after?.display);
+    });
+    if (changedIndex >= 0 && changedIndex !== this.currentStepIndex) {
+      this.goToScreenshot(changedIndex);
+    }
+    this.scheduleAutosave();
+
+    this.snackBar.open(
+      `${action === 'undo' ? 'Rückgängig' : 'Wiederholt'}: ${entry.label}`,
+      '',
+      { duration: 1500 }
+    );
+    this.cdr.detectChanges();
+  }
+
+  /**
+   * Aktueller Kalibrierungs-Stand (inkl. ungespeicherter Werte des aktuellen Screenshots)
+   */
+  private calibrationSnapshot(): CalibrationData {
+    return {
+      room: { ...this.currentRoomParams },
+      ...(this.roomSurfaces ? { surfaces: this.roomSurfaces } : {}),
+      camera: {
+        position: { ...this.globalCameraPosition },
+        fovY: this.globalFovY,
+        ...(this.lensDistortion ? { distortion: { ...this.lensDistortion } } : {})
+      },
+      globalDisplayZoom: this.globalDisplayZoom,
+      screenshots: this.calibrationSteps.map((step, index) => {
+        const isCurrent = index === this.currentStepIndex;
+        return {
+          screenshotId: step.screenshotId,
+          cameraRotation: { ...(isCurrent ? this.currentCameraRotation : step.cameraRotation) },
+          display: { ...(isCurrent ? this.currentDisplay : step.display) },
+          completed: step.completed
+        };
+      })
+    };
+  }
+
+  private recordCalibration(label: string, mergeKey?: string) {
+    if (!this.sessionData || !this.historyBase) return;
+
+    const after = this.calibrationSnapshot();
+    this.historyService.record(this.sessionData, label, { scope: 'calibration', before: this.historyBase, after }, mergeKey);
+    this.historyBase = after;
+    this.scheduleAutosave();
+  }
+
+  /**
+   * Übernimmt einen Stand aus der History (completed-Status bleibt unverändert)
+   */
+  private applyCalibrationState(calibration: CalibrationData) {
+    this.currentRoomParams = { ...calibration.room };
+    this.roomSurfaces = calibration.surfaces ?? null;
+    this.globalCameraPosition = { ...calibration.camera.position };
+    this.globalFovY = calibration.camera.fovY;
+    this.lensDistortion = calibration.camera.distortion ? { ...calibration.camera.distortion } : null;
+    this.globalDisplayZoom = calibration.globalDisplayZoom;
+
+    for (const step of this.calibrationSteps) {
+      const entry = calibration.screenshots.find(s => s.screenshotId === step.screenshotId);
+      if (!entry) continue;
+      step.cameraRotation = { ...entry.cameraRotation };
+      step.display = { ...entry.display };
+    }
+
+    if (this.currentStep) {
+      this.currentCameraRotation = { ...this.currentStep.cameraRotation };
+      this.currentDisplay = { ...this.currentStep.display };
+    }
+
+    this.historyBase = this.calibrationSnapshot();
+    this.updateViewer();
   }
 
   // ==========================================================================
   // SPEICHERN
   // ==========================================================================
 
+  /**
+   * Markiert den aktuellen Screenshot als kalibriert und speichert sofort
+   * (alle anderen Änderungen speichert der Autosave)
+   */
   async onSaveCurrentScreenshot() {
     if (!this.currentStep || !this.sessionData) return;
 
@@ -258,11 +648,13 @@ export class Stage3CalibrationComponent implements OnInit {
     this.currentStep.display = { ...this.currentDisplay };
     this.currentStep.completed = true;
 
-    // In Session-Daten übernehmen
-    this.updateSessionCalibration();
+    this.scheduleAutosave();
+    await this.autosave.flush(this.autosaveKey);
 
-    // Speichern
-    await this.saveToBackend();
+    if (this.autosave.statusOf(this.autosaveKey) === 'error') {
+      this.snackBar.open('Fehler beim Speichern', '', { duration: 3000 });
+      return;
+    }
 
     this.snackBar.open(
       `Screenshot ${this.currentStepIndex + 1} gespeichert ✓`,
@@ -271,34 +663,70 @@ export class Stage3CalibrationComponent implements OnInit {
     );
   }
 
+  private scheduleAutosave() {
+    if (!this.sessionId) return;
+    this.autosave.schedule(this.autosaveKey, () => this.saveToBackend());
+  }
+
+  private get autosaveKey(): string {
+    return `calibration:${this.sessionId}`;
+  }
+
   private updateSessionCalibration() {
     if (!this.sessionData) return;
-
-    // Calibration aktualisieren
-    this.sessionData.calibration = {
-      room: { ...this.currentRoomParams },
-      camera: {
-        position: { ...this.globalCameraPosition },
-        fovY: this.globalFovY
-      },
-      globalDisplayZoom: this.globalDisplayZoom,
-      screenshots: this.calibrationSteps.map(step => ({
-        screenshotId: step.screenshotId,
-        cameraRotation: { ...step.cameraRotation },
-        display: { ...step.display },
-        completed: step.completed
-      }))
-    };
+    this.sessionData.calibration = this.calibrationSnapshot();
   }
 
+  /**
+   * Speichert nur die Kalibrierung (Fehler außer Konflikten gehen an den Autosave)
+   */
   private async saveToBackend() {
     if (!this.sessionId || !this.sessionData) return;
 
+    this.updateSessionCalibration();
+
     try {
-      await this.sessionService.saveSession(this.sessionId, this.sessionData).toPromise();
-      console.log('💾 Session gespeichert');
+      await this.sessionService.saveCalibration(this.sessionId, this.sessionData).toPromise();
+      console.log('💾 Kalibrierung gespeichert');
     } catch (err) {
-      console.error('Fehler beim Speichern:', err);
+      // Konflikt bleibt ein Fehler für den Autosave - Merge per Button
+      if (err instanceof SessionConflictError) {
+        this.saveConflict = err;
+        this.cdr.detectChanges();
+      }
+      throw err;
+    }
+  }
+
+  async onResolveConflict() {
+    if (this.saveConflict) await this.handleSaveConflict(this.saveConflict);
+  }
+
+  /**
+   * Session wurde parallel gespeichert: Merge-Dialog, danach neu laden.
+   * Abgebrochen bleibt der Konflikt offen und der Autosave im Fehlerzustand.
+   */
+  private async handleSaveConflict(conflict: SessionConflictError) {
+    const merged = await openSessionMergeDialog(this.dialog, conflict);
+    if (!merged) {
+      this.snackBar.open('Nicht gespeichert - Konflikt ist noch offen', '', { duration: 4000 });
+      return;
+    }
+
+    try {
+      await this.sessionService.resolveConflict(conflict, merged).toPromise();
+      this.saveConflict = null;
+      this.snackBar.open('Änderungen zusammengeführt ✓', '', { duration: 3000 });
+      await this.loadSessionData();
+
+      // Fehlgeschlagenes Speichern mit dem zusammengeführten Stand wiederholen
+      await this.autosave.flush(this.autosaveKey);
+    } catch (err) {
+      if (err instanceof SessionConflictError) {
+        await this.handleSaveConflict(err);
+        return;
+      }
+      console.error('Fehler beim Zusammenführen:', err);
       this.snackBar.open('Fehler beim Speichern', '', { duration: 3000 });
     }
   }
@@ -325,20 +753,7 @@ export class Stage3CalibrationComponent implements OnInit {
         if (newStep.file) {
           this.viewer?.updateBackground(newStep.file);
         }
-        this.viewer?.updateRoom(this.currentRoomParams);
-        this.viewer?.updateCameraPosition(this.globalCameraPosition);
-        this.viewer?.updateRoomRotation({
-          x: this.currentCameraRotation.x,
-          y: this.currentCameraRotation.y,
-          z: this.currentCameraRotation.z
-        });
-        this.viewer?.updateFov(this.globalFovY);
-        this.viewer?.updateBackgroundRotation(this.currentDisplay.backgroundRotation);
-        this.viewer?.updateBackgroundScale(this.currentDisplay.backgroundScale);
-        this.viewer?.updateBackgroundOffset(
-          this.currentDisplay.backgroundOffsetX,
-          this.currentDisplay.backgroundOffsetY
-        );
+        this.updateViewer();
       }, 100);
     }
 
@@ -346,6 +761,23 @@ export class Stage3CalibrationComponent implements OnInit {
     this.cdr.detectChanges();
   }
 
+  private updateViewer() {
+    this.viewer?.updateRoom(this.currentRoomParams, this.roomSurfaces);
+    this.viewer?.updateCameraPosition(this.globalCameraPosition);
+    this.viewer?.updateRoomRotation({
+      x: this.currentCameraRotation.x,
+      y: this.currentCameraRotation.y,
+      z: this.currentCameraRotation.z
+    });
+    this.viewer?.updateFov(this.globalFovY);
+    this.viewer?.updateBackgroundRotation(this.currentDisplay.backgroundRotation);
+    this.viewer?.updateBackgroundScale(this.currentDisplay.backgroundScale);
+    this.viewer?.updateBackgroundOffset(
+      this.currentDisplay.backgroundOffsetX,
+      this.currentDisplay.backgroundOffsetY
+    );
+  }
+
   onBack() {
     this.router.navigate(['/stage1-setup']);
   }
@@ -381,9 +813,11 @@ export class Stage3CalibrationComponent implements OnInit {
     // Kalibrierungs-Daten für Bundle Adjustment
     const calibration: CalibrationData = {
       room: this.currentRoomParams,
+      ...(this.roomSurfaces ? { surfaces: this.roomSurfaces } : {}),
       camera: {
         position: this.globalCameraPosition,
-        fovY: this.globalFovY
+        fovY: this.globalFovY,
+        ...(this.lensDistortion ? { distortion: this.lensDistortion } : {})
       },
       globalDisplayZoom: this.globalDisplayZoom,
       screenshots: this.calibrationSteps.map(step => ({
@@ -433,6 +867,7 @@ export class Stage3CalibrationComponent implements OnInit {
       depth: result.optimized_room.depth,
       height: result.optimized_room.height
     };
+    this.fitSurfacesToRoom();
 
     if (result.optimized_camera) {
       this.globalCameraPosition = {
@@ -442,12 +877,9 @@ export class Stage3CalibrationComponent implements OnInit {
       };
     }
 
-    this.viewer?.updateRoom(this.currentRoomParams);
+    this.viewer?.updateRoom(this.currentRoomParams, this.roomSurfaces);
     this.viewer?.updateCameraPosition(this.globalCameraPosition);
-
-    // Session aktualisieren und speichern
-    this.updateSessionCalibration();
-    this.saveToBackend();
+    this.recordCalibration('Bundle Adjustment übernommen');
 
     this.snackBar.open(
       `Optimierte Werte übernommen! Verbesserung: ${result.improvement_percent.toFixed(1)}%`,
@@ -471,10 +903,6 @@ export class Stage3CalibrationComponent implements OnInit {
       return;
     }
 
-    // Finale Speicherung
-    this.updateSessionCalibration();
-    await this.saveToBackend();
-
     console.log('✅ Kalibrierung abgeschlossen, navigiere zu Stage 5');
     this.router.navigate(['/stage5-shadows']);
   }
@@ -2,8 +2,15 @@
  * ProjectionHelper
  * 
  * Projiziert 3D-Raum-Geometrie auf 2D-Canvas basierend auf Kalibrierungsdaten aus Stage 3.
+ * Der Raum besteht aus benannten Flächen (room-geometry.ts, ohne eigene Flächen: Quader).
+ * Eine Linsenverzeichnung wird nach der Lochkamera-Projektion angewendet
+ * (bzw. vor dem Ray-Casting entfernt) - der Canvas zeigt den Roh-Screenshot.
  */
 
+import type { LensDistortion, RoomSurface } from '../../models/session.types';
+import { distortPoint, isPinhole, undistortPoint } from '../../shared/lens-distortion';
+import { intersectRoomSurfaces, resolveRoomSurfaces, surfaceColor, surfaceEdges } from '../../shared/room-geometry';
+
 export interface CalibrationDataForScreenshot {
     screenshotId: string;
     room: { width: number; depth: number; height: number };
@@ -14,6 +21,8 @@ export interface CalibrationDataForScreenshot {
     backgroundScale: number;
     backgroundOffsetX: number;
     backgroundOffsetY: number;
+    distortion?: LensDistortion | null;
+    surfaces?: RoomSurface[] | null;
 }
 
 export interface Point3D {
@@ -27,18 +36,14 @@ export interface Point2D {
     y: number;
 }
 
-export interface WallPlane {
-    point: Point3D;
-    normal: Point3D;
-}
-
 export class ProjectionHelper {
-    private room: { width: number; depth: number; height: number };
+    private surfaces: RoomSurface[];
     private camera: {
         position: Point3D;
         rotation: Point3D;
     };
     private focalLength: number;
+    private distortion: LensDistortion | null;
     private canvasWidth: number;
     private canvasHeight: number;
 
@@ -47,12 +52,13 @@ export class ProjectionHelper {
         canvasWidth: number,
         canvasHeight: number
     ) {
-        this.room = calibData.room;
+        this.surfaces = resolveRoomSurfaces(calibData.room, calibData.surfaces);
         this.camera = {
             position: calibData.cameraPosition,
             rotation: calibData.cameraRotation,
         };
         this.focalLength = calibData.focalLength;
+        this.distortion = calibData.distortion ?? null;
         this.canvasWidth = canvasWidth;
         this.canvasHeight = canvasHeight;
     }
@@ -84,12 +90,23 @@ export class ProjectionHelper {
         const xPercent = 50 + x2d;
         const yPercent = 50 - y2d;
 
+        // 5. Linsenverzeichnung (Lochkamera-Bild → Screenshot)
+        const distorted = distortPoint(
+            { normalizedX: xPercent / 100, normalizedY: yPercent / 100 },
+            this.distortion,
+            this.canvasSize()
+        );
+
         return {
-            x: (xPercent / 100) * this.canvasWidth,
-            y: (yPercent / 100) * this.canvasHeight,
+            x: distorted.normalizedX * this.canvasWidth,
+            y: distorted.normalizedY * this.canvasHeight,
         };
     }
 
+    private canvasSize() {
+        return { width: this.canvasWidth, height: this.canvasHeight };
+    }
+
     /**
      * Rotationsmatrix (Euler YXZ)
      */
@@ -140,101 +157,50 @@ export class ProjectionHelper {
      * Zeichne 3D-Raum-Wireframe auf 2D-Canvas
      */
     drawRoomWireframe(ctx: CanvasRenderingContext2D) {
-        const w = this.room.width;
-        const h = this.room.height;
-        const d = this.room.depth;
-
-        // Raum-Ecken (8 Punkte)
-        const corners = [
-            { x: 0, y: 0, z: 0 },
-            { x: w, y: 0, z: 0 },
-            { x: w, y: 0, z: d },
-            { x: 0, y: 0, z: d },
-            { x: 0, y: h, z: 0 },
-            { x: w, y: h, z: 0 },
-            { x: w, y: h, z: d },
-            { x: 0, y: h, z: d },
-        ];
-
-        // Projiziere alle Ecken
-        const projected = corners.map((c) => this.project3DTo2D(c));
-
-        // Zeichne Kanten
+        // Zeichne Kanten (mit Verzeichnung als Polylinie - Geraden werden gebogen)
         ctx.strokeStyle = 'rgba(255, 0, 0, 0.8)';
         ctx.lineWidth = 2;
 
-        const edges = [
-            [0, 1],
-            [1, 2],
-            [2, 3],
-            [3, 0], // Boden
-            [4, 5],
-            [5, 6],
-            [6, 7],
-            [7, 4], // Decke
-            [0, 4],
-            [1, 5],
-            [2, 6],
-            [3, 7], // Vertikale
-        ];
-
-        edges.forEach(([i, j]) => {
-            const p1 = projected[i];
-            const p2 = projected[j];
+        surfaceEdges(this.surfaces).forEach(([a, b]) => {
+            const p1 = this.project3DTo2D(a);
+            const p2 = this.project3DTo2D(b);
 
             if (p1.x > -1000 && p2.x > -1000) {
                 // Beide vor Kamera
+                const points = this.projectEdge(a, b);
                 ctx.beginPath();
-                ctx.moveTo(p1.x, p1.y);
-                ctx.lineTo(p2.x, p2.y);
+                ctx.moveTo(points[0].x, points[0].y);
+                points.slice(1).forEach((p) => ctx.lineTo(p.x, p.y));
                 ctx.stroke();
             }
         });
     }
 
+    /**
+     * Projiziere 3D-Strecke (ohne Verzeichnung reichen die Endpunkte)
+     */
+    private projectEdge(a: Point3D, b: Point3D, segments = 24): Point2D[] {
+        const steps = isPinhole(this.distortion) ? 1 : segments;
+        const points: Point2D[] = [];
+        for (let k = 0; k <= steps; k++) {
+            const t = k / steps;
+            points.push(this.project3DTo2D({
+                x: a.x + t * (b.x - a.x),
+                y: a.y + t * (b.y - a.y),
+                z: a.z + t * (b.z - a.z),
+            }));
+        }
+        return points;
+    }
+
     /**
      * Zeichne Wand-Overlays (semi-transparent, farbcodiert)
      */
     drawWallOverlays(ctx: CanvasRenderingContext2D) {
-        const w = this.room.width;
-        const h = this.room.height;
-        const d = this.room.depth;
-
-        // Rückwand (z = d) - Rot
-        const backWall = [
-            this.project3DTo2D({ x: 0, y: 0, z: d }),
-            this.project3DTo2D({ x: w, y: 0, z: d }),
-            this.project3DTo2D({ x: w, y: h, z: d }),
-            this.project3DTo2D({ x: 0, y: h, z: d }),
-        ];
-        this.fillPolygon(ctx, backWall, 'rgba(255, 0, 0, 0.15)');
-
-        // Linke Wand (x = 0) - Blau
-        const leftWall = [
-            this.project3DTo2D({ x: 0, y: 0, z: 0 }),
-            this.project3DTo2D({ x: 0, y: 0, z: d }),
-            this.project3DTo2D({ x: 0, y: h, z: d }),
-            this.project3DTo2D({ x: 0, y: h, z: 0 }),
-        ];
-        this.fillPolygon(ctx, leftWall, 'rgba(0, 0, 255, 0.15)');
-
-        // Rechte Wand (x = w) - Grün
-        const rightWall = [
-            this.project3DTo2D({ x: w, y: 0, z: 0 }),
-            this.project3DTo2D({ x: w, y: 0, z: d }),
-            this.project3DTo2D({ x: w, y: h, z: d }),
-            this.project3DTo2D({ x: w, y: h, z: 0 }),
-        ];
-        this.fillPolygon(ctx, rightWall, 'rgba(0, 255, 0, 0.15)');
-
-        // Boden (y = 0) - Grau
-        const floor = [
-            this.project3DTo2D({ x: 0, y: 0, z: 0 }),
-            this.project3DTo2D({ x: w, y: 0, z: 0 }),
-            this.project3DTo2D({ x: w, y: 0, z: d }),
-            this.project3DTo2D({ x: 0, y: 0, z: d }),
-        ];
-        this.fillPolygon(ctx, floor, 'rgba(128, 128, 128, 0.15)');
+        this.surfaces.forEach((surface, i) => {
+            const points = surface.vertices.map((v) => this.project3DTo2D(v));
+            this.fillPolygon(ctx, points, surfaceColor(surface.name, i) + '26'); // ~15% Deckkraft
+        });
     }
 
     private fillPolygon(ctx: CanvasRenderingContext2D, points: Point2D[], color: string) {
@@ -251,61 +217,30 @@ export class ProjectionHelper {
     }
 
     /**
-     * Bestimme welche Wand an einer 2D-Position getroffen wird
+     * Bestimme welche Wand (Raumfläche) an einer 2D-Position getroffen wird
      */
-    detectWallAtClick(
-        clickX: number,
-        clickY: number
-    ): 'back' | 'left' | 'right' | 'front' | 'floor' | null {
+    detectWallAtClick(clickX: number, clickY: number): string | null {
         // Erstelle Ray von Kamera durch Klick-Position
         const ray = this.pixelToRay(clickX, clickY);
 
-        // Teste alle Wände
-        const walls: Record<string, WallPlane> = {
-            back: {
-                point: { x: 0, y: 0, z: this.room.depth },
-                normal: { x: 0, y: 0, z: -1 },
-            },
-            left: { point: { x: 0, y: 0, z: 0 }, normal: { x: 1, y: 0, z: 0 } },
-            right: {
-                point: { x: this.room.width, y: 0, z: 0 },
-                normal: { x: -1, y: 0, z: 0 },
-            },
-            front: { point: { x: 0, y: 0, z: 0 }, normal: { x: 0, y: 0, z: 1 } },
-            floor: { point: { x: 0, y: 0, z: 0 }, normal: { x: 0, y: 1, z: 0 } },
-        };
-
-        let closestWall: string | null = null;
-        let minDistance = Infinity;
-
-        for (const [wallName, plane] of Object.entries(walls)) {
-            const t = this.rayPlaneIntersection(ray, plane);
-
-            if (t > 0 && t < minDistance) {
-                const intersection = {
-                    x: ray.origin.x + t * ray.direction.x,
-                    y: ray.origin.y + t * ray.direction.y,
-                    z: ray.origin.z + t * ray.direction.z,
-                };
-
-                // Prüfe ob Intersection innerhalb der Wand-Bounds liegt
-                if (this.isPointOnWall(intersection, wallName)) {
-                    minDistance = t;
-                    closestWall = wallName;
-                }
-            }
-        }
-
-        return closestWall as any;
+        // Nächste getroffene Fläche
+        return intersectRoomSurfaces(ray.origin, ray.direction, this.surfaces)?.surface ?? null;
     }
 
     /**
      * Konvertiere Pixel-Koordinaten zu 3D-Ray
      */
     private pixelToRay(px: number, py: number): { origin: Point3D; direction: Point3D } {
+        // Screenshot-Pixel → Lochkamera-Bildpunkt (Verzeichnung entfernen)
+        const undistorted = undistortPoint(
+            { normalizedX: px / this.canvasWidth, normalizedY: py / this.canvasHeight },
+            this.distortion,
+            this.canvasSize()
+        );
+
         // Pixel → Prozent
-        const xPercent = (px / this.canvasWidth) * 100;
-        const yPercent = (py / this.canvasHeight) * 100;
+        const xPercent = undistorted.normalizedX * 100;
+        const yPercent = undistorted.normalizedY * 100;
 
         // Prozent → Normalisierte Device Coordinates
         const x = (xPercent - 50) / 50;
@@ -330,87 +265,4 @@ export class ProjectionHelper {
             },
         };
     }
-
-    /**
-     * Ray-Plane Intersection
-     */
-    private rayPlaneIntersection(
-        ray: { origin: Point3D; direction: Point3D },
-        plane: WallPlane
-    ): number {
-        const denom =
-            ray.direction.x * plane.normal.x +
-            ray.direction.y * plane.normal.y +
-            ray.direction.z * plane.normal.z;
-
-        if (Math.abs(denom) < 0.0001) return -1; // Parallel
-
-        const p0l0 = {
-            x: plane.point.x - ray.origin.x,
-            y: plane.point.y - ray.origin.y,
-            z: plane.point.z - ray.origin.z,
-        };
-
-        const t =
-            (p0l0.x * plane.normal.x + p0l0.y * plane.normal.y + p0l0.z * plane.normal.z) / denom;
-
-        return t;
-    }
-
-    /**
-     * Prüfe ob Punkt innerhalb der Wand-Bounds liegt
-     */
-    private isPointOnWall(point: Point3D, wallName: string): boolean {
-        const epsilon = 0.1; // 10cm Toleranz
-
-        switch (wallName) {
-            case 'back':
-                return (
-                    Math.abs(point.z - this.room.depth) < epsilon &&
-                    point.x >= -epsilon &&
-                    point.x <= this.room.width + epsilon &&
-                    point.y >= -epsilon &&
-                    point.y <= this.room.height + epsilon
-                );
-
-            case 'left':
-                return (
-                    Math.abs(point.x) < epsilon &&
-                    point.z >= -epsilon &&
-                    point.z <= this.room.depth + epsilon &&
-                    point.y >= -epsilon &&
-                    point.y <= this.room.height + epsilon
-                );
-
-            case 'right':
-                return (
-                    Math.abs(point.x - this.room.width) < epsilon &&
-                    point.z >= -epsilon &&
-                    point.z <= this.room.depth + epsilon &&
-                    point.y >= -epsilon &&
-                    point.y <= this.room.height + epsilon
-                );
-
-            case 'front':
-                return (
-                    Math.abs(point.z) < epsilon &&
-                    point.x >= -epsilon &&
-                    point.x <= this.room.width + epsilon &&
-                    point.y >= -epsilon &&
-                    point.y <= this.room.height + epsilon
-                );
-
-            case 'floor':
-                return (
-                    Math.abs(point.y) < epsilon &&
-                    point.x >= -epsilon &&
-                    point.x <= this.room.width + epsilon &&
-                    point.z >= -epsilon &&
-                    point.z <= this.room.depth + epsilon
-                );
-
-            default:
-                return false;
-        }
-    }
-}
\ No newline at end of file
+}
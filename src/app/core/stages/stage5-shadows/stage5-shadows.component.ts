@@ -1,4 +1,4 @@
-import { Component, OnInit, ViewChild, ElementRef, AfterViewInit, ChangeDetectorRef } from '@angular/core';
+import { Component, OnInit, OnDestroy, ViewChild, ElementRef, AfterViewInit, ChangeDetectorRef, HostListener } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
 import { Router } from '@angular/router';
@@ -11,13 +11,25 @@ import { MatSlideToggleModule } from '@angular/material/slide-toggle';
 import { MatExpansionModule } from '@angular/material/expansion';
 import { MatSnackBar, MatSnackBarModule } from '@angular/material/snack-bar';
 import { MatTooltipModule } from '@angular/material/tooltip';
+import { MatDialog, MatDialogModule } from '@angular/material/dialog';
 
 import { SessionService } from '../../services/session.service';
+import { HistoryService } from '../../services/history.service';
+import { AutosaveService } from '../../services/autosave.service';
 import { ThreeViewerComponent, RoomParams } from '../../shared/three-viewer/three-viewer.component';
+import { openSessionMergeDialog } from '../../shared/session-merge-dialog/session-merge-dialog.component';
+import { AutosaveStatusComponent } from '../../shared/autosave-status/autosave-status.component';
+import { SessionConflictError } from '../../shared/session-merge';
+import { HistoryAction } from '../../shared/session-history';
+import { distortPoint, undistortPoint } from '../../shared/lens-distortion';
+import { resolveRoomSurfaces, surfaceColor, surfaceLabel } from '../../shared/room-geometry';
 import {
   SessionData,
+  ShadowObject,
   ShadowPair,
   NormalizedPoint2D,
+  LensDistortion,
+  RoomSurface,
   WallName,
   DisplayParams,
   createDefaultDisplayParams
@@ -66,12 +78,14 @@ interface ScreenshotData {
     MatExpansionModule,
     MatSnackBarModule,
     MatTooltipModule,
+    MatDialogModule,
     ThreeViewerComponent,
+    AutosaveStatusComponent,
   ],
   templateUrl: './stage5-shadows.component.html',
   styleUrls: ['./stage5-shadows.component.scss'],
 })
-export class Stage5ShadowsComponent implements OnInit, AfterViewInit {
+export class Stage5ShadowsComponent implements OnInit, AfterViewInit, OnDestroy {
   @ViewChild('viewer') viewer!: ThreeViewerComponent;
   @ViewChild('overlayCanvas') overlayCanvas!: ElementRef<HTMLCanvasElement>;
 
@@ -79,10 +93,17 @@ export class Stage5ShadowsComponent implements OnInit, AfterViewInit {
   sessionData: SessionData | null = null;
   sessionId: string | null = null;
 
+  // Offener Sync-Konflikt (Merge startet der Nutzer, nicht der Autosave)
+  saveConflict: SessionConflictError | null = null;
+
   // Room Parameters
   currentRoomParams: RoomParams = { width: 5, depth: 5, height: 3 };
+  roomSurfaces: RoomSurface[] | null = null;
   globalFovY = 60;
 
+  // Linsenverzeichnung: Viewer zeigt entzerrt, gespeichert wird im Roh-Screenshot
+  lensDistortion: LensDistortion | null = null;
+
   // Screenshots
   screenshots: ScreenshotData[] = [];
   currentIndex = 0;
@@ -106,8 +127,11 @@ export class Stage5ShadowsComponent implements OnInit, AfterViewInit {
 
   constructor(
     private sessionService: SessionService,
+    private historyService: HistoryService,
+    private autosave: AutosaveService,
     private router: Router,
     private snackBar: MatSnackBar,
+    private dialog: MatDialog,
     private cdr: ChangeDetectorRef
   ) { }
 
@@ -120,9 +144,21 @@ export class Stage5ShadowsComponent implements OnInit, AfterViewInit {
       return;
     }
 
+    await this.loadSessionData();
+  }
+
+  ngOnDestroy() {
+    const key = this.autosaveKey;
+    void this.autosave.flush(key).then(() => {
+      // Konflikt übernimmt die Sync-Anzeige (lokale Kopie bleibt vorgemerkt)
+      if (this.saveConflict) this.autosave.discard(key);
+    });
+  }
+
+  private async loadSessionData() {
     try {
       // Session laden
-      this.sessionData = await this.sessionService.loadSession(this.sessionId).toPromise() as SessionData;
+      this.sessionData = await this.sessionService.loadSession(this.sessionId!).toPromise() as SessionData;
       console.log('📂 Session geladen:', this.sessionData);
 
       if (!this.sessionData.calibration) {
@@ -133,7 +169,9 @@ export class Stage5ShadowsComponent implements OnInit, AfterViewInit {
 
       // Globale Parameter laden
       this.currentRoomParams = { ...this.sessionData.calibration.room };
+      this.roomSurfaces = this.sessionData.calibration.surfaces ?? null;
       this.globalFovY = this.sessionData.calibration.camera.fovY;
+      this.lensDistortion = this.sessionData.calibration.camera.distortion ?? null;
 
       // Screenshots initialisieren
       await this.loadScreenshots();
@@ -160,11 +198,10 @@ export class Stage5ShadowsComponent implements OnInit, AfterViewInit {
         );
 
         // Screenshot-Datei laden
-        const url = this.sessionService.getScreenshotUrl(this.sessionId!, `${calibScreenshot.screenshotId}.png`);
         let file: File | null = null;
 
         try {
-          const blob = await fetch(url).then(r => r.blob());
+          const blob = (await this.sessionService.loadScreenshot(this.sessionId!, calibScreenshot.screenshotId).toPromise())!;
           file = new File([blob], screenshotInfo?.filename || `${calibScreenshot.screenshotId}.png`, { type: 'image/png' });
         } catch (err) {
           console.warn(`⚠️ Konnte Screenshot ${calibScreenshot.screenshotId} nicht laden`);
@@ -178,19 +215,7 @@ export class Stage5ShadowsComponent implements OnInit, AfterViewInit {
         );
 
         // Konvertiere zu internem Format mit Display-Cache
-        const objects: ShadowObjectInternal[] = (existingShadows?.objects || []).map(obj => ({
-          id: obj.id,
-          name: obj.name,
-          pairs: obj.pairs.map(pair => ({
-            ...pair,
-            _displayCache: {
-              objectPointPx: { px: 0, py: 0 },
-              shadowPointPx: { px: 0, py: 0 },
-              canvasWidth: 0,
-              canvasHeight: 0
-            }
-          }))
-        }));
+        const objects = this.toInternalObjects(existingShadows?.objects || []);
 
         console.log(`📷 Screenshot ${calibScreenshot.screenshotId}: ${objects.length} Objekte geladen`);
 
@@ -206,6 +231,33 @@ export class Stage5ShadowsComponent implements OnInit, AfterViewInit {
     );
   }
 
+  private toInternalObjects(objects: ShadowObject[]): ShadowObjectInternal[] {
+    return objects.map(obj => ({
+      id: obj.id,
+      name: obj.name,
+      pairs: obj.pairs.map(pair => ({
+        ...pair,
+        _displayCache: {
+          objectPointPx: { px: 0, py: 0 },
+          shadowPointPx: { px: 0, py: 0 },
+          canvasWidth: 0,
+          canvasHeight: 0
+        }
+      }))
+    }));
+  }
+
+  private toShadowObjects(objects: ShadowObjectInternal[]): ShadowObject[] {
+    return objects.map(obj => ({
+      id: obj.id,
+      name: obj.name,
+      pairs: obj.pairs.map(p => ({
+        objectPoint: p.objectPoint,
+        shadowPoint: p.shadowPoint
+      }))
+    }));
+  }
+
   ngAfterViewInit() {
     if (this.screenshots.length > 0) {
       setTimeout(() => {
@@ -232,10 +284,6 @@ export class Stage5ShadowsComponent implements OnInit, AfterViewInit {
     return screenshot.objects.filter(obj => obj.pairs.length === 3).length;
   }
 
-  get hasAnyShadows(): boolean {
-    return this.screenshots.some(s => this.getCompleteObjectsCount(s) > 0);
-  }
-
   get currentPairProgress(): string {
     if (!this.currentObject) return '';
     return `${this.currentObject.pairs.length + 1}/3`;
@@ -268,7 +316,7 @@ export class Stage5ShadowsComponent implements OnInit, AfterViewInit {
     // Viewer aktualisieren
     const cameraPos = this.sessionData.calibration.camera.position;
 
-    this.viewer?.updateRoom(this.currentRoomParams);
+    this.viewer?.updateRoom(this.currentRoomParams, this.roomSurfaces);
     this.viewer?.updateCameraPosition(cameraPos);
     this.viewer?.updateRoomRotation(calibScreenshot.cameraRotation);
     this.viewer?.updateFov(this.globalFovY);
@@ -336,7 +384,8 @@ export class Stage5ShadowsComponent implements OnInit, AfterViewInit {
       normalizedY = sin * dx + cos * dy + 0.5;
     }
 
-    return { normalizedX, normalizedY };
+    // Entzerrte Anzeige → Roh-Screenshot
+    return distortPoint({ normalizedX, normalizedY }, this.lensDistortion, this.currentImageSize);
   }
 
   private normalizedToCanvas(
@@ -346,7 +395,7 @@ export class Stage5ShadowsComponent implements OnInit, AfterViewInit {
   ): { px: number; py: number } {
     const display = this.currentDisplayParams;
 
-    let { normalizedX, normalizedY } = normalized;
+    let { normalizedX, normalizedY } = undistortPoint(normalized, this.lensDistortion, this.currentImageSize);
 
     if (Math.abs(display.backgroundRotation) > 0.1) {
       const rad = display.backgroundRotation * Math.PI / 180;
@@ -371,6 +420,24 @@ export class Stage5ShadowsComponent implements OnInit, AfterViewInit {
     };
   }
 
+  /** Legende: Flächen mit Viewer-Farben */
+  get wallLegend(): Array<{ name: string; label: string; color: string }> {
+    return resolveRoomSurfaces(this.currentRoomParams, this.roomSurfaces).map((surface, i) => ({
+      name: surface.name,
+      label: surfaceLabel(surface.name),
+      color: surfaceColor(surface.name, i)
+    }));
+  }
+
+  wallLabel(wall: WallName): string {
+    return surfaceLabel(wall);
+  }
+
+  private get currentImageSize() {
+    const screenshot = this.currentScreenshot;
+    return { width: screenshot?.originalWidth ?? 1920, height: screenshot?.originalHeight ?? 1080 };
+  }
+
   private updateDisplayCaches() {
     if (!this.overlayCanvas) return;
 
@@ -495,7 +562,7 @@ export class Stage5ShadowsComponent implements OnInit, AfterViewInit {
     if (this.showWallLabels) {
       ctx.fillStyle = 'white';
       ctx.font = '11px Arial';
-      ctx.fillText(pair.shadowPoint.wall, shadowCanvas.px, shadowCanvas.py - 15);
+      ctx.fillText(surfaceLabel(pair.shadowPoint.wall), shadowCanvas.px, shadowCanvas.py - 15);
     }
   }
 
@@ -541,12 +608,13 @@ export class Stage5ShadowsComponent implements OnInit, AfterViewInit {
         return;
       }
 
-      if (this.tempObjectPoint && this.currentObject) {
+      if (this.tempObjectPoint && this.currentObject && this.currentScreenshot) {
+        const before = this.toShadowObjects(this.currentScreenshot.objects);
         const newPair: ShadowPairInternal = {
           objectPoint: this.tempObjectPoint.normalized,
           shadowPoint: {
             ...normalized,
-            wall: hit.wall as WallName,
+            wall: hit.wall,
             world3D: hit.point3D
           },
           _displayCache: {
@@ -558,6 +626,7 @@ export class Stage5ShadowsComponent implements OnInit, AfterViewInit {
         };
 
         this.currentObject.pairs.push(newPair);
+        this.recordShadows('Punkt-Paar hinzugefügt', before);
 
         this.snackBar.open(
           `Punkt ${this.currentObject.pairs.length}/3 für ${this.currentObject.name} markiert`,
@@ -589,6 +658,7 @@ export class Stage5ShadowsComponent implements OnInit, AfterViewInit {
   onAddObject() {
     if (!this.currentScreenshot) return;
 
+    const before = this.toShadowObjects(this.currentScreenshot.objects);
     const newObject: ShadowObjectInternal = {
       id: `obj_${Date.now()}`,
       name: `Objekt ${this.currentScreenshot.objects.length + 1}`,
@@ -596,6 +666,7 @@ export class Stage5ShadowsComponent implements OnInit, AfterViewInit {
     };
 
     this.currentScreenshot.objects.push(newObject);
+    this.recordShadows('Objekt hinzugefügt', before);
     this.currentObjectIndex = this.currentScreenshot.objects.length - 1;
     this.snackBar.open(`${newObject.name} hinzugefügt`, '', { duration: 2000 });
     this.cdr.detectChanges();
@@ -613,7 +684,9 @@ export class Stage5ShadowsComponent implements OnInit, AfterViewInit {
 
     const obj = this.currentScreenshot.objects[index];
     if (confirm(`${obj.name} wirklich löschen?`)) {
+      const before = this.toShadowObjects(this.currentScreenshot.objects);
       this.currentScreenshot.objects.splice(index, 1);
+      this.recordShadows(`${obj.name} gelöscht`, before);
       if (this.currentObjectIndex >= this.currentScreenshot.objects.length) {
         this.currentObjectIndex = this.currentScreenshot.objects.length - 1;
       }
@@ -623,19 +696,118 @@ export class Stage5ShadowsComponent implements OnInit, AfterViewInit {
     }
   }
 
+  onRenameObject(index: number) {
+    if (!this.currentScreenshot) return;
+
+    const obj = this.currentScreenshot.objects[index];
+    const name = prompt('Neuer Name:', obj.name)?.trim();
+    if (!name || name === obj.name) return;
+
+    const before = this.toShadowObjects(this.currentScreenshot.objects);
+    obj.name = name;
+    this.recordShadows('Objekt umbenannt', before);
+    this.cdr.detectChanges();
+  }
+
   onDeletePair(objIndex: number, pairIndex: number) {
     if (!this.currentScreenshot) return;
+    const before = this.toShadowObjects(this.currentScreenshot.objects);
     this.currentScreenshot.objects[objIndex].pairs.splice(pairIndex, 1);
+    this.recordShadows('Punkt-Paar gelöscht', before);
     this.drawMarkings();
     this.snackBar.open('Punkt-Paar gelöscht', '', { duration: 2000 });
     this.cdr.detectChanges();
   }
 
+  // ==========================================================================
+  // UNDO / REDO
+  // ==========================================================================
+
+  @HostListener('window:keydown', ['$event'])
+  onKeydown(event: KeyboardEvent) {
+    const action = this.historyService.shortcut(event);
+    if (!action) return;
+
+    event.preventDefault();
+    this.stepHistory(action);
+  }
+
+  get canUndo(): boolean {
+    return this.historyService.canUndo(this.sessionData, 'shadows');
+  }
+
+  get canRedo(): boolean {
+    return this.historyService.canRedo(this.sessionData, 'shadows');
+  }
+
+  historyTooltip(action: HistoryAction): string {
+    const label = this.historyService.nextLabel(this.sessionData, 'shadows', action);
+    const prefix = action === 'undo' ? 'Rückgängig' : 'Wiederholen';
+    return label ? `${prefix}: ${label}` : prefix;
+  }
+
+  stepHistory(action: HistoryAction) {
+    if (!this.sessionData) return;
+
+    const entry = action === 'undo'
+      ? this.historyService.undo(this.sessionData, 'shadows')
+      : this.historyService.redo(this.sessionData, 'shadows');
+    if (!entry || entry.scope !== 'shadows') return;
+
+    // Zum betroffenen Screenshot springen
+    const index = this.screenshots.findIndex(s => s.id === entry.screenshotId);
+    if (index < 0) return;
+    if (index !== this.currentIndex) {
+      this.goToScreenshot(index);
+    }
+
+    const screenshot = this.screenshots[index];
+    screenshot.objects = this.toInternalObjects(action === 'undo' ? entry.before : entry.after);
+    if (this.currentObjectIndex >= screenshot.objects.length) {
+      this.currentObjectIndex = -1;
+    }
+
+    this.resetMarkingState();
+    this.updateDisplayCaches();
+    this.drawMarkings();
+    this.scheduleAutosave();
+    this.snackBar.open(
+      `${action === 'undo' ? 'Rückgängig' : 'Wiederholt'}: ${entry.label}`,
+      '',
+      { duration: 1500 }
+    );
+    this.cdr.detectChanges();
+  }
+
+  private recordShadows(label: string, before: ShadowObject[]) {
+    if (!this.sessionData || !this.currentScreenshot) return;
+
+    this.historyService.record(this.sessionData, label, {
+      scope: 'shadows',
+      screenshotId: this.currentScreenshot.id,
+      before,
+      after: this.toShadowObjects(this.currentScreenshot.objects)
+    });
+    this.scheduleAutosave();
+  }
+
   // ==========================================================================
   // SAVE
   // ==========================================================================
 
-  async onSaveShadows() {
+  private scheduleAutosave() {
+    if (!this.sessionId) return;
+    this.autosave.schedule(this.autosaveKey, () => this.saveToBackend());
+  }
+
+  private get autosaveKey(): string {
+    return `shadows:${this.sessionId}`;
+  }
+
+  /**
+   * Speichert nur die Schatten (Fehler außer Konflikten gehen an den Autosave)
+   */
+  private async saveToBackend() {
     if (!this.sessionId || !this.sessionData) return;
 
     // Konvertiere zu Session-Format
@@ -643,22 +815,51 @@ export class Stage5ShadowsComponent implements OnInit, AfterViewInit {
       .filter(s => s.objects.length > 0)
       .map(s => ({
         screenshotId: s.id,
-        objects: s.objects.map(obj => ({
-          id: obj.id,
-          name: obj.name,
-          pairs: obj.pairs.map(p => ({
-            objectPoint: p.objectPoint,
-            shadowPoint: p.shadowPoint
-          }))
-        }))
+        objects: this.toShadowObjects(s.objects)
       }));
 
     try {
-      await this.sessionService.saveSession(this.sessionId, this.sessionData).toPromise();
-      this.snackBar.open('Schatten-Daten gespeichert ✓', '', { duration: 3000 });
+      await this.sessionService.saveShadows(this.sessionId, this.sessionData).toPromise();
       console.log('💾 Shadows gespeichert:', this.sessionData.shadows);
     } catch (err) {
-      console.error('Fehler beim Speichern:', err);
+      // Konflikt bleibt ein Fehler für den Autosave - Merge per Button
+      if (err instanceof SessionConflictError) {
+        this.saveConflict = err;
+        this.cdr.detectChanges();
+      }
+      throw err;
+    }
+  }
+
+  async onResolveConflict() {
+    if (this.saveConflict) await this.handleSaveConflict(this.saveConflict);
+  }
+
+  /**
+   * Session wurde parallel gespeichert: Merge-Dialog, danach neu laden.
+   * Abgebrochen bleibt der Konflikt offen und der Autosave im Fehlerzustand.
+   */
+  private async handleSaveConflict(conflict: SessionConflictError) {
+    const merged = await openSessionMergeDialog(this.dialog, conflict);
+    if (!merged) {
+      this.snackBar.open('Nicht gespeichert - Konflikt ist noch offen', '', { duration: 4000 });
+      return;
+    }
+
+    try {
+      await this.sessionService.resolveConflict(conflict, merged).toPromise();
+      this.saveConflict = null;
+      this.snackBar.open('Änderungen zusammengeführt ✓', '', { duration: 3000 });
+      await this.loadSessionData();
+
+      // Fehlgeschlagenes Speichern mit dem zusammengeführten Stand wiederholen
+      await this.autosave.flush(this.autosaveKey);
+    } catch (err) {
+      if (err instanceof SessionConflictError) {
+        await this.handleSaveConflict(err);
+        return;
+      }
+      console.error('Fehler beim Zusammenführen:', err);
       this.snackBar.open('Fehler beim Speichern', '', { duration: 3000 });
     }
   }
@@ -671,11 +872,13 @@ export class Stage5ShadowsComponent implements OnInit, AfterViewInit {
     this.router.navigate(['/stage3-calibration']);
   }
 
-  onProceedToSummary() {
-    // Automatisch speichern vor Navigation
-    this.onSaveShadows().then(() => {
-      this.router.navigate(['/stage6-summary']);
-    });
+  async onProceedToSummary() {
+    // Ausstehende Änderungen vor der Navigation speichern
+    await this.autosave.flush(this.autosaveKey);
+    if (this.autosave.statusOf(this.autosaveKey) === 'error') {
+      this.snackBar.open('Fehler beim Speichern', '', { duration: 3000 });
+    }
+    this.router.navigate(['/stage6-summary']);
   }
 
   onToggleWireframe() {
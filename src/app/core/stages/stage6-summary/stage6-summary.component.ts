@@ -12,7 +12,13 @@ import { MatTooltipModule } from '@angular/material/tooltip';
 import { MatSnackBar, MatSnackBarModule } from '@angular/material/snack-bar';
 
 import { SessionService } from '../../services/session.service';
-import { ApiService } from '../../services/api.service';
+import {
+  InterObjectValidationResult,
+  ValidationResult,
+  ValidationSummary
+} from '../../models/api.types';
+import { ApiDecodeError } from '../../shared/api-decoders';
+import { surfaceLabel } from '../../shared/room-geometry';
 import {
   SessionData,
   ValidationStatus,
@@ -42,20 +48,15 @@ interface ScreenshotValidationResult {
   meanLightDirection?: { x: number; y: number; z: number };
   meanLightAzimuthDeg?: number;
   meanLightElevationDeg?: number;
-  objectResults: any[];
+  objectResults: ValidationResult[];
   message: string;
 }
 
 interface GlobalValidationResult {
   status: ValidationStatus;
   globalScore: number;
-  summary: {
-    total_screenshots: number;
-    valid_screenshots: number;
-    warning_screenshots: number;
-    error_screenshots: number;
-  };
-  screenshotResults: any[];
+  summary: ValidationSummary;
+  screenshotResults: InterObjectValidationResult[];
   message: string;
 }
 
@@ -91,9 +92,10 @@ export class Stage6SummaryComponent implements OnInit {
   screenshotValidationResults: Map<string, ScreenshotValidationResult> = new Map();
   globalValidationResult: GlobalValidationResult | null = null;
 
+  isExporting = false;
+
   constructor(
     private sessionService: SessionService,
-    private apiService: ApiService,
     private router: Router,
     private snackBar: MatSnackBar,
     private cdr: ChangeDetectorRef
@@ -235,33 +237,21 @@ export class Stage6SummaryComponent implements OnInit {
     this.validatingObjectKey = key;
 
     try {
-      const response = await this.apiService.validateObject(
+      const response = await this.sessionService.validateObject(
         this.sessionId!,
         screenshotId,
         objectId
       ).toPromise();
 
-      if (response?.success && response.data) {
-        const data = response.data;
-
+      if (response?.success) {
         // Ergebnis speichern
-        const result: ObjectValidationResult = {
-          status: response.status as ValidationStatus,
-          consistencyScore: data.consistencyScore || 0,
-          averageErrorDeg: data.averageErrorDeg || 0,
-          maxErrorDeg: data.maxErrorDeg || 0,
-          lightDirection: data.lightDirection,
-          lightAzimuthDeg: data.details?.light_azimuth_deg,
-          lightElevationDeg: data.details?.light_elevation_deg,
-          message: response.message
-        };
-
+        const result = this.toObjectResult(response);
         this.objectValidationResults.set(key, result);
 
         // Kurze Snackbar-Meldung
         const statusEmoji = result.status === 'valid' ? '✓' : result.status === 'warning' ? '⚠' : '✗';
         this.snackBar.open(
-          `${statusEmoji} ${response.message}`,
+          `${statusEmoji} ${result.message}`,
           'OK',
           { duration: 3000 }
         );
@@ -270,8 +260,7 @@ export class Stage6SummaryComponent implements OnInit {
         this.snackBar.open(response?.message || 'Validierung fehlgeschlagen', '', { duration: 3000 });
       }
     } catch (err) {
-      console.error('Validierung fehlgeschlagen:', err);
-      this.snackBar.open('Fehler bei der Validierung', '', { duration: 3000 });
+      this.handleValidationError(err);
     } finally {
       this.isValidating = false;
       this.validatingObjectKey = null;
@@ -287,51 +276,18 @@ export class Stage6SummaryComponent implements OnInit {
     this.validatingScreenshotId = screenshotId;
 
     try {
-      const response = await this.apiService.validateInterObject(
+      const response = await this.sessionService.validateInterObject(
         this.sessionId!,
         screenshotId
       ).toPromise();
 
-      if (response?.success && response.data) {
-        const data = response.data;
-
-        // Ergebnis speichern
-        const result: ScreenshotValidationResult = {
-          status: response.status as ValidationStatus,
-          interObjectScore: data.interObjectScore || 0,
-          averageDeviationDeg: data.averageDeviationDeg || 0,
-          maxDeviationDeg: data.maxDeviationDeg || 0,
-          meanLightDirection: data.meanLightDirection,
-          meanLightAzimuthDeg: data.meanLightAzimuthDeg,
-          meanLightElevationDeg: data.meanLightElevationDeg,
-          objectResults: data.objectResults || [],
-          message: response.message
-        };
-
-        this.screenshotValidationResults.set(screenshotId, result);
-
-        // Auch die einzelnen Objekt-Ergebnisse aktualisieren
-        if (data.objectResults) {
-          for (const objResult of data.objectResults) {
-            if (objResult.object_id && objResult.consistency_score !== undefined) {
-              const key = `${screenshotId}:${objResult.object_id}`;
-              this.objectValidationResults.set(key, {
-                status: objResult.status as ValidationStatus,
-                consistencyScore: objResult.consistency_score,
-                averageErrorDeg: objResult.average_error_deg || 0,
-                maxErrorDeg: 0,
-                lightDirection: objResult.light_direction,
-                lightAzimuthDeg: undefined,
-                lightElevationDeg: undefined,
-                message: objResult.message || ''
-              });
-            }
-          }
-        }
+      if (response?.success) {
+        // Ergebnis speichern (inkl. der einzelnen Objekt-Ergebnisse)
+        const result = this.storeScreenshotResult(response);
 
         const statusEmoji = result.status === 'valid' ? '✓' : result.status === 'warning' ? '⚠' : '✗';
         this.snackBar.open(
-          `${statusEmoji} Inter-Objekt: ${response.message}`,
+          `${statusEmoji} Inter-Objekt: ${result.message}`,
           'OK',
           { duration: 4000 }
         );
@@ -340,8 +296,7 @@ export class Stage6SummaryComponent implements OnInit {
         this.snackBar.open(response?.message || 'Validierung fehlgeschlagen', '', { duration: 3000 });
       }
     } catch (err) {
-      console.error('Validierung fehlgeschlagen:', err);
-      this.snackBar.open('Fehler bei der Validierung', '', { duration: 3000 });
+      this.handleValidationError(err);
     } finally {
       this.isValidating = false;
       this.validatingScreenshotId = null;
@@ -365,66 +320,28 @@ export class Stage6SummaryComponent implements OnInit {
     this.isValidating = true;
 
     try {
-      const response = await this.apiService.validateAll(this.sessionId!).toPromise();
-
-      if (response?.success && response.data) {
-        const data = response.data as any;
+      const response = await this.sessionService.validateAll(this.sessionId!).toPromise();
 
+      if (response?.success) {
         // Globales Ergebnis speichern
         this.globalValidationResult = {
-          status: response.status as ValidationStatus,
-          globalScore: data.globalScore || 0,
-          summary: data.summary || {
-            total_screenshots: 0,
-            valid_screenshots: 0,
-            warning_screenshots: 0,
-            error_screenshots: 0
-          },
-          screenshotResults: data.screenshotResults || [],
-          message: response.message
+          status: response.status,
+          globalScore: response.overallScore,
+          summary: response.summary,
+          screenshotResults: response.screenshotResults,
+          message: response.message || ''
         };
 
-        // Auch die Screenshot-Ergebnisse aktualisieren
-        if (data.screenshotResults) {
-          for (const ssResult of data.screenshotResults) {
-            if (ssResult.screenshot_id) {
-              this.screenshotValidationResults.set(ssResult.screenshot_id, {
-                status: ssResult.status as ValidationStatus,
-                interObjectScore: ssResult.inter_object_score || 0,
-                averageDeviationDeg: ssResult.average_deviation_deg || 0,
-                maxDeviationDeg: ssResult.max_deviation_deg || 0,
-                meanLightDirection: ssResult.mean_light_direction,
-                meanLightAzimuthDeg: ssResult.mean_light_azimuth_deg,
-                meanLightElevationDeg: ssResult.mean_light_elevation_deg,
-                objectResults: ssResult.object_results || [],
-                message: ssResult.message || ''
-              });
-
-              // Auch Objekt-Ergebnisse
-              if (ssResult.object_results) {
-                for (const objResult of ssResult.object_results) {
-                  if (objResult.object_id) {
-                    const key = `${ssResult.screenshot_id}:${objResult.object_id}`;
-                    this.objectValidationResults.set(key, {
-                      status: objResult.status as ValidationStatus,
-                      consistencyScore: objResult.consistency_score || 0,
-                      averageErrorDeg: objResult.average_error_deg || 0,
-                      maxErrorDeg: 0,
-                      lightDirection: objResult.light_direction,
-                      message: objResult.message || ''
-                    });
-                  }
-                }
-              }
-            }
-          }
+        // Auch die Screenshot- und Objekt-Ergebnisse aktualisieren
+        for (const ssResult of response.screenshotResults) {
+          this.storeScreenshotResult(ssResult);
         }
 
         const statusEmoji = this.globalValidationResult.status === 'valid' ? '✓' :
           this.globalValidationResult.status === 'warning' ? '⚠' : '✗';
 
         this.snackBar.open(
-          `${statusEmoji} Gesamt-Score: ${data.globalScore?.toFixed(0)}% - ${response.message}`,
+          `${statusEmoji} Gesamt-Score: ${response.overallScore.toFixed(0)}% - ${response.message ?? ''}`,
           'OK',
           { duration: 5000 }
         );
@@ -433,14 +350,58 @@ export class Stage6SummaryComponent implements OnInit {
         this.snackBar.open(response?.message || 'Validierung fehlgeschlagen', '', { duration: 3000 });
       }
     } catch (err) {
-      console.error('Validierung fehlgeschlagen:', err);
-      this.snackBar.open('Fehler bei der Validierung', '', { duration: 3000 });
+      this.handleValidationError(err);
     } finally {
       this.isValidating = false;
       this.cdr.detectChanges();
     }
   }
 
+  private toObjectResult(result: ValidationResult): ObjectValidationResult {
+    return {
+      status: result.status,
+      consistencyScore: result.consistencyScore,
+      averageErrorDeg: result.averageError ?? 0,
+      maxErrorDeg: result.maxError ?? 0,
+      lightDirection: result.estimatedLightDirection,
+      lightAzimuthDeg: result.lightAzimuthDeg,
+      lightElevationDeg: result.lightElevationDeg,
+      message: result.message || ''
+    };
+  }
+
+  /**
+   * Speichert ein Screenshot-Ergebnis und die enthaltenen Objekt-Ergebnisse
+   */
+  private storeScreenshotResult(result: InterObjectValidationResult): ScreenshotValidationResult {
+    const screenshotResult: ScreenshotValidationResult = {
+      status: result.status,
+      interObjectScore: result.interObjectScore,
+      averageDeviationDeg: result.averageDeviationDeg ?? 0,
+      maxDeviationDeg: result.maxDeviationDeg ?? 0,
+      meanLightDirection: result.meanLightDirection,
+      meanLightAzimuthDeg: result.meanLightAzimuthDeg,
+      meanLightElevationDeg: result.meanLightElevationDeg,
+      objectResults: result.objectResults,
+      message: result.message || ''
+    };
+
+    this.screenshotValidationResults.set(result.screenshotId, screenshotResult);
+
+    for (const objResult of result.objectResults) {
+      if (!objResult.objectId) continue;
+      this.objectValidationResults.set(`${result.screenshotId}:${objResult.objectId}`, this.toObjectResult(objResult));
+    }
+
+    return screenshotResult;
+  }
+
+  private handleValidationError(err: unknown) {
+    console.error('Validierung fehlgeschlagen:', err);
+    const message = err instanceof ApiDecodeError ? err.message : 'Fehler bei der Validierung';
+    this.snackBar.open(message, 'OK', { duration: err instanceof ApiDecodeError ? 8000 : 3000 });
+  }
+
   // ==========================================================================
   // UI HELPERS
   // ==========================================================================
@@ -460,14 +421,7 @@ export class Stage6SummaryComponent implements OnInit {
   }
 
   getWallDisplayName(wall: string): string {
-    const names: Record<string, string> = {
-      back: 'Rückwand',
-      left: 'Links',
-      right: 'Rechts',
-      front: 'Vorne',
-      floor: 'Boden'
-    };
-    return names[wall] || wall;
+    return surfaceLabel(wall);
   }
 
   getScreenshotCalibration(screenshotId: string) {
@@ -500,6 +454,33 @@ export class Stage6SummaryComponent implements OnInit {
     this.router.navigate(['/stage5-shadows']);
   }
 
+  /**
+   * Lädt die Session inkl. Screenshots als .sgeo-Archiv herunter
+   */
+  async onExportArchive() {
+    if (!this.sessionId) return;
+
+    this.isExporting = true;
+    try {
+      const { blob, filename } = (await this.sessionService.exportSessionArchive(this.sessionId).toPromise())!;
+
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+
+      this.snackBar.open(`Archiv ${filename} erstellt`, '', { duration: 3000 });
+    } catch (err) {
+      console.error('❌ Archiv-Export fehlgeschlagen:', err);
+      this.snackBar.open('Fehler beim Archiv-Export', '', { duration: 3000 });
+    } finally {
+      this.isExporting = false;
+      this.cdr.detectChanges();
+    }
+  }
+
   onEditObject(screenshotId: string, objectId: string) {
     // TODO: Query-Parameter für direkten Sprung zum Objekt
     this.router.navigate(['/stage5-shadows']);
@@ -0,0 +1,110 @@
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient, withInterceptors } from '@angular/common/http';
+import { provideRouter } from '@angular/router';
+import { firstValueFrom } from 'rxjs';
+
+import { ShadowPair, TimeReference } from '../../models/session.types';
+import { BackendConfigService } from '../../services/backend-config.service';
+import { MOCK_BACKEND, mockBackendInterceptor } from '../../services/backend-transport';
+import { InMemoryBackend } from '../../services/mock-backend';
+import { SESSION_STORE, MemorySessionStore } from '../../services/session-store';
+import { SessionService } from '../../services/session.service';
+import { loadTimeZoneRules } from '../../shared/time-zones';
+import { Stage7GeolocationComponent } from './stage7-geolocation.component';
+
+const REFERENCE: TimeReference = {
+  localDateTime: '2024-06-21T14:30:35',
+  timeZone: { kind: 'iana', zone: 'Europe/Berlin' }
+};
+
+// Schatten oberhalb des Objekts → Licht von "Süden"
+function pair(x: number): ShadowPair {
+  return {
+    objectPoint: { normalizedX: x, normalizedY: 0.6 },
+    shadowPoint: { normalizedX: x, normalizedY: 0.35, wall: 'floor' }
+  };
+}
+
+describe('Stage7GeolocationComponent', () => {
+  let backend: InMemoryBackend;
+  let service: SessionService;
+
+  beforeAll(() => loadTimeZoneRules());
+
+  beforeEach(() => {
+    backend = new InMemoryBackend({ streamDelayMs: 0 });
+    TestBed.configureTestingModule({
+      imports: [Stage7GeolocationComponent],
+      providers: [
+        provideRouter([]),
+        provideHttpClient(withInterceptors([mockBackendInterceptor])),
+        { provide: MOCK_BACKEND, useValue: backend },
+        { provide: SESSION_STORE, useValue: new MemorySessionStore() }
+      ]
+    });
+    TestBed.inject(BackendConfigService).set({ transport: 'mock' });
+    service = TestBed.inject(SessionService);
+  });
+
+  /** Schatten nur auf dem zweiten Screenshot (t0+90) - er wird vorausgewählt */
+  async function createSession(): Promise<string> {
+    const { sessionId } = await firstValueFrom(service.createSession({
+      projectName: 'Zeit',
+      cameraType: 'static',
+      screenshots: [
+        { id: 'ss1', filename: 'a.png', timestamp: 't0', isReferencePoint: true, offsetSeconds: 0 },
+        { id: 'ss2', filename: 'b.png', timestamp: 't0+90', isReferencePoint: false, offsetSeconds: 90 }
+      ],
+      timeReference: REFERENCE
+    }));
+
+    const session = await firstValueFrom(service.loadSession(sessionId));
+    session.shadows = [{ screenshotId: 'ss2', objects: [{ id: 'obj1', name: 'Stuhl', pairs: [pair(0.2), pair(0.3)] }] }];
+    await firstValueFrom(service.saveSession(sessionId, session));
+    service.setCurrentSessionId(sessionId);
+    return sessionId;
+  }
+
+  async function serverReference(sessionId: string): Promise<TimeReference | undefined> {
+    const response = await backend.handle({ method: 'GET', path: `/sessions/${sessionId}`, params: {}, body: null });
+    return (response.body as { timeReference?: TimeReference }).timeReference;
+  }
+
+  it('should leave the time reference unchanged by repeated calculations', async () => {
+    const sessionId = await createSession();
+    const stage = TestBed.createComponent(Stage7GeolocationComponent).componentInstance;
+    await stage.ngOnInit();
+
+    // Eingabe = Wanduhrzeit des gewählten Screenshots, sekundengenau
+    expect(stage.selectedScreenshotId).toBe('ss2');
+    expect(stage.timeInputMode).toBe('local');
+    expect(stage.timeZoneId).toBe('Europe/Berlin');
+    expect(stage.inputTime).toBe('14:32:05');
+    expect(stage.inputUtc).toMatchObject({ date: '2024-06-21', timeUtc: '12:32:05' });
+
+    await stage.calculateGeolocation();
+    expect(stage.result?.success).toBe(true);
+    await stage.calculateGeolocation();
+
+    expect(await serverReference(sessionId)).toEqual(REFERENCE);
+    expect(stage.timeReference).toEqual(REFERENCE);
+
+    // Wechsel auf t0: Eingabe folgt der Referenz
+    stage.selectedScreenshotId = 'ss1';
+    stage.onTimeInputContextChange();
+    expect(stage.inputTime).toBe('14:30:35');
+  });
+
+  it('should store an edited wall-clock time as the new t0', async () => {
+    const sessionId = await createSession();
+    const stage = TestBed.createComponent(Stage7GeolocationComponent).componentInstance;
+    await stage.ngOnInit();
+
+    stage.inputTime = '14:33:05';
+    stage.onTimeInputEdited();
+    await stage.calculateGeolocation();
+    await stage.calculateGeolocation();
+
+    expect(await serverReference(sessionId)).toEqual({ ...REFERENCE, localDateTime: '2024-06-21T14:31:35' });
+  });
+});
@@ -1,4 +1,4 @@
-import { Component, OnInit, ChangeDetectorRef } from '@angular/core';
+import { Component, OnInit, OnDestroy, ChangeDetectorRef } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
 import { Router } from '@angular/router';
@@ -13,10 +13,78 @@ import { MatDividerModule } from '@angular/material/divider';
 import { MatChipsModule } from '@angular/material/chips';
 import { MatTooltipModule } from '@angular/material/tooltip';
 import { MatSnackBar, MatSnackBarModule } from '@angular/material/snack-bar';
+import { MatButtonToggleModule } from '@angular/material/button-toggle';
+import { MatCheckboxModule } from '@angular/material/checkbox';
+import { MatMenuModule } from '@angular/material/menu';
+import { Subscription } from 'rxjs';
 
 import { SessionService } from '../../services/session.service';
-import { ApiService } from '../../services/api.service';
-import { SessionData } from '../../models/session.types';
+import { GeolocationSolverService } from '../../services/geolocation-solver.service';
+import { MapSettingsService } from '../../services/map-settings.service';
+import { OfflineMapComponent } from '../../shared/offline-map/offline-map.component';
+import { SessionData, TimeReference } from '../../models/session.types';
+import {
+  SolarPosition,
+  SolarPositionDeviation,
+  calculateSolarPosition,
+  compareSolarPositions,
+  parseUtcDateTime
+} from '../../shared/solar-position';
+import {
+  FusionFrame,
+  GeolocationFusionResult,
+  shiftUtcDateTime
+} from '../../shared/geolocation-fusion';
+import {
+  DateSweepResult,
+  TimeSweepResult,
+  fullYearRange
+} from '../../shared/geolocation-sweep';
+import { GeolocationExportFormat, exportGeolocation } from '../../shared/geolocation-export';
+import {
+  AbsoluteTime,
+  absoluteTime,
+  dstAssumptionLabel,
+  formatUtcOffset,
+  screenshotOffset,
+  sessionTimeReference
+} from '../../shared/session-time';
+import {
+  LocalTimeConversion,
+  LongitudeBand,
+  browserTimeZone,
+  candidateUtcOffsets,
+  listTimeZones,
+  localToUtc,
+  localToUtcWithOffset,
+  longitudeBandMatchesOffset,
+  nominalLongitudeBand
+} from '../../shared/time-zones';
+import { ApiDecodeError } from '../../shared/api-decoders';
+
+/**
+ * Lösung für eine Kandidaten-Abweichung (Zeitzone unbekannt)
+ */
+interface OffsetCandidateResult {
+  offsetMinutes: number;
+  label: string;
+
+  /** t0 in UTC bei dieser Abweichung */
+  date: string;
+  timeUtc: string;
+
+  success: boolean;
+  confidence: number | null;
+
+  /** Längengrad-Korridor der Lösung */
+  corridor: LongitudeBand | null;
+
+  /** Nominelles Band der Abweichung (Abweichung × 15° ± 7.5°) */
+  nominal: LongitudeBand;
+
+  /** Korridor liegt in der Nähe des nominellen Bands */
+  plausible: boolean;
+}
 
 interface GeolocationResult {
   success: boolean;
@@ -47,6 +115,17 @@ interface GeolocationResult {
   };
 }
 
+/**
+ * Jahres-Diagramm für die Sweep-Modi (x = Tage ab Beginn des Bereichs)
+ */
+interface SweepChart {
+  days: number;
+  months: Array<{ x: number; label: string }>;
+  latBars: Array<{ x: number; y: number; width: number; height: number; title: string }>;
+  lonBars: Array<{ x: number; y: number; width: number; height: number; title: string }>;
+  timePoints: Array<{ x: number; y: number; title: string }>;
+}
+
 @Component({
   selector: 'app-stage7-geolocation',
   standalone: true,
@@ -64,18 +143,40 @@ interface GeolocationResult {
     MatChipsModule,
     MatTooltipModule,
     MatSnackBarModule,
+    MatButtonToggleModule,
+    MatCheckboxModule,
+    MatMenuModule,
+    OfflineMapComponent,
   ],
   templateUrl: './stage7-geolocation.component.html',
   styleUrls: ['./stage7-geolocation.component.scss'],
 })
-export class Stage7GeolocationComponent implements OnInit {
+export class Stage7GeolocationComponent implements OnInit, OnDestroy {
   sessionId: string | null = null;
   sessionData: SessionData | null = null;
+  timeReference: TimeReference | null = null;
+
+  // Modus: ein Screenshot, Fusion aller Screenshots der Timeline,
+  // unbekanntes Datum (Datums-Sweep) oder unbekannte Uhrzeit (Zeit-Sweep)
+  mode: 'single' | 'fusion' | 'date-sweep' | 'time-sweep' = 'single';
 
   // Eingabe-Felder
   selectedScreenshotId: string = '';
   inputDate: string = '';  // YYYY-MM-DD
-  inputTime: string = '';  // HH:MM
+  inputTime: string = '';  // HH:MM oder HH:MM:SS
+
+  // Offset (Sekunden ab t0) des Zeitpunkts, den die Eingabe beschreibt:
+  // gewählter Screenshot, in der Fusion t0. Eigene Änderungen an Datum,
+  // Uhrzeit oder Zone werden beim nächsten Rechnen in die Session übernommen.
+  private inputOffsetSeconds = 0;
+  private timeInputEdited = false;
+
+  // Zeitangabe für Einzel-Screenshot und Fusion: UTC, Lokalzeit + IANA-Zone
+  // oder Lokalzeit mit unbekannter Zone (alle Abweichungen durchprobieren)
+  timeInputMode: 'utc' | 'local' | 'unknown' = 'utc';
+  timeZoneId = browserTimeZone();
+  readonly timeZones = listTimeZones();
+
   hemisphere: 'north' | 'south' = 'north';
   roomOrientation: number = 0;  // 0=Nord, 90=Ost, 180=Süd, 270=West
 
@@ -83,15 +184,63 @@ export class Stage7GeolocationComponent implements OnInit {
   isCalculating = false;
   result: GeolocationResult | null = null;
 
+  // Offline-Sonnenstand am besten Standort (Gegenprobe zum Backend)
+  localSunPosition: SolarPosition | null = null;
+  localSunDeviation: SolarPositionDeviation | null = null;
+
+  // Offline-Solver (Web Worker) als Gegenprobe zum Backend-Korridor
+  isSolvingLocally = false;
+  localResult: GeolocationResult | null = null;
+  localToleranceDeg = 2;
+
+  // Zeitzone unbekannt: eine Lösung pro Kandidaten-Abweichung
+  offsetCandidates: OffsetCandidateResult[] | null = null;
+  offsetCandidateProgress = 0;
+
+  // Multi-Screenshot-Fusion
+  fusionResult: GeolocationFusionResult | null = null;
+  fusionFrameResults = new Map<string, GeolocationResult>();
+
+  // Sweep: Datumsbereich (oder ganzes Jahr, wenn das Datum völlig unbekannt ist)
+  sweepWholeYear = true;
+  sweepYear = new Date().getUTCFullYear();
+  sweepDateFrom = '';
+  sweepDateTo = '';
+  sweepStepDays = 2;
+  sweepStepMinutes = 5;
+
+  // Zeit-Sweep: bekannter Ort
+  knownLatitude: number | null = null;
+  knownLongitude: number | null = null;
+
+  dateSweepResult: DateSweepResult | null = null;
+  timeSweepResult: TimeSweepResult | null = null;
+  sweepChart: SweepChart | null = null;
+
+  // Offline-Karte: optionaler lokaler Tile-Server
+  mapTileUrl: string | null = null;
+  mapTileUrlInput = '';
+
+  // Laufende Offline-Gegenprobe (Abbestellen beendet den Worker)
+  private localSolve: Subscription | null = null;
+
   constructor(
     private sessionService: SessionService,
-    private apiService: ApiService,
+    private geolocationSolver: GeolocationSolverService,
+    private mapSettings: MapSettingsService,
     private router: Router,
     private snackBar: MatSnackBar,
     private cdr: ChangeDetectorRef
   ) { }
 
+  ngOnDestroy() {
+    this.localSolve?.unsubscribe();
+  }
+
   async ngOnInit() {
+    this.mapTileUrl = this.mapSettings.getTileUrl();
+    this.mapTileUrlInput = this.mapTileUrl ?? '';
+
     this.sessionId = this.sessionService.getCurrentSessionId();
 
     if (!this.sessionId) {
@@ -112,6 +261,11 @@ export class Stage7GeolocationComponent implements OnInit {
       const today = new Date();
       this.inputDate = today.toISOString().split('T')[0];
       this.inputTime = '12:00';
+      this.inputOffsetSeconds = this.inputTargetOffset;
+      this.timeReference = sessionTimeReference(this.sessionData);
+      this.prefillFromTimeReference();
+      this.sweepDateFrom = `${this.sweepYear}-01-01`;
+      this.sweepDateTo = today.toISOString().split('T')[0];
 
       this.cdr.detectChanges();
     } catch (err) {
@@ -120,10 +274,135 @@ export class Stage7GeolocationComponent implements OnInit {
     }
   }
 
+  /**
+   * Datum/Uhrzeit von t0 aus der Referenzzeit der Session. Ohne Zone ist
+   * nur die Wanduhrzeit der Kamera bekannt - dann werden alle
+   * UTC-Abweichungen durchprobiert.
+   */
+  private prefillFromTimeReference() {
+    const t0 = this.referenceTime;
+    if (!t0) return;
+
+    // Gespeicherte IANA-Zone: Wanduhrzeit in dieser Zone eingeben
+    const zone = this.timeReference!.timeZone;
+    if (zone.kind === 'iana') {
+      this.timeInputMode = 'local';
+      this.timeZoneId = zone.zone;
+    }
+    if (!t0.utc) this.timeInputMode = 'unknown';
+
+    this.fillInputFromReference();
+    console.log('🕒 t0 aus Session-Zeit:', t0);
+
+    if (!t0.utc) {
+      this.snackBar.open(
+        'Datum/Uhrzeit aus den Screenshots übernommen - Zeitzone unbekannt, alle UTC-Abweichungen werden geprüft',
+        'OK',
+        { duration: 6000 }
+      );
+    }
+  }
+
+  /**
+   * Eingabe = Zeitpunkt des gewählten Screenshots (Fusion: t0) aus der
+   * Referenzzeit, sekundengenau
+   */
+  private fillInputFromReference() {
+    const offsetSeconds = this.inputTargetOffset;
+    const time = this.timeReference ? absoluteTime(this.timeReference, offsetSeconds) : null;
+    const instant = this.inputIsUtc ? time?.utc : time?.local;
+    if (!instant) return;
+
+    this.inputDate = instant.slice(0, 10);
+    this.inputTime = instant.slice(11, 19);
+    this.inputOffsetSeconds = offsetSeconds;
+  }
+
+  onTimeInputEdited() {
+    this.timeInputEdited = true;
+  }
+
+  /**
+   * Screenshot, Modus oder Zeitangabe gewechselt: Eingabe neu aus der
+   * Referenzzeit, eigene Eingaben um die Offset-Differenz verschieben
+   */
+  onTimeInputContextChange() {
+    if (this.timeReference && !this.timeInputEdited) {
+      this.fillInputFromReference();
+      return;
+    }
+
+    const target = this.inputTargetOffset;
+    if (target !== this.inputOffsetSeconds && this.inputDate && this.inputTime) {
+      const shifted = shiftUtcDateTime(this.inputDate, this.inputTime, target - this.inputOffsetSeconds);
+      this.inputDate = shifted.date;
+      this.inputTime = shifted.timeUtc;
+    }
+    this.inputOffsetSeconds = target;
+  }
+
   // ==========================================================================
   // GETTERS
   // ==========================================================================
 
+  /** Offset des Zeitpunkts, den die Eingabe beschreiben soll */
+  private get inputTargetOffset(): number {
+    if (this.mode === 'fusion') return 0;
+    const screenshot = this.sessionData?.screenshots.find(ss => ss.id === this.selectedScreenshotId);
+    return screenshot ? screenshotOffset(screenshot) : 0;
+  }
+
+  /** Uhrzeit-Eingabe in UTC (sonst Wanduhrzeit der Kamera) */
+  private get inputIsUtc(): boolean {
+    return this.timeInputMode === 'utc' || (this.mode !== 'single' && this.mode !== 'fusion');
+  }
+
+  /** t0 lokal / UTC / Sommerzeit-Annahme (null = keine absolute Zeit in der Session) */
+  get referenceTime(): AbsoluteTime | null {
+    return this.timeReference ? absoluteTime(this.timeReference) : null;
+  }
+
+  /** Umrechnung der Lokalzeit (nur bei Lokalzeit + Zeitzone) */
+  get localConversion(): LocalTimeConversion | null {
+    if (this.timeInputMode !== 'local' || !this.inputDate || !this.inputTime) return null;
+    return localToUtc(this.inputDate, this.inputTime, this.timeZoneId);
+  }
+
+  /** "UTC+02:00 · Sommerzeit angenommen" */
+  get localConversionLabel(): string {
+    const conversion = this.localConversion;
+    if (!conversion) return '';
+
+    const zone = { kind: 'offset' as const, offsetMinutes: conversion.offsetMinutes, dst: conversion.dst };
+    return `${formatUtcOffset(conversion.offsetMinutes)} · ${dstAssumptionLabel(zone)}`;
+  }
+
+  /**
+   * Eingabe als UTC-Zeitpunkt (null bei unbekannter Zone oder ungültiger Eingabe)
+   */
+  get inputUtc(): { date: string; timeUtc: string } | null {
+    if (!this.inputDate || !this.inputTime) return null;
+    if (this.timeInputMode === 'unknown') return null;
+    if (this.timeInputMode === 'local') return this.localConversion;
+    return { date: this.inputDate, timeUtc: this.inputTime };
+  }
+
+  get timeInputLabel(): string {
+    const prefix = this.mode === 'fusion' ? 'Uhrzeit t0' : 'Uhrzeit';
+    return this.inputIsUtc
+      ? `${prefix} (UTC)`
+      : `${prefix} (Lokalzeit)`;
+  }
+
+  /** Kandidaten, deren Längengrad-Band zur Abweichung passt */
+  get plausibleOffsetCandidates(): OffsetCandidateResult[] {
+    return (this.offsetCandidates ?? []).filter(candidate => candidate.plausible);
+  }
+
+  get unsolvedOffsetCount(): number {
+    return (this.offsetCandidates ?? []).filter(candidate => !candidate.success).length;
+  }
+
   get projectName(): string {
     return this.sessionData?.meta.projectName || 'Unbenanntes Projekt';
   }
@@ -136,17 +415,77 @@ export class Stage7GeolocationComponent implements OnInit {
       return {
         id: shadow.screenshotId,
         timestamp: screenshot?.timestamp || 't0+?',
+        offsetSeconds: screenshot ? screenshotOffset(screenshot) : 0,
         objectCount: shadow.objects.length,
         pairCount: shadow.objects.reduce((sum, obj) => sum + obj.pairs.length, 0)
       };
     });
   }
 
+  /**
+   * Screenshots für die Fusion: mit Schatten-Daten und (falls Stage 6
+   * Ergebnisse gespeichert hat) gültiger Validierung
+   */
+  get fusionScreenshots() {
+    const validation = this.sessionData?.validation;
+
+    return this.availableScreenshots
+      .filter(ss => ss.pairCount > 0)
+      .filter(ss => {
+        if (!validation) return true;
+        const status = validation.screenshots.find(v => v.screenshotId === ss.id)?.status;
+        return status === 'valid' || status === 'warning';
+      })
+      .map(ss => ({
+        ...ss,
+        local: this.timeReference ? absoluteTime(this.timeReference, ss.offsetSeconds)?.local ?? null : null,
+        utc: this.inputUtc
+          ? shiftUtcDateTime(this.inputUtc.date, this.inputUtc.timeUtc, ss.offsetSeconds)
+          : null
+      }))
+      .sort((a, b) => a.offsetSeconds - b.offsetSeconds);
+  }
+
+  /**
+   * Datumsbereich für die Sweep-Modi
+   */
+  get sweepRange(): { dateFrom: string; dateTo: string } | null {
+    if (this.sweepWholeYear) {
+      return this.sweepYear ? fullYearRange(this.sweepYear) : null;
+    }
+    if (!this.sweepDateFrom || !this.sweepDateTo || this.sweepDateFrom > this.sweepDateTo) {
+      return null;
+    }
+    return { dateFrom: this.sweepDateFrom, dateTo: this.sweepDateTo };
+  }
+
   get canCalculate(): boolean {
+    const timeKnown = !!(this.inputDate && this.inputTime && (this.timeInputMode === 'unknown' || this.inputUtc));
+
+    if (this.mode === 'fusion') {
+      return this.fusionScreenshots.length >= 2 && timeKnown;
+    }
+
+    if (this.mode === 'date-sweep') {
+      return !!(this.selectedScreenshotId && this.sweepRange && this.inputTime && this.sweepStepDays >= 1);
+    }
+
+    if (this.mode === 'time-sweep') {
+      return !!(
+        this.selectedScreenshotId &&
+        this.sweepRange &&
+        this.knownLatitude !== null &&
+        this.knownLongitude !== null &&
+        Math.abs(this.knownLatitude) <= 90 &&
+        Math.abs(this.knownLongitude) <= 180 &&
+        this.sweepStepDays >= 1 &&
+        this.sweepStepMinutes >= 1
+      );
+    }
+
     return !!(
       this.selectedScreenshotId &&
-      this.inputDate &&
-      this.inputTime &&
+      timeKnown &&
       this.hemisphere
     );
   }
@@ -161,22 +500,38 @@ export class Stage7GeolocationComponent implements OnInit {
   // ==========================================================================
 
   async calculateGeolocation() {
-    if (!this.canCalculate || !this.sessionId) return;
+    if ((this.mode === 'single' || this.mode === 'fusion') && this.timeInputMode === 'unknown') {
+      return this.calculateOffsetCandidates();
+    }
+    if (this.mode === 'fusion') {
+      return this.calculateFusion();
+    }
+    if (this.mode === 'date-sweep' || this.mode === 'time-sweep') {
+      return this.calculateSweep();
+    }
+
+    const utc = this.inputUtc;
+    if (!this.canCalculate || !this.sessionId || !utc) return;
 
     this.isCalculating = true;
     this.result = null;
+    this.offsetCandidates = null;
+    this.localSunPosition = null;
+    this.localSunDeviation = null;
+    this.localResult = null;
 
     try {
-      const response = await this.apiService.calculateGeolocation(
+      const response = await this.sessionService.calculateGeolocation(
         this.sessionId,
         this.selectedScreenshotId,
-        this.inputDate,
-        this.inputTime,
+        utc.date,
+        utc.timeUtc,
         this.hemisphere,
         this.roomOrientation
       ).toPromise();
 
       this.result = response as GeolocationResult;
+      this.updateLocalSunPosition();
 
       if (this.result?.success) {
         this.snackBar.open(
@@ -184,6 +539,8 @@ export class Stage7GeolocationComponent implements OnInit {
           'OK',
           { duration: 5000 }
         );
+        this.crossCheckLocally();
+        this.persistTimeZone();
       } else {
         this.snackBar.open(
           this.result?.message || 'Berechnung fehlgeschlagen',
@@ -193,17 +550,453 @@ export class Stage7GeolocationComponent implements OnInit {
       }
     } catch (err) {
       console.error('Geolocation-Fehler:', err);
-      this.snackBar.open('Fehler bei der Berechnung', '', { duration: 3000 });
+      this.showCalculationError(err, 'Fehler bei der Berechnung');
+    } finally {
+      this.isCalculating = false;
+      this.cdr.detectChanges();
+    }
+  }
+
+  /**
+   * Multi-Screenshot-Fusion:
+   * 1. Lichtrichtung pro Frame vom Backend (Zeit = Referenz + Offset)
+   * 2. Gemeinsame Grid-Suche über alle Frames im Web Worker
+   */
+  async calculateFusion() {
+    if (!this.canCalculate || !this.sessionId) return;
+
+    this.isCalculating = true;
+    this.result = null;
+    this.offsetCandidates = null;
+    this.fusionResult = null;
+    this.fusionFrameResults.clear();
+
+    try {
+      const frames: FusionFrame[] = [];
+
+      for (const ss of this.fusionScreenshots) {
+        const utc = ss.utc!;
+        const response = await this.sessionService.calculateGeolocation(
+          this.sessionId,
+          ss.id,
+          utc.date,
+          utc.timeUtc,
+          this.hemisphere,
+          this.roomOrientation
+        ).toPromise();
+
+        if (!response?.success || !response.data) {
+          console.warn(`⚠️ Screenshot ${ss.id} ohne Lichtrichtung:`, response?.message);
+          continue;
+        }
+
+        this.fusionFrameResults.set(ss.id, response);
+        frames.push({
+          screenshotId: ss.id,
+          timestamp: ss.timestamp,
+          date: utc.date,
+          timeUtc: utc.timeUtc,
+          lightAzimuth: response.data.shadow_analysis.light_azimuth,
+          lightElevation: response.data.shadow_analysis.light_elevation
+        });
+      }
+
+      this.fusionResult = await this.geolocationSolver.solveFusion({
+        frames,
+        roomOrientation: this.roomOrientation,
+        hemisphere: this.hemisphere,
+        errorDeg: this.localToleranceDeg
+      }).toPromise() ?? null;
+
+      if (this.fusionResult?.success) {
+        this.snackBar.open(
+          `✓ Fusion aus ${frames.length} Screenshots! Confidence: ${this.fusionResult.data?.confidence.toFixed(0)}%`,
+          'OK',
+          { duration: 5000 }
+        );
+        this.persistTimeZone();
+      } else {
+        this.snackBar.open(this.fusionResult?.message || 'Fusion fehlgeschlagen', '', { duration: 4000 });
+      }
+    } catch (err) {
+      console.error('Fusion-Fehler:', err);
+      this.showCalculationError(err, 'Fehler bei der Fusion');
+    } finally {
+      this.isCalculating = false;
+      this.cdr.detectChanges();
+    }
+  }
+
+  /**
+   * Geänderte Lokalzeit/IANA-Zone als Referenzzeit der Session speichern.
+   * Gespeichert wird die Wanduhrzeit von t0 (Eingabe minus Offset des
+   * Zeitpunkts, den sie beschreibt) - unveränderte Eingaben bleiben unberührt.
+   */
+  private async persistTimeZone() {
+    if (!this.timeInputEdited || this.timeInputMode !== 'local' || !this.localConversion) return;
+    if (!this.sessionId || !this.sessionData) return;
+
+    const t0 = shiftUtcDateTime(this.inputDate, this.inputTime, -this.inputOffsetSeconds);
+    const reference: TimeReference = {
+      localDateTime: `${t0.date}T${t0.timeUtc}`,
+      timeZone: { kind: 'iana', zone: this.timeZoneId }
+    };
+
+    this.timeInputEdited = false;
+    if (JSON.stringify(reference) === JSON.stringify(this.sessionData.timeReference)) return;
+
+    this.sessionData.timeReference = reference;
+    this.timeReference = reference;
+    try {
+      await this.sessionService.saveSession(this.sessionId, this.sessionData).toPromise();
+      console.log('🕒 Zeitzone in Session gespeichert:', reference);
+    } catch (err) {
+      console.error('❌ Zeitzone nicht gespeichert:', err);
+      this.snackBar.open('Zeitzone konnte nicht in der Session gespeichert werden', '', { duration: 4000 });
+    }
+  }
+
+  /**
+   * Zeitzone unbekannt:
+   * 1. Lichtrichtung einmalig vom Backend (hängt nicht vom Zeitpunkt ab)
+   * 2. Pro Kandidaten-Abweichung ein eigener Lauf im Web Worker
+   *    (Einzel-Screenshot oder Fusion), Längengrad-Band gegen die Abweichung prüfen
+   */
+  async calculateOffsetCandidates() {
+    if (!this.canCalculate || !this.sessionId) return;
+
+    this.isCalculating = true;
+    this.result = null;
+    this.fusionResult = null;
+    this.offsetCandidates = null;
+    this.offsetCandidateProgress = 0;
+
+    try {
+      const screenshots = this.mode === 'fusion'
+        ? this.fusionScreenshots
+        : this.availableScreenshots.filter(ss => ss.id === this.selectedScreenshotId);
+
+      const lights: Array<{
+        screenshotId: string;
+        timestamp: string;
+        offsetSeconds: number;
+        lightAzimuth: number;
+        lightElevation: number;
+        interObjectScore?: number;
+      }> = [];
+
+      for (const ss of screenshots) {
+        const response = await this.sessionService.calculateGeolocation(
+          this.sessionId,
+          ss.id,
+          this.inputDate,
+          this.inputTime,
+          this.hemisphere,
+          this.roomOrientation
+        ).toPromise();
+
+        const analysis = response?.data?.shadow_analysis;
+        if (!analysis) {
+          console.warn(`⚠️ Screenshot ${ss.id} ohne Lichtrichtung:`, response?.message);
+          continue;
+        }
+
+        lights.push({
+          screenshotId: ss.id,
+          timestamp: ss.timestamp,
+          offsetSeconds: ss.offsetSeconds,
+          lightAzimuth: analysis.light_azimuth,
+          lightElevation: analysis.light_elevation,
+          interObjectScore: analysis.inter_object_score
+        });
+      }
+
+      if (lights.length === 0) {
+        this.snackBar.open('Keine Lichtrichtung vom Backend', '', { duration: 4000 });
+        return;
+      }
+
+      const offsets = candidateUtcOffsets();
+      const candidates: OffsetCandidateResult[] = [];
+
+      for (const offsetMinutes of offsets) {
+        const t0 = localToUtcWithOffset(this.inputDate, this.inputTime, offsetMinutes);
+        if (!t0) continue;
+
+        const response = this.mode === 'fusion'
+          ? await this.geolocationSolver.solveFusion({
+            frames: lights.map(light => ({
+              screenshotId: light.screenshotId,
+              timestamp: light.timestamp,
+              ...shiftUtcDateTime(t0.date, t0.timeUtc, light.offsetSeconds),
+              lightAzimuth: light.lightAzimuth,
+              lightElevation: light.lightElevation
+            })),
+            roomOrientation: this.roomOrientation,
+            hemisphere: this.hemisphere,
+            errorDeg: this.localToleranceDeg
+          }).toPromise()
+          : await this.geolocationSolver.solve({
+            lightAzimuth: lights[0].lightAzimuth,
+            lightElevation: lights[0].lightElevation,
+            interObjectScore: lights[0].interObjectScore,
+            roomOrientation: this.roomOrientation,
+            date: t0.date,
+            timeUtc: t0.timeUtc,
+            hemisphere: this.hemisphere,
+            errorDeg: this.localToleranceDeg
+          }).toPromise();
+
+        const corridor = response?.success && response.data
+          ? { lonMin: response.data.corridor.lon_min, lonMax: response.data.corridor.lon_max }
+          : null;
+
+        candidates.push({
+          offsetMinutes,
+          label: formatUtcOffset(offsetMinutes),
+          ...t0,
+          success: !!corridor,
+          confidence: response?.data?.confidence ?? null,
+          corridor,
+          nominal: nominalLongitudeBand(offsetMinutes),
+          plausible: !!corridor && longitudeBandMatchesOffset(corridor, offsetMinutes)
+        });
+
+        this.offsetCandidateProgress = (candidates.length / offsets.length) * 100;
+        this.cdr.detectChanges();
+      }
+
+      this.offsetCandidates = candidates;
+      console.log('🌐 Kandidaten je UTC-Abweichung:', candidates);
+
+      this.snackBar.open(
+        `${this.plausibleOffsetCandidates.length} von ${candidates.filter(c => c.success).length} Lösungen passen zu ihrer UTC-Abweichung`,
+        'OK',
+        { duration: 5000 }
+      );
+    } catch (err) {
+      console.error('Zeitzonen-Kandidaten-Fehler:', err);
+      this.showCalculationError(err, 'Fehler bei der Berechnung');
     } finally {
       this.isCalculating = false;
       this.cdr.detectChanges();
     }
   }
 
+  /**
+   * Unbekanntes Datum bzw. unbekannte Uhrzeit:
+   * 1. Lichtrichtung einmalig vom Backend (hängt nicht vom Zeitpunkt ab)
+   * 2. Sweep über den Datumsbereich im Web Worker
+   */
+  async calculateSweep() {
+    const range = this.sweepRange;
+    if (!this.canCalculate || !this.sessionId || !range) return;
+
+    this.isCalculating = true;
+    this.result = null;
+    this.dateSweepResult = null;
+    this.timeSweepResult = null;
+    this.sweepChart = null;
+
+    try {
+      const response = await this.sessionService.calculateGeolocation(
+        this.sessionId,
+        this.selectedScreenshotId,
+        range.dateFrom,
+        this.mode === 'date-sweep' ? this.inputTime : '12:00',
+        this.hemisphere,
+        this.roomOrientation
+      ).toPromise();
+
+      const analysis = response?.data?.shadow_analysis;
+      if (!analysis) {
+        this.snackBar.open(response?.message || 'Keine Lichtrichtung vom Backend', '', { duration: 4000 });
+        return;
+      }
+
+      const base = {
+        lightAzimuth: analysis.light_azimuth,
+        lightElevation: analysis.light_elevation,
+        roomOrientation: this.roomOrientation,
+        errorDeg: this.localToleranceDeg,
+        dateFrom: range.dateFrom,
+        dateTo: range.dateTo,
+        stepDays: this.sweepStepDays
+      };
+
+      let message: string;
+
+      if (this.mode === 'date-sweep') {
+        this.dateSweepResult = await this.geolocationSolver.sweepDates({
+          ...base,
+          timeUtc: this.inputTime,
+          hemisphere: this.hemisphere
+        }).toPromise() ?? null;
+        message = this.dateSweepResult?.message ?? 'Datums-Sweep fehlgeschlagen';
+      } else {
+        this.timeSweepResult = await this.geolocationSolver.sweepTimes({
+          ...base,
+          latitude: this.knownLatitude!,
+          longitude: this.knownLongitude!,
+          stepMinutes: this.sweepStepMinutes
+        }).toPromise() ?? null;
+        message = this.timeSweepResult?.message ?? 'Zeit-Sweep fehlgeschlagen';
+      }
+
+      this.sweepChart = this.buildSweepChart(range);
+      console.log('📅 Sweep:', this.dateSweepResult ?? this.timeSweepResult);
+      this.snackBar.open(message, 'OK', { duration: 5000 });
+    } catch (err) {
+      console.error('Sweep-Fehler:', err);
+      this.showCalculationError(err, 'Fehler beim Sweep');
+    } finally {
+      this.isCalculating = false;
+      this.cdr.detectChanges();
+    }
+  }
+
+  /**
+   * Baut das Jahres-Diagramm aus dem aktuellen Sweep-Ergebnis.
+   * Breitengrad: y = 90 - lat (0..180), Längengrad: y = 180 - lon (0..360),
+   * Uhrzeit: y = Minuten seit 00:00 UTC (0..1440)
+   */
+  private buildSweepChart(range: { dateFrom: string; dateTo: string }): SweepChart {
+    const start = parseUtcDateTime(range.dateFrom, '00:00').getTime();
+    const dayIndex = (date: string) => Math.round((parseUtcDateTime(date, '00:00').getTime() - start) / 86400000);
+    const days = dayIndex(range.dateTo) + 1;
+
+    const months: SweepChart['months'] = [];
+    for (let x = 0; x < days; x++) {
+      const date = new Date(start + x * 86400000);
+      if (date.getUTCDate() === 1) {
+        months.push({ x, label: date.toLocaleDateString('de-DE', { month: 'short', timeZone: 'UTC' }) });
+      }
+    }
+
+    const chart: SweepChart = { days, months, latBars: [], lonBars: [], timePoints: [] };
+    const width = this.sweepStepDays;
+
+    for (const entry of this.dateSweepResult?.entries ?? []) {
+      const c = entry.corridor;
+      if (!c) continue;
+
+      const x = dayIndex(entry.date);
+      const title = `${entry.date}: ${this.formatCoordinates(c.lat_center, c.lon_center)}`;
+
+      chart.latBars.push({ x, y: 90 - c.lat_max, width, height: Math.max(c.lat_max - c.lat_min, 0.5), title });
+
+      // Korridor über die Datumsgrenze → zwei Balken
+      const lonRanges = c.lon_min <= c.lon_max
+        ? [[c.lon_min, c.lon_max]]
+        : [[c.lon_min, 180], [-180, c.lon_max]];
+      for (const [min, max] of lonRanges) {
+        chart.lonBars.push({ x, y: 180 - max, width, height: Math.max(max - min, 0.5), title });
+      }
+    }
+
+    for (const entry of this.timeSweepResult?.entries ?? []) {
+      const x = dayIndex(entry.date);
+      for (const time of entry.times) {
+        const [h, m] = time.split(':').map(Number);
+        chart.timePoints.push({ x, y: h * 60 + m, title: `${entry.date} ${time} UTC` });
+      }
+    }
+
+    return chart;
+  }
+
+  /**
+   * Berechnet den Sonnenstand am besten Standort lokal (offline)
+   * und vergleicht ihn mit den Backend-Werten
+   */
+  private updateLocalSunPosition() {
+    const location = this.bestLocation;
+    const utc = this.inputUtc;
+    if (!location || !this.result?.data || !utc) return;
+
+    try {
+      const instant = parseUtcDateTime(utc.date, utc.timeUtc);
+      this.localSunPosition = calculateSolarPosition(location.latitude, location.longitude, instant);
+
+      const backend = this.result.data.sun_position;
+      this.localSunDeviation = compareSolarPositions(this.localSunPosition, {
+        azimuth: backend.calculated_azimuth,
+        elevation: backend.calculated_elevation
+      });
+
+      if (this.localSunDeviation.angularDistance > 0.5) {
+        console.warn('⚠️ Sonnenstand weicht vom Backend ab:', this.localSunDeviation);
+      }
+    } catch (err) {
+      console.error('Lokale Sonnenstand-Berechnung fehlgeschlagen:', err);
+    }
+  }
+
+  /**
+   * Rechnet den Korridor mit dem Client-Solver nach (Web Worker)
+   */
+  crossCheckLocally() {
+    const analysis = this.result?.data?.shadow_analysis;
+    const utc = this.inputUtc;
+    if (!analysis || !utc) return;
+
+    this.isSolvingLocally = true;
+
+    this.localSolve?.unsubscribe();
+    this.localSolve = this.geolocationSolver.solve({
+      lightAzimuth: analysis.light_azimuth,
+      lightElevation: analysis.light_elevation,
+      interObjectScore: analysis.inter_object_score,
+      roomOrientation: this.roomOrientation,
+      date: utc.date,
+      timeUtc: utc.timeUtc,
+      hemisphere: this.hemisphere,
+      errorDeg: this.localToleranceDeg
+    }).subscribe({
+      next: (response) => {
+        this.localResult = response;
+        console.log('🧮 Lokale Geolocation:', response);
+      },
+      error: (err) => {
+        console.error('Lokale Geolocation fehlgeschlagen:', err);
+        this.snackBar.open('Offline-Gegenprobe fehlgeschlagen', '', { duration: 3000 });
+        this.isSolvingLocally = false;
+        this.cdr.detectChanges();
+      },
+      complete: () => {
+        this.isSolvingLocally = false;
+        this.cdr.detectChanges();
+      }
+    });
+  }
+
+  /**
+   * Abstand zwischen Backend- und lokalem Korridor-Zentrum in km
+   */
+  get corridorCenterDistanceKm(): number | null {
+    const backend = this.result?.data?.corridor;
+    const local = this.localResult?.data?.corridor;
+    if (!backend || !local) return null;
+
+    return this.distanceKm(backend.lat_center, backend.lon_center, local.lat_center, local.lon_center);
+  }
+
   // ==========================================================================
   // HELPERS
   // ==========================================================================
 
+  /**
+   * Großkreis-Abstand (Haversine) in km
+   */
+  distanceKm(lat1: number, lon1: number, lat2: number, lon2: number): number {
+    const rad = Math.PI / 180;
+    const dLat = (lat2 - lat1) * rad;
+    const dLon = (lon2 - lon1) * rad;
+    const a = Math.sin(dLat / 2) ** 2 +
+      Math.cos(lat1 * rad) * Math.cos(lat2 * rad) * Math.sin(dLon / 2) ** 2;
+    return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  }
+
   formatCoordinates(lat: number, lon: number): string {
     const latDir = lat >= 0 ? 'N' : 'S';
     const lonDir = lon >= 0 ? 'E' : 'W';
@@ -222,18 +1015,6 @@ export class Stage7GeolocationComponent implements OnInit {
     return `${toDMS(lat, true)}, ${toDMS(lon, false)}`;
   }
 
-  getGoogleMapsUrl(lat: number, lon: number): string {
-    return `https://www.google.com/maps?q=${lat},${lon}&z=10`;
-  }
-
-  getOpenStreetMapUrl(lat: number, lon: number): string {
-    return `https://www.openstreetmap.org/?mlat=${lat}&mlon=${lon}#map=10/${lat}/${lon}`;
-  }
-
-  getGoogleMapsEmbedUrl(lat: number, lon: number): string {
-    return `https://www.google.com/maps/embed?pb=!1m14!1m12!1m3!1d50000!2d${lon}!3d${lat}!2m3!1f0!2f0!3f0!3m2!1i1024!2i768!4f13.1!5e0!3m2!1sde!2sde`;
-  }
-
   getConfidenceColor(confidence: number): string {
     if (confidence >= 80) return 'primary';
     if (confidence >= 50) return 'accent';
@@ -255,9 +1036,43 @@ export class Stage7GeolocationComponent implements OnInit {
     this.router.navigate(['/stage6-summary']);
   }
 
-  openInMaps() {
-    if (!this.bestLocation) return;
-    window.open(this.getGoogleMapsUrl(this.bestLocation.latitude, this.bestLocation.longitude), '_blank');
+  /**
+   * Übernimmt den lokalen Tile-Server (leer = nur Offline-Basiskarte)
+   */
+  saveMapTileUrl() {
+    try {
+      this.mapSettings.setTileUrl(this.mapTileUrlInput);
+      this.mapTileUrl = this.mapSettings.getTileUrl();
+      this.snackBar.open(this.mapTileUrl ? 'Tile-Server gespeichert' : 'Offline-Basiskarte aktiv', '', { duration: 2000 });
+    } catch (err) {
+      this.snackBar.open((err as Error).message, '', { duration: 3000 });
+    }
+  }
+
+  /**
+   * Exportiert das vollständige Ergebnis inkl. Session-Metadaten
+   */
+  exportResult(format: GeolocationExportFormat) {
+    if (!this.result?.data || !this.sessionId) return;
+
+    const file = exportGeolocation(format, this.result.data, {
+      projectName: this.projectName,
+      sessionId: this.sessionId,
+      screenshotIds: [this.selectedScreenshotId],
+      date: this.inputUtc?.date ?? this.inputDate,
+      timeUtc: this.inputUtc?.timeUtc ?? this.inputTime,
+      hemisphere: this.hemisphere,
+      exportedAt: new Date().toISOString()
+    });
+
+    const url = URL.createObjectURL(new Blob([file.content], { type: file.mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = file.filename;
+    link.click();
+    URL.revokeObjectURL(url);
+
+    console.log('📤 Export:', file.filename);
   }
 
   copyCoordinates() {
@@ -267,4 +1082,15 @@ export class Stage7GeolocationComponent implements OnInit {
       this.snackBar.open('Koordinaten kopiert!', '', { duration: 2000 });
     });
   }
+
+  /**
+   * Schema-Fehler der Backend-Antwort im Klartext, sonst allgemeine Meldung
+   */
+  private showCalculationError(err: unknown, fallback: string) {
+    if (err instanceof ApiDecodeError) {
+      this.snackBar.open(err.message, 'OK', { duration: 8000 });
+    } else {
+      this.snackBar.open(fallback, '', { duration: 3000 });
+    }
+  }
 }